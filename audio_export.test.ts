@@ -0,0 +1,431 @@
+/**
+ * @fileoverview Tests for the FLAC encoder, decoding its output with a
+ * minimal reader for the subset of the format it writes.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {describe, expect, it} from 'vitest';
+
+import {encodeFlac} from './audio_export';
+import type {Recording} from './recorder';
+
+function createRecording(
+  pcm: Int16Array,
+  numChannels = 2,
+  sampleRate = 48000,
+): Recording {
+  return {
+    pcm,
+    sampleRate,
+    numChannels,
+    startedAt: new Date('2026-01-01T12:00:00Z'),
+    endedAt: new Date('2026-01-01T12:01:00Z'),
+    events: [
+      {
+        time: 0,
+        prompts: [{text: 'Funk', weight: 1}],
+        config: {bpm: 120, seed: 42},
+      },
+      {time: 30, prompts: [{text: 'Dub', weight: 0.5}], config: {bpm: 120}},
+    ],
+  };
+}
+
+/** Samples from a seeded generator, so failures reproduce. */
+function noise(length: number, amplitude: number, seed = 1) {
+  const pcm = new Int16Array(length);
+  let state = seed;
+  for (let i = 0; i < length; i++) {
+    state = (state * 1103515245 + 12345) % 2 ** 31;
+    pcm[i] = Math.round((state / 2 ** 31 - 0.5) * 2 * amplitude);
+  }
+  return pcm;
+}
+
+function sine(length: number, numChannels: number) {
+  const pcm = new Int16Array(length * numChannels);
+  for (let i = 0; i < pcm.length; i++) {
+    const channel = i % numChannels;
+    pcm[i] = Math.round(
+      20000 * Math.sin((Math.floor(i / numChannels) * (channel + 1)) / 20),
+    );
+  }
+  return pcm;
+}
+
+/** Bit by bit CRCs, to check the encoder's table driven ones. */
+function crc(bytes: Uint8Array, polynomial: number, width: number) {
+  const mask = 2 ** width - 1;
+  let value = 0;
+  for (const byte of bytes) {
+    value ^= byte << (width - 8);
+    for (let bit = 0; bit < 8; bit++) {
+      value =
+        value & (1 << (width - 1)) ? (value << 1) ^ polynomial : value << 1;
+      value &= mask;
+    }
+  }
+  return value;
+}
+
+class BitReader {
+  /** Position in bits. */
+  position = 0;
+
+  constructor(readonly bytes: Uint8Array) {}
+
+  get bytePosition() {
+    return this.position / 8;
+  }
+
+  bits(count: number) {
+    let value = 0;
+    for (let i = 0; i < count; i++) {
+      if (this.position >= this.bytes.length * 8) {
+        throw new Error('Read past the end.');
+      }
+      const byte = this.bytes[this.position >> 3];
+      value = value * 2 + ((byte >> (7 - (this.position & 7))) & 1);
+      this.position++;
+    }
+    return value;
+  }
+
+  signed(count: number) {
+    const value = this.bits(count);
+    return value >= 2 ** (count - 1) ? value - 2 ** count : value;
+  }
+
+  unary() {
+    let count = 0;
+    while (this.bits(1) === 0) count++;
+    return count;
+  }
+
+  align() {
+    this.position = Math.ceil(this.position / 8) * 8;
+  }
+}
+
+interface StreamInfo {
+  minBlockSize: number;
+  maxBlockSize: number;
+  sampleRate: number;
+  numChannels: number;
+  bitsPerSample: number;
+  totalFrames: number;
+}
+
+interface DecodedFrame {
+  number: number;
+  blockSize: number;
+  sampleRateCode: number;
+  subframeTypes: string[];
+}
+
+interface DecodedFlac {
+  streamInfo: StreamInfo;
+  blockTypes: number[];
+  vendor: string;
+  comments: Record<string, string>;
+  frames: DecodedFrame[];
+  pcm: Int16Array;
+}
+
+function readUtf8Number(reader: BitReader) {
+  const first = reader.bits(8);
+  // The leading ones of the first byte count the bytes in all.
+  let length = 0;
+  while (first & (0x80 >> length)) length++;
+  if (length === 0) return first;
+  let value = first & (0xff >> (length + 1));
+  for (let i = 1; i < length; i++) {
+    const next = reader.bits(8);
+    expect(next >> 6).toBe(0b10);
+    value = value * 64 + (next & 0x3f);
+  }
+  return value;
+}
+
+function predict(samples: number[], order: number, i: number) {
+  const s = samples;
+  switch (order) {
+    case 0:
+      return 0;
+    case 1:
+      return s[i - 1];
+    case 2:
+      return 2 * s[i - 1] - s[i - 2];
+    case 3:
+      return 3 * s[i - 1] - 3 * s[i - 2] + s[i - 3];
+    default:
+      return 4 * s[i - 1] - 6 * s[i - 2] + 4 * s[i - 3] - s[i - 4];
+  }
+}
+
+function readSubframe(reader: BitReader, blockSize: number, types: string[]) {
+  expect(reader.bits(1)).toBe(0);
+  const type = reader.bits(6);
+  expect(reader.bits(1)).toBe(0); // no wasted bits
+  if (type === 0) {
+    types.push('constant');
+    return new Array<number>(blockSize).fill(reader.signed(16));
+  }
+  if (type === 1) {
+    types.push('verbatim');
+    return Array.from({length: blockSize}, () => reader.signed(16));
+  }
+  expect(type >> 3).toBe(1);
+  const order = type & 7;
+  types.push(`fixed ${order}`);
+  const samples = Array.from({length: order}, () => reader.signed(16));
+  expect(reader.bits(2)).toBe(0); // 4-bit Rice parameters
+  expect(reader.bits(4)).toBe(0); // a single partition
+  const parameter = reader.bits(4);
+  for (let i = order; i < blockSize; i++) {
+    const folded = reader.unary() * 2 ** parameter + reader.bits(parameter);
+    const residual = folded % 2 === 0 ? folded / 2 : -(folded + 1) / 2;
+    samples.push(predict(samples, order, i) + residual);
+  }
+  return samples;
+}
+
+/** Reads the subset of FLAC that `encodeFlac` writes, checking as it goes. */
+function decodeFlac(bytes: Uint8Array): DecodedFlac {
+  const reader = new BitReader(bytes);
+  expect(new TextDecoder().decode(bytes.slice(0, 4))).toBe('fLaC');
+  reader.position = 32;
+
+  let streamInfo: StreamInfo | undefined;
+  const blockTypes: number[] = [];
+  let vendor = '';
+  const comments: Record<string, string> = {};
+  let last = false;
+  while (!last) {
+    last = reader.bits(1) === 1;
+    const type = reader.bits(7);
+    const length = reader.bits(24);
+    const start = reader.bytePosition;
+    blockTypes.push(type);
+    if (type === 0) {
+      const minBlockSize = reader.bits(16);
+      const maxBlockSize = reader.bits(16);
+      reader.bits(48); // frame sizes
+      streamInfo = {
+        minBlockSize,
+        maxBlockSize,
+        sampleRate: reader.bits(20),
+        numChannels: reader.bits(3) + 1,
+        bitsPerSample: reader.bits(5) + 1,
+        totalFrames: reader.bits(36),
+      };
+    } else if (type === 4) {
+      const view = new DataView(bytes.buffer, bytes.byteOffset + start, length);
+      const text = (offset: number, size: number) =>
+        new TextDecoder().decode(
+          bytes.slice(start + offset, start + offset + size),
+        );
+      let offset = 0;
+      const vendorLength = view.getUint32(offset, true);
+      vendor = text((offset += 4), vendorLength);
+      offset += vendorLength;
+      const count = view.getUint32(offset, true);
+      offset += 4;
+      for (let i = 0; i < count; i++) {
+        const size = view.getUint32(offset, true);
+        const entry = text((offset += 4), size);
+        offset += size;
+        const separator = entry.indexOf('=');
+        comments[entry.slice(0, separator)] = entry.slice(separator + 1);
+      }
+      expect(offset).toBe(length);
+    }
+    reader.position = (start + length) * 8;
+  }
+  if (!streamInfo) throw new Error('No STREAMINFO.');
+
+  const {numChannels, maxBlockSize} = streamInfo;
+  const frames: DecodedFrame[] = [];
+  const pcm: number[] = [];
+  while (reader.bytePosition < bytes.length) {
+    const start = reader.bytePosition;
+    expect(reader.bits(14)).toBe(0b11111111111110);
+    expect(reader.bits(2)).toBe(0); // reserved, fixed block size
+    const blockSizeCode = reader.bits(4);
+    const sampleRateCode = reader.bits(4);
+    expect(reader.bits(4)).toBe(numChannels - 1);
+    expect(reader.bits(3)).toBe(0b100);
+    expect(reader.bits(1)).toBe(0);
+    const number = readUtf8Number(reader);
+    let blockSize = maxBlockSize;
+    if (blockSizeCode === 0b0111) {
+      blockSize = reader.bits(16) + 1;
+    } else {
+      expect(blockSizeCode).toBe(0b1100);
+      expect(maxBlockSize).toBe(4096);
+    }
+    const headerCrc = crc(bytes.slice(start, reader.bytePosition), 0x07, 8);
+    expect(reader.bits(8)).toBe(headerCrc);
+
+    const subframeTypes: string[] = [];
+    const channels = Array.from({length: numChannels}, () =>
+      readSubframe(reader, blockSize, subframeTypes),
+    );
+    reader.align();
+    const frameCrc = crc(bytes.slice(start, reader.bytePosition), 0x8005, 16);
+    expect(reader.bits(16)).toBe(frameCrc);
+
+    for (let i = 0; i < blockSize; i++) {
+      for (const channel of channels) pcm.push(channel[i]);
+    }
+    frames.push({number, blockSize, sampleRateCode, subframeTypes});
+  }
+  return {
+    streamInfo,
+    blockTypes,
+    vendor,
+    comments,
+    frames,
+    pcm: Int16Array.from(pcm),
+  };
+}
+
+describe('encodeFlac', () => {
+  it('describes the stream in STREAMINFO', () => {
+    const {streamInfo, blockTypes} = decodeFlac(
+      encodeFlac(createRecording(sine(5000, 2))),
+    );
+    expect(streamInfo).toEqual({
+      minBlockSize: 4096,
+      maxBlockSize: 4096,
+      sampleRate: 48000,
+      numChannels: 2,
+      bitsPerSample: 16,
+      totalFrames: 5000,
+    });
+    // STREAMINFO first, then a VORBIS_COMMENT marked as the last block.
+    expect(blockTypes).toEqual([0, 4]);
+  });
+
+  it('stores the metadata as Vorbis comments', () => {
+    const {vendor, comments} = decodeFlac(
+      encodeFlac(createRecording(new Int16Array(0))),
+    );
+    expect(vendor).toBe('PromptDJ');
+    expect(comments).toMatchObject({
+      TITLE: 'PromptDJ session 2026-01-01T12:00:00.000Z',
+      DATE: '2026-01-01T12:00:00.000Z',
+      COMMENT: 'Funk 1.00',
+      PROMPTDJ_STARTED: '2026-01-01T12:00:00.000Z',
+      PROMPTDJ_ENDED: '2026-01-01T12:01:00.000Z',
+      PROMPTDJ_SEED: '42',
+    });
+    expect(JSON.parse(comments.PROMPTDJ_PROMPTS)).toEqual([
+      {text: 'Funk', weight: 1},
+    ]);
+    expect(JSON.parse(comments.PROMPTDJ_CONFIG)).toEqual({bpm: 120, seed: 42});
+    expect(JSON.parse(comments.PROMPTDJ_TIMELINE)).toHaveLength(2);
+  });
+
+  it('leaves out the seed when the config never set one', () => {
+    const recording = createRecording(new Int16Array(0));
+    recording.events = [];
+    const {comments} = decodeFlac(encodeFlac(recording));
+    expect(comments).not.toHaveProperty('PROMPTDJ_SEED');
+    expect(comments.COMMENT).toBe('');
+    expect(comments.PROMPTDJ_CONFIG).toBe('{}');
+  });
+
+  it('writes no frames for an empty recording', () => {
+    const {streamInfo, frames} = decodeFlac(
+      encodeFlac(createRecording(new Int16Array(0))),
+    );
+    expect(streamInfo.totalFrames).toBe(0);
+    expect(frames).toEqual([]);
+  });
+
+  it('round trips smooth audio through the fixed predictors', () => {
+    const pcm = sine(4096 * 2 + 100, 2);
+    const {pcm: decoded, frames} = decodeFlac(encodeFlac(createRecording(pcm)));
+    expect(decoded).toEqual(pcm);
+    expect(frames.map((f) => [f.number, f.blockSize])).toEqual([
+      [0, 4096],
+      [1, 4096],
+      [2, 100],
+    ]);
+    expect(frames[0].subframeTypes.every((t) => t.startsWith('fixed'))).toBe(
+      true,
+    );
+  });
+
+  it('stores silence as constant subframes', () => {
+    const pcm = new Int16Array(4096 * 2);
+    pcm.fill(-7);
+    const {pcm: decoded, frames} = decodeFlac(encodeFlac(createRecording(pcm)));
+    expect(decoded).toEqual(pcm);
+    expect(frames[0].subframeTypes).toEqual(['constant', 'constant']);
+  });
+
+  it('falls back to verbatim subframes for full scale noise', () => {
+    const pcm = noise(4096, 32767);
+    const {pcm: decoded, frames} = decodeFlac(
+      encodeFlac(createRecording(pcm, 1)),
+    );
+    expect(decoded).toEqual(pcm);
+    expect(frames[0].subframeTypes).toEqual(['verbatim']);
+  });
+
+  it('round trips extreme and alternating samples', () => {
+    const pcm = new Int16Array(3000);
+    for (let i = 0; i < pcm.length; i++) {
+      pcm[i] = i % 3 === 0 ? -32768 : i % 3 === 1 ? 32767 : 0;
+    }
+    pcm.set(noise(1000, 300), 2000);
+    const {pcm: decoded} = decodeFlac(encodeFlac(createRecording(pcm, 1)));
+    expect(decoded).toEqual(pcm);
+  });
+
+  it('round trips short and single sample blocks', () => {
+    for (const length of [1, 2, 5]) {
+      const pcm = noise(length * 2, 1000, length);
+      const {pcm: decoded, frames} = decodeFlac(
+        encodeFlac(createRecording(pcm)),
+      );
+      expect(decoded).toEqual(pcm);
+      expect(frames[0].blockSize).toBe(length);
+    }
+  });
+
+  it('numbers frames past 127 in multiple bytes', () => {
+    // Silent, so that the frames are small and quick to read.
+    const pcm = new Int16Array(4096 * 130 + 1);
+    pcm[pcm.length - 1] = 1;
+    const {pcm: decoded, frames} = decodeFlac(
+      encodeFlac(createRecording(pcm, 1)),
+    );
+    expect(frames.map((f) => f.number)).toEqual(
+      Array.from({length: 131}, (_, i) => i),
+    );
+    // Compared by hand, as a deep equality check this long is slow.
+    expect(decoded.length).toBe(pcm.length);
+    expect(decoded.every((sample, i) => sample === pcm[i])).toBe(true);
+  });
+
+  it('codes common sample rates in the frame header', () => {
+    const rateCodes = [
+      [44100, 0b1001],
+      [48000, 0b1010],
+      [16000, 0b0101],
+      // Anything else is read from STREAMINFO.
+      [12345, 0],
+    ];
+    for (const [sampleRate, code] of rateCodes) {
+      const {streamInfo, frames} = decodeFlac(
+        encodeFlac(createRecording(sine(10, 1), 1, sampleRate)),
+      );
+      expect(streamInfo.sampleRate).toBe(sampleRate);
+      expect(frames[0].sampleRateCode).toBe(code);
+    }
+  });
+});
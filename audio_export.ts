@@ -0,0 +1,505 @@
+/**
+ * @fileoverview Lossless WAV and FLAC encoders for recorded takes.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type {WeightedPrompt} from '@google/genai';
+import type {Recording} from './recorder';
+
+const ENCODER_NAME = 'PromptDJ';
+const BITS_PER_SAMPLE = 16;
+
+/** The metadata written into exported files, derived from a recording. */
+export interface ExportMetadata {
+  title: string;
+  /** A one line, human readable description of the opening prompt mix. */
+  comment: string;
+  startedAt: string;
+  endedAt: string;
+  seed?: number;
+  prompts: WeightedPrompt[];
+  config: Recording['events'][number]['config'];
+  timeline: Recording['events'];
+}
+
+function describeMix(prompts: WeightedPrompt[]): string {
+  return prompts
+    .map(({text, weight}) => `${text} ${(weight ?? 0).toFixed(2)}`)
+    .join(', ');
+}
+
+export function getExportMetadata(recording: Recording): ExportMetadata {
+  const first = recording.events[0] ?? {prompts: [], config: {}};
+  const seed = recording.events.find((e) => e.config.seed !== undefined)
+    ?.config.seed;
+  return {
+    title: `PromptDJ session ${recording.startedAt.toISOString()}`,
+    comment: describeMix(first.prompts),
+    startedAt: recording.startedAt.toISOString(),
+    endedAt: recording.endedAt.toISOString(),
+    seed,
+    prompts: first.prompts,
+    config: first.config,
+    timeline: recording.events,
+  };
+}
+
+/** A file name such as `promptdj-20250101-120000.wav`. */
+export function getExportFileName(recording: Recording, extension: string) {
+  const stamp = recording.startedAt
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace('T', '-')
+    .slice(0, 15);
+  return `promptdj-${stamp}.${extension}`;
+}
+
+// WAV
+// -----------------------------------------------------------------------------
+
+/** Little endian writer for RIFF chunks. */
+class RiffWriter {
+  private readonly parts: Uint8Array[] = [];
+  private size = 0;
+
+  chunk(id: string, body: Uint8Array) {
+    const header = new DataView(new ArrayBuffer(8));
+    for (let i = 0; i < 4; i++) header.setUint8(i, id.charCodeAt(i));
+    header.setUint32(4, body.length, true);
+    this.push(new Uint8Array(header.buffer));
+    this.push(body);
+    // Chunks are word aligned.
+    if (body.length % 2 === 1) this.push(new Uint8Array(1));
+  }
+
+  push(bytes: Uint8Array) {
+    this.parts.push(bytes);
+    this.size += bytes.length;
+  }
+
+  concat(): Uint8Array {
+    const out = new Uint8Array(this.size);
+    let offset = 0;
+    for (const part of this.parts) {
+      out.set(part, offset);
+      offset += part.length;
+    }
+    return out;
+  }
+}
+
+function zeroTerminated(text: string): Uint8Array {
+  const bytes = new TextEncoder().encode(text);
+  const out = new Uint8Array(bytes.length + 1);
+  out.set(bytes);
+  return out;
+}
+
+/**
+ * Encodes a recording as a 16-bit PCM WAV file. The prompt mix is written to
+ * the standard `LIST/INFO` tags, and the full metadata as JSON to a `json`
+ * chunk, which other readers skip.
+ */
+export function encodeWav(recording: Recording): Uint8Array {
+  const {pcm, sampleRate, numChannels} = recording;
+  const metadata = getExportMetadata(recording);
+
+  const fmt = new DataView(new ArrayBuffer(16));
+  const blockAlign = (numChannels * BITS_PER_SAMPLE) / 8;
+  fmt.setUint16(0, 1, true); // PCM
+  fmt.setUint16(2, numChannels, true);
+  fmt.setUint32(4, sampleRate, true);
+  fmt.setUint32(8, sampleRate * blockAlign, true);
+  fmt.setUint16(12, blockAlign, true);
+  fmt.setUint16(14, BITS_PER_SAMPLE, true);
+
+  const info = new RiffWriter();
+  info.push(new TextEncoder().encode('INFO'));
+  info.chunk('INAM', zeroTerminated(metadata.title));
+  info.chunk('ICRD', zeroTerminated(metadata.startedAt));
+  info.chunk('ISFT', zeroTerminated(ENCODER_NAME));
+  info.chunk('ICMT', zeroTerminated(metadata.comment));
+
+  const data = new Uint8Array(pcm.length * 2);
+  const dataView = new DataView(data.buffer);
+  for (let i = 0; i < pcm.length; i++) dataView.setInt16(i * 2, pcm[i], true);
+
+  const body = new RiffWriter();
+  body.push(new TextEncoder().encode('WAVE'));
+  body.chunk('fmt ', new Uint8Array(fmt.buffer));
+  body.chunk('LIST', info.concat());
+  body.chunk('json', new TextEncoder().encode(JSON.stringify(metadata)));
+  body.chunk('data', data);
+
+  const file = new RiffWriter();
+  file.chunk('RIFF', body.concat());
+  return file.concat();
+}
+
+// FLAC
+// -----------------------------------------------------------------------------
+
+const FLAC_BLOCK_SIZE = 4096;
+const MAX_FIXED_ORDER = 4;
+const MAX_RICE_PARAMETER = 14;
+
+const CRC8_TABLE = makeCrcTable(0x07, 8);
+const CRC16_TABLE = makeCrcTable(0x8005, 16);
+
+function makeCrcTable(polynomial: number, width: number): Uint16Array {
+  const table = new Uint16Array(256);
+  const topBit = 1 << (width - 1);
+  const mask = (1 << width) - 1;
+  for (let i = 0; i < 256; i++) {
+    let crc = i << (width - 8);
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & topBit ? (crc << 1) ^ polynomial : crc << 1;
+    }
+    table[i] = crc & mask;
+  }
+  return table;
+}
+
+function crc8(bytes: Uint8Array, start: number, end: number): number {
+  let crc = 0;
+  for (let i = start; i < end; i++) crc = CRC8_TABLE[crc ^ bytes[i]];
+  return crc;
+}
+
+function crc16(bytes: Uint8Array, start: number, end: number): number {
+  let crc = 0;
+  for (let i = start; i < end; i++) {
+    crc = ((crc << 8) ^ CRC16_TABLE[(crc >> 8) ^ bytes[i]]) & 0xffff;
+  }
+  return crc;
+}
+
+/** Big endian, most significant bit first writer used by the FLAC format. */
+class BitWriter {
+  private bytes = new Uint8Array(1 << 16);
+  private bytePos = 0;
+  private bitPos = 0;
+
+  get length() {
+    return this.bytePos;
+  }
+
+  /** Writes the low `count` bits of `value`; `count` is at most 32. */
+  writeBits(value: number, count: number) {
+    while (count > 0) {
+      this.ensure(1);
+      const take = Math.min(count, 8 - this.bitPos);
+      const shift = count - take;
+      const bits = Math.floor(value / 2 ** shift) & ((1 << take) - 1);
+      this.bytes[this.bytePos] |= bits << (8 - this.bitPos - take);
+      this.bitPos += take;
+      count -= take;
+      if (this.bitPos === 8) {
+        this.bitPos = 0;
+        this.bytePos++;
+      }
+    }
+  }
+
+  /** Writes `count` zero bits followed by a one, i.e. unary `count`. */
+  writeUnary(count: number) {
+    this.ensure((count >> 3) + 2);
+    const total = this.bitPos + count;
+    this.bytePos += total >> 3;
+    this.bitPos = total & 7;
+    this.writeBits(1, 1);
+  }
+
+  writeBytes(bytes: Uint8Array) {
+    this.alignToByte();
+    this.ensure(bytes.length);
+    this.bytes.set(bytes, this.bytePos);
+    this.bytePos += bytes.length;
+  }
+
+  alignToByte() {
+    if (this.bitPos > 0) {
+      this.bitPos = 0;
+      this.bytePos++;
+    }
+  }
+
+  /** Direct access to the bytes written so far, for checksums. */
+  view(): Uint8Array {
+    return this.bytes;
+  }
+
+  finish(): Uint8Array {
+    this.alignToByte();
+    return this.bytes.slice(0, this.bytePos);
+  }
+
+  private ensure(extraBytes: number) {
+    if (this.bytePos + extraBytes < this.bytes.length) return;
+    let size = this.bytes.length * 2;
+    while (this.bytePos + extraBytes >= size) size *= 2;
+    const grown = new Uint8Array(size);
+    grown.set(this.bytes);
+    this.bytes = grown;
+  }
+}
+
+function zigzag(residual: number): number {
+  return residual >= 0 ? residual * 2 : -residual * 2 - 1;
+}
+
+/** Residuals of the fixed FLAC predictor of the given order. */
+function fixedResiduals(samples: Int32Array, order: number): Int32Array {
+  const residuals = new Int32Array(samples.length - order);
+  for (let i = order; i < samples.length; i++) {
+    const s = samples;
+    let prediction = 0;
+    switch (order) {
+      case 1:
+        prediction = s[i - 1];
+        break;
+      case 2:
+        prediction = 2 * s[i - 1] - s[i - 2];
+        break;
+      case 3:
+        prediction = 3 * s[i - 1] - 3 * s[i - 2] + s[i - 3];
+        break;
+      case 4:
+        prediction = 4 * s[i - 1] - 6 * s[i - 2] + 4 * s[i - 3] - s[i - 4];
+        break;
+      default:
+        break;
+    }
+    residuals[i - order] = s[i] - prediction;
+  }
+  return residuals;
+}
+
+/**
+ * Picks the cheapest Rice parameter near the one suggested by the mean of the
+ * residuals; returns it with the resulting cost in bits.
+ */
+function bestRiceParameter(residuals: Int32Array): [number, number] {
+  let sum = 0;
+  for (let i = 0; i < residuals.length; i++) sum += zigzag(residuals[i]);
+  const mean = sum / Math.max(1, residuals.length);
+  const guess = mean < 1 ? 0 : Math.floor(Math.log2(mean));
+  let best = 0;
+  let bestBits = Infinity;
+  for (let k = Math.max(0, guess - 1); k <= Math.min(MAX_RICE_PARAMETER, guess + 1); k++) {
+    let bits = residuals.length * (k + 1);
+    for (let i = 0; i < residuals.length; i++) {
+      bits += zigzag(residuals[i]) >>> k;
+    }
+    if (bits < bestBits) {
+      best = k;
+      bestBits = bits;
+    }
+  }
+  return [best, bestBits];
+}
+
+/** Sum of absolute residuals, a cheap proxy for how well a predictor fits. */
+function residualMagnitude(residuals: Int32Array): number {
+  let sum = 0;
+  for (let i = 0; i < residuals.length; i++) sum += Math.abs(residuals[i]);
+  return sum;
+}
+
+function writeSubframe(writer: BitWriter, samples: Int32Array) {
+  if (samples.every((s) => s === samples[0])) {
+    writer.writeBits(0b00000000, 8); // CONSTANT
+    writer.writeBits(samples[0] & 0xffff, BITS_PER_SAMPLE);
+    return;
+  }
+
+  let bestOrder = 0;
+  let bestResiduals = fixedResiduals(samples, 0);
+  let bestMagnitude = residualMagnitude(bestResiduals);
+  const maxOrder = Math.min(MAX_FIXED_ORDER, samples.length - 1);
+  for (let order = 1; order <= maxOrder; order++) {
+    const residuals = fixedResiduals(samples, order);
+    const magnitude = residualMagnitude(residuals);
+    if (magnitude < bestMagnitude) {
+      bestOrder = order;
+      bestResiduals = residuals;
+      bestMagnitude = magnitude;
+    }
+  }
+  const [bestParameter, riceBits] = bestRiceParameter(bestResiduals);
+  const fixedBits = bestOrder * BITS_PER_SAMPLE + 10 + riceBits;
+
+  if (fixedBits >= samples.length * BITS_PER_SAMPLE) {
+    writer.writeBits(0b00000010, 8); // VERBATIM
+    for (const sample of samples) writer.writeBits(sample & 0xffff, BITS_PER_SAMPLE);
+    return;
+  }
+
+  writer.writeBits(0b00010000 | (bestOrder << 1), 8); // FIXED
+  for (let i = 0; i < bestOrder; i++) {
+    writer.writeBits(samples[i] & 0xffff, BITS_PER_SAMPLE);
+  }
+  writer.writeBits(0b00, 2); // Rice coding, 4-bit parameters
+  writer.writeBits(0, 4); // partition order 0
+  writer.writeBits(bestParameter, 4);
+  const lowBits = (1 << bestParameter) - 1;
+  for (let i = 0; i < bestResiduals.length; i++) {
+    const value = zigzag(bestResiduals[i]);
+    writer.writeUnary(value >>> bestParameter);
+    if (bestParameter > 0) writer.writeBits(value & lowBits, bestParameter);
+  }
+}
+
+/** The UTF-8 style variable length encoding of frame numbers. */
+function writeUtf8Number(writer: BitWriter, value: number) {
+  if (value < 0x80) {
+    writer.writeBits(value, 8);
+    return;
+  }
+  // Each continuation byte holds 6 bits and takes one from the first byte.
+  let continuationBytes = 1;
+  while (value >= 2 ** (5 * continuationBytes + 6)) continuationBytes++;
+  const lengthMarker = (0xff << (7 - continuationBytes)) & 0xff;
+  writer.writeBits(
+    lengthMarker | Math.floor(value / 2 ** (6 * continuationBytes)),
+    8,
+  );
+  for (let i = continuationBytes - 1; i >= 0; i--) {
+    writer.writeBits(0x80 | (Math.floor(value / 2 ** (6 * i)) & 0x3f), 8);
+  }
+}
+
+function writeFrame(
+  writer: BitWriter,
+  channels: Int32Array[],
+  frameNumber: number,
+  sampleRateCode: number,
+) {
+  const start = writer.length;
+  const blockSize = channels[0].length;
+  const fullBlock = blockSize === FLAC_BLOCK_SIZE;
+
+  writer.writeBits(0b11111111111110, 14); // sync code
+  writer.writeBits(0, 1); // reserved
+  writer.writeBits(0, 1); // fixed block size stream
+  writer.writeBits(fullBlock ? 0b1100 : 0b0111, 4);
+  writer.writeBits(sampleRateCode, 4);
+  writer.writeBits(channels.length - 1, 4); // independent channels
+  writer.writeBits(0b100, 3); // 16 bits per sample
+  writer.writeBits(0, 1); // reserved
+  writeUtf8Number(writer, frameNumber);
+  if (!fullBlock) writer.writeBits(blockSize - 1, 16);
+  writer.writeBits(crc8(writer.view(), start, writer.length), 8);
+
+  for (const samples of channels) writeSubframe(writer, samples);
+
+  writer.alignToByte();
+  writer.writeBits(crc16(writer.view(), start, writer.length), 16);
+}
+
+function flacSampleRateCode(sampleRate: number): number {
+  const codes: Record<number, number> = {
+    88200: 0b0001,
+    176400: 0b0010,
+    192000: 0b0011,
+    8000: 0b0100,
+    16000: 0b0101,
+    22050: 0b0110,
+    24000: 0b0111,
+    32000: 0b1000,
+    44100: 0b1001,
+    48000: 0b1010,
+    96000: 0b1011,
+  };
+  // 0 means "read it from STREAMINFO".
+  return codes[sampleRate] ?? 0;
+}
+
+function vorbisComment(metadata: ExportMetadata): Uint8Array {
+  const tags: Array<[string, string]> = [
+    ['TITLE', metadata.title],
+    ['DATE', metadata.startedAt],
+    ['COMMENT', metadata.comment],
+    ['PROMPTDJ_STARTED', metadata.startedAt],
+    ['PROMPTDJ_ENDED', metadata.endedAt],
+    ['PROMPTDJ_PROMPTS', JSON.stringify(metadata.prompts)],
+    ['PROMPTDJ_CONFIG', JSON.stringify(metadata.config)],
+    ['PROMPTDJ_TIMELINE', JSON.stringify(metadata.timeline)],
+  ];
+  if (metadata.seed !== undefined) {
+    tags.push(['PROMPTDJ_SEED', String(metadata.seed)]);
+  }
+
+  const encoder = new TextEncoder();
+  const vendor = encoder.encode(ENCODER_NAME);
+  const entries = tags.map(([key, value]) => encoder.encode(`${key}=${value}`));
+  const size = 8 + vendor.length + entries.reduce((n, e) => n + 4 + e.length, 0);
+  const out = new Uint8Array(size);
+  const view = new DataView(out.buffer);
+  let offset = 0;
+  view.setUint32(offset, vendor.length, true);
+  out.set(vendor, (offset += 4));
+  offset += vendor.length;
+  view.setUint32(offset, entries.length, true);
+  offset += 4;
+  for (const entry of entries) {
+    view.setUint32(offset, entry.length, true);
+    out.set(entry, (offset += 4));
+    offset += entry.length;
+  }
+  return out;
+}
+
+/**
+ * Encodes a recording as FLAC using the fixed predictors. The metadata is
+ * stored as Vorbis comments, with the structured parts as JSON values.
+ */
+export function encodeFlac(recording: Recording): Uint8Array {
+  const {pcm, sampleRate, numChannels} = recording;
+  const totalFrames = pcm.length / numChannels;
+  const writer = new BitWriter();
+
+  writer.writeBytes(new TextEncoder().encode('fLaC'));
+
+  // STREAMINFO
+  writer.writeBits(0, 1);
+  writer.writeBits(0, 7);
+  writer.writeBits(34, 24);
+  writer.writeBits(FLAC_BLOCK_SIZE, 16);
+  writer.writeBits(FLAC_BLOCK_SIZE, 16);
+  writer.writeBits(0, 24); // minimum frame size unknown
+  writer.writeBits(0, 24); // maximum frame size unknown
+  writer.writeBits(sampleRate, 20);
+  writer.writeBits(numChannels - 1, 3);
+  writer.writeBits(BITS_PER_SAMPLE - 1, 5);
+  writer.writeBits(Math.floor(totalFrames / 2 ** 32), 4);
+  writer.writeBits(totalFrames >>> 0, 32);
+  writer.writeBytes(new Uint8Array(16)); // MD5 unknown
+
+  // VORBIS_COMMENT, the last metadata block
+  const comment = vorbisComment(getExportMetadata(recording));
+  writer.writeBits(1, 1);
+  writer.writeBits(4, 7);
+  writer.writeBits(comment.length, 24);
+  writer.writeBytes(comment);
+
+  const sampleRateCode = flacSampleRateCode(sampleRate);
+  for (
+    let frame = 0, offset = 0;
+    offset < totalFrames;
+    frame++, offset += FLAC_BLOCK_SIZE
+  ) {
+    const blockSize = Math.min(FLAC_BLOCK_SIZE, totalFrames - offset);
+    const channels: Int32Array[] = [];
+    for (let c = 0; c < numChannels; c++) {
+      const samples = new Int32Array(blockSize);
+      for (let i = 0; i < blockSize; i++) {
+        samples[i] = pcm[(offset + i) * numChannels + c];
+      }
+      channels.push(samples);
+    }
+    writeFrame(writer, channels, frame, sampleRateCode);
+  }
+  return writer.finish();
+}
@@ -0,0 +1,96 @@
+/**
+ * @fileoverview Tests for automation lane keys and replay.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {afterEach, beforeEach, describe, expect, it, vi} from 'vitest';
+
+import {
+  AutomationClip,
+  type AutomationChanges,
+  AutomationPlayer,
+  configLane,
+  effectLane,
+  parseLaneKey,
+  weightLane,
+} from './automation';
+
+describe('parseLaneKey', () => {
+  it('reads back the lanes it builds', () => {
+    expect(parseLaneKey(weightLane('prompt:1'))).toEqual({
+      kind: 'weight',
+      promptId: 'prompt:1',
+    });
+    expect(parseLaneKey(configLane('density'))).toEqual({
+      kind: 'config',
+      key: 'density',
+    });
+    expect(parseLaneKey(effectLane('killLow'))).toEqual({
+      kind: 'effect',
+      param: 'killLow',
+    });
+  });
+
+  it('rejects keys that name no known parameter', () => {
+    expect(parseLaneKey('config:volume')).toBeNull();
+    expect(parseLaneKey('config:__proto__')).toBeNull();
+    expect(parseLaneKey('fx:distortion')).toBeNull();
+    expect(parseLaneKey('fx:toString')).toBeNull();
+    expect(parseLaneKey('action:playPause')).toBeNull();
+    expect(parseLaneKey('density')).toBeNull();
+  });
+});
+
+describe('AutomationClip', () => {
+  it('drops points on unknown lanes', () => {
+    const clip = new AutomationClip();
+    expect(clip.addPoint('config:volume', {time: 0, value: 1})).toBe(-1);
+    expect(clip.isEmpty).toBe(true);
+  });
+});
+
+describe('AutomationPlayer', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({now: 0});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('replays each lane to its own target', () => {
+    const clip = new AutomationClip();
+    clip.addPoint(weightLane('p1'), {time: 0, value: 0});
+    clip.addPoint(weightLane('p1'), {time: 1, value: 2});
+    clip.addPoint(configLane('muteBass'), {time: 0, value: true});
+    clip.addPoint(effectLane('filter'), {time: 0, value: -0.5});
+    const applied: AutomationChanges[] = [];
+    const player = new AutomationPlayer((changes) => applied.push(changes));
+    player.play(clip);
+    expect(applied[0]).toEqual({
+      weights: new Map([['p1', 0]]),
+      config: {muteBass: true},
+      effects: {filter: -0.5},
+    });
+    vi.advanceTimersByTime(500);
+    expect(applied[applied.length - 1].weights.get('p1')).toBeCloseTo(1);
+    vi.advanceTimersByTime(1000);
+    expect(player.isPlaying).toBe(false);
+  });
+
+  it('never applies lanes with unknown keys', () => {
+    const clip = new AutomationClip();
+    clip.addPoint(configLane('density'), {time: 0, value: 0.5});
+    clip.lanes.set('config:volume', [{time: 0, value: 11}]);
+    clip.lanes.set('fx:distortion', [{time: 0, value: 1}]);
+    const apply = vi.fn();
+    new AutomationPlayer(apply).play(clip);
+    expect(apply).toHaveBeenCalledOnce();
+    expect(apply).toHaveBeenCalledWith({
+      weights: new Map(),
+      config: {density: 0.5},
+      effects: {},
+    });
+  });
+});
@@ -0,0 +1,315 @@
+/**
+ * @fileoverview Records prompt weight and config moves over time and replays
+ * them.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type {LiveMusicGenerationConfig} from '@google/genai';
+import {
+  DEFAULT_EFFECTS,
+  EFFECT_RANGES,
+  type EffectParam,
+  type EffectsState,
+} from './effects';
+
+export type AutomationValue = number | string | boolean | undefined;
+
+export interface AutomationPoint {
+  /** Seconds from the start of the clip. */
+  time: number;
+  value: AutomationValue;
+}
+
+type ConfigKey = keyof LiveMusicGenerationConfig;
+
+/**
+ * What a lane automates: one prompt's weight, one config parameter or one
+ * effects rack parameter.
+ */
+export type LaneTarget =
+  | {kind: 'weight'; promptId: string}
+  | {kind: 'config'; key: ConfigKey}
+  | {kind: 'effect'; param: EffectParam};
+
+export function weightLane(promptId: string) {
+  return `weight:${promptId}`;
+}
+
+export function configLane(key: ConfigKey) {
+  return `config:${key}`;
+}
+
+export function effectLane(param: EffectParam) {
+  return `fx:${param}`;
+}
+
+/** The config parameters a lane can automate. */
+const CONFIG_KEYS: ReadonlySet<string> = new Set<ConfigKey>([
+  'temperature',
+  'topK',
+  'seed',
+  'guidance',
+  'bpm',
+  'density',
+  'brightness',
+  'scale',
+  'muteBass',
+  'muteDrums',
+  'onlyBassAndDrums',
+]);
+
+const EFFECT_PARAMS: ReadonlySet<string> = new Set(
+  Object.keys(DEFAULT_EFFECTS),
+);
+
+/**
+ * Returns what a lane automates, or null for a key that names no known
+ * parameter, so that it is never applied.
+ */
+export function parseLaneKey(laneKey: string): LaneTarget | null {
+  const [kind, ...rest] = laneKey.split(':');
+  const id = rest.join(':');
+  if (kind === 'weight') return {kind: 'weight', promptId: id};
+  if (kind === 'fx' && EFFECT_PARAMS.has(id)) {
+    return {kind: 'effect', param: id as EffectParam};
+  }
+  if (kind === 'config' && CONFIG_KEYS.has(id)) {
+    return {kind: 'config', key: id as ConfigKey};
+  }
+  return null;
+}
+
+/** Value ranges of the continuous parameters, matching the UI controls. */
+const CONTINUOUS_RANGES: Partial<Record<ConfigKey, [number, number]>> = {
+  temperature: [0, 3],
+  guidance: [0, 6],
+  topK: [1, 100],
+  density: [0, 1],
+  brightness: [0, 1],
+  bpm: [60, 200],
+};
+
+/** Continuous parameters that only take whole numbers. */
+const INTEGER_KEYS = new Set<ConfigKey>(['topK', 'bpm']);
+
+/** Whether a lane's values must be whole numbers, e.g. bpm. */
+export function isIntegerLane(laneKey: string) {
+  const target = parseLaneKey(laneKey);
+  return target?.kind === 'config' && INTEGER_KEYS.has(target.key);
+}
+
+/**
+ * Returns the value range of a continuous lane, or undefined for lanes that
+ * hold discrete values such as the scale or the mute toggles.
+ */
+export function getLaneRange(laneKey: string): [number, number] | undefined {
+  const target = parseLaneKey(laneKey);
+  if (!target) return undefined;
+  if (target.kind === 'weight') return [0, 2];
+  if (target.kind === 'effect') return EFFECT_RANGES[target.param];
+  return CONTINUOUS_RANGES[target.key];
+}
+
+/** A set of lanes, each a time ordered list of points. */
+export class AutomationClip {
+  readonly lanes = new Map<string, AutomationPoint[]>();
+
+  get duration() {
+    let duration = 0;
+    for (const points of this.lanes.values()) {
+      const last = points[points.length - 1];
+      if (last) duration = Math.max(duration, last.time);
+    }
+    return duration;
+  }
+
+  get isEmpty() {
+    return this.lanes.size === 0;
+  }
+
+  clear() {
+    this.lanes.clear();
+  }
+
+  /**
+   * Adds a point, keeping the lane in time order; returns its index, or -1
+   * if the lane names no known parameter.
+   */
+  addPoint(laneKey: string, point: AutomationPoint): number {
+    if (!parseLaneKey(laneKey)) return -1;
+    const points = this.lanes.get(laneKey) ?? [];
+    this.lanes.set(laneKey, points);
+    let index = points.length;
+    while (index > 0 && points[index - 1].time > point.time) index--;
+    points.splice(index, 0, {...point});
+    return index;
+  }
+
+  /** Moves a point, keeping the lane in time order; returns its new index. */
+  movePoint(laneKey: string, index: number, point: AutomationPoint): number {
+    this.removePoint(laneKey, index);
+    return this.addPoint(laneKey, {...point, time: Math.max(0, point.time)});
+  }
+
+  removePoint(laneKey: string, index: number) {
+    const points = this.lanes.get(laneKey);
+    if (!points) return;
+    points.splice(index, 1);
+    if (points.length === 0) this.lanes.delete(laneKey);
+  }
+
+  /**
+   * The lane's value at `time`. Continuous lanes interpolate linearly between
+   * points, rounded for integer lanes; discrete lanes hold each value until
+   * the next point. Returns undefined before the lane's first point.
+   */
+  valueAt(laneKey: string, time: number): {value: AutomationValue} | undefined {
+    const points = this.lanes.get(laneKey);
+    if (!points || points.length === 0 || time < points[0].time) {
+      return undefined;
+    }
+    let i = 0;
+    while (i < points.length - 1 && points[i + 1].time <= time) i++;
+    const current = points[i];
+    const next = points[i + 1];
+    if (
+      next &&
+      getLaneRange(laneKey) &&
+      typeof current.value === 'number' &&
+      typeof next.value === 'number'
+    ) {
+      const t = (time - current.time) / (next.time - current.time);
+      const value = current.value + (next.value - current.value) * t;
+      return {value: isIntegerLane(laneKey) ? Math.round(value) : value};
+    }
+    return {value: current.value};
+  }
+}
+
+/** Captures timestamped moves into a clip. */
+export class AutomationRecorder {
+  private startedAt: number | null = null;
+
+  constructor(private readonly clip: AutomationClip) {}
+
+  get isRecording() {
+    return this.startedAt !== null;
+  }
+
+  /**
+   * Starts a new take, replacing the clip. `initial` is the state at the
+   * start, so that replay begins from the same place.
+   */
+  start(initial: Array<[string, AutomationValue]>) {
+    this.clip.clear();
+    this.startedAt = performance.now();
+    for (const [laneKey, value] of initial) {
+      this.clip.addPoint(laneKey, {time: 0, value});
+    }
+  }
+
+  record(laneKey: string, value: AutomationValue) {
+    if (this.startedAt === null) return;
+    const time = (performance.now() - this.startedAt) / 1000;
+    this.clip.addPoint(laneKey, {time, value});
+  }
+
+  stop() {
+    this.startedAt = null;
+  }
+}
+
+/** The changes due at one replay tick. */
+export interface AutomationChanges {
+  weights: Map<string, number>;
+  config: Partial<LiveMusicGenerationConfig>;
+  effects: Partial<EffectsState>;
+}
+
+const PLAYER_TICK_MS = 50;
+
+/** Replays a clip in real time, reporting only the values that changed. */
+export class AutomationPlayer {
+  private timer: ReturnType<typeof setInterval> | undefined;
+  private startedAt = 0;
+  private lastValues = new Map<string, AutomationValue>();
+  private clip: AutomationClip | null = null;
+  private loop = false;
+
+  constructor(
+    private readonly apply: (changes: AutomationChanges) => void,
+    private readonly onPosition?: (seconds: number | null) => void,
+  ) {}
+
+  get isPlaying() {
+    return this.clip !== null;
+  }
+
+  play(clip: AutomationClip, options: {loop?: boolean} = {}) {
+    this.stop();
+    this.clip = clip;
+    this.loop = options.loop ?? false;
+    this.startedAt = performance.now();
+    this.lastValues.clear();
+    this.tick();
+    this.timer = setInterval(() => this.tick(), PLAYER_TICK_MS);
+  }
+
+  stop() {
+    clearInterval(this.timer);
+    this.timer = undefined;
+    if (this.clip) {
+      this.clip = null;
+      this.onPosition?.(null);
+    }
+  }
+
+  private tick() {
+    const clip = this.clip;
+    if (!clip) return;
+    const duration = clip.duration;
+    let position = (performance.now() - this.startedAt) / 1000;
+    if (position > duration) {
+      if (!this.loop || duration === 0) {
+        this.applyAt(clip, duration);
+        this.stop();
+        return;
+      }
+      position %= duration;
+      this.startedAt = performance.now() - position * 1000;
+    }
+    this.applyAt(clip, position);
+    this.onPosition?.(position);
+  }
+
+  private applyAt(clip: AutomationClip, position: number) {
+    const changes: AutomationChanges = {
+      weights: new Map(),
+      config: {},
+      effects: {},
+    };
+    let changed = false;
+    for (const laneKey of clip.lanes.keys()) {
+      const target = parseLaneKey(laneKey);
+      const sample = clip.valueAt(laneKey, position);
+      if (!target || !sample) continue;
+      if (
+        this.lastValues.has(laneKey) &&
+        this.lastValues.get(laneKey) === sample.value
+      ) {
+        continue;
+      }
+      this.lastValues.set(laneKey, sample.value);
+      changed = true;
+      if (target.kind === 'weight') {
+        changes.weights.set(target.promptId, Number(sample.value ?? 0));
+      } else if (target.kind === 'effect') {
+        Object.assign(changes.effects, {[target.param]: sample.value});
+      } else {
+        Object.assign(changes.config, {[target.key]: sample.value});
+      }
+    }
+    if (changed) this.apply(changes);
+  }
+}
@@ -0,0 +1,356 @@
+/**
+ * @fileoverview Draws automation lanes and lets the user edit their points.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {css, html, LitElement, svg} from 'lit';
+import {customElement, property} from 'lit/decorators.js';
+import {classMap} from 'lit/directives/class-map.js';
+import {styleMap} from 'lit/directives/style-map.js';
+
+import {
+  type AutomationClip,
+  type AutomationPoint,
+  getLaneRange,
+  isIntegerLane,
+  parseLaneKey,
+} from './automation';
+import {EFFECT_LABELS} from './effects';
+
+const CONFIG_LABELS: Record<string, string> = {
+  temperature: 'Temperature',
+  guidance: 'Guidance',
+  topK: 'Top K',
+  seed: 'Seed',
+  bpm: 'BPM',
+  density: 'Density',
+  brightness: 'Brightness',
+  scale: 'Scale',
+  muteBass: 'Mute Bass',
+  muteDrums: 'Mute Drums',
+  onlyBassAndDrums: 'Only Bass & Drums',
+};
+
+interface DragState {
+  laneKey: string;
+  index: number;
+  bounds: DOMRect;
+  duration: number;
+}
+
+/** Transport controls and editable lanes for an automation clip. */
+@customElement('automation-panel')
+export class AutomationPanel extends LitElement {
+  static override styles = css`
+    :host {
+      display: block;
+      color: #eee;
+      font-family: 'Google Sans', sans-serif;
+      font-size: 13px;
+    }
+    .toolbar {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+    }
+    .toolbar .title {
+      font-weight: bold;
+      margin-right: auto;
+    }
+    button {
+      background: #333;
+      color: #eee;
+      border: 1px solid #666;
+      border-radius: 6px;
+      padding: 4px 10px;
+      font-family: inherit;
+      cursor: pointer;
+    }
+    button.active {
+      border-color: #ff3b30;
+      color: #ff3b30;
+    }
+    button:disabled {
+      opacity: 0.4;
+      cursor: not-allowed;
+    }
+    label {
+      display: flex;
+      align-items: center;
+      gap: 4px;
+      cursor: pointer;
+    }
+    .lanes {
+      display: flex;
+      flex-direction: column;
+      gap: 4px;
+      margin-top: 8px;
+      max-height: 24vmin;
+      overflow-y: auto;
+    }
+    .lane {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+    }
+    .lane-label {
+      width: 120px;
+      flex-shrink: 0;
+      white-space: nowrap;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      color: #ccc;
+    }
+    .lane-track {
+      position: relative;
+      flex: 1;
+      height: 32px;
+      background: #0009;
+      border-radius: 4px;
+    }
+    .lane-track svg {
+      position: absolute;
+      inset: 0;
+      width: 100%;
+      height: 100%;
+    }
+    polyline {
+      fill: none;
+      stroke: #5200ff;
+      stroke-width: 2;
+      vector-effect: non-scaling-stroke;
+    }
+    .point {
+      position: absolute;
+      width: 8px;
+      height: 8px;
+      margin: -4px 0 0 -4px;
+      border-radius: 50%;
+      background: white;
+      cursor: grab;
+    }
+    .point-label {
+      position: absolute;
+      top: 2px;
+      margin-left: 6px;
+      font-size: 10px;
+      color: #aaa;
+      pointer-events: none;
+      white-space: nowrap;
+    }
+    .playhead {
+      position: absolute;
+      top: 0;
+      bottom: 0;
+      width: 1px;
+      background: #ff25f6;
+      pointer-events: none;
+    }
+  `;
+
+  @property({attribute: false}) clip!: AutomationClip;
+  /** Bumped by the owner whenever the clip changes outside this panel. */
+  @property({type: Number}) revision = 0;
+  @property({attribute: false}) labels = new Map<string, string>();
+  @property({type: Boolean}) recording = false;
+  @property({type: Boolean}) playing = false;
+  @property({type: Boolean}) loop = false;
+  @property({type: Number}) position: number | null = null;
+
+  private drag: DragState | null = null;
+
+  private dispatch(name: string, detail?: unknown) {
+    this.dispatchEvent(
+      new CustomEvent(name, {detail, bubbles: true, composed: true}),
+    );
+  }
+
+  private get timelineDuration() {
+    return Math.max(1, this.clip.duration);
+  }
+
+  private laneLabel(laneKey: string) {
+    const target = parseLaneKey(laneKey);
+    if (!target) return laneKey;
+    if (target.kind === 'weight') {
+      return this.labels.get(target.promptId) ?? '(removed prompt)';
+    }
+    if (target.kind === 'effect') return `FX ${EFFECT_LABELS[target.param]}`;
+    return CONFIG_LABELS[target.key] ?? target.key;
+  }
+
+  private pointFromPosition(
+    laneKey: string,
+    clientX: number,
+    clientY: number,
+    bounds: DOMRect,
+    duration: number,
+    previous: AutomationPoint['value'],
+  ): AutomationPoint {
+    const x = Math.min(1, Math.max(0, (clientX - bounds.left) / bounds.width));
+    const time = x * duration;
+    const range = getLaneRange(laneKey);
+    if (!range) return {time, value: previous};
+    const y = Math.min(1, Math.max(0, (clientY - bounds.top) / bounds.height));
+    let value = range[0] + (1 - y) * (range[1] - range[0]);
+    // Integer valued parameters are rounded while dragging.
+    if (isIntegerLane(laneKey)) value = Math.round(value);
+    return {time, value};
+  }
+
+  private handlePointDown(e: PointerEvent, laneKey: string, index: number) {
+    e.preventDefault();
+    e.stopPropagation();
+    const track = (e.currentTarget as HTMLElement).parentElement!;
+    this.drag = {
+      laneKey,
+      index,
+      bounds: track.getBoundingClientRect(),
+      duration: this.timelineDuration,
+    };
+    window.addEventListener('pointermove', this.handlePointerMove);
+    window.addEventListener('pointerup', this.handlePointerUp, {once: true});
+  }
+
+  private handlePointerMove = (e: PointerEvent) => {
+    const drag = this.drag;
+    if (!drag) return;
+    const points = this.clip.lanes.get(drag.laneKey);
+    if (!points) return;
+    const point = this.pointFromPosition(
+      drag.laneKey,
+      e.clientX,
+      e.clientY,
+      drag.bounds,
+      drag.duration,
+      points[drag.index].value,
+    );
+    drag.index = this.clip.movePoint(drag.laneKey, drag.index, point);
+    this.requestUpdate();
+  };
+
+  private handlePointerUp = () => {
+    window.removeEventListener('pointermove', this.handlePointerMove);
+    if (this.drag) this.dispatch('automation-edited');
+    this.drag = null;
+  };
+
+  private handleTrackDoubleClick(e: MouseEvent, laneKey: string) {
+    const bounds = (e.currentTarget as HTMLElement).getBoundingClientRect();
+    const duration = this.timelineDuration;
+    const time = ((e.clientX - bounds.left) / bounds.width) * duration;
+    const current = this.clip.valueAt(laneKey, time)?.value;
+    this.clip.addPoint(
+      laneKey,
+      this.pointFromPosition(laneKey, e.clientX, e.clientY, bounds, duration, current),
+    );
+    this.requestUpdate();
+    this.dispatch('automation-edited');
+  }
+
+  private handlePointDoubleClick(e: MouseEvent, laneKey: string, index: number) {
+    e.stopPropagation();
+    this.clip.removePoint(laneKey, index);
+    this.requestUpdate();
+    this.dispatch('automation-edited');
+  }
+
+  private renderLane(laneKey: string, points: AutomationPoint[]) {
+    const duration = this.timelineDuration;
+    const range = getLaneRange(laneKey);
+    const yOf = (value: AutomationPoint['value']) =>
+      range && typeof value === 'number'
+        ? (1 - (value - range[0]) / (range[1] - range[0])) * 100
+        : 50;
+    const line = range
+      ? points
+          .filter((p) => typeof p.value === 'number')
+          .map((p) => `${(p.time / duration) * 1000},${yOf(p.value)}`)
+          .join(' ')
+      : '';
+    return html`<div class="lane">
+      <div class="lane-label" title=${this.laneLabel(laneKey)}>
+        ${this.laneLabel(laneKey)}
+      </div>
+      <div
+        class="lane-track"
+        @dblclick=${(e: MouseEvent) => this.handleTrackDoubleClick(e, laneKey)}>
+        <svg viewBox="0 0 1000 100" preserveAspectRatio="none">
+          ${svg`<polyline points=${line}></polyline>`}
+        </svg>
+        ${points.map((p, i) => {
+          const left = `${(p.time / duration) * 100}%`;
+          return html`<div
+              class="point"
+              style=${styleMap({left, top: `${yOf(p.value)}%`})}
+              title=${`${p.time.toFixed(2)}s: ${String(p.value ?? 'auto')}`}
+              @pointerdown=${(e: PointerEvent) => this.handlePointDown(e, laneKey, i)}
+              @dblclick=${(e: MouseEvent) =>
+                this.handlePointDoubleClick(e, laneKey, i)}></div>
+            ${range
+              ? ''
+              : html`<span class="point-label" style=${styleMap({left})}
+                  >${String(p.value ?? 'auto')}</span
+                >`}`;
+        })}
+        ${this.position !== null
+          ? html`<div
+              class="playhead"
+              style=${styleMap({left: `${(this.position / duration) * 100}%`})}></div>`
+          : ''}
+      </div>
+    </div>`;
+  }
+
+  override render() {
+    const lanes = [...this.clip.lanes.entries()].sort(([a], [b]) => {
+      // Prompt weights first, then the config parameters.
+      const aWeight = a.startsWith('weight:') ? 0 : 1;
+      const bWeight = b.startsWith('weight:') ? 0 : 1;
+      return aWeight - bWeight || a.localeCompare(b);
+    });
+    return html`
+      <div class="toolbar">
+        <span class="title">Automation</span>
+        <button
+          class=${classMap({active: this.recording})}
+          @click=${() => this.dispatch('automation-record')}>
+          ${this.recording ? 'Stop recording' : 'Record'}
+        </button>
+        <button
+          ?disabled=${this.clip.isEmpty || this.recording}
+          @click=${() => this.dispatch('automation-play')}>
+          ${this.playing ? 'Stop' : 'Replay'}
+        </button>
+        <label>
+          <input
+            type="checkbox"
+            .checked=${this.loop}
+            @change=${(e: Event) =>
+              this.dispatch(
+                'automation-loop-changed',
+                (e.target as HTMLInputElement).checked,
+              )} />
+          Loop
+        </label>
+        <button
+          ?disabled=${this.clip.isEmpty || this.recording}
+          @click=${() => this.dispatch('automation-clear')}>
+          Clear
+        </button>
+      </div>
+      ${lanes.length > 0
+        ? html`<div class="lanes">
+            ${lanes.map(([laneKey, points]) => this.renderLane(laneKey, points))}
+          </div>`
+        : ''}
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'automation-panel': AutomationPanel;
+  }
+}
@@ -0,0 +1,314 @@
+/**
+ * @fileoverview Tests for capture files, capturing and replay.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {afterEach, beforeEach, describe, expect, it, vi} from 'vitest';
+
+import {
+  type Capture,
+  CAPTURE_FORMAT,
+  CAPTURE_VERSION,
+  CaptureError,
+  type CaptureEvent,
+  CapturingSessionProvider,
+  decodeCapture,
+  encodeCapture,
+  parseCapture,
+  ReplaySessionProvider,
+} from './capture';
+import type {
+  MusicServerMessage,
+  MusicSessionCallbacks,
+  MusicSessionProvider,
+} from './music_session';
+
+const SETUP: MusicServerMessage = {setupComplete: {}};
+
+function createCapture(events: CaptureEvent[]): Capture {
+  return {
+    format: CAPTURE_FORMAT,
+    version: CAPTURE_VERSION,
+    backend: 'gemini',
+    startedAt: '2026-01-01T00:00:00.000Z',
+    events,
+  };
+}
+
+/** The problems `parse` is rejected with. */
+async function problemsOf(parse: () => unknown): Promise<string[]> {
+  try {
+    await parse();
+  } catch (e) {
+    if (e instanceof CaptureError) return e.problems;
+    throw e;
+  }
+  throw new Error('The capture parsed.');
+}
+
+/** Records the callbacks of the sessions it opens. */
+class FakeProvider implements MusicSessionProvider {
+  readonly name = 'fake';
+  readonly callbacks: MusicSessionCallbacks[] = [];
+
+  async connect(callbacks: MusicSessionCallbacks) {
+    this.callbacks.push(callbacks);
+    return {
+      setWeightedPrompts: async () => {},
+      setMusicGenerationConfig: async () => {},
+      play: () => {},
+      pause: () => {},
+      stop: () => {},
+      resetContext: () => {},
+      close: () => {},
+    };
+  }
+}
+
+/** Callbacks that record what a session delivers, as strings. */
+function recorder() {
+  const received: string[] = [];
+  const callbacks: MusicSessionCallbacks = {
+    onmessage: (message) => received.push(Object.keys(message).join()),
+    onerror: (e) => received.push(`error: ${e.message}`),
+    onclose: (e) => received.push(`close: ${e.reason}`),
+  };
+  return {received, callbacks};
+}
+
+describe('parseCapture', () => {
+  it('accepts a valid capture', () => {
+    const capture = createCapture([
+      {t: 0, session: 0, type: 'connect'},
+      {t: 5, session: 0, type: 'call', call: 'play'},
+      {t: 10, session: 0, type: 'message', message: SETUP},
+      {t: 20, session: 0, type: 'close', code: 1000},
+      {t: 30, session: 1, type: 'error'},
+    ]);
+    expect(parseCapture(capture)).toEqual(capture);
+  });
+
+  it('fills in a missing backend and start time', () => {
+    const {backend, startedAt} = parseCapture({
+      format: CAPTURE_FORMAT,
+      version: 1,
+      events: [],
+    });
+    expect(backend).toBe('unknown');
+    expect(startedAt).toBe('');
+  });
+
+  it('rejects other documents and newer versions', async () => {
+    for (const data of [null, 'capture', [], {format: 'promptdj-session'}]) {
+      expect(await problemsOf(() => parseCapture(data))).toEqual([
+        'not a capture',
+      ]);
+    }
+    expect(
+      await problemsOf(() =>
+        parseCapture({...createCapture([]), version: CAPTURE_VERSION + 1}),
+      ),
+    ).toEqual([`unsupported version ${CAPTURE_VERSION + 1}`]);
+  });
+
+  it('lists every problem with the events', async () => {
+    expect(
+      await problemsOf(() =>
+        parseCapture({
+          ...createCapture([]),
+          events: [
+            {t: -1, session: 0, type: 'connect'},
+            {t: 0, session: 0.5, type: 'message'},
+            {t: 0, session: 0, type: 'call', call: 'send'},
+            {session: -1, type: 'ping'},
+            null,
+          ],
+        }),
+      ),
+    ).toEqual([
+      'event 1 has no time',
+      'event 2 has no session',
+      'event 2 has no message',
+      'event 3 has an unknown call "send"',
+      'event 4 has no time',
+      'event 4 has no session',
+      'event 4 has an unknown type "ping"',
+      'event 5 has no time',
+      'event 5 has no session',
+      'event 5 has an unknown type "undefined"',
+    ]);
+    expect(
+      await problemsOf(() => parseCapture({...createCapture([]), events: {}})),
+    ).toEqual(['events must be a list']);
+  });
+});
+
+describe('decodeCapture', () => {
+  const capture = createCapture([
+    {t: 0, session: 0, type: 'connect'},
+    {t: 10, session: 0, type: 'message', message: SETUP},
+  ]);
+
+  it('reads a capture it encoded', async () => {
+    const bytes = await encodeCapture(capture);
+    expect([bytes[0], bytes[1]]).toEqual([0x1f, 0x8b]);
+    expect(await decodeCapture(bytes)).toEqual(capture);
+  });
+
+  it('reads plain JSON', async () => {
+    const bytes = new TextEncoder().encode(JSON.stringify(capture));
+    expect(await decodeCapture(bytes)).toEqual(capture);
+  });
+
+  it('rejects damaged files', async () => {
+    const gzipped = await encodeCapture(capture);
+    for (const bytes of [
+      new TextEncoder().encode('{"events'),
+      gzipped.slice(0, gzipped.length / 2),
+    ]) {
+      expect(await problemsOf(() => decodeCapture(bytes))).toEqual([
+        'the file is not a gzipped or plain JSON capture',
+      ]);
+    }
+  });
+
+  it('validates the capture it carries', async () => {
+    const bytes = new TextEncoder().encode('{"format":"other"}');
+    expect(await problemsOf(() => decodeCapture(bytes))).toEqual([
+      'not a capture',
+    ]);
+  });
+});
+
+describe('CapturingSessionProvider', () => {
+  it('records traffic only while capturing', async () => {
+    const inner = new FakeProvider();
+    const provider = new CapturingSessionProvider(inner);
+    const {callbacks} = recorder();
+    const session = await provider.connect(callbacks);
+    session.play();
+    provider.start();
+    inner.callbacks[0].onmessage(SETUP);
+    await session.setWeightedPrompts({weightedPrompts: []});
+    const capture = provider.stop();
+    session.pause();
+
+    expect(capture.backend).toBe('fake');
+    expect(capture.events).toEqual([
+      {t: expect.any(Number), session: 0, type: 'message', message: SETUP},
+      {
+        t: expect.any(Number),
+        session: 0,
+        type: 'call',
+        call: 'setWeightedPrompts',
+        params: {weightedPrompts: []},
+      },
+    ]);
+    expect(provider.isCapturing).toBe(false);
+    expect(() => provider.stop()).toThrow('Not capturing.');
+  });
+
+  it('numbers sessions from 0 in each capture', async () => {
+    const inner = new FakeProvider();
+    const provider = new CapturingSessionProvider(inner);
+    provider.start();
+    await provider.connect(recorder().callbacks);
+    await provider.connect(recorder().callbacks);
+    inner.callbacks[1].onclose?.({code: 1006, reason: 'Gone'});
+    const first = provider.stop();
+    provider.start();
+    inner.callbacks[1].onerror?.({message: 'Still gone'});
+    const second = provider.stop();
+
+    expect(first.events.map((e) => [e.session, e.type])).toEqual([
+      [0, 'connect'],
+      [1, 'connect'],
+      [1, 'close'],
+    ]);
+    expect(second.events).toEqual([
+      {t: expect.any(Number), session: 0, type: 'error', message: 'Still gone'},
+    ]);
+  });
+});
+
+describe('ReplaySessionProvider', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const capture = createCapture([
+    {t: 100, session: 0, type: 'connect'},
+    {t: 150, session: 0, type: 'call', call: 'play'},
+    {t: 200, session: 0, type: 'message', message: SETUP},
+    {t: 1100, session: 0, type: 'message', message: {filteredPrompt: {}}},
+    {t: 1200, session: 0, type: 'close', code: 1006, reason: 'Dropped'},
+    {t: 1500, session: 1, type: 'connect'},
+    {t: 1600, session: 1, type: 'message', message: SETUP},
+  ]);
+
+  it('replays each session at its pace from its connect', async () => {
+    const provider = new ReplaySessionProvider(capture);
+    const {received, callbacks} = recorder();
+    await provider.connect(callbacks);
+    expect(provider.isFinished).toBe(false);
+    await vi.advanceTimersByTimeAsync(100);
+    expect(received).toEqual(['setupComplete']);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(received).toEqual([
+      'setupComplete',
+      'filteredPrompt',
+      'close: Dropped',
+    ]);
+
+    const second = recorder();
+    await provider.connect(second.callbacks);
+    expect(provider.isFinished).toBe(true);
+    await vi.advanceTimersByTimeAsync(100);
+    // Closed as if the server had, since the capture ended with it open.
+    expect(second.received).toEqual([
+      'setupComplete',
+      'close: The capture ended.',
+    ]);
+    await expect(provider.connect(callbacks)).rejects.toThrow(
+      'The capture has no more sessions to replay.',
+    );
+  });
+
+  it('divides the pace by the speed', async () => {
+    const provider = new ReplaySessionProvider(capture, 10);
+    const {received, callbacks} = recorder();
+    await provider.connect(callbacks);
+    await vi.advanceTimersByTimeAsync(110);
+    expect(received).toHaveLength(3);
+  });
+
+  it('stops replaying a session the app closes', async () => {
+    const provider = new ReplaySessionProvider(capture);
+    const {received, callbacks} = recorder();
+    const session = await provider.connect(callbacks);
+    await vi.advanceTimersByTimeAsync(100);
+    session.close();
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(received).toEqual(['setupComplete']);
+  });
+
+  it('times a session open before the capture from its start', async () => {
+    const provider = new ReplaySessionProvider(
+      createCapture([
+        {t: 5000, session: 3, type: 'message', message: SETUP},
+        {t: 5500, session: 3, type: 'error', message: 'Boom'},
+      ]),
+    );
+    const {received, callbacks} = recorder();
+    await provider.connect(callbacks);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(received).toEqual(['setupComplete']);
+    await vi.advanceTimersByTimeAsync(500);
+    expect(received).toEqual(['setupComplete', 'error: Boom']);
+  });
+});
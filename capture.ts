@@ -0,0 +1,329 @@
+/**
+ * @fileoverview Captures what passes between the app and a music session,
+ * and replays captures without a network, for reproducing stream bugs.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type {
+  MusicServerMessage,
+  MusicSession,
+  MusicSessionCallbacks,
+  MusicSessionProvider,
+} from './music_session';
+
+export const CAPTURE_FORMAT = 'promptdj-capture';
+export const CAPTURE_VERSION = 1;
+
+/** The session calls a capture records. */
+export type CaptureCall =
+  | 'setWeightedPrompts'
+  | 'setMusicGenerationConfig'
+  | 'play'
+  | 'pause'
+  | 'stop'
+  | 'resetContext'
+  | 'close';
+
+const CAPTURE_CALLS: readonly CaptureCall[] = [
+  'setWeightedPrompts',
+  'setMusicGenerationConfig',
+  'play',
+  'pause',
+  'stop',
+  'resetContext',
+  'close',
+];
+
+/**
+ * One thing that happened, `t` milliseconds into the capture, on the
+ * `session`th session opened while capturing, counted from 0.
+ */
+export type CaptureEvent = {t: number; session: number} & (
+  | {type: 'connect'}
+  | {type: 'message'; message: MusicServerMessage}
+  | {type: 'error'; message?: string}
+  | {type: 'close'; code?: number; reason?: string}
+  | {type: 'call'; call: CaptureCall; params?: unknown}
+);
+
+const EVENT_TYPES = new Set(['connect', 'message', 'error', 'close', 'call']);
+
+export interface Capture {
+  format: typeof CAPTURE_FORMAT;
+  version: number;
+  /** The backend the capture was taken from. */
+  backend: string;
+  startedAt: string;
+  events: CaptureEvent[];
+}
+
+/** Lists everything wrong with a capture file. */
+export class CaptureError extends Error {
+  constructor(readonly problems: string[]) {
+    super(`Invalid capture: ${problems.join('; ')}`);
+  }
+}
+
+/** Validates an untrusted capture, throwing a `CaptureError`. */
+export function parseCapture(data: unknown): Capture {
+  const capture = data as Partial<Capture> | null;
+  if (
+    typeof capture !== 'object' ||
+    capture === null ||
+    capture.format !== CAPTURE_FORMAT
+  ) {
+    throw new CaptureError(['not a capture']);
+  }
+  if (typeof capture.version !== 'number' || capture.version > CAPTURE_VERSION) {
+    throw new CaptureError([`unsupported version ${String(capture.version)}`]);
+  }
+  const problems: string[] = [];
+  if (!Array.isArray(capture.events)) {
+    problems.push('events must be a list');
+  } else {
+    capture.events.forEach((event, i) => {
+      const label = `event ${i + 1}`;
+      if (typeof event?.t !== 'number' || !(event.t >= 0)) {
+        problems.push(`${label} has no time`);
+      }
+      if (!Number.isInteger(event?.session) || event.session < 0) {
+        problems.push(`${label} has no session`);
+      }
+      if (!EVENT_TYPES.has(event?.type)) {
+        problems.push(`${label} has an unknown type "${String(event?.type)}"`);
+      } else if (event.type === 'message' && typeof event.message !== 'object') {
+        problems.push(`${label} has no message`);
+      } else if (event.type === 'call' && !CAPTURE_CALLS.includes(event.call)) {
+        problems.push(`${label} has an unknown call "${String(event.call)}"`);
+      }
+    });
+  }
+  if (problems.length > 0) throw new CaptureError(problems);
+  return {
+    format: CAPTURE_FORMAT,
+    version: CAPTURE_VERSION,
+    backend: String(capture.backend ?? 'unknown'),
+    startedAt: String(capture.startedAt ?? ''),
+    events: capture.events!,
+  };
+}
+
+async function transform(bytes: Uint8Array, stream: GenericTransformStream) {
+  const output = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+/** Encodes a capture as gzipped JSON; the audio makes up most of it. */
+export function encodeCapture(capture: Capture): Promise<Uint8Array> {
+  const json = new TextEncoder().encode(JSON.stringify(capture));
+  return transform(json, new CompressionStream('gzip'));
+}
+
+/** Decodes a capture file, gzipped or not. */
+export async function decodeCapture(bytes: Uint8Array): Promise<Capture> {
+  const gzipped = bytes[0] === 0x1f && bytes[1] === 0x8b;
+  let data: unknown;
+  try {
+    const json = gzipped
+      ? await transform(bytes, new DecompressionStream('gzip'))
+      : bytes;
+    data = JSON.parse(new TextDecoder().decode(json));
+  } catch (e) {
+    throw new CaptureError(['the file is not a gzipped or plain JSON capture']);
+  }
+  return parseCapture(data);
+}
+
+/**
+ * Wraps a provider, recording every server message, error and close and
+ * every call the app makes on its sessions while capturing. Sessions opened
+ * before the capture started are recorded from then on.
+ */
+export class CapturingSessionProvider implements MusicSessionProvider {
+  private events: CaptureEvent[] | null = null;
+  private startedAt = new Date();
+  private startTime = 0;
+  private sessions = 0;
+
+  constructor(private readonly inner: MusicSessionProvider) {}
+
+  get name() {
+    return this.inner.name;
+  }
+
+  get isCapturing() {
+    return this.events !== null;
+  }
+
+  get eventCount() {
+    return this.events?.length ?? 0;
+  }
+
+  start() {
+    this.events = [];
+    this.startedAt = new Date();
+    this.startTime = performance.now();
+    this.sessions = 0;
+  }
+
+  stop(): Capture {
+    if (!this.events) throw new Error('Not capturing.');
+    const capture: Capture = {
+      format: CAPTURE_FORMAT,
+      version: CAPTURE_VERSION,
+      backend: this.inner.name,
+      startedAt: this.startedAt.toISOString(),
+      events: this.events,
+    };
+    this.events = null;
+    return capture;
+  }
+
+  async connect(callbacks: MusicSessionCallbacks): Promise<MusicSession> {
+    // Numbered when first seen while capturing, so each capture counts from 0.
+    let session: number | undefined;
+    let capture: CaptureEvent[] | null = null;
+    const record = (event: DistributiveOmit<CaptureEvent, 't' | 'session'>) => {
+      if (!this.events) return;
+      if (capture !== this.events) {
+        capture = this.events;
+        session = this.sessions++;
+      }
+      this.events.push({
+        t: Math.round(performance.now() - this.startTime),
+        session: session!,
+        ...event,
+      } as CaptureEvent);
+    };
+    const inner = await this.inner.connect({
+      onmessage: (message) => {
+        record({type: 'message', message});
+        callbacks.onmessage(message);
+      },
+      onerror: (e) => {
+        record({type: 'error', message: e.message});
+        callbacks.onerror?.(e);
+      },
+      onclose: (e) => {
+        record({type: 'close', code: e.code, reason: e.reason});
+        callbacks.onclose?.(e);
+      },
+    });
+    record({type: 'connect'});
+    const call = (name: CaptureCall, params?: unknown) =>
+      record({type: 'call', call: name, params});
+    return {
+      setWeightedPrompts: (params) => {
+        call('setWeightedPrompts', params);
+        return inner.setWeightedPrompts(params);
+      },
+      setMusicGenerationConfig: (params) => {
+        call('setMusicGenerationConfig', params);
+        return inner.setMusicGenerationConfig(params);
+      },
+      play: () => {
+        call('play');
+        inner.play();
+      },
+      pause: () => {
+        call('pause');
+        inner.pause();
+      },
+      stop: () => {
+        call('stop');
+        inner.stop();
+      },
+      resetContext: () => {
+        call('resetContext');
+        inner.resetContext();
+      },
+      close: () => {
+        call('close');
+        inner.close();
+      },
+    };
+  }
+}
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown
+  ? Omit<T, K>
+  : never;
+
+/**
+ * Plays the server side of a capture back, one captured session per
+ * connect, at its original pace divided by `speed`. Calls from the app are
+ * accepted and ignored, so a replay runs the same however the app reacts.
+ */
+export class ReplaySessionProvider implements MusicSessionProvider {
+  readonly name = 'replay';
+  private nextSession = 0;
+  private readonly sessions: number[];
+
+  constructor(
+    private readonly capture: Capture,
+    private readonly speed = 1,
+  ) {
+    this.sessions = [...new Set(capture.events.map((e) => e.session))].sort(
+      (a, b) => a - b,
+    );
+  }
+
+  /**
+   * Whether every captured session has been started, so that once the
+   * current one drops there is nothing left to replay.
+   */
+  get isFinished() {
+    return this.nextSession >= this.sessions.length;
+  }
+
+  async connect(callbacks: MusicSessionCallbacks): Promise<MusicSession> {
+    if (this.isFinished) {
+      throw new Error('The capture has no more sessions to replay.');
+    }
+    const session = this.sessions[this.nextSession++];
+    const events = this.capture.events.filter((e) => e.session === session);
+    // Times count from the connect, or from the first event of a session
+    // that was already open when the capture started.
+    const origin = (events.find((e) => e.type === 'connect') ?? events[0]).t;
+    const timers = events.map((event) =>
+      setTimeout(
+        () => {
+          switch (event.type) {
+            case 'message':
+              callbacks.onmessage(event.message);
+              break;
+            case 'error':
+              callbacks.onerror?.({message: event.message});
+              break;
+            case 'close':
+              callbacks.onclose?.({code: event.code, reason: event.reason});
+              break;
+          }
+        },
+        Math.max(0, event.t - origin) / this.speed,
+      ),
+    );
+    // A session the app closed, or that was still open when the capture
+    // stopped, ends as if the server had closed it.
+    const last = events[events.length - 1];
+    if (last.type !== 'close' && last.type !== 'error') {
+      timers.push(
+        setTimeout(
+          () => callbacks.onclose?.({reason: 'The capture ended.'}),
+          Math.max(0, last.t - origin) / this.speed,
+        ),
+      );
+    }
+    const ignore = () => {};
+    return {
+      setWeightedPrompts: async () => {},
+      setMusicGenerationConfig: async () => {},
+      play: ignore,
+      pause: ignore,
+      stop: ignore,
+      resetContext: ignore,
+      close: () => timers.forEach(clearTimeout),
+    };
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * @fileoverview Controls for capturing the session stream and replaying
+ * captures offline.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {css, html, LitElement} from 'lit';
+import {customElement, property, query} from 'lit/decorators.js';
+
+const REPLAY_SPEEDS = [1, 2, 4, 8];
+
+/** Starts and saves captures, and replays capture files at a chosen speed. */
+@customElement('capture-panel')
+export class CapturePanel extends LitElement {
+  static override styles = css`
+    :host {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      color: #eee;
+      font-family: 'Google Sans', sans-serif;
+      font-size: 13px;
+    }
+    .title {
+      font-weight: bold;
+      margin-right: auto;
+    }
+    .count {
+      color: #999;
+      font-variant-numeric: tabular-nums;
+    }
+    .replaying {
+      color: #ff25f6;
+    }
+    button,
+    select {
+      background: #333;
+      color: #eee;
+      border: 1px solid #666;
+      border-radius: 6px;
+      padding: 4px 10px;
+      font-family: inherit;
+      cursor: pointer;
+    }
+    input[type='file'] {
+      display: none;
+    }
+  `;
+
+  @property({type: Boolean}) capturing = false;
+  /** Events recorded by the running capture. */
+  @property({type: Number}) eventCount = 0;
+  @property({type: Boolean}) replaying = false;
+  @property({type: Number}) replaySpeed = 1;
+
+  @query('input[type="file"]') private fileInput!: HTMLInputElement;
+
+  private dispatch(name: string, detail?: unknown) {
+    this.dispatchEvent(
+      new CustomEvent(name, {detail, bubbles: true, composed: true}),
+    );
+  }
+
+  private async handleFileChange() {
+    const file = this.fileInput.files?.[0];
+    if (!file) return;
+    this.dispatch('replay-load', new Uint8Array(await file.arrayBuffer()));
+    // Let the same file be picked again.
+    this.fileInput.value = '';
+  }
+
+  private renderCapture() {
+    if (this.replaying) return '';
+    return this.capturing
+      ? html`<span class="count">${this.eventCount} events</span>
+          <button @click=${() => this.dispatch('capture-stop')}>
+            Stop &amp; save
+          </button>`
+      : html`<button
+          title="Record every server message and session call"
+          @click=${() => this.dispatch('capture-start')}>
+          Start capture
+        </button>`;
+  }
+
+  private renderReplay() {
+    if (this.capturing) return '';
+    return html`
+      ${this.replaying
+        ? html`<span class="replaying">Replaying</span>
+            <button @click=${() => this.dispatch('replay-stop')}>
+              Stop replay
+            </button>`
+        : html`<button @click=${() => this.fileInput.click()}>
+            Replay capture…
+          </button>`}
+      <select
+        title="Replay speed"
+        .value=${String(this.replaySpeed)}
+        @change=${(e: Event) =>
+          this.dispatch(
+            'replay-speed',
+            Number((e.target as HTMLSelectElement).value),
+          )}>
+        ${REPLAY_SPEEDS.map(
+          (speed) =>
+            html`<option
+              value=${speed}
+              ?selected=${speed === this.replaySpeed}>
+              ${speed}×
+            </option>`,
+        )}
+      </select>
+      <input
+        type="file"
+        accept="application/gzip,application/json,.gz,.json"
+        @change=${this.handleFileChange} />
+    `;
+  }
+
+  override render() {
+    return html`
+      <span class="title">Capture</span>
+      ${this.renderCapture()} ${this.renderReplay()}
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'capture-panel': CapturePanel;
+  }
+}
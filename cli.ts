@@ -0,0 +1,400 @@
+/**
+ * @fileoverview A headless runner that plays a prompt mix for a set duration
+ * and streams it to a WAV file, or as raw PCM to stdout.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ *     npm run build:cli
+ *     node dist-cli/cli.js --prompt "Funk=1" --prompt "Bossa Nova=0.5" \
+ *       --config bpm=110 --duration 30 --out set.wav
+ *
+ * Progress, filtered prompts and errors go to stderr as one JSON object per
+ * line, so the runner can be driven by other programs.
+ */
+
+import type {LiveMusicGenerationConfig} from '@google/genai';
+import {readFileSync, writeFileSync} from 'node:fs';
+import {parseArgs} from 'node:util';
+
+import {encodeWav} from './audio_export';
+import {
+  CaptureError,
+  CapturingSessionProvider,
+  decodeCapture,
+  encodeCapture,
+  ReplaySessionProvider,
+} from './capture';
+import {PromptDjEngine} from './engine';
+import {LocalSynthSessionProvider} from './local_synth';
+import {
+  GeminiMusicSessionProvider,
+  type MusicSessionProvider,
+} from './music_session';
+import {getNextPromptId} from './persistence';
+import {StreamRecorder} from './recorder';
+import {
+  parseSessionJson,
+  SessionDocumentError,
+  validateConfig,
+} from './session_document';
+import {parseConfigValue} from './set_script';
+import type {Prompt} from './types';
+
+const SAMPLE_RATE = 48000;
+const NUM_CHANNELS = 2;
+const DEFAULT_COLOR = '#9900ff';
+
+const EXIT_OK = 0;
+/** The session failed to connect, errored, closed or stopped sending audio. */
+const EXIT_SESSION_FAILED = 1;
+/** The flags or the session file are invalid. */
+const EXIT_USAGE = 2;
+/** Every prompt in the mix was filtered, so nothing can be generated. */
+const EXIT_ALL_FILTERED = 3;
+
+/** How long to wait for audio before giving up on the session. */
+const STALL_SECONDS = 30;
+
+const USAGE = `Usage: node dist-cli/cli.js [options]
+
+Plays a prompt mix and writes it as WAV to --out, or as raw 16-bit
+little-endian 48 kHz stereo PCM to stdout.
+
+Options:
+  -p, --prompt TEXT[=WEIGHT]  A prompt, weighted 1 unless given (repeatable)
+  -c, --config KEY=VALUE      A generation config parameter (repeatable)
+  -s, --session FILE          A session file exported from the app
+  -d, --duration SECONDS      Length of audio to write (default 30)
+  -o, --out FILE              Write a WAV file instead of PCM to stdout
+  -b, --backend NAME          "lyria" (default) or "local" for the offline synth
+      --model NAME            The Lyria model to connect to
+      --capture FILE          Save the session's messages and calls to FILE
+      --replay FILE           Replay a capture instead of connecting
+      --speed FACTOR          Replay speed (default 1)
+  -h, --help                  Show this help
+
+Flags are applied on top of the session file. Lyria reads the API key from
+GEMINI_API_KEY.
+
+Exit codes: 0 done, 1 session failed, 2 invalid usage, 3 all prompts filtered.`;
+
+/** Lists everything wrong with the command line. */
+class UsageError extends Error {
+  constructor(readonly problems: string[]) {
+    super(`Invalid usage: ${problems.join('; ')}`);
+  }
+}
+
+interface CliOptions {
+  prompts: Prompt[];
+  config: LiveMusicGenerationConfig;
+  /** Seconds of audio to write. */
+  duration: number;
+  /** The WAV file to write, or undefined for PCM on stdout. */
+  out?: string;
+  provider: MusicSessionProvider;
+  /** The file to save a capture of the session to. */
+  capture?: string;
+}
+
+/** Writes one line of structured output to stderr. */
+function report(type: string, fields: Record<string, unknown> = {}) {
+  process.stderr.write(`${JSON.stringify({type, ...fields})}\n`);
+}
+
+/** Parses `Text=weight`, where the text may itself contain `=`. */
+function parsePromptFlag(flag: string, problems: string[]) {
+  const match = /^(.*?)\s*=\s*([^=]*)$/.exec(flag);
+  const text = (match ? match[1] : flag).trim();
+  const weight = match ? Number(match[2]) : 1;
+  if (!text) problems.push(`prompt "${flag}" has no text`);
+  if (!Number.isFinite(weight) || weight < 0 || weight > 2) {
+    problems.push(`weight of prompt "${text}" must be 0–2`);
+  }
+  return {text, weight};
+}
+
+async function getReplayProvider(file: string, speed: string) {
+  const factor = Number(speed);
+  if (!Number.isFinite(factor) || factor <= 0) {
+    throw new UsageError([`speed "${speed}" must be a positive number`]);
+  }
+  let bytes: Uint8Array;
+  try {
+    bytes = readFileSync(file);
+  } catch (e) {
+    throw new UsageError([`cannot read ${file}`]);
+  }
+  return new ReplaySessionProvider(await decodeCapture(bytes), factor);
+}
+
+function getProvider(backend: string, model?: string): MusicSessionProvider {
+  if (backend === 'local') return new LocalSynthSessionProvider();
+  if (backend !== 'lyria') {
+    throw new UsageError([`unknown backend "${backend}"`]);
+  }
+  const apiKey = process.env['GEMINI_API_KEY'];
+  if (!apiKey) {
+    throw new UsageError([
+      'GEMINI_API_KEY is not set; use --backend local to run offline',
+    ]);
+  }
+  return new GeminiMusicSessionProvider(apiKey, model);
+}
+
+/** Returns the options, or undefined if help was asked for. */
+async function parseOptions(
+  args: string[],
+): Promise<CliOptions | undefined> {
+  let values;
+  try {
+    ({values} = parseArgs({
+      args,
+      options: {
+        prompt: {type: 'string', short: 'p', multiple: true, default: []},
+        config: {type: 'string', short: 'c', multiple: true, default: []},
+        session: {type: 'string', short: 's'},
+        duration: {type: 'string', short: 'd', default: '30'},
+        out: {type: 'string', short: 'o'},
+        backend: {type: 'string', short: 'b', default: 'lyria'},
+        model: {type: 'string'},
+        capture: {type: 'string'},
+        replay: {type: 'string'},
+        speed: {type: 'string', default: '1'},
+        help: {type: 'boolean', short: 'h', default: false},
+      },
+    }));
+  } catch (e) {
+    throw new UsageError([(e as Error).message]);
+  }
+  if (values.help) return undefined;
+
+  // Keyed by text, so that flags can change the weights of the session's.
+  const prompts = new Map<string, Prompt>();
+  let config: Record<string, unknown> = {};
+  if (values.session) {
+    let json: string;
+    try {
+      json = readFileSync(values.session, 'utf8');
+    } catch (e) {
+      throw new UsageError([`cannot read ${values.session}`]);
+    }
+    const doc = parseSessionJson(json);
+    for (const prompt of doc.prompts) prompts.set(prompt.text, prompt);
+    config = {...doc.config};
+  }
+
+  const problems: string[] = [];
+  for (const flag of values.prompt) {
+    const {text, weight} = parsePromptFlag(flag, problems);
+    const prompt = prompts.get(text) ?? {
+      promptId: `prompt-${getNextPromptId([...prompts.values()])}`,
+      // Nothing draws headless prompts, but they still carry a color.
+      color: DEFAULT_COLOR,
+      text,
+      weight,
+    };
+    prompts.set(text, {...prompt, weight});
+  }
+  const flagConfig: Record<string, unknown> = {};
+  for (const pair of values.config) {
+    const [key, value, ...rest] = pair.split('=');
+    if (!key || value === undefined || rest.length > 0) {
+      problems.push(`expected key=value, got "${pair}"`);
+      continue;
+    }
+    flagConfig[key] = parseConfigValue(value);
+  }
+  validateConfig(flagConfig, problems);
+  config = {...config, ...flagConfig};
+
+  const duration = Number(values.duration);
+  if (!Number.isFinite(duration) || duration <= 0) {
+    problems.push(`duration "${values.duration}" must be a positive number`);
+  }
+  if (
+    problems.length === 0 &&
+    ![...prompts.values()].some((p) => p.weight > 0)
+  ) {
+    problems.push('no prompt has a weight above 0');
+  }
+  if (values.capture && values.replay) {
+    problems.push('--capture and --replay cannot be combined');
+  }
+  if (problems.length > 0) throw new UsageError(problems);
+
+  return {
+    prompts: [...prompts.values()],
+    config: config as LiveMusicGenerationConfig,
+    duration,
+    out: values.out,
+    provider: values.replay
+      ? await getReplayProvider(values.replay, values.speed)
+      : getProvider(values.backend, values.model),
+    capture: values.capture,
+  };
+}
+
+/**
+ * Connects, plays the mix until `duration` seconds of audio have arrived and
+ * writes them out, resolving with the exit code.
+ */
+function run(options: CliOptions): Promise<number> {
+  const {prompts, config, duration, out, provider, capture: captureFile} =
+    options;
+  const capture = captureFile
+    ? new CapturingSessionProvider(provider)
+    : undefined;
+  capture?.start();
+  const engine = new PromptDjEngine(capture ?? provider, {prompts, config});
+  const recorder = new StreamRecorder(SAMPLE_RATE, NUM_CHANNELS);
+  const targetFrames = Math.round(duration * SAMPLE_RATE);
+  let frames = 0;
+
+  return new Promise((resolve) => {
+    let stallTimer: ReturnType<typeof setTimeout> | undefined;
+    let finished = false;
+
+    const finish = async (code: number) => {
+      if (finished) return;
+      finished = true;
+      clearTimeout(stallTimer);
+      engine.close();
+      // Failed runs are the ones most worth capturing, so save those too.
+      if (capture && captureFile) {
+        try {
+          writeFileSync(captureFile, await encodeCapture(capture.stop()));
+        } catch (e) {
+          report('error', {
+            message: `cannot write ${captureFile}: ${String(e)}`,
+          });
+          code = code === EXIT_OK ? EXIT_SESSION_FAILED : code;
+        }
+      }
+      resolve(code);
+    };
+
+    const fail = (message: string) => {
+      report('error', {message});
+      finish(EXIT_SESSION_FAILED);
+    };
+
+    const watchForStall = () => {
+      clearTimeout(stallTimer);
+      stallTimer = setTimeout(
+        () => fail(`no audio received for ${STALL_SECONDS} seconds`),
+        STALL_SECONDS * 1000,
+      );
+    };
+
+    const complete = () => {
+      const seconds = frames / SAMPLE_RATE;
+      if (out) {
+        const recording = recorder.stop();
+        try {
+          writeFileSync(out, encodeWav(recording));
+        } catch (e) {
+          fail(`cannot write ${out}: ${String(e)}`);
+          return;
+        }
+      }
+      report('done', {seconds, output: out ?? 'stdout'});
+      finish(EXIT_OK);
+    };
+
+    const handleAudio = (pcm: Int16Array) => {
+      if (finished) return;
+      const remaining = (targetFrames - frames) * NUM_CHANNELS;
+      const chunk = pcm.length > remaining ? pcm.subarray(0, remaining) : pcm;
+      frames += chunk.length / NUM_CHANNELS;
+      if (out) {
+        recorder.append(chunk);
+      } else {
+        process.stdout.write(
+          new Uint8Array(chunk.buffer, chunk.byteOffset, chunk.byteLength),
+        );
+      }
+      report('progress', {seconds: frames / SAMPLE_RATE});
+      if (frames >= targetFrames) {
+        complete();
+      } else {
+        watchForStall();
+      }
+    };
+
+    engine.on('audio', handleAudio);
+    engine.on('connectionchange', ({state, previous, reason}) => {
+      if (finished) return;
+      if (state === 'connected') {
+        report('connected', {backend: provider.name});
+      } else if (
+        state === 'reconnecting' &&
+        provider instanceof ReplaySessionProvider &&
+        provider.isFinished
+      ) {
+        fail('the replayed capture ended');
+      } else if (state === 'reconnecting' && previous !== 'reconnecting') {
+        recorder.markDiscontinuity();
+        report('reconnecting', {reason});
+      } else if (state === 'disconnected' && previous === 'reconnecting') {
+        fail(`connection lost: ${reason ?? 'unknown reason'}`);
+      }
+    });
+    engine.on('filtered', ({text, reason}) => {
+      if (finished) return;
+      report('filtered', {text, reason});
+      if (engine.getPromptsToSend().length === 0) {
+        report('error', {message: 'every prompt was filtered'});
+        finish(EXIT_ALL_FILTERED);
+      }
+    });
+    engine.on('error', ({kind, error}) =>
+      fail(
+        kind === 'prompts' || kind === 'config'
+          ? `failed to send ${kind}: ${error.message}`
+          : error.message,
+      ),
+    );
+
+    // A closed pipe, e.g. `| head -c`, ends the run like reaching the end.
+    process.stdout.on('error', (e: NodeJS.ErrnoException) => {
+      if (e.code === 'EPIPE') {
+        finish(EXIT_OK);
+      } else {
+        fail(`cannot write to stdout: ${e.message}`);
+      }
+    });
+
+    recorder.start({prompts: engine.getPromptsToSend(), config});
+    watchForStall();
+    engine.play();
+  });
+}
+
+async function main() {
+  let options: CliOptions | undefined;
+  try {
+    options = await parseOptions(process.argv.slice(2));
+  } catch (e) {
+    if (
+      e instanceof UsageError ||
+      e instanceof SessionDocumentError ||
+      e instanceof CaptureError
+    ) {
+      report('error', {kind: 'usage', problems: e.problems});
+      return EXIT_USAGE;
+    }
+    throw e;
+  }
+  if (!options) {
+    process.stdout.write(`${USAGE}\n`);
+    return EXIT_OK;
+  }
+  return run(options);
+}
+
+main().then((code) => {
+  // Sessions may hold sockets and timers open, so exit explicitly once
+  // everything is flushed.
+  process.stdout.write('', () => process.exit(code));
+});
@@ -0,0 +1,232 @@
+/**
+ * @fileoverview Tests for the musical clock and the bar/beat-quantized change
+ * queue.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {afterEach, beforeEach, describe, expect, it, vi} from 'vitest';
+
+import {
+  ChangeQueue,
+  getBarBeat,
+  getNextBoundary,
+  MusicalClock,
+  TempoEstimator,
+} from './clock';
+
+describe('getNextBoundary', () => {
+  it('finds the next boundary strictly after the position', () => {
+    expect(getNextBoundary(0, 'beat')).toBe(1);
+    expect(getNextBoundary(2.5, 'beat')).toBe(3);
+    expect(getNextBoundary(3, 'beat')).toBe(4);
+    expect(getNextBoundary(5, 'bar')).toBe(8);
+    expect(getNextBoundary(8, 'bar')).toBe(12);
+    expect(getNextBoundary(17, '4bars')).toBe(32);
+    expect(getNextBoundary(40, '8bars')).toBe(64);
+    expect(getNextBoundary(0, '16bars')).toBe(64);
+  });
+
+  it('treats a position a hair short of a boundary as on it', () => {
+    expect(getNextBoundary(4 - 1e-12, 'bar')).toBe(8);
+  });
+});
+
+describe('getBarBeat', () => {
+  it('counts bars and beats from 1', () => {
+    expect(getBarBeat(0)).toEqual({bar: 1, beat: 1});
+    expect(getBarBeat(3.9)).toEqual({bar: 1, beat: 4});
+    expect(getBarBeat(4)).toEqual({bar: 2, beat: 1});
+    expect(getBarBeat(-1)).toEqual({bar: 1, beat: 1});
+  });
+});
+
+describe('TempoEstimator', () => {
+  it('waits for five beats, then takes the median interval', () => {
+    const estimator = new TempoEstimator();
+    [0, 500, 1000, 1600].forEach((time) => estimator.addBeat(time));
+    expect(estimator.bpm).toBeUndefined();
+    estimator.addBeat(2100);
+    expect(estimator.bpm).toBe(120);
+  });
+
+  it('folds the tempo into its range', () => {
+    const slow = new TempoEstimator();
+    [0, 1500, 3000].forEach((time) => slow.addBeat(time));
+    // A gap of over two seconds starts afresh.
+    [6000, 7500, 9000, 10500, 12000].forEach((time) => slow.addBeat(time));
+    expect(slow.bpm).toBe(80);
+
+    const fast = new TempoEstimator();
+    [0, 250, 500, 750, 1000].forEach((time) => fast.addBeat(time));
+    expect(fast.bpm).toBe(120);
+  });
+});
+
+describe('MusicalClock', () => {
+  it('counts beats from when it started', () => {
+    const clock = new MusicalClock();
+    expect(clock.getBeats(1)).toBeNull();
+    clock.start(10);
+    expect(clock.getBeats(12)).toBe(4);
+    clock.stop();
+    expect(clock.isRunning).toBe(false);
+  });
+
+  it('keeps its position across a tempo change', () => {
+    const clock = new MusicalClock();
+    clock.start(0);
+    clock.setTempo(60, 2);
+    expect(clock.tempo).toBe(60);
+    expect(clock.getBeats(2)).toBeCloseTo(4);
+    expect(clock.getBeats(3)).toBeCloseTo(5);
+  });
+
+  it('follows the audio when the schedule shifts', () => {
+    const clock = new MusicalClock();
+    clock.start(0);
+    clock.shift(0.5);
+    expect(clock.getBeats(2.5)).toBe(4);
+  });
+});
+
+describe('ChangeQueue', () => {
+  let clock: MusicalClock;
+  /** The audio time scheduled so far, moving in step with the fake timers. */
+  let scheduled: number;
+  let onchange: () => void;
+  let queue: ChangeQueue;
+
+  beforeEach(() => {
+    vi.useFakeTimers({now: 0});
+    clock = new MusicalClock();
+    onchange = vi.fn();
+    queue = new ChangeQueue(
+      clock,
+      () => scheduled + Date.now() / 1000,
+      onchange,
+    );
+    // 120 bpm: a beat every half second and a bar every two.
+    scheduled = 0;
+    clock.start(0);
+  });
+
+  afterEach(() => {
+    queue.clear();
+    vi.useRealTimers();
+  });
+
+  /** When each change ran, in seconds of audio. */
+  function recorder() {
+    const runs: Array<[string, number]> = [];
+    const run = (key: string) => () =>
+      runs.push([key, scheduled + Date.now() / 1000]);
+    return {runs, run};
+  }
+
+  it('runs changes straight away when quantize is off or stopped', () => {
+    const {runs, run} = recorder();
+    queue.queue('a', 'A', 'off', run('a'));
+    clock.stop();
+    queue.queue('b', 'B', 'bar', run('b'));
+    expect(runs.map(([key]) => key)).toEqual(['a', 'b']);
+    expect(queue.pending).toEqual([]);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('holds a change until the next beat', () => {
+    const {runs, run} = recorder();
+    vi.advanceTimersByTime(1200);
+    queue.queue('density', 'Density', 'beat', run('density'));
+    expect(queue.pending).toEqual([
+      {key: 'density', label: 'Density', beat: 3},
+    ]);
+    vi.advanceTimersByTime(250);
+    expect(runs).toEqual([]);
+    vi.advanceTimersByTime(50);
+    expect(runs).toEqual([['density', 1.5]]);
+    expect(queue.pending).toEqual([]);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('holds changes until the next bar or phrase', () => {
+    const {runs, run} = recorder();
+    vi.advanceTimersByTime(500);
+    queue.queue('bar', 'Bar', 'bar', run('bar'));
+    queue.queue('phrase', 'Phrase', '4bars', run('phrase'));
+    vi.advanceTimersByTime(10000);
+    expect(runs).toEqual([
+      ['bar', 2],
+      ['phrase', 8],
+    ]);
+  });
+
+  it('judges boundaries at the edge of the scheduled audio', () => {
+    const {runs, run} = recorder();
+    // A second of audio is already buffered ahead of now.
+    scheduled = 1;
+    queue.queue('a', 'A', 'bar', run('a'));
+    expect(queue.pending[0].beat).toBe(4);
+    vi.advanceTimersByTime(1000);
+    expect(runs).toEqual([['a', 2]]);
+  });
+
+  it('replaces a change waiting under the same key', () => {
+    const {runs, run} = recorder();
+    queue.queue('a', 'First', 'bar', run('first'));
+    vi.advanceTimersByTime(1000);
+    queue.queue('a', 'Second', 'bar', run('second'));
+    expect(queue.pending.map((c) => c.label)).toEqual(['Second']);
+    vi.advanceTimersByTime(1000);
+    expect(runs).toEqual([['second', 2]]);
+
+    // An unquantized change to the key drops the waiting one.
+    queue.queue('b', 'Waiting', 'bar', run('waiting'));
+    queue.queue('b', 'Now', 'off', run('now'));
+    vi.advanceTimersByTime(5000);
+    expect(runs.map(([key]) => key)).toEqual(['second', 'now']);
+  });
+
+  it('reports every change to what is waiting', () => {
+    const {run} = recorder();
+    queue.queue('a', 'A', 'beat', run('a'));
+    expect(onchange).toHaveBeenCalledTimes(1);
+    vi.advanceTimersByTime(500);
+    expect(onchange).toHaveBeenCalledTimes(2);
+  });
+
+  it('follows tempo changes while a change waits', () => {
+    const {runs, run} = recorder();
+    queue.queue('a', 'A', 'bar', run('a'));
+    // Half the tempo from beat 2: the bar ends two seconds later, at 3 s.
+    vi.advanceTimersByTime(1000);
+    clock.setTempo(60, 1);
+    vi.advanceTimersByTime(1950);
+    expect(runs).toEqual([]);
+    vi.advanceTimersByTime(50);
+    expect(runs).toEqual([['a', 3]]);
+  });
+
+  it('runs everything waiting on flush and drops it on clear', () => {
+    const {runs, run} = recorder();
+    queue.queue('a', 'A', 'bar', run('a'));
+    queue.queue('b', 'B', '16bars', run('b'));
+    queue.flush();
+    expect(runs.map(([key]) => key)).toEqual(['a', 'b']);
+    expect(vi.getTimerCount()).toBe(0);
+
+    queue.queue('c', 'C', 'bar', run('c'));
+    queue.clear();
+    vi.advanceTimersByTime(10000);
+    expect(runs).toHaveLength(2);
+  });
+
+  it('waits while the clock is stopped', () => {
+    const {runs, run} = recorder();
+    queue.queue('a', 'A', 'bar', run('a'));
+    clock.stop();
+    vi.advanceTimersByTime(5000);
+    expect(runs).toEqual([]);
+    expect(queue.pending).toHaveLength(1);
+  });
+});
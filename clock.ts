@@ -0,0 +1,227 @@
+/**
+ * @fileoverview A musical clock on the audio timeline, and a queue that holds
+ * changes until the next beat, bar or phrase.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/** `off` applies changes straight away. */
+export type Quantize = 'off' | 'beat' | 'bar' | '4bars' | '8bars' | '16bars';
+
+export const QUANTIZE_OPTIONS: readonly Quantize[] = [
+  'off',
+  'beat',
+  'bar',
+  '4bars',
+  '8bars',
+  '16bars',
+];
+
+export const QUANTIZE_LABELS: Record<Quantize, string> = {
+  off: 'Off',
+  beat: 'Beat',
+  bar: 'Bar',
+  '4bars': '4 bars',
+  '8bars': '8 bars',
+  '16bars': '16 bars',
+};
+
+export const BEATS_PER_BAR = 4;
+
+/** The tempo assumed until one is set or detected. */
+export const DEFAULT_BPM = 120;
+
+const QUANTIZE_BEATS: Record<Exclude<Quantize, 'off'>, number> = {
+  beat: 1,
+  bar: BEATS_PER_BAR,
+  '4bars': 4 * BEATS_PER_BAR,
+  '8bars': 8 * BEATS_PER_BAR,
+  '16bars': 16 * BEATS_PER_BAR,
+};
+
+/** The first boundary of `quantize` strictly after `beats`. */
+export function getNextBoundary(
+  beats: number,
+  quantize: Exclude<Quantize, 'off'>,
+) {
+  const unit = QUANTIZE_BEATS[quantize];
+  return (Math.floor(beats / unit + 1e-9) + 1) * unit;
+}
+
+/** Bar and beat, both counted from 1, of a position in beats. */
+export function getBarBeat(beats: number) {
+  const whole = Math.max(0, Math.floor(beats));
+  return {
+    bar: Math.floor(whole / BEATS_PER_BAR) + 1,
+    beat: (whole % BEATS_PER_BAR) + 1,
+  };
+}
+
+/** Intervals between beats that are kept to estimate the tempo. */
+const TEMPO_WINDOW = 16;
+
+/**
+ * Estimates the tempo from the times of detected beats, folding it into the
+ * range a DJ would count in.
+ */
+export class TempoEstimator {
+  private beats: number[] = [];
+
+  constructor(
+    private readonly minBpm = 70,
+    private readonly maxBpm = 180,
+  ) {}
+
+  /** `time` is when the beat was heard, in milliseconds. */
+  addBeat(time: number) {
+    const last = this.beats[this.beats.length - 1];
+    // A long silence starts a new estimate.
+    if (last !== undefined && time - last > 2000) this.beats = [];
+    this.beats.push(time);
+    if (this.beats.length > TEMPO_WINDOW + 1) this.beats.shift();
+  }
+
+  /** The estimated tempo, or undefined until enough beats were heard. */
+  get bpm(): number | undefined {
+    if (this.beats.length < 5) return undefined;
+    const intervals = this.beats
+      .slice(1)
+      .map((time, i) => time - this.beats[i])
+      .sort((a, b) => a - b);
+    let bpm = 60000 / intervals[Math.floor(intervals.length / 2)];
+    while (bpm < this.minBpm) bpm *= 2;
+    while (bpm > this.maxBpm) bpm /= 2;
+    return Math.round(bpm);
+  }
+
+  reset() {
+    this.beats = [];
+  }
+}
+
+/**
+ * Counts beats on the audio clock from the start of playback. Changing the
+ * tempo keeps the current position, and `shift` follows the audio when the
+ * schedule jumps, e.g. after an underrun.
+ */
+export class MusicalClock {
+  /** The audio time of beat 0, or null while stopped. */
+  private origin: number | null = null;
+  private bpm = DEFAULT_BPM;
+
+  get isRunning() {
+    return this.origin !== null;
+  }
+
+  get tempo() {
+    return this.bpm;
+  }
+
+  start(audioTime: number) {
+    this.origin = audioTime;
+  }
+
+  stop() {
+    this.origin = null;
+  }
+
+  setTempo(bpm: number, audioTime: number) {
+    if (bpm <= 0 || bpm === this.bpm) return;
+    const beats = this.getBeats(audioTime);
+    this.bpm = bpm;
+    if (beats !== null) this.origin = audioTime - (beats * 60) / bpm;
+  }
+
+  /** Moves the timeline by `seconds`, keeping the beat under later audio. */
+  shift(seconds: number) {
+    if (this.origin !== null) this.origin += seconds;
+  }
+
+  /** The position at `audioTime`, in beats, or null while stopped. */
+  getBeats(audioTime: number): number | null {
+    if (this.origin === null) return null;
+    return ((audioTime - this.origin) * this.bpm) / 60;
+  }
+}
+
+export interface QueuedChange {
+  key: string;
+  label: string;
+  /** The beat the change fires on. */
+  beat: number;
+}
+
+/**
+ * Holds changes until their boundary. Boundaries are judged at the edge of
+ * the scheduled audio, since a change sent then is first heard right after
+ * the audio already buffered. A change queued under a key that is already
+ * waiting replaces it.
+ */
+export class ChangeQueue {
+  private readonly changes = new Map<
+    string,
+    QueuedChange & {run: () => void}
+  >();
+  private timer: ReturnType<typeof setInterval> | undefined;
+
+  constructor(
+    private readonly clock: MusicalClock,
+    /** The audio time up to which audio has been scheduled. */
+    private readonly getScheduledTime: () => number,
+    private readonly onchange: () => void,
+    private readonly rateMs = 50,
+  ) {}
+
+  get pending(): QueuedChange[] {
+    return [...this.changes.values()].map(({key, label, beat}) => ({
+      key,
+      label,
+      beat,
+    }));
+  }
+
+  /** Runs `run` on the next `quantize` boundary, or now if stopped. */
+  queue(key: string, label: string, quantize: Quantize, run: () => void) {
+    const beats = this.clock.getBeats(this.getScheduledTime());
+    if (quantize === 'off' || beats === null) {
+      if (this.changes.delete(key)) this.onchange();
+      run();
+      return;
+    }
+    this.changes.delete(key);
+    const beat = getNextBoundary(beats, quantize);
+    this.changes.set(key, {key, label, beat, run});
+    if (this.timer === undefined) {
+      this.timer = setInterval(() => this.tick(), this.rateMs);
+    }
+    this.onchange();
+  }
+
+  /** Runs every waiting change now, e.g. when playback stops. */
+  flush() {
+    const changes = [...this.changes.values()];
+    this.clear();
+    for (const change of changes) change.run();
+  }
+
+  clear() {
+    this.changes.clear();
+    clearInterval(this.timer);
+    this.timer = undefined;
+    this.onchange();
+  }
+
+  private tick() {
+    const beats = this.clock.getBeats(this.getScheduledTime());
+    if (beats === null) return;
+    const due = [...this.changes.values()].filter((c) => beats >= c.beat);
+    if (due.length === 0) return;
+    for (const change of due) this.changes.delete(change.key);
+    if (this.changes.size === 0) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    this.onchange();
+    for (const change of due) change.run();
+  }
+}
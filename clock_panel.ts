@@ -0,0 +1,160 @@
+/**
+ * @fileoverview Shows the bar and beat being heard, the tempo and the
+ * changes waiting for their boundary, and picks the quantization.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {css, html, LitElement} from 'lit';
+import {customElement, property, state} from 'lit/decorators.js';
+
+import {
+  getBarBeat,
+  type MusicalClock,
+  QUANTIZE_LABELS,
+  QUANTIZE_OPTIONS,
+  type Quantize,
+  type QueuedChange,
+} from './clock';
+
+/** Where the clock's tempo comes from. */
+export type TempoSource = 'config' | 'detected' | 'assumed';
+
+/** The transport readout, polling the clock on each animation frame. */
+@customElement('clock-panel')
+export class ClockPanel extends LitElement {
+  static override styles = css`
+    :host {
+      display: flex;
+      align-items: center;
+      flex-wrap: wrap;
+      gap: 12px;
+      color: #eee;
+      font-family: 'Google Sans', sans-serif;
+      font-size: 13px;
+    }
+    .position {
+      font-variant-numeric: tabular-nums;
+      font-size: 16px;
+      min-width: 90px;
+    }
+    .position.stopped {
+      color: #777;
+    }
+    .tempo {
+      color: #ccc;
+    }
+    .queued {
+      color: #ffcc00;
+      margin-right: auto;
+    }
+    .idle {
+      color: #777;
+      margin-right: auto;
+    }
+    select {
+      background: #111;
+      color: #eee;
+      border: 1px solid #666;
+      border-radius: 6px;
+      padding: 4px 8px;
+      font-family: inherit;
+    }
+    button {
+      background: #333;
+      color: #eee;
+      border: 1px solid #666;
+      border-radius: 6px;
+      padding: 4px 10px;
+      font-family: inherit;
+      cursor: pointer;
+    }
+  `;
+
+  @property({attribute: false}) clock: MusicalClock | null = null;
+  @property({attribute: false}) context: BaseAudioContext | null = null;
+  @property({attribute: false}) quantize: Quantize = 'off';
+  @property({attribute: false}) queued: QueuedChange[] = [];
+  @property({type: String}) tempoSource: TempoSource = 'assumed';
+
+  /** The whole beats heard so far, or null while stopped. */
+  @state() private beats: number | null = null;
+
+  private frame: number | undefined;
+
+  override connectedCallback() {
+    super.connectedCallback();
+    this.frame = requestAnimationFrame(this.poll);
+  }
+
+  override disconnectedCallback() {
+    super.disconnectedCallback();
+    if (this.frame !== undefined) cancelAnimationFrame(this.frame);
+    this.frame = undefined;
+  }
+
+  private poll = () => {
+    this.frame = requestAnimationFrame(this.poll);
+    if (!this.clock || !this.context) return;
+    const beats = this.clock.getBeats(this.context.currentTime);
+    // Only whole beats are shown, so only they re-render.
+    const whole = beats === null || beats < 0 ? null : Math.floor(beats);
+    if (whole !== this.beats) this.beats = whole;
+  };
+
+  private dispatch(name: string, detail?: unknown) {
+    this.dispatchEvent(
+      new CustomEvent(name, {detail, bubbles: true, composed: true}),
+    );
+  }
+
+  private renderQueued() {
+    if (this.queued.length === 0) {
+      return html`<span class="idle">No changes queued</span>`;
+    }
+    const {bar, beat} = getBarBeat(Math.min(...this.queued.map((c) => c.beat)));
+    return html`<span
+        class="queued"
+        title=${this.queued.map((c) => c.label).join(', ')}>
+        ${this.queued.length} queued for ${bar}.${beat}
+      </span>
+      <button @click=${() => this.dispatch('quantize-flush')}>Apply now</button>`;
+  }
+
+  override render() {
+    const position = this.beats === null ? null : getBarBeat(this.beats);
+    const tempo = this.clock?.tempo ?? 0;
+    return html`
+      <span class="position ${position ? '' : 'stopped'}">
+        ${position ? `${position.bar}.${position.beat}` : '–.–'}
+      </span>
+      <span class="tempo">
+        ${Math.round(tempo)} BPM
+        ${this.tempoSource === 'config' ? '' : `(${this.tempoSource})`}
+      </span>
+      ${this.renderQueued()}
+      <label>
+        Quantize
+        <select
+          @change=${(e: Event) =>
+            this.dispatch(
+              'quantize-changed',
+              (e.target as HTMLSelectElement).value as Quantize,
+            )}>
+          ${QUANTIZE_OPTIONS.map(
+            (option) =>
+              html`<option value=${option} ?selected=${option === this.quantize}>
+                ${QUANTIZE_LABELS[option]}
+              </option>`,
+          )}
+        </select>
+      </label>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'clock-panel': ClockPanel;
+  }
+}
@@ -0,0 +1,257 @@
+/**
+ * @fileoverview Tests for the reconnect backoff and the connection
+ * supervisor.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {afterEach, beforeEach, describe, expect, it, vi} from 'vitest';
+
+import {
+  type ConnectionState,
+  ConnectionSupervisor,
+  type ConnectionSupervisorOptions,
+  getBackoffDelay,
+} from './connection';
+import type {
+  MusicSession,
+  MusicSessionCallbacks,
+  MusicSessionProvider,
+} from './music_session';
+
+/** Four bytes of silence: one stereo frame. */
+const SILENCE = 'AAAAAA==';
+
+class FakeSession implements MusicSession {
+  closed = false;
+
+  constructor(readonly callbacks: MusicSessionCallbacks) {}
+
+  async setWeightedPrompts() {}
+  async setMusicGenerationConfig() {}
+  play() {}
+  pause() {}
+  stop() {}
+  resetContext() {}
+
+  close() {
+    this.closed = true;
+  }
+
+  setupComplete() {
+    this.callbacks.onmessage({setupComplete: {}});
+  }
+
+  sendAudio() {
+    this.callbacks.onmessage({serverContent: {audioChunks: [{data: SILENCE}]}});
+  }
+}
+
+/** Opens fake sessions, recording when; fails while `failing` is set. */
+class FakeProvider implements MusicSessionProvider {
+  readonly name = 'fake';
+  readonly sessions: FakeSession[] = [];
+  readonly attempts: number[] = [];
+  failing = false;
+
+  async connect(callbacks: MusicSessionCallbacks) {
+    this.attempts.push(Date.now());
+    if (this.failing) throw new Error('Unreachable');
+    const session = new FakeSession(callbacks);
+    this.sessions.push(session);
+    return session;
+  }
+
+  get session() {
+    return this.sessions[this.sessions.length - 1];
+  }
+}
+
+function createSupervisor(options: ConnectionSupervisorOptions = {}) {
+  const provider = new FakeProvider();
+  const states: Array<[ConnectionState, string | undefined]> = [];
+  const onsession = vi.fn();
+  const onmessage = vi.fn();
+  const supervisor = new ConnectionSupervisor(
+    provider,
+    {
+      onmessage,
+      onstatechange: (state, reason) => states.push([state, reason]),
+      onsession,
+    },
+    options,
+  );
+  return {provider, supervisor, states, onsession, onmessage};
+}
+
+describe('getBackoffDelay', () => {
+  const options = {initialBackoffMs: 500, maxBackoffMs: 15000};
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('doubles with each attempt up to the maximum', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    expect(
+      [1, 2, 3, 4, 5, 6, 7].map((attempt) => getBackoffDelay(attempt, options)),
+    ).toEqual([500, 1000, 2000, 4000, 8000, 15000, 15000]);
+  });
+
+  it('adds up to 20% jitter', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    expect(getBackoffDelay(1, options)).toBe(550);
+    vi.spyOn(Math, 'random').mockReturnValue(0.999);
+    expect(getBackoffDelay(10, options)).toBeCloseTo(17997);
+  });
+});
+
+describe('ConnectionSupervisor', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({now: 0});
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('connects and reports connected once setup completes', async () => {
+    const {provider, supervisor, states, onsession} = createSupervisor();
+    const session = await supervisor.connect();
+    expect(session).toBe(provider.session);
+    expect(onsession).toHaveBeenCalledWith(session, false);
+    expect(supervisor.state).toBe('connecting');
+    provider.session.setupComplete();
+    expect(states).toEqual([
+      ['connecting', undefined],
+      ['connected', undefined],
+    ]);
+  });
+
+  it('reports a failed connect and stays disconnected', async () => {
+    const {provider, supervisor, states} = createSupervisor();
+    provider.failing = true;
+    await expect(supervisor.connect()).rejects.toThrow('Unreachable');
+    expect(states).toEqual([
+      ['connecting', undefined],
+      ['disconnected', 'Unreachable'],
+    ]);
+    await vi.advanceTimersByTimeAsync(60000);
+    expect(provider.attempts).toHaveLength(1);
+  });
+
+  it('reconnects after a close', async () => {
+    const {provider, supervisor, states, onsession} = createSupervisor();
+    await supervisor.connect();
+    const dropped = provider.session;
+    dropped.setupComplete();
+    dropped.callbacks.onclose?.({reason: 'Going away'});
+    expect(dropped.closed).toBe(true);
+    expect(supervisor.session).toBeNull();
+    expect(states[states.length - 1]).toEqual(['reconnecting', 'Going away']);
+
+    await vi.advanceTimersByTimeAsync(499);
+    expect(provider.sessions).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(provider.sessions).toHaveLength(2);
+    expect(onsession).toHaveBeenLastCalledWith(provider.session, true);
+    provider.session.setupComplete();
+    expect(supervisor.state).toBe('connected');
+  });
+
+  it('backs off between failed reconnects, then gives up', async () => {
+    const {provider, supervisor, states} = createSupervisor({maxAttempts: 4});
+    await supervisor.connect();
+    provider.failing = true;
+    provider.session.callbacks.onerror?.({});
+    await vi.advanceTimersByTimeAsync(60000);
+    // The first connect, then four retries 0.5, 1, 2 and 4 s apart.
+    expect(provider.attempts).toEqual([0, 500, 1500, 3500, 7500]);
+    expect(states.slice(-2)).toEqual([
+      ['reconnecting', 'Connection error'],
+      ['disconnected', 'Unreachable'],
+    ]);
+  });
+
+  it('starts the backoff over once a reconnect succeeds', async () => {
+    const {provider, supervisor} = createSupervisor();
+    await supervisor.connect();
+    for (let i = 0; i < 3; i++) {
+      provider.session.setupComplete();
+      provider.session.callbacks.onclose?.({});
+      await vi.advanceTimersByTimeAsync(500);
+    }
+    expect(provider.attempts).toEqual([0, 500, 1000, 1500]);
+  });
+
+  it('ignores messages and closes from replaced sessions', async () => {
+    const {provider, supervisor, onmessage, states} = createSupervisor();
+    await supervisor.connect();
+    const old = provider.session;
+    await supervisor.connect();
+    old.setupComplete();
+    old.callbacks.onclose?.({reason: 'Late close'});
+    expect(onmessage).not.toHaveBeenCalled();
+    expect(states.map(([state]) => state)).toEqual(['connecting']);
+    expect(supervisor.session).toBe(provider.session);
+  });
+
+  describe('stall detection', () => {
+    it('reconnects when audio stops arriving while expected', async () => {
+      const {provider, supervisor, states} = createSupervisor({
+        stallTimeoutMs: 4000,
+      });
+      await supervisor.connect();
+      provider.session.setupComplete();
+      supervisor.setExpectingAudio(true);
+      for (let i = 0; i < 10; i++) {
+        await vi.advanceTimersByTimeAsync(1000);
+        provider.session.sendAudio();
+      }
+      expect(supervisor.state).toBe('connected');
+
+      await vi.advanceTimersByTimeAsync(5000);
+      expect(states[states.length - 1]).toEqual([
+        'reconnecting',
+        'No audio received',
+      ]);
+    });
+
+    it('only runs while audio is expected', async () => {
+      const {provider, supervisor} = createSupervisor({stallTimeoutMs: 4000});
+      await supervisor.connect();
+      provider.session.setupComplete();
+      await vi.advanceTimersByTimeAsync(10000);
+      supervisor.setExpectingAudio(true);
+      await vi.advanceTimersByTimeAsync(3000);
+      supervisor.setExpectingAudio(false);
+      await vi.advanceTimersByTimeAsync(10000);
+      expect(supervisor.state).toBe('connected');
+      // Expecting again starts the timeout afresh.
+      supervisor.setExpectingAudio(true);
+      await vi.advanceTimersByTimeAsync(3000);
+      expect(supervisor.state).toBe('connected');
+    });
+
+    it('catches sessions that never finish setup', async () => {
+      const {supervisor} = createSupervisor({stallTimeoutMs: 4000});
+      await supervisor.connect();
+      supervisor.setExpectingAudio(true);
+      await vi.advanceTimersByTimeAsync(5000);
+      expect(supervisor.state).toBe('reconnecting');
+    });
+
+    it('stops when the supervisor closes', async () => {
+      const {provider, supervisor} = createSupervisor({stallTimeoutMs: 4000});
+      await supervisor.connect();
+      supervisor.setExpectingAudio(true);
+      supervisor.close();
+      expect(provider.session.closed).toBe(true);
+      await vi.advanceTimersByTimeAsync(60000);
+      expect(provider.attempts).toHaveLength(1);
+      expect(supervisor.state).toBe('disconnected');
+    });
+  });
+});
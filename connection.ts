@@ -0,0 +1,223 @@
+/**
+ * @fileoverview Keeps a music session alive: notices closes, errors and
+ * silent stalls, and reconnects with exponential backoff.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type {
+  MusicServerMessage,
+  MusicSession,
+  MusicSessionProvider,
+} from './music_session';
+
+export type ConnectionState =
+  | 'connecting'
+  | 'connected'
+  | 'reconnecting'
+  | 'disconnected';
+
+export interface ConnectionSupervisorOptions {
+  /** How long audio may go missing while playing before the session counts as stalled. */
+  stallTimeoutMs?: number;
+  initialBackoffMs?: number;
+  maxBackoffMs?: number;
+  /** Reconnect attempts before giving up and reporting `disconnected`. */
+  maxAttempts?: number;
+}
+
+export interface ConnectionSupervisorCallbacks {
+  onmessage: (e: MusicServerMessage) => void;
+  onstatechange: (state: ConnectionState, reason?: string) => void;
+  /**
+   * Called with every new session before it is used, including the first.
+   * After a reconnect this should re-send the prompts and config and resume
+   * playback.
+   */
+  onsession: (session: MusicSession, reconnected: boolean) => Promise<void> | void;
+}
+
+const DEFAULT_OPTIONS: Required<ConnectionSupervisorOptions> = {
+  stallTimeoutMs: 8000,
+  initialBackoffMs: 500,
+  maxBackoffMs: 15000,
+  maxAttempts: 8,
+};
+
+/** The delay before reconnect attempt `attempt`, counting from 1. */
+export function getBackoffDelay(
+  attempt: number,
+  options: Pick<Required<ConnectionSupervisorOptions>, 'initialBackoffMs' | 'maxBackoffMs'>,
+) {
+  const delay = options.initialBackoffMs * 2 ** (attempt - 1);
+  // Up to 20% jitter so that many clients don't reconnect in lockstep.
+  return Math.min(options.maxBackoffMs, delay) * (1 + Math.random() * 0.2);
+}
+
+/**
+ * Owns the connection to a music session provider. Messages from sessions
+ * that have been replaced are ignored, so a late close from a dead socket
+ * cannot tear down its successor.
+ */
+export class ConnectionSupervisor {
+  private readonly options: Required<ConnectionSupervisorOptions>;
+  private current: MusicSession | null = null;
+  private generation = 0;
+  private attempt = 0;
+  private connectionState: ConnectionState = 'disconnected';
+  private retryTimer: ReturnType<typeof setTimeout> | undefined;
+  private stallTimer: ReturnType<typeof setInterval> | undefined;
+  private expectingAudio = false;
+  private lastAudioAt = 0;
+
+  constructor(
+    private provider: MusicSessionProvider,
+    private readonly callbacks: ConnectionSupervisorCallbacks,
+    options: ConnectionSupervisorOptions = {},
+  ) {
+    this.options = {...DEFAULT_OPTIONS, ...options};
+  }
+
+  get state() {
+    return this.connectionState;
+  }
+
+  get session() {
+    return this.current;
+  }
+
+  /**
+   * Connects, replacing any existing session. Throws if the provider fails,
+   * leaving the supervisor `disconnected`.
+   */
+  async connect(): Promise<MusicSession> {
+    this.cancelRetry();
+    this.attempt = 0;
+    this.setState('connecting');
+    try {
+      return await this.open(false);
+    } catch (e) {
+      this.setState('disconnected', (e as Error).message);
+      throw e;
+    }
+  }
+
+  /**
+   * Tells the supervisor whether audio should be arriving. Stall detection
+   * only runs while it is.
+   */
+  setExpectingAudio(expecting: boolean) {
+    if (expecting === this.expectingAudio) return;
+    this.expectingAudio = expecting;
+    this.lastAudioAt = Date.now();
+    clearInterval(this.stallTimer);
+    this.stallTimer = undefined;
+    if (expecting) {
+      this.stallTimer = setInterval(
+        () => this.checkStall(),
+        Math.min(1000, this.options.stallTimeoutMs / 4),
+      );
+    }
+  }
+
+  /** Closes any session; the next connect goes to `provider`. */
+  setProvider(provider: MusicSessionProvider) {
+    this.close();
+    this.provider = provider;
+  }
+
+  close() {
+    this.cancelRetry();
+    this.setExpectingAudio(false);
+    this.generation++;
+    this.current?.close();
+    this.current = null;
+    this.setState('disconnected');
+  }
+
+  private async open(reconnected: boolean): Promise<MusicSession> {
+    const generation = ++this.generation;
+    const isCurrent = () => generation === this.generation;
+    const session = await this.provider.connect({
+      onmessage: (e) => {
+        if (!isCurrent()) return;
+        if (e.setupComplete) {
+          this.attempt = 0;
+          this.setState('connected');
+        }
+        if (e.serverContent?.audioChunks) {
+          this.lastAudioAt = Date.now();
+        }
+        this.callbacks.onmessage(e);
+      },
+      onerror: (e) => {
+        if (isCurrent()) this.fail(e.message || 'Connection error');
+      },
+      onclose: (e) => {
+        if (isCurrent()) this.fail(e.reason || 'Connection closed');
+      },
+    });
+    if (!isCurrent()) {
+      // Superseded while connecting.
+      session.close();
+      throw new Error('Connection superseded');
+    }
+    this.current = session;
+    this.lastAudioAt = Date.now();
+    await this.callbacks.onsession(session, reconnected);
+    return session;
+  }
+
+  private checkStall() {
+    // Covers sessions that connect but never finish setup, too.
+    if (!this.current) return;
+    if (Date.now() - this.lastAudioAt > this.options.stallTimeoutMs) {
+      this.fail('No audio received');
+    }
+  }
+
+  /** Drops the current session and schedules a reconnect. */
+  private fail(reason: string) {
+    this.generation++;
+    const session = this.current;
+    this.current = null;
+    try {
+      session?.close();
+    } catch (e) {
+      // The socket may already be gone.
+    }
+    this.scheduleRetry(reason);
+  }
+
+  private scheduleRetry(reason: string) {
+    this.cancelRetry();
+    if (this.attempt >= this.options.maxAttempts) {
+      this.setExpectingAudio(false);
+      this.setState('disconnected', reason);
+      return;
+    }
+    this.attempt++;
+    this.setState('reconnecting', reason);
+    this.retryTimer = setTimeout(async () => {
+      this.retryTimer = undefined;
+      try {
+        await this.open(true);
+      } catch (e) {
+        if ((e as Error).message !== 'Connection superseded') {
+          this.scheduleRetry((e as Error).message);
+        }
+      }
+    }, getBackoffDelay(this.attempt, this.options));
+  }
+
+  private cancelRetry() {
+    clearTimeout(this.retryTimer);
+    this.retryTimer = undefined;
+  }
+
+  private setState(state: ConnectionState, reason?: string) {
+    if (state === this.connectionState) return;
+    this.connectionState = state;
+    this.callbacks.onstatechange(state, reason);
+  }
+}
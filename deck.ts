@@ -0,0 +1,201 @@
+/**
+ * @fileoverview A second, independent music session for two-deck mixing, and
+ * the crossfader that blends the decks.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type {LiveMusicGenerationConfig} from '@google/genai';
+import type {ConnectionState} from './connection';
+import {type OutputChunk, PromptDjEngine} from './engine';
+import {ChunkPlayer, type JitterBufferStats} from './jitter_buffer';
+import type {MusicSessionProvider} from './music_session';
+import type {PlaybackState, Prompt} from './types';
+import {decodeAudioData} from './utils';
+
+/**
+ * How the crossfader trades one deck for the other: `linear` dips in the
+ * middle, `power` keeps the loudness constant and `cut` keeps both decks at
+ * full volume until the very ends, for scratching.
+ */
+export type CrossfaderCurve = 'linear' | 'power' | 'cut';
+
+export const CROSSFADER_CURVES: readonly CrossfaderCurve[] = [
+  'linear',
+  'power',
+  'cut',
+];
+
+/** The share of the travel over which the `cut` curve fades. */
+const CUT_WIDTH = 0.05;
+
+/**
+ * The gains of decks A and B at a crossfader `position` from 0 (all A) to 1
+ * (all B).
+ */
+export function getCrossfadeGains(
+  position: number,
+  curve: CrossfaderCurve,
+): [number, number] {
+  const p = Math.min(1, Math.max(0, position));
+  switch (curve) {
+    case 'linear':
+      return [1 - p, p];
+    case 'power':
+      return [Math.cos((p * Math.PI) / 2), Math.sin((p * Math.PI) / 2)];
+    case 'cut':
+      return [Math.min(1, (1 - p) / CUT_WIDTH), Math.min(1, p / CUT_WIDTH)];
+  }
+}
+
+/** Blends two inputs into one output. */
+export class Crossfader {
+  readonly a: GainNode;
+  readonly b: GainNode;
+  readonly output: GainNode;
+
+  constructor(private readonly context: BaseAudioContext) {
+    this.a = context.createGain();
+    this.b = context.createGain();
+    this.output = context.createGain();
+    this.a.connect(this.output);
+    this.b.connect(this.output);
+  }
+
+  set(position: number, curve: CrossfaderCurve) {
+    const [a, b] = getCrossfadeGains(position, curve);
+    // A short glide, so that fast moves don't click.
+    this.a.gain.setTargetAtTime(a, this.context.currentTime, 0.01);
+    this.b.gain.setTargetAtTime(b, this.context.currentTime, 0.01);
+  }
+
+  connect(destination: AudioNode) {
+    this.output.connect(destination);
+  }
+}
+
+export interface DeckCallbacks {
+  /** Called when the play, connection or buffer state changes. */
+  onchange(): void;
+  /** Called with a message worth showing the user. */
+  onmessage(message: string): void;
+}
+
+/**
+ * A music session with its own prompts, config, play state and jitter buffer,
+ * playing into `output`.
+ */
+export class Deck {
+  /** Stays connected while the per-play gain nodes come and go. */
+  readonly output: GainNode;
+  bufferStats: JitterBufferStats;
+
+  private gain: GainNode;
+  private readonly chunkPlayer: ChunkPlayer;
+  private readonly engine: PromptDjEngine;
+
+  constructor(
+    private readonly context: AudioContext,
+    provider: MusicSessionProvider,
+    /** Names the deck in messages, e.g. "Deck B". */
+    private readonly label: string,
+    prompts: Prompt[],
+    config: LiveMusicGenerationConfig,
+    private readonly callbacks: DeckCallbacks,
+  ) {
+    this.output = context.createGain();
+    this.gain = context.createGain();
+    this.gain.connect(this.output);
+    this.chunkPlayer = new ChunkPlayer(context);
+    this.bufferStats = this.chunkPlayer.getStats();
+    this.engine = new PromptDjEngine(provider, {
+      prompts,
+      config,
+      output: {
+        play: (pcm, arrivalTime) => this.playChunk(pcm, arrivalTime),
+        start: () => this.fadeIn(),
+        pause: () => this.fadeOut(),
+        stop: () => this.dropScheduled(),
+      },
+    });
+    this.engine.on('statechange', () => this.callbacks.onchange());
+    this.engine.on('connectionchange', ({state, previous}) => {
+      if (state === 'disconnected' && previous === 'reconnecting') {
+        this.callbacks.onmessage(`${this.label} lost its connection.`);
+      }
+      this.callbacks.onchange();
+    });
+    this.engine.on('filtered', ({reason}) =>
+      this.callbacks.onmessage(`${this.label}: ${reason}`),
+    );
+    this.engine.on('error', ({error}) =>
+      this.callbacks.onmessage(`${this.label}: ${error.message}`),
+    );
+  }
+
+  get playbackState(): PlaybackState {
+    return this.engine.playbackState;
+  }
+
+  get connectionState(): ConnectionState {
+    return this.engine.connectionState;
+  }
+
+  getPrompts(): Prompt[] {
+    return [...this.engine.prompts.values()];
+  }
+
+  setPrompts(prompts: Prompt[]) {
+    this.engine.setPrompts(new Map(prompts.map((p) => [p.promptId, p])));
+  }
+
+  setConfig(config: LiveMusicGenerationConfig) {
+    this.engine.setConfig(config);
+  }
+
+  togglePlay() {
+    return this.engine.togglePlay();
+  }
+
+  /** Stops playback and closes the session. */
+  close() {
+    this.engine.close();
+    this.output.disconnect();
+  }
+
+  private fadeIn() {
+    this.context.resume();
+    this.gain.gain.setValueAtTime(0, this.context.currentTime);
+    this.gain.gain.linearRampToValueAtTime(1, this.context.currentTime + 0.1);
+  }
+
+  private fadeOut() {
+    this.gain.gain.setValueAtTime(1, this.context.currentTime);
+    this.gain.gain.linearRampToValueAtTime(0, this.context.currentTime + 0.1);
+    this.dropScheduled();
+    // Chunks already scheduled fade out on the old node.
+    this.gain = this.context.createGain();
+    this.gain.connect(this.output);
+  }
+
+  private dropScheduled() {
+    this.chunkPlayer.reset();
+    this.bufferStats = this.chunkPlayer.getStats();
+  }
+
+  private async playChunk(
+    pcm: Uint8Array,
+    arrivalTime: number,
+  ): Promise<OutputChunk> {
+    const audioBuffer = await decodeAudioData(pcm, this.context, 48000, 2);
+    const started = this.chunkPlayer.buffer.isStarted;
+    const chunk = this.chunkPlayer.play(audioBuffer, this.gain, arrivalTime);
+    this.bufferStats = this.chunkPlayer.getStats();
+    this.callbacks.onchange();
+    return {
+      delay: chunk.startTime - this.context.currentTime,
+      started: !started,
+      underrun: chunk.underrun,
+    };
+  }
+}
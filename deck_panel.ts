@@ -0,0 +1,234 @@
+/**
+ * @fileoverview Controls for the second deck and the crossfader.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {css, html, LitElement} from 'lit';
+import {customElement, property} from 'lit/decorators.js';
+import {classMap} from 'lit/directives/class-map.js';
+
+import type {ConnectionState} from './connection';
+import {CROSSFADER_CURVES, type CrossfaderCurve} from './deck';
+import type {PlaybackState, Prompt} from './types';
+
+const CURVE_LABELS: Record<CrossfaderCurve, string> = {
+  linear: 'Linear',
+  power: 'Smooth',
+  cut: 'Cut',
+};
+
+const PLAY_LABELS: Record<PlaybackState, string> = {
+  stopped: 'Play',
+  paused: 'Play',
+  loading: 'Loading…',
+  playing: 'Pause',
+};
+
+/** A weight change on one of the deck's prompts. */
+export interface DeckWeightDetail {
+  promptId: string;
+  weight: number;
+}
+
+/**
+ * Deck B's prompts, transport and crossfader. Deck B's settings go in the
+ * `settings` slot.
+ */
+@customElement('deck-panel')
+export class DeckPanel extends LitElement {
+  static override styles = css`
+    :host {
+      display: block;
+      color: #eee;
+      font-family: 'Google Sans', sans-serif;
+      font-size: 13px;
+    }
+    .toolbar,
+    .crossfader,
+    .prompt,
+    .add {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+    }
+    .title {
+      font-weight: bold;
+      margin-right: auto;
+    }
+    .status {
+      color: #aaa;
+    }
+    button,
+    select,
+    input[type='text'] {
+      background: #333;
+      color: #eee;
+      border: 1px solid #666;
+      border-radius: 6px;
+      padding: 4px 10px;
+      font-family: inherit;
+    }
+    button {
+      cursor: pointer;
+    }
+    button.active {
+      border-color: #ff25f6;
+      color: #ff25f6;
+    }
+    .prompts {
+      display: flex;
+      flex-direction: column;
+      gap: 4px;
+      margin-top: 8px;
+    }
+    .prompt .swatch {
+      width: 10px;
+      height: 10px;
+      border-radius: 50%;
+      flex-shrink: 0;
+    }
+    .prompt .text {
+      width: 160px;
+      white-space: nowrap;
+      overflow: hidden;
+      text-overflow: ellipsis;
+    }
+    .prompt input[type='range'] {
+      flex: 1;
+    }
+    .add input {
+      flex: 1;
+    }
+    .add {
+      margin-top: 4px;
+    }
+    .crossfader {
+      margin-top: 8px;
+    }
+    .crossfader input[type='range'] {
+      flex: 1;
+    }
+  `;
+
+  @property({type: Boolean}) enabled = false;
+  @property({attribute: false}) prompts: Prompt[] = [];
+  @property({type: String}) playbackState: PlaybackState = 'stopped';
+  @property({type: String}) connectionState: ConnectionState = 'disconnected';
+  /** From 0 (all deck A) to 1 (all deck B). */
+  @property({type: Number}) crossfader = 0;
+  @property({type: String}) curve: CrossfaderCurve = 'power';
+
+  private dispatch(name: string, detail?: unknown) {
+    this.dispatchEvent(
+      new CustomEvent(name, {detail, bubbles: true, composed: true}),
+    );
+  }
+
+  private handleAddKeyDown(e: KeyboardEvent) {
+    if (e.key !== 'Enter') return;
+    const input = e.target as HTMLInputElement;
+    const text = input.value.trim();
+    if (!text) return;
+    this.dispatch('deck-prompt-added', text);
+    input.value = '';
+  }
+
+  private renderPrompt(prompt: Prompt) {
+    return html`<div class="prompt">
+      <span class="swatch" style="background: ${prompt.color}"></span>
+      <span class="text" title=${prompt.text}>${prompt.text}</span>
+      <input
+        type="range"
+        min="0"
+        max="2"
+        step="0.01"
+        .value=${String(prompt.weight)}
+        @input=${(e: Event) =>
+          this.dispatch('deck-prompt-weight', {
+            promptId: prompt.promptId,
+            weight: Number((e.target as HTMLInputElement).value),
+          } as DeckWeightDetail)} />
+      <button
+        title="Remove"
+        @click=${() => this.dispatch('deck-prompt-removed', prompt.promptId)}>
+        ×
+      </button>
+    </div>`;
+  }
+
+  override render() {
+    if (!this.enabled) {
+      return html`<div class="toolbar">
+        <span class="title">Deck B</span>
+        <button @click=${() => this.dispatch('deck-enable')}>
+          Enable two decks
+        </button>
+      </div>`;
+    }
+    return html`
+      <div class="toolbar">
+        <span class="title">Deck B</span>
+        <span class="status">${this.connectionState}</span>
+        <button
+          class=${classMap({active: this.playbackState === 'playing'})}
+          @click=${() => this.dispatch('deck-play-pause')}>
+          ${PLAY_LABELS[this.playbackState]}
+        </button>
+        <button
+          title="Copy deck A's prompts and settings"
+          @click=${() => this.dispatch('deck-copy')}>
+          Copy deck A
+        </button>
+        <button @click=${() => this.dispatch('deck-disable')}>Close</button>
+      </div>
+      <div class="prompts">
+        ${this.prompts.map((prompt) => this.renderPrompt(prompt))}
+        <div class="add">
+          <input
+            type="text"
+            placeholder="Add a prompt to deck B and press Enter"
+            @keydown=${this.handleAddKeyDown} />
+        </div>
+      </div>
+      <slot name="settings"></slot>
+      <div class="crossfader">
+        <span>A</span>
+        <input
+          type="range"
+          min="0"
+          max="1"
+          step="0.01"
+          title="Crossfader"
+          .value=${String(this.crossfader)}
+          @input=${(e: Event) =>
+            this.dispatch(
+              'crossfader-changed',
+              Number((e.target as HTMLInputElement).value),
+            )}
+          @dblclick=${() => this.dispatch('crossfader-changed', 0.5)} />
+        <span>B</span>
+        <select
+          title="Crossfader curve"
+          @change=${(e: Event) =>
+            this.dispatch(
+              'crossfader-curve-changed',
+              (e.target as HTMLSelectElement).value,
+            )}>
+          ${CROSSFADER_CURVES.map(
+            (curve) =>
+              html`<option value=${curve} ?selected=${curve === this.curve}>
+                ${CURVE_LABELS[curve]}
+              </option>`,
+          )}
+        </select>
+      </div>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'deck-panel': DeckPanel;
+  }
+}
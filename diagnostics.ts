@@ -0,0 +1,158 @@
+/**
+ * @fileoverview Stream health: how audio is arriving, how far ahead it is
+ * buffered and how quickly updates reach the session, over the last minutes.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type {ConnectionState} from './connection';
+import type {SendKind} from './send_scheduler';
+
+/** One reading, taken once a second. */
+export interface DiagnosticsSample {
+  /** Milliseconds since the epoch. */
+  time: number;
+  /** Seconds of audio scheduled ahead of the audio clock. */
+  depth: number;
+  /** Chunks received per second, over the last few seconds. */
+  chunkRate: number;
+  /** Underruns since the diagnostics were created. */
+  underruns: number;
+}
+
+export interface DiagnosticsSnapshot extends DiagnosticsSample {
+  connectionState: ConnectionState;
+  /** Milliseconds since the session finished setup, or null if it hasn't. */
+  connectedFor: number | null;
+  /** Spread of the gaps between chunk arrivals, in milliseconds. */
+  arrivalJitter: number;
+  /** The latest milliseconds from making an update to its delivery. */
+  sendLatency: Record<SendKind, number | null>;
+  /** The mean of the recent send latencies, in milliseconds. */
+  averageSendLatency: Record<SendKind, number | null>;
+  filteredPrompts: number;
+}
+
+/** Something worth seeing next to the graph in a bug report. */
+export interface DiagnosticsEvent {
+  time: number;
+  type: 'connection' | 'underrun' | 'send';
+  detail: string;
+}
+
+/** Two minutes of samples at one a second. */
+const MAX_SAMPLES = 120;
+const MAX_EVENTS = 200;
+/** How far back the chunk rate and arrival jitter look. */
+const ARRIVAL_WINDOW_MS = 10000;
+/** How many sends the average latency is taken over. */
+const LATENCY_WINDOW = 20;
+
+function mean(values: number[]) {
+  return values.length === 0
+    ? null
+    : values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+/** Collects stream health from the engine and samples it for the panel. */
+export class StreamDiagnostics {
+  private samples: DiagnosticsSample[] = [];
+  private log: DiagnosticsEvent[] = [];
+  private connectionState: ConnectionState = 'disconnected';
+  private setupAt: number | null = null;
+  private arrivals: number[] = [];
+  private underruns = 0;
+  private latencies: Record<SendKind, number[]> = {prompts: [], config: []};
+  private latest: DiagnosticsSnapshot | undefined;
+
+  /** The samples, oldest first. */
+  get history(): readonly DiagnosticsSample[] {
+    return this.samples;
+  }
+
+  get events(): readonly DiagnosticsEvent[] {
+    return this.log;
+  }
+
+  /** The latest sample, with the current connection and send figures. */
+  get snapshot(): DiagnosticsSnapshot | undefined {
+    return this.latest;
+  }
+
+  noteConnection(state: ConnectionState, reason?: string) {
+    this.connectionState = state;
+    // The supervisor only reports connected once setup is complete.
+    this.setupAt = state === 'connected' ? Date.now() : null;
+    this.record('connection', reason ? `${state}: ${reason}` : state);
+  }
+
+  noteChunk() {
+    this.arrivals.push(Date.now());
+  }
+
+  noteUnderrun() {
+    this.underruns++;
+    this.record('underrun', `underrun ${this.underruns}`);
+  }
+
+  noteSend(kind: SendKind, latencyMs: number) {
+    this.latencies[kind] = [...this.latencies[kind], latencyMs].slice(
+      -LATENCY_WINDOW,
+    );
+    this.record('send', `${kind} in ${Math.round(latencyMs)}ms`);
+  }
+
+  /** Takes a reading, given the buffer depth in seconds. */
+  sample(depth: number, filteredPrompts: number): DiagnosticsSnapshot {
+    const now = Date.now();
+    this.arrivals = this.arrivals.filter((t) => now - t <= ARRIVAL_WINDOW_MS);
+    const sample: DiagnosticsSample = {
+      time: now,
+      depth,
+      chunkRate: this.arrivals.length / (ARRIVAL_WINDOW_MS / 1000),
+      underruns: this.underruns,
+    };
+    this.samples = [...this.samples, sample].slice(-MAX_SAMPLES);
+    const last = (kind: SendKind) => {
+      const latencies = this.latencies[kind];
+      return latencies.length > 0 ? latencies[latencies.length - 1] : null;
+    };
+    this.latest = {
+      ...sample,
+      connectionState: this.connectionState,
+      connectedFor: this.setupAt === null ? null : now - this.setupAt,
+      arrivalJitter: this.getArrivalJitter(),
+      sendLatency: {prompts: last('prompts'), config: last('config')},
+      averageSendLatency: {
+        prompts: mean(this.latencies.prompts),
+        config: mean(this.latencies.config),
+      },
+      filteredPrompts,
+    };
+    return this.latest;
+  }
+
+  /** Everything collected, for attaching to a bug report. */
+  export() {
+    return {
+      exportedAt: new Date().toISOString(),
+      snapshot: this.latest,
+      history: this.samples,
+      events: this.log,
+    };
+  }
+
+  /** The standard deviation of the gaps between recent arrivals. */
+  private getArrivalJitter() {
+    const gaps = this.arrivals.slice(1).map((t, i) => t - this.arrivals[i]);
+    const average = mean(gaps);
+    if (average === null) return 0;
+    return Math.sqrt(mean(gaps.map((gap) => (gap - average) ** 2))!);
+  }
+
+  private record(type: DiagnosticsEvent['type'], detail: string) {
+    this.log = [...this.log, {time: Date.now(), type, detail}].slice(
+      -MAX_EVENTS,
+    );
+  }
+}
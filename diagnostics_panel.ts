@@ -0,0 +1,202 @@
+/**
+ * @fileoverview A collapsible readout of stream health, with a rolling graph
+ * of the buffer and a button to export everything for a bug report.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {css, html, LitElement, svg} from 'lit';
+import {customElement, property} from 'lit/decorators.js';
+
+import type {DiagnosticsSample, DiagnosticsSnapshot} from './diagnostics';
+
+const GRAPH_WIDTH = 240;
+const GRAPH_HEIGHT = 48;
+/** The graph's top is at least this many seconds of buffer. */
+const MIN_GRAPH_DEPTH = 2;
+
+function formatDuration(ms: number) {
+  const seconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+function formatLatency(ms: number | null) {
+  return ms === null ? '–' : `${Math.round(ms)}ms`;
+}
+
+/** Shows the latest snapshot; the host samples and owns the diagnostics. */
+@customElement('diagnostics-panel')
+export class DiagnosticsPanel extends LitElement {
+  static override styles = css`
+    :host {
+      display: flex;
+      flex-direction: column;
+      gap: 8px;
+      color: #eee;
+      font-family: 'Google Sans', sans-serif;
+      font-size: 13px;
+    }
+    .toolbar {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+    }
+    .title {
+      font-weight: bold;
+      margin-right: auto;
+    }
+    .stats {
+      display: grid;
+      grid-template-columns: repeat(auto-fill, minmax(150px, 1fr));
+      gap: 2px 12px;
+      font-variant-numeric: tabular-nums;
+    }
+    .label {
+      color: #999;
+    }
+    .warning {
+      color: #ff8a75;
+    }
+    svg {
+      width: 100%;
+      height: 48px;
+      background: #111;
+      border: 1px solid #333;
+      border-radius: 4px;
+    }
+    .legend {
+      color: #999;
+      font-size: 12px;
+    }
+    .depth {
+      color: #5200ff;
+    }
+    .underrun {
+      color: #ff25f6;
+    }
+    button {
+      background: #333;
+      color: #eee;
+      border: 1px solid #666;
+      border-radius: 6px;
+      padding: 4px 10px;
+      font-family: inherit;
+      cursor: pointer;
+    }
+  `;
+
+  @property({type: Boolean}) open = false;
+  @property({attribute: false}) snapshot: DiagnosticsSnapshot | undefined;
+  @property({attribute: false}) history: readonly DiagnosticsSample[] = [];
+
+  private dispatch(name: string, detail?: unknown) {
+    this.dispatchEvent(
+      new CustomEvent(name, {detail, bubbles: true, composed: true}),
+    );
+  }
+
+  private renderStat(label: string, value: unknown, warning = false) {
+    return html`<div>
+      <span class="label">${label}</span>
+      <span class=${warning ? 'warning' : ''}>${value}</span>
+    </div>`;
+  }
+
+  private renderStats(s: DiagnosticsSnapshot) {
+    return html`<div class="stats">
+      ${this.renderStat(
+        'Connection',
+        s.connectionState,
+        s.connectionState === 'reconnecting',
+      )}
+      ${this.renderStat(
+        'Since setup',
+        s.connectedFor === null ? '–' : formatDuration(s.connectedFor),
+      )}
+      ${this.renderStat('Chunks', `${s.chunkRate.toFixed(1)}/s`)}
+      ${this.renderStat('Arrival jitter', `${Math.round(s.arrivalJitter)}ms`)}
+      ${this.renderStat('Buffer', `${s.depth.toFixed(2)}s`, s.depth === 0)}
+      ${this.renderStat('Underruns', s.underruns, s.underruns > 0)}
+      ${this.renderStat(
+        'Prompt sends',
+        `${formatLatency(s.sendLatency.prompts)} (avg ${formatLatency(
+          s.averageSendLatency.prompts,
+        )})`,
+      )}
+      ${this.renderStat(
+        'Config sends',
+        `${formatLatency(s.sendLatency.config)} (avg ${formatLatency(
+          s.averageSendLatency.config,
+        )})`,
+      )}
+      ${this.renderStat('Filtered', s.filteredPrompts, s.filteredPrompts > 0)}
+    </div>`;
+  }
+
+  /** Buffer depth over time, with a tick wherever an underrun happened. */
+  private renderGraph() {
+    const samples = this.history;
+    const top = Math.max(MIN_GRAPH_DEPTH, ...samples.map((s) => s.depth));
+    const step = GRAPH_WIDTH / Math.max(1, samples.length - 1);
+    const points = samples
+      .map(
+        (s, i) =>
+          `${(i * step).toFixed(1)},${(
+            GRAPH_HEIGHT -
+            (s.depth / top) * GRAPH_HEIGHT
+          ).toFixed(1)}`,
+      )
+      .join(' ');
+    const underruns = samples
+      .map((s, i) => (i > 0 && s.underruns > samples[i - 1].underruns ? i : -1))
+      .filter((i) => i !== -1);
+    return html`<svg
+        viewBox="0 0 ${GRAPH_WIDTH} ${GRAPH_HEIGHT}"
+        preserveAspectRatio="none">
+        ${underruns.map(
+          (i) =>
+            svg`<line x1=${i * step} x2=${i * step} y1="0" y2=${GRAPH_HEIGHT}
+              stroke="#ff25f6" stroke-width="1"
+              vector-effect="non-scaling-stroke" />`,
+        )}
+        <polyline
+          points=${points}
+          fill="none"
+          stroke="#5200ff"
+          stroke-width="1.5"
+          vector-effect="non-scaling-stroke" />
+      </svg>
+      <div class="legend">
+        <span class="depth">■</span> buffer, 0–${top.toFixed(1)}s ·
+        <span class="underrun">■</span> underrun · last ${samples.length}s
+      </div>`;
+  }
+
+  override render() {
+    return html`
+      <div class="toolbar">
+        <span class="title">Stream health</span>
+        ${this.open
+          ? html`<button
+              ?disabled=${!this.snapshot}
+              @click=${() => this.dispatch('diagnostics-export')}>
+              Export diagnostics
+            </button>`
+          : ''}
+        <button @click=${() => this.dispatch('diagnostics-toggle')}>
+          ${this.open ? 'Hide' : 'Show'}
+        </button>
+      </div>
+      ${this.open && this.snapshot
+        ? html`${this.renderStats(this.snapshot)} ${this.renderGraph()}`
+        : ''}
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'diagnostics-panel': DiagnosticsPanel;
+  }
+}
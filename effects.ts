@@ -0,0 +1,289 @@
+/**
+ * @fileoverview A DJ-style master effects rack: 3-band EQ with kills, a
+ * resonant filter sweep, tempo-synced delay, reverb and a limiter.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export interface EffectsState {
+  /** Band gains in dB. */
+  eqLow: number;
+  eqMid: number;
+  eqHigh: number;
+  killLow: boolean;
+  killMid: boolean;
+  killHigh: boolean;
+  /**
+   * One knob filter: below 0 sweeps a low-pass down, above 0 sweeps a
+   * high-pass up, and 0 is off.
+   */
+  filter: number;
+  filterResonance: number;
+  /** Delay time in beats, one of `DELAY_DIVISIONS`. */
+  delayBeats: number;
+  delayFeedback: number;
+  delayMix: number;
+  /** Reverb decay in seconds. */
+  reverbDecay: number;
+  reverbMix: number;
+  limiter: boolean;
+}
+
+export type EffectParam = keyof EffectsState;
+
+export const DEFAULT_EFFECTS: EffectsState = {
+  eqLow: 0,
+  eqMid: 0,
+  eqHigh: 0,
+  killLow: false,
+  killMid: false,
+  killHigh: false,
+  filter: 0,
+  filterResonance: 1,
+  delayBeats: 0.75,
+  delayFeedback: 0.4,
+  delayMix: 0,
+  reverbDecay: 2.5,
+  reverbMix: 0,
+  limiter: true,
+};
+
+/** Sixteenth, eighth, dotted eighth and quarter notes. */
+export const DELAY_DIVISIONS = [0.25, 0.5, 0.75, 1];
+
+/** Value ranges of the continuous parameters, matching the UI controls. */
+export const EFFECT_RANGES: Partial<Record<EffectParam, [number, number]>> = {
+  eqLow: [-24, 6],
+  eqMid: [-24, 6],
+  eqHigh: [-24, 6],
+  filter: [-1, 1],
+  filterResonance: [0.5, 15],
+  delayFeedback: [0, 0.9],
+  delayMix: [0, 1],
+  reverbDecay: [0.5, 6],
+  reverbMix: [0, 1],
+};
+
+const BOOLEAN_PARAMS = new Set<EffectParam>([
+  'killLow',
+  'killMid',
+  'killHigh',
+  'limiter',
+]);
+
+export const EFFECT_LABELS: Record<EffectParam, string> = {
+  eqLow: 'Low',
+  eqMid: 'Mid',
+  eqHigh: 'High',
+  killLow: 'Kill Low',
+  killMid: 'Kill Mid',
+  killHigh: 'Kill High',
+  filter: 'Filter',
+  filterResonance: 'Resonance',
+  delayBeats: 'Delay Time',
+  delayFeedback: 'Feedback',
+  delayMix: 'Delay',
+  reverbDecay: 'Decay',
+  reverbMix: 'Reverb',
+  limiter: 'Limiter',
+};
+
+/** The tempo the delay follows when the config leaves the BPM unset. */
+const DEFAULT_BPM = 120;
+
+/** The gain of a killed band, in dB. */
+const KILL_GAIN = -40;
+
+/** How quickly parameter changes settle, so that sweeps don't zipper. */
+const SMOOTHING = 0.02;
+
+/** Pushes every problem with an untrusted effects state onto `problems`. */
+export function validateEffects(effects: unknown, problems: string[]) {
+  if (typeof effects !== 'object' || effects === null || Array.isArray(effects)) {
+    problems.push('effects must be an object');
+    return;
+  }
+  for (const [key, value] of Object.entries(effects)) {
+    const param = key as EffectParam;
+    const range = EFFECT_RANGES[param];
+    if (range) {
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        problems.push(`${key} must be a number`);
+      } else if (value < range[0] || value > range[1]) {
+        problems.push(`${key} ${value} is outside ${range[0]}–${range[1]}`);
+      }
+    } else if (BOOLEAN_PARAMS.has(param)) {
+      if (typeof value !== 'boolean') problems.push(`${key} must be true or false`);
+    } else if (param === 'delayBeats') {
+      if (!DELAY_DIVISIONS.includes(value as number)) {
+        problems.push(`delayBeats must be one of ${DELAY_DIVISIONS.join(', ')}`);
+      }
+    } else {
+      problems.push(`unknown effect parameter "${key}"`);
+    }
+  }
+}
+
+/**
+ * Maps the filter knob to a cutoff: the low-pass falls from 20 kHz to 60 Hz
+ * and the high-pass rises from 20 Hz to 8 kHz, both exponentially.
+ */
+export function getFilterCutoff(filter: number) {
+  return filter < 0
+    ? 20000 * (60 / 20000) ** -filter
+    : 20 * (8000 / 20) ** filter;
+}
+
+/** Decaying stereo noise, a cheap stand-in for a recorded room. */
+function createImpulse(context: BaseAudioContext, decay: number) {
+  const length = Math.round(context.sampleRate * decay);
+  const impulse = context.createBuffer(2, length, context.sampleRate);
+  for (let channel = 0; channel < 2; channel++) {
+    const data = impulse.getChannelData(channel);
+    for (let i = 0; i < length; i++) {
+      data[i] = (Math.random() * 2 - 1) * (1 - i / length) ** 3;
+    }
+  }
+  return impulse;
+}
+
+/**
+ * A fixed graph from `input` to `output`. The rack outlives the nodes that
+ * feed it, so sources can be swapped without losing the effect settings or
+ * cutting off delay and reverb tails.
+ */
+export class EffectsRack {
+  readonly input: GainNode;
+  readonly output: GainNode;
+
+  private readonly low: BiquadFilterNode;
+  private readonly mid: BiquadFilterNode;
+  private readonly high: BiquadFilterNode;
+  private readonly filter: BiquadFilterNode;
+  private readonly delay: DelayNode;
+  private readonly delayFeedback: GainNode;
+  private readonly delaySend: GainNode;
+  private readonly reverb: ConvolverNode;
+  private readonly reverbSend: GainNode;
+  private readonly limiter: DynamicsCompressorNode;
+
+  private state: EffectsState = {...DEFAULT_EFFECTS};
+  private bpm = DEFAULT_BPM;
+
+  constructor(
+    private readonly context: BaseAudioContext,
+    initial: Partial<EffectsState> = {},
+  ) {
+    this.input = context.createGain();
+    this.output = context.createGain();
+
+    this.low = new BiquadFilterNode(context, {type: 'lowshelf', frequency: 250});
+    this.mid = new BiquadFilterNode(context, {
+      type: 'peaking',
+      frequency: 1000,
+      Q: 0.7,
+    });
+    this.high = new BiquadFilterNode(context, {
+      type: 'highshelf',
+      frequency: 4000,
+    });
+    this.filter = context.createBiquadFilter();
+
+    this.delay = context.createDelay(4);
+    this.delayFeedback = context.createGain();
+    this.delaySend = context.createGain();
+    this.reverb = context.createConvolver();
+    this.reverbSend = context.createGain();
+    this.limiter = context.createDynamicsCompressor();
+    this.limiter.knee.value = 0;
+    this.limiter.attack.value = 0.003;
+    this.limiter.release.value = 0.1;
+
+    this.input.connect(this.low);
+    this.low.connect(this.mid);
+    this.mid.connect(this.high);
+    this.high.connect(this.filter);
+
+    // The delay and reverb are sends, so their tails ring out over the dry
+    // signal rather than replacing it.
+    this.filter.connect(this.limiter);
+    this.filter.connect(this.delaySend);
+    this.delaySend.connect(this.delay);
+    this.delay.connect(this.delayFeedback);
+    this.delayFeedback.connect(this.delay);
+    this.delay.connect(this.limiter);
+    this.filter.connect(this.reverbSend);
+    this.reverbSend.connect(this.reverb);
+    this.reverb.connect(this.limiter);
+    this.limiter.connect(this.output);
+
+    this.reverb.buffer = createImpulse(context, this.state.reverbDecay);
+    this.apply({...this.state, ...initial}, true);
+  }
+
+  getState(): EffectsState {
+    return {...this.state};
+  }
+
+  /** Applies the given parameters, leaving the rest as they are. */
+  set(changes: Partial<EffectsState>) {
+    this.apply({...this.state, ...changes}, false);
+  }
+
+  /** Follows the session tempo; `undefined` falls back to 120 BPM. */
+  setBpm(bpm: number | undefined) {
+    this.bpm = bpm ?? DEFAULT_BPM;
+    this.setParam(this.delay.delayTime, this.getDelayTime(), false);
+  }
+
+  connect(destination: AudioNode) {
+    this.output.connect(destination);
+  }
+
+  private getDelayTime() {
+    return (this.state.delayBeats * 60) / this.bpm;
+  }
+
+  private apply(state: EffectsState, immediate: boolean) {
+    const previous = this.state;
+    this.state = state;
+
+    this.setParam(this.low.gain, state.killLow ? KILL_GAIN : state.eqLow, immediate);
+    this.setParam(this.mid.gain, state.killMid ? KILL_GAIN : state.eqMid, immediate);
+    this.setParam(
+      this.high.gain,
+      state.killHigh ? KILL_GAIN : state.eqHigh,
+      immediate,
+    );
+
+    // Switching the type at the center keeps the sweep free of jumps.
+    this.filter.type = state.filter < 0 ? 'lowpass' : 'highpass';
+    this.setParam(
+      this.filter.frequency,
+      getFilterCutoff(state.filter),
+      immediate,
+    );
+    this.setParam(this.filter.Q, state.filterResonance, immediate);
+
+    this.setParam(this.delay.delayTime, this.getDelayTime(), immediate);
+    this.setParam(this.delayFeedback.gain, state.delayFeedback, immediate);
+    this.setParam(this.delaySend.gain, state.delayMix, immediate);
+
+    if (state.reverbDecay !== previous.reverbDecay) {
+      this.reverb.buffer = createImpulse(this.context, state.reverbDecay);
+    }
+    this.setParam(this.reverbSend.gain, state.reverbMix, immediate);
+
+    // Without the limiter the compressor is left transparent.
+    this.setParam(this.limiter.threshold, state.limiter ? -1 : 0, immediate);
+    this.setParam(this.limiter.ratio, state.limiter ? 20 : 1, immediate);
+  }
+
+  private setParam(param: AudioParam, value: number, immediate: boolean) {
+    if (immediate) {
+      param.value = value;
+    } else {
+      param.setTargetAtTime(value, this.context.currentTime, SMOOTHING);
+    }
+  }
+}
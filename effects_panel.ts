@@ -0,0 +1,188 @@
+/**
+ * @fileoverview Controls for the master effects rack.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {css, html, LitElement} from 'lit';
+import {customElement, property} from 'lit/decorators.js';
+import {classMap} from 'lit/directives/class-map.js';
+
+import {
+  DEFAULT_EFFECTS,
+  DELAY_DIVISIONS,
+  EFFECT_LABELS,
+  EFFECT_RANGES,
+  type EffectParam,
+  type EffectsState,
+} from './effects';
+
+const DIVISION_LABELS: Record<number, string> = {
+  0.25: '1/16',
+  0.5: '1/8',
+  0.75: '3/16',
+  1: '1/4',
+};
+
+type BooleanParam = 'killLow' | 'killMid' | 'killHigh' | 'limiter';
+
+/** Sliders and switches for each effect; double-click a slider to reset it. */
+@customElement('effects-panel')
+export class EffectsPanel extends LitElement {
+  static override styles = css`
+    :host {
+      display: block;
+      color: #eee;
+      font-family: 'Google Sans', sans-serif;
+      font-size: 13px;
+    }
+    .toolbar {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+    }
+    .title {
+      font-weight: bold;
+      margin-right: auto;
+    }
+    .sections {
+      display: grid;
+      grid-template-columns: repeat(auto-fill, minmax(180px, 1fr));
+      gap: 8px 16px;
+      margin-top: 8px;
+    }
+    .section {
+      display: flex;
+      flex-direction: column;
+      gap: 4px;
+    }
+    .section-title {
+      color: #aaa;
+    }
+    .control {
+      display: flex;
+      align-items: center;
+      gap: 6px;
+    }
+    .control .label {
+      width: 70px;
+      color: #ccc;
+    }
+    .control input[type='range'] {
+      flex: 1;
+      min-width: 0;
+    }
+    .kills {
+      display: flex;
+      gap: 4px;
+    }
+    button,
+    select {
+      background: #333;
+      color: #eee;
+      border: 1px solid #666;
+      border-radius: 6px;
+      padding: 4px 10px;
+      font-family: inherit;
+      cursor: pointer;
+    }
+    button.active {
+      border-color: #ff25f6;
+      color: #ff25f6;
+    }
+  `;
+
+  @property({attribute: false}) state: EffectsState = DEFAULT_EFFECTS;
+
+  private dispatch(name: string, detail?: unknown) {
+    this.dispatchEvent(
+      new CustomEvent(name, {detail, bubbles: true, composed: true}),
+    );
+  }
+
+  private change(changes: Partial<EffectsState>) {
+    this.dispatch('effects-changed', changes);
+  }
+
+  private renderSlider(param: EffectParam) {
+    const [min, max] = EFFECT_RANGES[param]!;
+    return html`<label class="control">
+      <span class="label">${EFFECT_LABELS[param]}</span>
+      <input
+        type="range"
+        min=${min}
+        max=${max}
+        step=${(max - min) / 100}
+        .value=${String(this.state[param])}
+        @input=${(e: Event) =>
+          this.change({
+            [param]: Number((e.target as HTMLInputElement).value),
+          })}
+        @dblclick=${() => this.change({[param]: DEFAULT_EFFECTS[param]})} />
+    </label>`;
+  }
+
+  private renderToggle(param: BooleanParam) {
+    return html`<button
+      class=${classMap({active: this.state[param]})}
+      @click=${() => this.change({[param]: !this.state[param]})}>
+      ${EFFECT_LABELS[param]}
+    </button>`;
+  }
+
+  override render() {
+    return html`
+      <div class="toolbar">
+        <span class="title">Effects</span>
+        ${this.renderToggle('limiter')}
+        <button @click=${() => this.change(DEFAULT_EFFECTS)}>Reset</button>
+      </div>
+      <div class="sections">
+        <div class="section">
+          <span class="section-title">EQ</span>
+          ${this.renderSlider('eqLow')} ${this.renderSlider('eqMid')}
+          ${this.renderSlider('eqHigh')}
+          <div class="kills">
+            ${this.renderToggle('killLow')} ${this.renderToggle('killMid')}
+            ${this.renderToggle('killHigh')}
+          </div>
+        </div>
+        <div class="section">
+          <span class="section-title">Filter</span>
+          ${this.renderSlider('filter')} ${this.renderSlider('filterResonance')}
+        </div>
+        <div class="section">
+          <span class="section-title">Delay</span>
+          <label class="control">
+            <span class="label">${EFFECT_LABELS.delayBeats}</span>
+            <select
+              @change=${(e: Event) =>
+                this.change({
+                  delayBeats: Number((e.target as HTMLSelectElement).value),
+                })}>
+              ${DELAY_DIVISIONS.map(
+                (beats) =>
+                  html`<option
+                    value=${beats}
+                    ?selected=${beats === this.state.delayBeats}>
+                    ${DIVISION_LABELS[beats]}
+                  </option>`,
+              )}
+            </select>
+          </label>
+          ${this.renderSlider('delayFeedback')} ${this.renderSlider('delayMix')}
+        </div>
+        <div class="section">
+          <span class="section-title">Reverb</span>
+          ${this.renderSlider('reverbDecay')} ${this.renderSlider('reverbMix')}
+        </div>
+      </div>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'effects-panel': EffectsPanel;
+  }
+}
@@ -0,0 +1,466 @@
+/**
+ * @fileoverview Tests for the engine against a scripted session.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type {
+  LiveMusicGenerationConfig,
+  LiveMusicSetConfigParameters,
+  LiveMusicSetWeightedPromptsParameters,
+  WeightedPrompt,
+} from '@google/genai';
+import {afterEach, beforeEach, describe, expect, it, vi} from 'vitest';
+
+import {
+  type EngineOutput,
+  type OutputChunk,
+  PromptDjEngine,
+  type PromptDjEngineOptions,
+} from './engine';
+import type {
+  MusicSession,
+  MusicSessionCallbacks,
+  MusicSessionProvider,
+} from './music_session';
+import type {PlaybackState, Prompt} from './types';
+
+/** Four bytes of silence: one stereo frame. */
+const SILENCE = 'AAAAAA==';
+
+/** A session whose server side is driven by the test. */
+class FakeSession implements MusicSession {
+  readonly calls: string[] = [];
+  readonly sentPrompts: WeightedPrompt[][] = [];
+  readonly sentConfigs: LiveMusicGenerationConfig[] = [];
+
+  constructor(private readonly callbacks: MusicSessionCallbacks) {}
+
+  async setWeightedPrompts({
+    weightedPrompts,
+  }: LiveMusicSetWeightedPromptsParameters) {
+    this.sentPrompts.push(weightedPrompts);
+  }
+
+  async setMusicGenerationConfig({
+    musicGenerationConfig,
+  }: LiveMusicSetConfigParameters) {
+    this.sentConfigs.push(musicGenerationConfig);
+  }
+
+  play() {
+    this.calls.push('play');
+  }
+
+  pause() {
+    this.calls.push('pause');
+  }
+
+  stop() {
+    this.calls.push('stop');
+  }
+
+  resetContext() {
+    this.calls.push('resetContext');
+  }
+
+  close() {
+    this.calls.push('close');
+  }
+
+  get lastPrompts() {
+    return this.sentPrompts[this.sentPrompts.length - 1]?.map((p) => p.text);
+  }
+
+  get lastConfig() {
+    return this.sentConfigs[this.sentConfigs.length - 1];
+  }
+
+  setupComplete() {
+    this.callbacks.onmessage({setupComplete: {}});
+  }
+
+  sendAudio() {
+    this.callbacks.onmessage({serverContent: {audioChunks: [{data: SILENCE}]}});
+  }
+
+  filter(text: string) {
+    this.callbacks.onmessage({filteredPrompt: {text, filteredReason: 'Nope'}});
+  }
+
+  drop() {
+    this.callbacks.onclose?.({reason: 'Dropped'});
+  }
+}
+
+class FakeProvider implements MusicSessionProvider {
+  readonly name = 'fake';
+  readonly sessions: FakeSession[] = [];
+
+  async connect(callbacks: MusicSessionCallbacks) {
+    const session = new FakeSession(callbacks);
+    this.sessions.push(session);
+    return session;
+  }
+
+  get session() {
+    return this.sessions[this.sessions.length - 1];
+  }
+}
+
+function prompt(id: number, text: string, weight = 1): Prompt {
+  return {promptId: `prompt-${id}`, color: '#fff', text, weight};
+}
+
+const PROMPTS = [prompt(0, 'Funk'), prompt(1, 'Bossa Nova', 0.5)];
+
+function createEngine(options: PromptDjEngineOptions = {}) {
+  const provider = new FakeProvider();
+  const engine = new PromptDjEngine(provider, {prompts: PROMPTS, ...options});
+  const states: PlaybackState[] = [];
+  engine.on('statechange', (state) => states.push(state));
+  return {provider, engine, states};
+}
+
+/** Lets paced sends and promise callbacks run. */
+async function settle(ms = 500) {
+  await vi.advanceTimersByTimeAsync(ms);
+}
+
+/** Plays until the first chunk of audio has arrived. */
+async function startPlaying(engine: PromptDjEngine, provider: FakeProvider) {
+  await engine.play();
+  provider.session.setupComplete();
+  provider.session.sendAudio();
+  await settle();
+}
+
+describe('PromptDjEngine', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('sends the prompts and config once connected', async () => {
+    const {provider, engine} = createEngine({config: {bpm: 120}});
+    await engine.connect();
+    await settle();
+    expect(provider.session.lastPrompts).toEqual(['Funk', 'Bossa Nova']);
+    expect(provider.session.sentConfigs).toEqual([{bpm: 120}]);
+  });
+
+  it('leaves prompts without weight out of the mix', async () => {
+    const {provider, engine} = createEngine({
+      prompts: [prompt(0, 'Funk'), prompt(1, 'Dubstep', 0)],
+    });
+    await engine.connect();
+    await settle();
+    expect(provider.session.lastPrompts).toEqual(['Funk']);
+  });
+
+  describe('filtered prompts', () => {
+    it('drops a filtered prompt from the mix and reports it', async () => {
+      const {provider, engine} = createEngine();
+      const filtered = vi.fn();
+      engine.on('filtered', filtered);
+      await engine.connect();
+      await settle();
+
+      provider.session.filter('Funk');
+      engine.syncPrompts();
+      await settle();
+
+      expect(filtered).toHaveBeenCalledWith({text: 'Funk', reason: 'Nope'});
+      expect(engine.filteredPrompts.get('Funk')).toBe('Nope');
+      expect(provider.session.lastPrompts).toEqual(['Bossa Nova']);
+      expect(engine.isPromptSynced(PROMPTS[0])).toBe(true);
+    });
+
+    it('keeps a filtered prompt out when the prompts change', async () => {
+      const {provider, engine} = createEngine();
+      await engine.connect();
+      provider.session.filter('Funk');
+      engine.setPrompts(
+        new Map(PROMPTS.map((p) => [p.promptId, {...p, weight: 2}])),
+      );
+      await settle();
+      expect(provider.session.lastPrompts).toEqual(['Bossa Nova']);
+    });
+
+    it('sends a prompt again when it is retried', async () => {
+      const {provider, engine} = createEngine();
+      await engine.connect();
+      provider.session.filter('Funk');
+      engine.syncPrompts();
+      await settle();
+
+      engine.retryFiltered('Funk');
+      await settle();
+
+      expect(engine.filteredPrompts.size).toBe(0);
+      expect(provider.session.lastPrompts).toEqual(['Funk', 'Bossa Nova']);
+    });
+
+    it('renames a rephrased prompt and sends the new text', async () => {
+      const {provider, engine} = createEngine();
+      await engine.connect();
+      provider.session.filter('Funk');
+      engine.syncPrompts();
+      await settle();
+
+      engine.retryFiltered('Funk', 'Funky groove');
+      await settle();
+
+      expect(engine.prompts.get('prompt-0')?.text).toBe('Funky groove');
+      expect(engine.prompts.get('prompt-0')?.weight).toBe(1);
+      expect(provider.session.lastPrompts).toEqual([
+        'Funky groove',
+        'Bossa Nova',
+      ]);
+    });
+  });
+
+  describe('playback', () => {
+    it('loads until the first chunk arrives, then plays', async () => {
+      const {provider, engine, states} = createEngine();
+      await engine.play();
+      expect(engine.playbackState).toBe('loading');
+      expect(provider.session.calls).toEqual(['play']);
+
+      provider.session.setupComplete();
+      provider.session.sendAudio();
+      await settle();
+
+      expect(states).toEqual(['loading', 'playing']);
+      expect(engine.connectionState).toBe('connected');
+    });
+
+    it('waits for the output to start the audio before playing', async () => {
+      const play = vi.fn(
+        async (): Promise<OutputChunk> => ({
+          delay: 0.5,
+          started: true,
+          underrun: false,
+        }),
+      );
+      const output: EngineOutput = {
+        play,
+        start: vi.fn(),
+        pause: vi.fn(),
+        stop: vi.fn(),
+      };
+      const {provider, engine} = createEngine({output});
+      await engine.play();
+      provider.session.sendAudio();
+      await settle(100);
+      expect(play).toHaveBeenCalledOnce();
+      expect(engine.playbackState).toBe('loading');
+      await settle(500);
+      expect(engine.playbackState).toBe('playing');
+      expect(output.start).toHaveBeenCalledOnce();
+    });
+
+    it('ignores audio while paused', async () => {
+      const {provider, engine} = createEngine();
+      const audio = vi.fn();
+      engine.on('audio', audio);
+      await startPlaying(engine, provider);
+      engine.pause();
+      provider.session.sendAudio();
+      await settle();
+      expect(audio).toHaveBeenCalledOnce();
+      expect(engine.playbackState).toBe('paused');
+    });
+
+    it('toggles through stopped, loading, playing and paused', async () => {
+      const {provider, engine, states} = createEngine();
+
+      await engine.togglePlay();
+      expect(engine.playbackState).toBe('loading');
+      // Toggling while loading gives up rather than pausing.
+      await engine.togglePlay();
+      expect(engine.playbackState).toBe('stopped');
+
+      await engine.togglePlay();
+      provider.session.setupComplete();
+      provider.session.sendAudio();
+      await settle();
+      expect(engine.playbackState).toBe('playing');
+
+      await engine.togglePlay();
+      expect(engine.playbackState).toBe('paused');
+      await engine.togglePlay();
+      expect(engine.playbackState).toBe('loading');
+
+      expect(states).toEqual([
+        'loading',
+        'stopped',
+        'loading',
+        'playing',
+        'paused',
+        'loading',
+      ]);
+      expect(provider.session.calls).toEqual([
+        'play',
+        'stop',
+        'play',
+        'pause',
+        'play',
+      ]);
+      // One session throughout.
+      expect(provider.sessions).toHaveLength(1);
+    });
+
+    it('resets the context and config, then plays again', async () => {
+      const {provider, engine} = createEngine({config: {bpm: 90}});
+      await startPlaying(engine, provider);
+      provider.session.filter('Funk');
+
+      await engine.reset();
+      expect(engine.playbackState).toBe('paused');
+      expect(engine.config).toEqual({});
+      expect(engine.filteredPrompts.size).toBe(0);
+
+      await settle(100);
+      expect(engine.playbackState).toBe('loading');
+      expect(provider.session.calls).toEqual([
+        'play',
+        'pause',
+        'resetContext',
+        'play',
+      ]);
+      await settle();
+      expect(provider.session.lastConfig).toEqual({});
+      expect(provider.session.lastPrompts).toEqual(['Funk', 'Bossa Nova']);
+    });
+
+    it('reports an output failure as an error', async () => {
+      const failure = new Error('Decoding failed');
+      const output: EngineOutput = {
+        play: () => Promise.reject(failure),
+        start() {},
+        pause() {},
+        stop() {},
+      };
+      const {provider, engine} = createEngine({output});
+      const error = vi.fn();
+      engine.on('error', error);
+      await engine.play();
+      provider.session.sendAudio();
+      await settle();
+      expect(error).toHaveBeenCalledWith({kind: 'output', error: failure});
+      expect(engine.playbackState).toBe('loading');
+    });
+
+    it('reports a failed connection and stays stopped', async () => {
+      const provider: MusicSessionProvider = {
+        name: 'broken',
+        connect: () => Promise.reject(new Error('No network')),
+      };
+      const engine = new PromptDjEngine(provider);
+      const error = vi.fn();
+      engine.on('error', error);
+      await engine.play();
+      expect(error).toHaveBeenCalledWith({
+        kind: 'connection',
+        error: new Error('No network'),
+      });
+      expect(engine.playbackState).toBe('stopped');
+      expect(engine.connectionState).toBe('disconnected');
+    });
+  });
+
+  describe('reconnecting', () => {
+    it('resumes playback on a new session after a drop', async () => {
+      const {provider, engine, states} = createEngine();
+      await startPlaying(engine, provider);
+      const dropped = provider.session;
+
+      dropped.drop();
+      expect(engine.connectionState).toBe('reconnecting');
+      expect(engine.playbackState).toBe('loading');
+
+      await settle(1000);
+      const session = provider.session;
+      expect(session).not.toBe(dropped);
+      expect(session.calls).toEqual(['play']);
+      expect(session.lastPrompts).toEqual(['Funk', 'Bossa Nova']);
+
+      session.setupComplete();
+      session.sendAudio();
+      await settle();
+      expect(engine.connectionState).toBe('connected');
+      expect(states).toEqual(['loading', 'playing', 'loading', 'playing']);
+    });
+
+    it('gives filtered prompts another chance on the new session', async () => {
+      const {provider, engine} = createEngine();
+      await startPlaying(engine, provider);
+      provider.session.filter('Funk');
+
+      provider.session.drop();
+      await settle(1000);
+
+      expect(engine.filteredPrompts.size).toBe(0);
+      expect(provider.session.lastPrompts).toEqual(['Funk', 'Bossa Nova']);
+    });
+
+    it('stays paused after a drop while paused', async () => {
+      const {provider, engine} = createEngine();
+      await startPlaying(engine, provider);
+      engine.pause();
+
+      provider.session.drop();
+      await settle(1000);
+
+      expect(engine.playbackState).toBe('paused');
+      expect(provider.session.calls).toEqual([]);
+    });
+
+    it('ignores messages from the dropped session', async () => {
+      const {provider, engine} = createEngine();
+      await startPlaying(engine, provider);
+      const dropped = provider.session;
+      dropped.drop();
+      await settle(1000);
+
+      dropped.filter('Funk');
+      expect(engine.filteredPrompts.size).toBe(0);
+    });
+
+    it('reconnects when the audio stalls', async () => {
+      const {provider, engine} = createEngine();
+      await startPlaying(engine, provider);
+      await settle(10000);
+      expect(provider.sessions).toHaveLength(2);
+    });
+
+    it('waits out a stall while every prompt is filtered', async () => {
+      const {provider, engine} = createEngine();
+      await startPlaying(engine, provider);
+      provider.session.filter('Funk');
+      provider.session.filter('Bossa Nova');
+      await settle(30000);
+      expect(provider.sessions).toHaveLength(1);
+      expect(engine.connectionState).toBe('connected');
+
+      // Watched again once there is something to play.
+      engine.retryFiltered('Funk');
+      await settle(10000);
+      expect(provider.sessions).toHaveLength(2);
+    });
+
+    it('waits out a stall while every prompt is silent', async () => {
+      const {provider, engine} = createEngine();
+      await startPlaying(engine, provider);
+      engine.setPrompts(
+        new Map(PROMPTS.map((p) => [p.promptId, {...p, weight: 0}])),
+      );
+      await settle(30000);
+      expect(provider.sessions).toHaveLength(1);
+    });
+  });
+});
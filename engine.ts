@@ -0,0 +1,435 @@
+/**
+ * @fileoverview The PromptDJ engine: prompts, config, the playback state
+ * machine and the music session, without any UI.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type {LiveMusicGenerationConfig} from '@google/genai';
+import {ConnectionSupervisor, type ConnectionState} from './connection';
+import type {
+  MusicServerMessage,
+  MusicSession,
+  MusicSessionProvider,
+} from './music_session';
+import {type SendKind, SendScheduler} from './send_scheduler';
+import type {PlaybackState, Prompt} from './types';
+import {decode} from './utils';
+
+/** What failed: a send, the connection or the output playing a chunk. */
+export type EngineErrorKind = SendKind | 'connection' | 'output';
+
+/** The events an engine emits, with the detail each carries. */
+export interface PromptDjEngineEventMap {
+  statechange: PlaybackState;
+  connectionchange: {
+    state: ConnectionState;
+    previous: ConnectionState;
+    reason?: string;
+  };
+  promptschange: ReadonlyMap<string, Prompt>;
+  configchange: LiveMusicGenerationConfig;
+  /** A prompt the session refused to play. */
+  filtered: {text: string; reason: string};
+  /** What the session has been sent or has acknowledged changed. */
+  syncchange: undefined;
+  /** A chunk of interleaved 16-bit PCM, exactly as the session sent it. */
+  audio: Int16Array;
+  /** The output ran dry before a chunk arrived. */
+  underrun: undefined;
+  /** An update reached the session, `latency` ms after it was made. */
+  sent: {kind: SendKind; latency: number};
+  /**
+   * A send failed every retry, the session could not connect or the output
+   * could not play a chunk.
+   */
+  error: {kind: EngineErrorKind; error: Error};
+}
+
+export type PromptDjEngineEvent = keyof PromptDjEngineEventMap;
+
+type Listener<K extends PromptDjEngineEvent> = (
+  detail: PromptDjEngineEventMap[K],
+) => void;
+
+/** How a chunk handed to the output was scheduled. */
+export interface OutputChunk {
+  /** Seconds until the chunk is heard. */
+  delay: number;
+  /** Whether the chunk starts playback, rather than continuing it. */
+  started: boolean;
+  /** Whether the output had run dry before the chunk arrived. */
+  underrun: boolean;
+}
+
+/**
+ * Plays the audio, e.g. through Web Audio. Without an output, audio is only
+ * delivered as `audio` events and counts as heard as soon as it arrives.
+ */
+export interface EngineOutput {
+  /** Schedules a chunk of 16-bit PCM that arrived at `arrivalTime` seconds. */
+  play(pcm: Uint8Array, arrivalTime: number): Promise<OutputChunk>;
+  /** Called as playback starts. */
+  start(): void;
+  /** Fades out and drops what is scheduled. */
+  pause(): void;
+  /** Drops what is scheduled. */
+  stop(): void;
+}
+
+export interface PromptDjEngineOptions {
+  prompts?: Iterable<Prompt>;
+  config?: LiveMusicGenerationConfig;
+  output?: EngineOutput;
+  /** Adjusts the prompts just before they are sent, e.g. mid-glide. */
+  adjustPrompts?: (prompts: Prompt[]) => Prompt[];
+  /** Adjusts the config just before it is sent, e.g. mid-glide. */
+  adjustConfig?: (
+    config: LiveMusicGenerationConfig,
+  ) => LiveMusicGenerationConfig;
+}
+
+/**
+ * Owns a music session and what it plays. Prompt and config changes are
+ * paced to the session, prompts it filters are kept out of the mix until
+ * retried, and a dropped session is reconnected and resumed.
+ */
+export class PromptDjEngine {
+  private promptMap: Map<string, Prompt>;
+  private currentConfig: LiveMusicGenerationConfig;
+  private state: PlaybackState = 'stopped';
+  /** Texts the session filtered, with the reason given. */
+  private filtered = new Map<string, string>();
+  /** Whether playback should resume once a dropped session is back. */
+  private resumeAfterReconnect = false;
+  /** Whether playback is on, so audio should arrive if anything is sent. */
+  private wantsAudio = false;
+  private lastConnectionState: ConnectionState = 'disconnected';
+  private readonly connection: ConnectionSupervisor;
+  // Paces prompt and config updates and tracks which ones the server heard.
+  private readonly sends: SendScheduler;
+  private readonly output?: EngineOutput;
+  private readonly adjustPrompts: (prompts: Prompt[]) => Prompt[];
+  private readonly adjustConfig: (
+    config: LiveMusicGenerationConfig,
+  ) => LiveMusicGenerationConfig;
+  private readonly listeners = new Map<
+    PromptDjEngineEvent,
+    Set<Listener<never>>
+  >();
+
+  constructor(
+    provider: MusicSessionProvider,
+    options: PromptDjEngineOptions = {},
+  ) {
+    this.promptMap = new Map(
+      [...(options.prompts ?? [])].map((p) => [p.promptId, p]),
+    );
+    this.currentConfig = options.config ?? {};
+    this.output = options.output;
+    this.adjustPrompts = options.adjustPrompts ?? ((prompts) => prompts);
+    this.adjustConfig = options.adjustConfig ?? ((config) => config);
+    this.connection = new ConnectionSupervisor(provider, {
+      onmessage: (e) => this.handleServerMessage(e),
+      onstatechange: (state, reason) =>
+        this.handleConnectionStateChange(state, reason),
+      onsession: (session, reconnected) =>
+        this.handleSession(session, reconnected),
+    });
+    this.sends = new SendScheduler(() => this.connection.session, {
+      onerror: (kind, error) => this.handleSendError(kind, error),
+      onchange: () => this.emit('syncchange', undefined),
+      onsent: (kind, latency) => this.emit('sent', {kind, latency}),
+    });
+  }
+
+  get prompts(): ReadonlyMap<string, Prompt> {
+    return this.promptMap;
+  }
+
+  get config(): LiveMusicGenerationConfig {
+    return this.currentConfig;
+  }
+
+  get playbackState(): PlaybackState {
+    return this.state;
+  }
+
+  get connectionState(): ConnectionState {
+    return this.connection.state;
+  }
+
+  get filteredPrompts(): ReadonlyMap<string, string> {
+    return this.filtered;
+  }
+
+  /** Listens for `type`, returning a function that stops listening. */
+  on<K extends PromptDjEngineEvent>(type: K, listener: Listener<K>) {
+    let listeners = this.listeners.get(type);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(type, listeners);
+    }
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  /** Replaces the prompts and sends them. */
+  setPrompts(prompts: Map<string, Prompt>) {
+    this.promptMap = prompts;
+    this.emit('promptschange', prompts);
+    this.syncPrompts();
+  }
+
+  /** Replaces the config and sends it. */
+  setConfig(config: LiveMusicGenerationConfig) {
+    this.currentConfig = config;
+    this.emit('configchange', config);
+    this.syncConfig();
+  }
+
+  /** Sends the prompts again, e.g. when their adjustment changes. */
+  syncPrompts() {
+    this.sends.schedule('prompts', this.getPromptsToSend());
+    this.updateExpectingAudio();
+  }
+
+  /** Sends the config again, e.g. when its adjustment changes. */
+  syncConfig() {
+    this.sends.schedule('config', this.adjustConfig({...this.currentConfig}));
+  }
+
+  /** The prompts as the session should hear them. */
+  getPromptsToSend() {
+    return this.adjustPrompts([...this.promptMap.values()]).filter(
+      (p) => !this.filtered.has(p.text) && p.weight !== 0,
+    );
+  }
+
+  /** Whether the server has picked up a prompt's current weight. */
+  isPromptSynced(prompt: Prompt) {
+    const weight = this.filtered.has(prompt.text) ? 0 : prompt.weight;
+    return this.sends.isPromptSynced(prompt.text, weight);
+  }
+
+  /**
+   * Forgets that `text` was filtered and sends it again, as `newText` if it
+   * was rephrased.
+   */
+  retryFiltered(text: string, newText = text) {
+    this.filtered = new Map(this.filtered);
+    this.filtered.delete(text);
+    const prompt = [...this.promptMap.values()].find((p) => p.text === text);
+    if (prompt && newText !== text) {
+      this.setPrompts(
+        new Map(this.promptMap).set(prompt.promptId, {
+          ...prompt,
+          text: newText,
+        }),
+      );
+    } else {
+      this.syncPrompts();
+    }
+  }
+
+  /**
+   * Connects, sending the prompts and config to the new session. Throws if
+   * the session can't be opened.
+   */
+  async connect() {
+    try {
+      await this.connection.connect();
+    } catch (e) {
+      this.emit('error', {kind: 'connection', error: e as Error});
+      throw e;
+    }
+    this.syncPrompts();
+    this.syncConfig();
+  }
+
+  /** Plays, connecting first if needed. */
+  async play() {
+    if (!(await this.ensureConnected())) return;
+    this.output?.start();
+    this.connection.session?.play();
+    this.wantsAudio = true;
+    this.updateExpectingAudio();
+    this.setState('loading');
+  }
+
+  pause() {
+    this.connection.session?.pause();
+    this.wantsAudio = false;
+    this.updateExpectingAudio();
+    this.resumeAfterReconnect = false;
+    this.setState('paused');
+    this.output?.pause();
+  }
+
+  stop() {
+    this.connection.session?.stop();
+    this.wantsAudio = false;
+    this.updateExpectingAudio();
+    this.resumeAfterReconnect = false;
+    this.setState('stopped');
+    this.output?.stop();
+  }
+
+  /** Pauses while playing, stops while loading and plays otherwise. */
+  async togglePlay() {
+    if (this.state === 'playing') {
+      this.pause();
+    } else if (this.state === 'loading') {
+      this.stop();
+    } else {
+      await this.play();
+    }
+  }
+
+  /**
+   * Starts the music afresh: the session drops its context, filtered
+   * prompts get another chance and the config returns to the defaults.
+   */
+  async reset() {
+    if (!(await this.ensureConnected())) return;
+    this.pause();
+    this.connection.session?.resetContext();
+    if (this.filtered.size > 0) {
+      this.filtered = new Map();
+      this.syncPrompts();
+    }
+    this.setConfig({});
+    setTimeout(() => this.play(), 100);
+  }
+
+  /**
+   * Stops playback and closes the session; the next connect goes to
+   * `provider`, e.g. to replay a capture.
+   */
+  setProvider(provider: MusicSessionProvider) {
+    this.close();
+    this.connection.setProvider(provider);
+  }
+
+  /** Stops playback and closes the session. */
+  close() {
+    if (this.connection.session && this.state !== 'stopped') this.stop();
+    this.connection.close();
+  }
+
+  /** Connects if disconnected; a failure has already been emitted. */
+  private async ensureConnected() {
+    if (this.connection.state !== 'disconnected') return true;
+    try {
+      await this.connect();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Stall detection only runs while something is sent: with every prompt
+   * filtered or silent, the server sends no audio, and reconnecting would
+   * only have the same prompts filtered again.
+   */
+  private updateExpectingAudio() {
+    this.connection.setExpectingAudio(
+      this.wantsAudio && this.getPromptsToSend().length > 0,
+    );
+  }
+
+  private emit<K extends PromptDjEngineEvent>(
+    type: K,
+    detail: PromptDjEngineEventMap[K],
+  ) {
+    for (const listener of this.listeners.get(type) ?? []) {
+      (listener as Listener<K>)(detail);
+    }
+  }
+
+  private setState(state: PlaybackState) {
+    if (state === this.state) return;
+    this.state = state;
+    this.emit('statechange', state);
+  }
+
+  private async handleServerMessage(e: MusicServerMessage) {
+    const arrivalTime = performance.now() / 1000;
+    if (e.filteredPrompt?.text) {
+      const {text, filteredReason = 'Filtered by the server.'} =
+        e.filteredPrompt;
+      this.filtered = new Map([...this.filtered, [text, filteredReason]]);
+      this.emit('filtered', {text, reason: filteredReason});
+      this.updateExpectingAudio();
+    }
+    const chunks = e.serverContent?.audioChunks;
+    if (chunks === undefined) return;
+    this.sends.acknowledge(chunks[0]?.sourceMetadata);
+    if (this.state === 'paused' || this.state === 'stopped') return;
+    if (!chunks[0]?.data) return;
+    const pcm = decode(chunks[0].data);
+    this.emit('audio', new Int16Array(pcm.buffer));
+    if (!this.output) {
+      if (this.state === 'loading') this.setState('playing');
+      return;
+    }
+    let chunk: OutputChunk;
+    try {
+      chunk = await this.output.play(pcm, arrivalTime);
+    } catch (e) {
+      this.emit('error', {kind: 'output', error: e as Error});
+      return;
+    }
+    if (chunk.started) {
+      setTimeout(() => {
+        if (this.state === 'loading') this.setState('playing');
+      }, chunk.delay * 1000);
+    }
+    if (chunk.underrun) this.emit('underrun', undefined);
+  }
+
+  private handleConnectionStateChange(
+    state: ConnectionState,
+    reason?: string,
+  ) {
+    const previous = this.lastConnectionState;
+    this.lastConnectionState = state;
+    if (state === 'reconnecting' && previous !== 'reconnecting') {
+      this.resumeAfterReconnect =
+        this.state === 'playing' || this.state === 'loading';
+      if (this.resumeAfterReconnect) this.setState('loading');
+    } else if (state === 'disconnected' && previous === 'reconnecting') {
+      // The supervisor gave up; the old session is already closed.
+      this.resumeAfterReconnect = false;
+      this.wantsAudio = false;
+      this.setState('stopped');
+      this.output?.stop();
+    }
+    this.emit('connectionchange', {state, previous, reason});
+  }
+
+  /** Adopts a new session, restoring prompts, config and playback after a drop. */
+  private handleSession(_session: MusicSession, reconnected: boolean) {
+    if (!reconnected) {
+      this.sends.flush();
+      return;
+    }
+    this.sends.reset();
+    // A new session may judge the prompts afresh.
+    this.filtered = new Map();
+    this.syncPrompts();
+    this.syncConfig();
+    if (this.resumeAfterReconnect) {
+      this.resumeAfterReconnect = false;
+      this.play();
+    }
+  }
+
+  private handleSendError(kind: SendKind, error: Error) {
+    this.emit('error', {kind, error});
+    if (kind === 'prompts' && this.state !== 'stopped') this.pause();
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * @fileoverview A log of the prompts the server filtered, and what they were
+ * rephrased as, kept across sessions to learn which phrasing gets blocked.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export interface FilterEvent {
+  /** When the server filtered the prompt, in milliseconds since the epoch. */
+  time: number;
+  text: string;
+  reason: string;
+  /** The text the user retried with, if they rephrased it. */
+  rephrasedAs?: string;
+}
+
+/** The oldest events are dropped past this many. */
+const MAX_EVENTS = 200;
+
+const FILTER_LOG_STORAGE_KEY = 'filterLog';
+
+/** Filter events, newest first, saved in localStorage. */
+export class FilterLog {
+  private log: FilterEvent[] = [];
+
+  constructor(private readonly storage: Storage = window.localStorage) {
+    const stored = storage.getItem(FILTER_LOG_STORAGE_KEY);
+    if (!stored) return;
+    try {
+      this.log = JSON.parse(stored) as FilterEvent[];
+    } catch (e) {
+      console.error('Failed to parse stored filter log', e);
+    }
+  }
+
+  get events(): readonly FilterEvent[] {
+    return this.log;
+  }
+
+  record(text: string, reason: string) {
+    this.log = [{time: Date.now(), text, reason}, ...this.log].slice(
+      0,
+      MAX_EVENTS,
+    );
+    this.save();
+  }
+
+  /** Notes the rephrasing on the latest event for `text`. */
+  noteRephrase(text: string, rephrasedAs: string) {
+    const event = this.log.find((e) => e.text === text);
+    if (!event) return;
+    event.rephrasedAs = rephrasedAs;
+    this.save();
+  }
+
+  clear() {
+    this.log = [];
+    this.save();
+  }
+
+  private save() {
+    this.storage.setItem(FILTER_LOG_STORAGE_KEY, JSON.stringify(this.log));
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * @fileoverview Lists the prompts the server filtered, and why.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {css, html, LitElement} from 'lit';
+import {customElement, property} from 'lit/decorators.js';
+
+import type {FilterEvent} from './filter_log';
+
+/** The filter events, newest first, with buttons to export or clear them. */
+@customElement('filter-log-panel')
+export class FilterLogPanel extends LitElement {
+  static override styles = css`
+    :host {
+      display: flex;
+      flex-direction: column;
+      gap: 8px;
+      color: #eee;
+      font-family: 'Google Sans', sans-serif;
+      font-size: 13px;
+    }
+    .toolbar {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+    }
+    .title {
+      font-weight: bold;
+      margin-right: auto;
+    }
+    .events {
+      max-height: 120px;
+      overflow-y: auto;
+    }
+    table {
+      border-collapse: collapse;
+      width: 100%;
+    }
+    td {
+      padding: 2px 6px;
+      vertical-align: top;
+    }
+    td.time,
+    td.reason {
+      color: #999;
+    }
+    .rephrased {
+      color: #8f8;
+    }
+    .empty {
+      color: #777;
+    }
+    button {
+      background: #333;
+      color: #eee;
+      border: 1px solid #666;
+      border-radius: 6px;
+      padding: 4px 10px;
+      font-family: inherit;
+      cursor: pointer;
+    }
+  `;
+
+  @property({attribute: false}) events: readonly FilterEvent[] = [];
+
+  private dispatch(name: string, detail?: unknown) {
+    this.dispatchEvent(
+      new CustomEvent(name, {detail, bubbles: true, composed: true}),
+    );
+  }
+
+  private renderEvent(event: FilterEvent) {
+    return html`<tr>
+      <td class="time">${new Date(event.time).toLocaleString()}</td>
+      <td>
+        ${event.text}
+        ${event.rephrasedAs
+          ? html`<span class="rephrased">→ ${event.rephrasedAs}</span>`
+          : ''}
+      </td>
+      <td class="reason">${event.reason}</td>
+    </tr>`;
+  }
+
+  override render() {
+    const empty = this.events.length === 0;
+    return html`
+      <div class="toolbar">
+        <span class="title">Filtered prompts (${this.events.length})</span>
+        <button
+          ?disabled=${empty}
+          @click=${() => this.dispatch('filter-log-export')}>
+          Export JSON
+        </button>
+        <button
+          ?disabled=${empty}
+          @click=${() => this.dispatch('filter-log-clear')}>
+          Clear
+        </button>
+      </div>
+      <div class="events">
+        ${empty
+          ? html`<span class="empty">No prompts have been filtered.</span>`
+          : html`<table>
+              ${this.events.map((event) => this.renderEvent(event))}
+            </table>`}
+      </div>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'filter-log-panel': FilterLogPanel;
+  }
+}
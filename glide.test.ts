@@ -0,0 +1,153 @@
+/**
+ * @fileoverview Tests for the glide curves and the glide engine.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {afterEach, beforeEach, describe, expect, it, vi} from 'vitest';
+
+import {GLIDE_CURVES, GlideEngine, shapeProgress} from './glide';
+
+describe('shapeProgress', () => {
+  it('runs every curve from 0 to 1, clamping outside', () => {
+    for (const curve of GLIDE_CURVES) {
+      expect(shapeProgress(0, curve)).toBe(0);
+      expect(shapeProgress(1, curve)).toBeCloseTo(1);
+      expect(shapeProgress(-1, curve)).toBe(0);
+      expect(shapeProgress(2, curve)).toBeCloseTo(1);
+    }
+  });
+
+  it('only ever moves forward', () => {
+    for (const curve of GLIDE_CURVES) {
+      const points = Array.from({length: 101}, (_, i) =>
+        shapeProgress(i / 100, curve),
+      );
+      expect(points.every((p, i) => i === 0 || p > points[i - 1])).toBe(true);
+    }
+  });
+
+  it('shapes the middle of the glide', () => {
+    expect(shapeProgress(0.5, 'linear')).toBe(0.5);
+    // Eases in and out symmetrically.
+    expect(shapeProgress(0.5, 'sCurve')).toBe(0.5);
+    expect(shapeProgress(0.25, 'sCurve')).toBeCloseTo(
+      1 - shapeProgress(0.75, 'sCurve'),
+    );
+    expect(shapeProgress(0.1, 'sCurve')).toBeLessThan(0.1);
+    // Starts slowly and speeds up.
+    expect(shapeProgress(0.5, 'exponential')).toBeCloseTo(0.119, 3);
+  });
+});
+
+describe('GlideEngine', () => {
+  let applied: Array<Map<string, number>>;
+  let engine: GlideEngine;
+
+  beforeEach(() => {
+    vi.useFakeTimers({now: 0});
+    applied = [];
+    engine = new GlideEngine((values) => applied.push(values), 250);
+  });
+
+  afterEach(() => {
+    engine.cancelAll();
+    vi.useRealTimers();
+  });
+
+  /** The values streamed for `key`, tick by tick. */
+  function streamed(key: string) {
+    return applied.flatMap((values) =>
+      values.has(key) ? [values.get(key)!] : [],
+    );
+  }
+
+  it('streams values along the curve at the given rate', () => {
+    engine.glide('bpm', 100, 200, 1000, 'linear');
+    expect(engine.isGliding).toBe(true);
+    expect(engine.getValue('bpm')).toBe(100);
+    vi.advanceTimersByTime(1000);
+    expect(streamed('bpm')).toEqual([125, 150, 175, 200]);
+    expect(engine.isGliding).toBe(false);
+    expect(engine.getValue('bpm')).toBeUndefined();
+  });
+
+  it('follows the curve it was given', () => {
+    engine.glide('density', 0, 1, 1000, 'sCurve');
+    vi.advanceTimersByTime(1000);
+    expect(streamed('density')).toEqual(
+      [0.25, 0.5, 0.75, 1].map((t) => shapeProgress(t, 'sCurve')),
+    );
+  });
+
+  it('stops its timer once every glide has finished', () => {
+    engine.glide('a', 0, 1, 500, 'linear');
+    vi.advanceTimersByTime(500);
+    expect(vi.getTimerCount()).toBe(0);
+    vi.advanceTimersByTime(5000);
+    expect(applied).toHaveLength(2);
+  });
+
+  it('lands exactly on the target even when the ticks overshoot', () => {
+    engine.glide('a', 0, 1, 600, 'exponential');
+    vi.advanceTimersByTime(1000);
+    expect(streamed('a')).toHaveLength(3);
+    expect(streamed('a').pop()).toBe(1);
+  });
+
+  it('batches the values of every key gliding in a tick', () => {
+    engine.glide('a', 0, 1, 500, 'linear');
+    engine.glide('b', 1, 0, 1000, 'linear');
+    vi.advanceTimersByTime(250);
+    expect(applied).toEqual([
+      new Map([
+        ['a', 0.5],
+        ['b', 0.75],
+      ]),
+    ]);
+    vi.advanceTimersByTime(750);
+    expect(applied.map((values) => [...values.keys()])).toEqual([
+      ['a', 'b'],
+      ['a', 'b'],
+      ['b'],
+      ['b'],
+    ]);
+  });
+
+  it('continues a retargeted glide from where it had got to', () => {
+    engine.glide('a', 0, 1, 1000, 'linear');
+    vi.advanceTimersByTime(500);
+    expect(engine.getValue('a')).toBe(0.5);
+    // `from` is ignored while the key is gliding.
+    engine.glide('a', 0, 0, 500, 'linear');
+    vi.advanceTimersByTime(500);
+    expect(streamed('a')).toEqual([0.25, 0.5, 0.25, 0]);
+  });
+
+  it('drops the glide when there is nothing to glide', () => {
+    engine.glide('a', 0, 1, 0, 'linear');
+    engine.glide('b', 1, 1, 1000, 'linear');
+    expect(engine.isGliding).toBe(false);
+    engine.glide('c', 0, 1, 1000, 'linear');
+    vi.advanceTimersByTime(250);
+    // An instant change to a gliding key cancels its glide.
+    engine.glide('c', 0, 1, 0, 'linear');
+    expect(engine.getValue('c')).toBeUndefined();
+  });
+
+  it('cancels single glides and all of them', () => {
+    engine.glide('a', 0, 1, 1000, 'linear');
+    engine.glide('b', 0, 1, 1000, 'linear');
+    vi.advanceTimersByTime(250);
+    engine.cancel('a');
+    vi.advanceTimersByTime(250);
+    expect(applied[1]).toEqual(new Map([['b', 0.5]]));
+    engine.cancel('b');
+    expect(vi.getTimerCount()).toBe(0);
+
+    engine.glide('a', 0, 1, 1000, 'linear');
+    engine.cancelAll();
+    vi.advanceTimersByTime(1000);
+    expect(applied).toHaveLength(2);
+  });
+});
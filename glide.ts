@@ -0,0 +1,130 @@
+/**
+ * @fileoverview Glides numeric values to their targets along a curve,
+ * streaming the intermediate values at a fixed rate.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * `linear` moves evenly, `exponential` starts slowly and speeds up, like a
+ * fader pushed harder and harder, and `sCurve` eases in and out.
+ */
+export type GlideCurve = 'linear' | 'exponential' | 'sCurve';
+
+export const GLIDE_CURVES: readonly GlideCurve[] = [
+  'linear',
+  'exponential',
+  'sCurve',
+];
+
+/** The longest glide the controls offer, in milliseconds. */
+export const MAX_GLIDE_MS = 8000;
+
+/** Maps linear progress from 0 to 1 onto a curve, also from 0 to 1. */
+export function shapeProgress(t: number, curve: GlideCurve) {
+  const x = Math.min(1, Math.max(0, t));
+  switch (curve) {
+    case 'linear':
+      return x;
+    case 'exponential':
+      return (Math.exp(4 * x) - 1) / (Math.exp(4) - 1);
+    case 'sCurve':
+      return x * x * (3 - 2 * x);
+  }
+}
+
+interface Glide {
+  from: number;
+  to: number;
+  startedAt: number;
+  durationMs: number;
+  curve: GlideCurve;
+  /** The value last streamed. */
+  value: number;
+}
+
+/**
+ * Runs any number of keyed glides on one timer, and hands each tick's values
+ * to `apply` in a single batch. A glide that is retargeted continues from
+ * where it is, so a fader moved mid-glide never jumps.
+ */
+export class GlideEngine {
+  private readonly glides = new Map<string, Glide>();
+  private timer: ReturnType<typeof setInterval> | undefined;
+
+  constructor(
+    private readonly apply: (values: Map<string, number>) => void,
+    /** How often values are streamed while gliding. */
+    private readonly rateMs = 250,
+  ) {}
+
+  get isGliding() {
+    return this.glides.size > 0;
+  }
+
+  /** The value being streamed for `key`, or undefined if it isn't gliding. */
+  getValue(key: string): number | undefined {
+    return this.glides.get(key)?.value;
+  }
+
+  /**
+   * Glides `key` to `to`. `from` is used only if the key isn't already
+   * gliding; otherwise the glide continues from its current value.
+   */
+  glide(
+    key: string,
+    from: number,
+    to: number,
+    durationMs: number,
+    curve: GlideCurve,
+  ) {
+    const start = this.glides.get(key)?.value ?? from;
+    if (durationMs <= 0 || start === to) {
+      this.glides.delete(key);
+      return;
+    }
+    this.glides.set(key, {
+      from: start,
+      to,
+      startedAt: performance.now(),
+      durationMs,
+      curve,
+      value: start,
+    });
+    if (this.timer === undefined) {
+      this.timer = setInterval(() => this.tick(), this.rateMs);
+    }
+  }
+
+  /** Drops the glide on `key`, leaving its value to the caller. */
+  cancel(key: string) {
+    this.glides.delete(key);
+    if (this.glides.size === 0) this.stopTimer();
+  }
+
+  cancelAll() {
+    this.glides.clear();
+    this.stopTimer();
+  }
+
+  private stopTimer() {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  private tick() {
+    const now = performance.now();
+    const values = new Map<string, number>();
+    const finished: string[] = [];
+    for (const [key, glide] of this.glides) {
+      const t = (now - glide.startedAt) / glide.durationMs;
+      glide.value =
+        glide.from + (glide.to - glide.from) * shapeProgress(t, glide.curve);
+      values.set(key, glide.value);
+      if (t >= 1) finished.push(key);
+    }
+    this.apply(values);
+    for (const key of finished) this.glides.delete(key);
+    if (this.glides.size === 0) this.stopTimer();
+  }
+}
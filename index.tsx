@@ -7,61 +7,197 @@
 import {css, CSSResultGroup, html, LitElement, svg} from 'lit';
 import {customElement, property, query, state} from 'lit/decorators.js';
 import {classMap} from 'lit/directives/class-map.js';
+import {repeat} from 'lit/directives/repeat.js';
 import {styleMap} from 'lit/directives/style-map.js';
 
+import type {LiveMusicGenerationConfig} from '@google/genai';
 import {
-  GoogleGenAI,
-  type LiveMusicGenerationConfig,
-  type LiveMusicServerMessage,
-  type LiveMusicSession,
-} from '@google/genai';
-import {decode, decodeAudioData} from './utils';
-const ai = new GoogleGenAI({
-  apiKey: process.env.GEMINI_API_KEY,
-  apiVersion: 'v1alpha',
-});
-let model = 'lyria-realtime-exp';
-
-interface Prompt {
-  readonly promptId: string;
-  readonly color: string;
-  text: string;
-  weight: number;
-}
+  type AutomationChanges,
+  AutomationClip,
+  AutomationPlayer,
+  AutomationRecorder,
+  type AutomationValue,
+  configLane,
+  effectLane,
+  parseLaneKey,
+  weightLane,
+} from './automation';
+import './automation_panel';
+import {
+  ChangeQueue,
+  DEFAULT_BPM,
+  MusicalClock,
+  type Quantize,
+  type QueuedChange,
+  TempoEstimator,
+} from './clock';
+import {
+  CaptureError,
+  CapturingSessionProvider,
+  decodeCapture,
+  encodeCapture,
+  ReplaySessionProvider,
+} from './capture';
+import './capture_panel';
+import type {TempoSource} from './clock_panel';
+import './clock_panel';
+import type {ConnectionState} from './connection';
+import {Crossfader, type CrossfaderCurve, Deck} from './deck';
+import type {DeckWeightDetail} from './deck_panel';
+import './deck_panel';
+import {
+  DEFAULT_EFFECTS,
+  EFFECT_LABELS,
+  type EffectParam,
+  EffectsRack,
+  type EffectsState,
+} from './effects';
+import './effects_panel';
+import {
+  type EngineErrorKind,
+  type EngineOutput,
+  type OutputChunk,
+  PromptDjEngine,
+} from './engine';
+import {
+  type DiagnosticsSnapshot,
+  StreamDiagnostics,
+} from './diagnostics';
+import './diagnostics_panel';
+import {FilterLog, type FilterEvent} from './filter_log';
+import './filter_log_panel';
+import {ChunkPlayer, type JitterBufferStats} from './jitter_buffer';
+import {
+  GLIDE_CURVES,
+  type GlideCurve,
+  GlideEngine,
+  MAX_GLIDE_MS,
+} from './glide';
+import {type KeyAction, KeymapController} from './keymap';
+import './keymap_overlay';
+import {
+  LIBRARY_DRAG_TYPE,
+  type LibraryEntryDetail,
+} from './library_panel';
+import './library_panel';
+import {LocalSynthSessionProvider} from './local_synth';
+import {
+  describeBinding,
+  MIDI_CONTROL_TARGETS,
+  type MidiAction,
+  MidiController,
+  type MidiTarget,
+} from './midi';
+import type {MidiTargetRow} from './midi_panel';
+import './midi_panel';
+import {
+  GeminiMusicSessionProvider,
+  type MusicSessionProvider,
+} from './music_session';
+import {
+  createDefaultDeckState,
+  getNextPromptId,
+  type LoadResult,
+  type PersistedState,
+  PersistedStateStore,
+  type SettingsState,
+  STATE_VERSION,
+} from './persistence';
+import {
+  LibraryDocumentError,
+  parseLibraryJson,
+  PROMPT_TEXT_PRESETS,
+  PromptLibrary,
+} from './prompt_library';
+import {StreamRecorder, type Recording, type RecordingSnapshot} from './recorder';
+import './recording_panel';
+import type {SceneRecallDetail} from './scene_panel';
+import './scene_panel';
+import {
+  barsToSeconds,
+  createScene,
+  getStoredScenes,
+  type MixState,
+  type Scene,
+  SceneMorph,
+  setStoredScenes,
+} from './scenes';
+import {
+  applySessionDocument,
+  createSessionDocument,
+  decodeSessionHash,
+  encodeSessionHash,
+  parseSessionJson,
+  SessionDocumentError,
+} from './session_document';
+import {
+  getStoredSetScript,
+  parseSetScript,
+  type ScriptRunState,
+  type ScriptStep,
+  SetScriptError,
+  SetScriptRunner,
+  setStoredSetScript,
+} from './set_script';
+import './set_script_panel';
+import './share_panel';
+import {
+  FallbackTermGenerator,
+  GeminiTermGenerator,
+  KeywordTermGenerator,
+  type TermGenerator,
+  type TermSuggestion,
+} from './term_generator';
+import type {TermApplyDetail} from './term_preview';
+import './term_preview';
+import {
+  type PlaybackState,
+  type Prompt,
+  VISUALIZER_MODES,
+  type VisualizerMode,
+} from './types';
+import {decodeAudioData} from './utils';
+import './visualizer';
 
-type PlaybackState = 'stopped' | 'playing' | 'loading' | 'paused';
+/**
+ * Picks the music backend. `?backend=local` (or a missing API key) runs the
+ * offline synth instead of connecting to Lyria.
+ */
+function createMusicSessionProvider(): MusicSessionProvider {
+  const backend = new URLSearchParams(window.location.search).get('backend');
+  const apiKey = process.env.GEMINI_API_KEY;
+  if (backend === 'local' || !apiKey) {
+    return new LocalSynthSessionProvider();
+  }
+  return new GeminiMusicSessionProvider(apiKey);
+}
 
-/** Throttles a callback to be called at most once per `freq` milliseconds. */
-function throttle(func: (...args: unknown[]) => void, delay: number) {
-  let lastCall = 0;
-  return (...args: unknown[]) => {
-    const now = Date.now();
-    const timeSinceLastCall = now - lastCall;
-    if (timeSinceLastCall >= delay) {
-      func(...args);
-      lastCall = now;
-    }
-  };
+/**
+ * Picks the term generator: Gemini when there is an API key, with the offline
+ * keyword extractor as the fallback.
+ */
+function createTermGenerator(): TermGenerator {
+  const apiKey = process.env.GEMINI_API_KEY;
+  if (!apiKey) return new KeywordTermGenerator();
+  return new FallbackTermGenerator(
+    new GeminiTermGenerator(apiKey),
+    new KeywordTermGenerator(),
+  );
 }
 
-const PROMPT_TEXT_PRESETS = [
-  'Bossa Nova',
-  'Minimal Techno',
-  'Drum and Bass',
-  'Post Punk',
-  'Shoegaze',
-  'Funk',
-  'Chiptune',
-  'Lush Strings',
-  'Sparkling Arpeggios',
-  'Staccato Rhythms',
-  'Punchy Kick',
-  'Dubstep',
-  'K Pop',
-  'Neo Soul',
-  'Trip Hop',
-  'Thrash',
-];
+/** Config parameters that glide; the rest change at once. */
+const GLIDE_CONFIG_KEYS = [
+  'density',
+  'brightness',
+  'guidance',
+  'temperature',
+] as const;
+
+/** Events that carry the state of Alt, the instant cut modifier. */
+const INSTANT_CUT_EVENTS = ['keydown', 'keyup', 'pointerdown', 'pointermove'];
+
+/** How far the arrow keys move the selected prompt's weight. */
+const WEIGHT_STEP = 0.1;
 
 const COLORS = [
   '#9900ff',
@@ -442,6 +578,22 @@ export class ResetButton extends IconButton {
   }
 }
 
+// RecordButton
+// -----------------------------------------------------------------------------
+
+/** A button for starting and stopping a recording of the stream. */
+@customElement('record-button')
+export class RecordButton extends IconButton {
+  @property({type: Boolean}) recording = false;
+
+  override renderIcon() {
+    if (this.recording) {
+      return svg`<rect x="58" y="42" width="24" height="24" rx="3" fill="#ff3b30" />`;
+    }
+    return svg`<circle cx="70" cy="54" r="13" fill="#ff3b30" />`;
+  }
+}
+
 // AddPromptButton component
 // -----------------------------------------------------------------------------
 /** A button for adding a new prompt. */
@@ -642,6 +794,11 @@ class LoveMessage extends LitElement {
 // Toast Message component
 // -----------------------------------------------------------------------------
 
+interface ToastAction {
+  label: string;
+  run(): void;
+}
+
 @customElement('toast-message')
 class ToastMessage extends LitElement {
   static override styles = css`
@@ -675,28 +832,61 @@ class ToastMessage extends LitElement {
       transition-duration: 1s;
       transform: translate(-50%, -200%);
     }
+    button.action {
+      aspect-ratio: auto;
+      padding: 4px 12px;
+    }
   `;
 
   @property({type: String}) message = '';
   @property({type: Boolean}) showing = false;
+  // An optional button next to the message, such as Undo.
+  @property({attribute: false}) action: ToastAction | null = null;
+
+  private runAction() {
+    this.action?.run();
+    this.hide();
+  }
 
   override render() {
     return html`<div class=${classMap({showing: this.showing, toast: true})}>
       <div class="message">${this.message}</div>
+      ${this.action
+        ? html`<button class="action" @click=${this.runAction}>
+            ${this.action.label}
+          </button>`
+        : ''}
       <button @click=${this.hide}>✕</button>
     </div>`;
   }
 
-  show(message: string) {
+  show(message: string, action: ToastAction | null = null) {
     this.showing = true;
     this.message = message;
+    this.action = action;
   }
 
   hide() {
     this.showing = false;
+    this.action = null;
   }
 }
 
+/** A filtered prompt retried as `newText`, which may be unchanged. */
+interface PromptRephraseDetail {
+  promptId: string;
+  newText: string;
+}
+
+/** A card dragged onto another, to take its place in the order. */
+interface PromptReorderDetail {
+  promptId: string;
+  targetId: string;
+}
+
+/** The drag data type carrying a card's prompt ID. */
+const CARD_DRAG_TYPE = 'application/x-promptdj-card';
+
 /** A horizontal prompt card for displaying terms with sliders */
 @customElement('horizontal-prompt-card')
 class HorizontalPromptCard extends LitElement {
@@ -718,6 +908,30 @@ class HorizontalPromptCard extends LitElement {
       font-size: 16px;
       white-space: nowrap;
       font-family: 'Google Sans', sans-serif;
+      outline: none;
+      border-bottom: 1px solid transparent;
+      cursor: text;
+    }
+    .prompt-label:focus {
+      border-bottom-color: #888;
+    }
+    .drag-handle {
+      color: #777;
+      cursor: grab;
+      user-select: none;
+    }
+    :host([dragover]) {
+      box-shadow: inset 0 2px 0 #ff25f6;
+    }
+    .remove-button {
+      background: none;
+      border: none;
+      color: #888;
+      font-size: 16px;
+      cursor: pointer;
+    }
+    .remove-button:hover {
+      color: #fff;
     }
     .slider-container {
       flex: 1;
@@ -756,11 +970,70 @@ class HorizontalPromptCard extends LitElement {
       text-align: right;
       font-family: 'Google Sans', sans-serif;
     }
+    :host([selected]) {
+      outline: 2px solid #fff;
+    }
+    .sync-hint {
+      color: #ffcc00;
+      font-size: 11px;
+      min-width: 56px;
+      font-family: 'Google Sans', sans-serif;
+    }
+    .sync-hint[hidden] {
+      display: block;
+      visibility: hidden;
+    }
+    :host([filtered]) {
+      flex-wrap: wrap;
+      outline: 2px solid #da2000;
+    }
+    .filter-notice {
+      flex-basis: 100%;
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      color: #ff8a75;
+      font-size: 13px;
+      font-family: 'Google Sans', sans-serif;
+    }
+    .filter-notice .reason {
+      margin-right: auto;
+    }
+    .filter-notice input {
+      background: #111;
+      color: #eee;
+      border: 1px solid #666;
+      border-radius: 6px;
+      padding: 4px 8px;
+      font-family: inherit;
+    }
+    .filter-notice button {
+      background: #333;
+      color: #eee;
+      border: 1px solid #666;
+      border-radius: 6px;
+      padding: 4px 10px;
+      font-family: inherit;
+      cursor: pointer;
+    }
   `;
 
+  @property({type: String, reflect: true}) promptId = '';
   @property({type: String}) text = '';
   @property({type: Number}) weight = 0; // Range 0-2
   @property({type: String}) color = '#5200ff';
+  // Another card is being dragged over this one.
+  @property({type: Boolean, reflect: true}) dragover = false;
+  // Picked with the keyboard, for the weight shortcuts.
+  @property({type: Boolean, reflect: true}) selected = false;
+  // The server hasn't acknowledged this weight yet.
+  @property({type: Boolean}) unsynced = false;
+  // The server filtered this prompt, so it is left out of the mix.
+  @property({type: Boolean, reflect: true}) filtered = false;
+  @property({type: String}) filteredReason = '';
+
+  @query('.filter-notice input') private rephraseInput?: HTMLInputElement;
+  @query('.prompt-label') private label!: HTMLElement;
 
   private isDragging = false;
   private sliderBounds: DOMRect | null = null;
@@ -796,17 +1069,149 @@ class HorizontalPromptCard extends LitElement {
     this.weight = normalizedValue * 2; // Scale to 0-2 range
 
     this.dispatchEvent(new CustomEvent('weight-changed', {
-      detail: { text: this.text, weight: this.weight },
+      detail: { promptId: this.promptId, weight: this.weight },
       bubbles: true
     }));
   }
 
+  /** Puts the caret in the label with its text selected, to be typed over. */
+  editText() {
+    this.label.focus();
+    const range = document.createRange();
+    range.selectNodeContents(this.label);
+    const selection = window.getSelection();
+    selection?.removeAllRanges();
+    selection?.addRange(range);
+  }
+
+  private handleLabelKeyDown(e: KeyboardEvent) {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      this.label.blur();
+    } else if (e.key === 'Escape') {
+      this.label.textContent = this.text;
+      this.label.blur();
+    }
+  }
+
+  private updateText() {
+    const newText = this.label.textContent?.trim();
+    if (!newText || newText === this.text) {
+      this.label.textContent = this.text;
+      return;
+    }
+    this.text = newText;
+    this.dispatchEvent(
+      new CustomEvent<Prompt>('prompt-changed', {
+        detail: {
+          promptId: this.promptId,
+          text: this.text,
+          weight: this.weight,
+          color: this.color,
+        },
+      }),
+    );
+  }
+
+  private dispatchPromptRemoved() {
+    this.dispatchEvent(
+      new CustomEvent<string>('prompt-removed', {
+        detail: this.promptId,
+        bubbles: true,
+        composed: true,
+      }),
+    );
+  }
+
+  private handleDragStart(e: DragEvent) {
+    e.dataTransfer?.setData(CARD_DRAG_TYPE, this.promptId);
+    if (e.dataTransfer) e.dataTransfer.effectAllowed = 'move';
+  }
+
+  private handleDragOver = (e: DragEvent) => {
+    if (!e.dataTransfer?.types.includes(CARD_DRAG_TYPE)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    this.dragover = true;
+  };
+
+  private handleDragLeave = () => {
+    this.dragover = false;
+  };
+
+  private handleDrop = (e: DragEvent) => {
+    this.dragover = false;
+    const promptId = e.dataTransfer?.getData(CARD_DRAG_TYPE);
+    if (!promptId) return;
+    e.preventDefault();
+    if (promptId === this.promptId) return;
+    this.dispatchEvent(
+      new CustomEvent<PromptReorderDetail>('prompt-reordered', {
+        detail: {promptId, targetId: this.promptId},
+        bubbles: true,
+      }),
+    );
+  };
+
+  override connectedCallback() {
+    super.connectedCallback();
+    this.addEventListener('dragover', this.handleDragOver);
+    this.addEventListener('dragleave', this.handleDragLeave);
+    this.addEventListener('drop', this.handleDrop);
+  }
+
+  override disconnectedCallback() {
+    super.disconnectedCallback();
+    this.removeEventListener('dragover', this.handleDragOver);
+    this.removeEventListener('dragleave', this.handleDragLeave);
+    this.removeEventListener('drop', this.handleDrop);
+  }
+
+  /** Asks to retry the prompt, as rephrased in the notice. */
+  private dispatchRephrase() {
+    const newText = this.rephraseInput?.value.trim();
+    if (!newText) return;
+    this.dispatchEvent(
+      new CustomEvent<PromptRephraseDetail>('prompt-rephrased', {
+        detail: {promptId: this.promptId, newText},
+        bubbles: true,
+      }),
+    );
+  }
+
+  private renderFilterNotice() {
+    return html`<div class="filter-notice">
+      <span class="reason">Filtered: ${this.filteredReason}</span>
+      <input
+        type="text"
+        aria-label="Rephrase the prompt"
+        .value=${this.text}
+        @keydown=${(e: KeyboardEvent) => {
+          if (e.key === 'Enter') this.dispatchRephrase();
+        }} />
+      <button @click=${this.dispatchRephrase}>Retry</button>
+    </div>`;
+  }
+
   override render() {
     const fillWidth = (this.weight / 2) * 100;
     const knobLeft = (this.weight / 2) * 100;
 
     return html`
-      <div class="prompt-label">${this.text}</div>
+      <span
+        class="drag-handle"
+        title="Drag to reorder"
+        draggable="true"
+        @dragstart=${this.handleDragStart}
+        >⋮⋮</span
+      >
+      <span
+        class="prompt-label"
+        spellcheck="false"
+        contenteditable="plaintext-only"
+        .textContent=${this.text}
+        @keydown=${this.handleLabelKeyDown}
+        @blur=${this.updateText}></span>
       <div class="slider-container">
         <div class="horizontal-slider" @mousedown=${this.handleSliderMouseDown}>
           <div
@@ -819,7 +1224,20 @@ class HorizontalPromptCard extends LitElement {
           </div>
         </div>
         <div class="value-display">${this.weight.toFixed(1)}</div>
+        <div
+          class="sync-hint"
+          title="Waiting for the server to pick up this weight"
+          ?hidden=${!this.unsynced}>
+          unsynced
+        </div>
       </div>
+      <button
+        class="remove-button"
+        title="Remove prompt"
+        @click=${this.dispatchPromptRemoved}>
+        ×
+      </button>
+      ${this.filtered ? this.renderFilterNotice() : ''}
     `;
   }
 }
@@ -1260,6 +1678,44 @@ class SettingsController extends LitElement {
     this.dispatchSettingsChange();
   }
 
+  public getConfig(): LiveMusicGenerationConfig {
+    return this.config;
+  }
+
+  /** Replaces the config as if the user had moved every control to it. */
+  public setConfig(config: LiveMusicGenerationConfig) {
+    this.config = {...this.defaultConfig, ...config};
+    this.autoDensity = config.density === undefined;
+    if (config.density !== undefined) this.lastDefinedDensity = config.density;
+    this.autoBrightness = config.brightness === undefined;
+    if (config.brightness !== undefined) {
+      this.lastDefinedBrightness = config.brightness;
+    }
+    this.dispatchSettingsChange();
+  }
+
+  public getState(): SettingsState {
+    return {
+      config: this.config,
+      showAdvanced: this.showAdvanced,
+      autoDensity: this.autoDensity,
+      lastDefinedDensity: this.lastDefinedDensity,
+      autoBrightness: this.autoBrightness,
+      lastDefinedBrightness: this.lastDefinedBrightness,
+    };
+  }
+
+  /** Restores a saved state and sends its config. */
+  public restoreState(state: SettingsState) {
+    this.config = {...this.defaultConfig, ...state.config};
+    this.showAdvanced = state.showAdvanced;
+    this.autoDensity = state.autoDensity;
+    this.lastDefinedDensity = state.lastDefinedDensity ?? 0.5;
+    this.autoBrightness = state.autoBrightness;
+    this.lastDefinedBrightness = state.lastDefinedBrightness ?? 0.5;
+    this.dispatchSettingsChange();
+  }
+
   private updateSliderBackground(inputEl: HTMLInputElement) {
     if (inputEl.type !== 'range') {
       return;
@@ -1357,6 +1813,9 @@ class SettingsController extends LitElement {
 
   private toggleAdvancedSettings() {
     this.showAdvanced = !this.showAdvanced;
+    this.dispatchEvent(
+      new CustomEvent('settings-state-changed', {bubbles: true, composed: true}),
+    );
   }
 
   override render() {
@@ -1557,11 +2016,19 @@ class PromptDj extends LitElement {
       z-index: -1;
       background: #111;
     }
+    audio-visualizer {
+      position: absolute;
+      inset: 0;
+      z-index: -1;
+    }
     .user-prompt-input-container {
       width: 100%;
       max-width: 800px;
       margin-bottom: 2vmin;
     }
+    term-preview {
+      margin-top: 1vmin;
+    }
     .prompt-input-wrapper {
       display: flex;
       gap: 12px;
@@ -1643,6 +2110,22 @@ class PromptDj extends LitElement {
       max-width: 800px;
       margin: 2vmin 0 1vmin 0;
     }
+    #clock-container,
+    #library-container,
+    #scenes-container,
+    #script-container,
+    #deck-container,
+    #effects-container,
+    #automation-container,
+    #midi-container,
+    #filter-log-container,
+    #capture-container,
+    #diagnostics-container,
+    #share-container {
+      width: 100%;
+      max-width: 800px;
+      margin-bottom: 1vmin;
+    }
     .playback-container {
       display: flex;
       justify-content: center;
@@ -1650,31 +2133,129 @@ class PromptDj extends LitElement {
       flex-shrink: 0;
       gap: 2vmin;
     }
+    add-prompt-button {
+      width: 8vmin;
+      align-self: center;
+      flex-shrink: 0;
+    }
     play-pause-button,
-    reset-button {
+    reset-button,
+    record-button {
       width: 12vmin;
       flex-shrink: 0;
     }
+    .connection-indicator {
+      display: flex;
+      align-items: center;
+      gap: 6px;
+      color: #ccc;
+      font-size: 12px;
+      white-space: nowrap;
+    }
+    .buffer-stats {
+      color: #aaa;
+      font-size: 12px;
+      white-space: nowrap;
+    }
+    .glide-controls {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      margin-bottom: 1vmin;
+      color: #ccc;
+      font-size: 12px;
+    }
+    .glide-controls label {
+      display: flex;
+      align-items: center;
+      gap: 6px;
+    }
+    .glide-controls select {
+      background: #333;
+      color: #eee;
+      border: 1px solid #666;
+      border-radius: 6px;
+      padding: 2px 6px;
+      font-family: inherit;
+    }
+    .visualizer-controls {
+      display: flex;
+      align-items: center;
+      gap: 6px;
+      color: #ccc;
+      font-size: 12px;
+      white-space: nowrap;
+    }
+    .visualizer-controls select {
+      background: #333;
+      color: #eee;
+      border: 1px solid #666;
+      border-radius: 6px;
+      padding: 2px 6px;
+      font-family: inherit;
+    }
+    .connection-indicator .dot {
+      width: 8px;
+      height: 8px;
+      border-radius: 50%;
+      background: #888;
+    }
+    .connection-indicator.connected .dot {
+      background: #34c759;
+    }
+    .connection-indicator.connecting .dot,
+    .connection-indicator.reconnecting .dot {
+      background: #ffcc00;
+      animation: blink 1s infinite;
+    }
+    .connection-indicator.disconnected .dot {
+      background: #ff3b30;
+    }
+    @keyframes blink {
+      50% {
+        opacity: 0.3;
+      }
+    }
   `;
 
-  @property({
-    type: Object,
-    attribute: false,
-  })
-  private prompts: Map<string, Prompt>;
   private nextPromptId: number; // Monotonically increasing ID for new prompts
-  private session!: LiveMusicSession;
+  private readonly store: PersistedStateStore;
+  private readonly initialSettings: SettingsState;
+  /** Why the saved or shared state could not be loaded, shown once on startup. */
+  private readonly loadError?: string;
+  // Owns the session, the prompts and config it plays, and the play state.
+  private readonly engine: PromptDjEngine;
   private readonly sampleRate = 48000;
   private audioContext = new (window.AudioContext || (window as any).webkitAudioContext)(
     {sampleRate: this.sampleRate},
   );
   private outputNode: GainNode = this.audioContext.createGain();
-  private nextStartTime = 0;
-  private readonly bufferTime = 2; // adds an audio buffer in case of netowrk latency
-  @state() private playbackState: PlaybackState = 'stopped';
-  @property({type: Object})
-  private filteredPrompts = new Set<string>();
-  private connectionError = true;
+  // Outlives the output node, which is replaced on every pause.
+  private readonly effects: EffectsRack;
+  @state() private effectsState: EffectsState;
+  // Taps the end of the effects chain, so the visualizer shows what is
+  // actually heard.
+  private readonly analyser = this.audioContext.createAnalyser();
+  // Sizes its buffer to the measured network jitter.
+  private readonly chunkPlayer = new ChunkPlayer(this.audioContext);
+  @state() private bufferStats: JitterBufferStats = this.chunkPlayer.getStats();
+  // Plays what the engine receives through the graph above.
+  private readonly output: EngineOutput = {
+    play: (pcm, arrivalTime) => this.playChunk(pcm, arrivalTime),
+    start: () => this.startOutput(),
+    pause: () => this.pauseOutput(),
+    stop: () => this.stopOutput(),
+  };
+  private readonly recorder = new StreamRecorder(this.sampleRate, 2);
+  private readonly filterLog = new FilterLog();
+  @state() private filterEvents: readonly FilterEvent[] = this.filterLog.events;
+
+  // Diagnostics state: sampled every second, but only shown while open.
+  private readonly diagnostics = new StreamDiagnostics();
+  private diagnosticsTimer: ReturnType<typeof setInterval> | undefined;
+  @state() private diagnosticsOpen = false;
+  @state() private diagnosticsSnapshot: DiagnosticsSnapshot | undefined;
+  @state() private connectionState: ConnectionState = 'disconnected';
 
   // Popup and love message state
   @state() private showNamePopup = true;
@@ -1683,117 +2264,510 @@ class PromptDj extends LitElement {
   // User prompt input state
   @state() private userPrompt = '';
   @state() private isGenerating = false;
+  @state() private termSuggestion: TermSuggestion | null = null;
+  private readonly termGenerator: TermGenerator;
+
+  // Recording state
+  @state() private recording = false;
+  @state() private recordedSeconds = 0;
+  @state() private take: Recording | null = null;
+
+  // Automation state
+  private readonly automationClip = new AutomationClip();
+  private readonly automationRecorder = new AutomationRecorder(
+    this.automationClip,
+  );
+  private readonly automationPlayer = new AutomationPlayer(
+    (changes) => this.applyAutomation(changes),
+    (position) => {
+      this.automationPosition = position;
+      this.automationPlaying = this.automationPlayer.isPlaying;
+    },
+  );
+  @state() private automationRevision = 0;
+  @state() private automationRecording = false;
+  @state() private automationPlaying = false;
+  @state() private automationLoop = false;
+  @state() private automationPosition: number | null = null;
+
+  // Scene state
+  @state() private scenes: Scene[] = getStoredScenes();
+  @state() private morphProgress: number | null = null;
+
+  // Library state
+  private readonly library = new PromptLibrary();
+  @state() private libraryRevision = 0;
+
+  // Visualizer state
+  @state() private visualizerMode: VisualizerMode = 'spectrum';
+  @state() private lowCpuVisualizer = false;
+  // Frames are spaced wider than the 200ms send interval, so each is sent.
+  private readonly sceneMorph = new SceneMorph(
+    (state, progress) => this.applyMorphFrame(state, progress),
+    250,
+  );
+  private lastMorphConfig = '';
+
+  // Capture state: the main deck's session goes through the capture, which
+  // only records while started. Deck B is never captured.
+  private readonly capture: CapturingSessionProvider;
+  @state() private capturing = false;
+  @state() private captureEvents = 0;
+  @state() private replay: ReplaySessionProvider | null = null;
+  @state() private replaySpeed = 1;
+
+  // Deck state
+  private readonly sessionProvider: MusicSessionProvider;
+  // Blends the main deck, A, with deck B ahead of the effects.
+  private readonly crossfader = new Crossfader(this.audioContext);
+  private deck: Deck | null = null;
+  @state() private deckEnabled: boolean;
+  @state() private deckPrompts: Prompt[];
+  private deckSettings: SettingsState;
+  @state() private crossfaderPosition: number;
+  @state() private crossfaderCurve: CrossfaderCurve;
+  @query('#deck-b-settings') private deckSettingsController?: SettingsController;
+
+  // Glide state
+  private readonly glide = new GlideEngine((values) =>
+    this.applyGlideValues(values),
+  );
+  @state() private glideMs = 0;
+  @state() private glideCurve: GlideCurve = 'sCurve';
+  /** Whether the instant-cut modifier is held, skipping the glide. */
+  private instantCut = false;
+  /** Set while a config change comes from automation, MIDI or a morph. */
+  private configIsProgrammatic = false;
+
+  // Set script state
+  private readonly scriptRunner = new SetScriptRunner({
+    getWeight: (text) =>
+      [...this.prompts.values()].find(
+        (p) => p.text.toLowerCase() === text.toLowerCase(),
+      )?.weight ?? 0,
+    setWeights: (weights) => this.setScriptWeights(weights),
+    setConfig: (config) =>
+      this.setConfigInstantly({...this.config, ...config}),
+    getBpm: () => this.clock.tempo,
+    onChange: () => this.handleScriptProgress(),
+  });
+  @state() private setScript = getStoredSetScript();
+  @state() private scriptSteps: ScriptStep[] = [];
+  @state() private scriptState: ScriptRunState = 'stopped';
+  @state() private scriptPosition = 0;
+  @state() private scriptStep: ScriptStep | undefined;
+
+  // Clock state
+  private readonly clock = new MusicalClock();
+  private readonly tempoEstimator = new TempoEstimator();
+  private readonly changes = new ChangeQueue(
+    this.clock,
+    () => this.chunkPlayer.buffer.endTime,
+    () => (this.queuedChanges = this.changes.pending),
+  );
+  @state() private quantize: Quantize = 'off';
+  @state() private queuedChanges: QueuedChange[] = [];
+  @state() private tempoSource: TempoSource = 'assumed';
+
+  // Keyboard state
+  private readonly keymap = new KeymapController({
+    trigger: (action) => this.handleKeyAction(action),
+    onChange: () => this.requestUpdate(),
+  });
+  private detachKeymap?: () => void;
+  @state() private showKeymap = false;
+  @state() private selectedPromptId: string | null = null;
+  /** Weights from before a solo, restored when it is undone. */
+  private soloWeights: {promptId: string; weights: Map<string, number>} | null =
+    null;
+  /** Weights of muted prompts, restored when they are unmuted. */
+  private mutedWeights = new Map<string, number>();
+
+  // MIDI state
+  private readonly midi = new MidiController({
+    getValue: (target) => this.getMidiValue(target),
+    setValue: (target, value) => this.setMidiValue(target, value),
+    trigger: (action) => this.triggerMidiAction(action),
+    onChange: () => this.requestUpdate(),
+  });
 
   @query('play-pause-button') private playPauseButton!: PlayPauseButton;
   @query('toast-message') private toastMessage!: ToastMessage;
-  @query('settings-controller') private settingsController!: SettingsController;
-
-  constructor(prompts: Map<string, Prompt>) {
+  @query('#settings-container settings-controller')
+  private settingsController!: SettingsController;
+
+  constructor(
+    loaded: LoadResult,
+    sessionProvider: MusicSessionProvider,
+    termGenerator: TermGenerator,
+    store: PersistedStateStore,
+  ) {
     super();
-    this.prompts = prompts;
-    this.nextPromptId = this.prompts.size;
-    this.outputNode.connect(this.audioContext.destination);
+    const {state} = loaded;
+    this.nextPromptId = state.nextPromptId;
+    this.initialSettings = state.settings;
+    this.userPrompt = state.ui.userPrompt;
+    this.automationLoop = state.ui.automationLoop;
+    this.visualizerMode = state.ui.visualizerMode;
+    this.lowCpuVisualizer = state.ui.lowCpuVisualizer;
+    this.glideMs = state.ui.glideMs;
+    this.glideCurve = state.ui.glideCurve;
+    this.quantize = state.ui.quantize;
+    this.deckEnabled = state.deck.enabled;
+    this.deckPrompts = state.deck.prompts;
+    this.deckSettings = state.deck.settings;
+    this.crossfaderPosition = state.deck.crossfader;
+    this.crossfaderCurve = state.deck.curve;
+    this.loadError = loaded.error;
+    this.store = store;
+    this.termGenerator = termGenerator;
+    this.sessionProvider = sessionProvider;
+    this.capture = new CapturingSessionProvider(sessionProvider);
+    this.engine = new PromptDjEngine(this.capture, {
+      prompts: state.prompts,
+      output: this.output,
+      adjustPrompts: (prompts) => this.getGlidingPrompts(prompts),
+      adjustConfig: (config) => this.getGlidingConfig(config),
+    });
+    this.engine.on('statechange', () => this.requestUpdate());
+    this.engine.on('promptschange', () => this.requestUpdate());
+    this.engine.on('syncchange', () => this.requestUpdate());
+    this.engine.on('connectionchange', ({state, previous, reason}) =>
+      this.handleConnectionStateChange(state, previous, reason),
+    );
+    this.engine.on('filtered', ({text, reason}) =>
+      this.handleFiltered(text, reason),
+    );
+    this.engine.on('audio', (pcm) => this.handleAudio(pcm));
+    this.engine.on('underrun', () => this.diagnostics.noteUnderrun());
+    this.engine.on('sent', ({kind, latency}) =>
+      this.diagnostics.noteSend(kind, latency),
+    );
+    this.engine.on('error', ({kind, error}) =>
+      this.handleEngineError(kind, error),
+    );
+    this.effects = new EffectsRack(this.audioContext, state.effects);
+    this.effectsState = this.effects.getState();
+    this.effects.connect(this.audioContext.destination);
+    this.effects.connect(this.analyser);
+    this.crossfader.connect(this.effects.input);
+    this.outputNode.connect(this.crossfader.a);
+    this.applyCrossfader();
   }
 
-  override async firstUpdated() {
-    await this.connectToSession();
-    this.setSessionPrompts();
-  }
-
-  private async connectToSession() {
-    this.session = await ai.live.music.connect({
-      model: model,
-      callbacks: {
-        onmessage: async (e: LiveMusicServerMessage) => {
-          console.log('Received message from the server: %s\n');
-          console.log(e);
-          if (e.setupComplete) {
-            this.connectionError = false;
-          }
-          if (e.filteredPrompt) {
-            this.filteredPrompts = new Set([
-              ...this.filteredPrompts,
-              e.filteredPrompt.text,
-            ]);
-            this.toastMessage.show(e.filteredPrompt.filteredReason);
-          }
-          if (e.serverContent?.audioChunks !== undefined) {
-            if (
-              this.playbackState === 'paused' ||
-              this.playbackState === 'stopped'
-            )
-              return;
-            const audioBuffer = await decodeAudioData(
-              decode(e.serverContent?.audioChunks[0].data),
-              this.audioContext,
-              48000,
-              2,
-            );
-            const source = this.audioContext.createBufferSource();
-            source.buffer = audioBuffer;
-            source.connect(this.outputNode);
-            if (this.nextStartTime === 0) {
-              this.nextStartTime =
-                this.audioContext.currentTime + this.bufferTime;
-              setTimeout(() => {
-                this.playbackState = 'playing';
-              }, this.bufferTime * 1000);
-            }
-
-            if (this.nextStartTime < this.audioContext.currentTime) {
-              console.log('under run');
-              this.playbackState = 'loading';
-              this.nextStartTime = 0;
-              return;
-            }
-            source.start(this.nextStartTime);
-            this.nextStartTime += audioBuffer.duration;
-          }
-        },
-        onerror: (e: ErrorEvent) => {
-          console.log('Error occurred: %s\n', JSON.stringify(e));
-          this.connectionError = true;
-          this.stopAudio();
-          this.toastMessage.show('Connection error, please restart audio.');
-        },
-        onclose: (e: CloseEvent) => {
-          console.log('Connection closed.');
-          this.connectionError = true;
-          this.stopAudio();
-          this.toastMessage.show('Connection error, please restart audio.');
-        },
-      },
-    });
+  override connectedCallback() {
+    super.connectedCallback();
+    this.detachKeymap = this.keymap.attach();
+    this.diagnosticsTimer = setInterval(() => this.sampleDiagnostics(), 1000);
+    for (const type of INSTANT_CUT_EVENTS) {
+      window.addEventListener(type, this.trackInstantCut, {capture: true});
+    }
   }
 
-  private setSessionPrompts = throttle(async () => {
-    const promptsToSend = Array.from(this.prompts.values()).filter((p) => {
-      return !this.filteredPrompts.has(p.text) && p.weight !== 0;
-    });
-    try {
-      await this.session.setWeightedPrompts({
-        weightedPrompts: promptsToSend,
-      });
-    } catch (e) {
-      this.toastMessage.show(e.message);
-      this.pauseAudio();
+  override disconnectedCallback() {
+    super.disconnectedCallback();
+    this.detachKeymap?.();
+    clearInterval(this.diagnosticsTimer);
+    for (const type of INSTANT_CUT_EVENTS) {
+      window.removeEventListener(type, this.trackInstantCut, {capture: true});
     }
-  }, 200);
+    this.glide.cancelAll();
+  }
 
-  private dispatchPromptsChange() {
-    this.dispatchEvent(
-      new CustomEvent('prompts-changed', {detail: this.prompts}),
-    );
+  private trackInstantCut = (e: Event) => {
+    this.instantCut = (e as KeyboardEvent | PointerEvent).altKey;
+  };
+
+  override async firstUpdated() {
+    this.settingsController.restoreState(this.initialSettings);
+    if (this.loadError) this.toastMessage.show(this.loadError);
+    if (this.deckEnabled) this.enableDeck();
+    // A failure is shown by the error handler, and playing tries again.
+    await this.engine.connect().catch(() => {});
+    this.recorder.noteChange(this.getRecordingSnapshot());
   }
 
-  private handlePromptChanged(e: CustomEvent<Prompt>) {
-    const {promptId, text, weight} = e.detail;
-    const prompt = this.prompts.get(promptId);
+  private get prompts() {
+    return this.engine.prompts;
+  }
 
-    if (!prompt) {
-      console.error('prompt not found', promptId);
-      return;
-    }
+  private get config() {
+    return this.engine.config;
+  }
+
+  private get playbackState() {
+    return this.engine.playbackState;
+  }
+
+  /** Saves everything needed to pick up where the user left off. */
+  private persistState() {
+    this.store.save({
+      version: STATE_VERSION,
+      prompts: [...this.prompts.values()],
+      nextPromptId: this.nextPromptId,
+      settings: this.settingsController?.getState() ?? this.initialSettings,
+      effects: this.effectsState,
+      deck: {
+        enabled: this.deckEnabled,
+        prompts: this.deckPrompts,
+        settings: this.deckSettings,
+        crossfader: this.crossfaderPosition,
+        curve: this.crossfaderCurve,
+      },
+      ui: {
+        userPrompt: this.userPrompt,
+        automationLoop: this.automationLoop,
+        visualizerMode: this.visualizerMode,
+        lowCpuVisualizer: this.lowCpuVisualizer,
+        glideMs: this.glideMs,
+        glideCurve: this.glideCurve,
+        quantize: this.quantize,
+      },
+    });
+  }
+
+  private handleFiltered(text: string, reason: string) {
+    this.filterLog.record(text, reason);
+    this.filterEvents = this.filterLog.events;
+    this.toastMessage.show(reason);
+  }
+
+  private handleAudio(pcm: Int16Array) {
+    this.diagnostics.noteChunk();
+    // Record the stream itself, so playback underruns never reach the file.
+    if (this.recorder.isRecording) {
+      this.recorder.append(pcm);
+      this.recordedSeconds = this.recorder.duration;
+    }
+    if (this.capturing) this.captureEvents = this.capture.eventCount;
+  }
+
+  private handleEngineError(kind: EngineErrorKind, error: Error) {
+    const action =
+      kind === 'connection'
+        ? 'Failed to connect'
+        : kind === 'output'
+          ? 'Failed to play a chunk'
+          : `Failed to send ${kind}`;
+    console.error(action, error);
+    this.toastMessage.show(error.message);
+  }
+
+  /** Schedules a chunk from the engine on the main deck's output. */
+  private async playChunk(
+    pcm: Uint8Array,
+    arrivalTime: number,
+  ): Promise<OutputChunk> {
+    const audioBuffer = await decodeAudioData(
+      pcm,
+      this.audioContext,
+      48000,
+      2,
+    );
+    const started = this.chunkPlayer.buffer.isStarted;
+    const scheduledEnd = this.chunkPlayer.buffer.endTime;
+    const chunk = this.chunkPlayer.play(
+      audioBuffer,
+      this.outputNode,
+      arrivalTime,
+    );
+    // The clock counts from the first chunk, and follows any jump in the
+    // schedule so the beat stays under the audio.
+    if (!started) this.clock.start(chunk.startTime);
+    else this.clock.shift(chunk.startTime - scheduledEnd);
+    this.bufferStats = this.chunkPlayer.getStats();
+    return {
+      delay: chunk.startTime - this.audioContext.currentTime,
+      started: !started,
+      underrun: chunk.underrun,
+    };
+  }
+
+  private handleConnectionStateChange(
+    state: ConnectionState,
+    previous: ConnectionState,
+    reason?: string,
+  ) {
+    this.connectionState = state;
+    this.diagnostics.noteConnection(state, reason);
+    if (state === 'reconnecting' && this.replay?.isFinished) {
+      // Stop once the supervisor has scheduled its retry, so that it's
+      // cancelled rather than sent to the live session.
+      setTimeout(() => {
+        this.handleReplayStop();
+        this.toastMessage.show('The capture has ended.');
+      }, 0);
+    } else if (state === 'reconnecting' && previous !== 'reconnecting') {
+      this.recorder.markDiscontinuity();
+      this.toastMessage.show('Connection lost, reconnecting…');
+    } else if (state === 'connected' && previous === 'reconnecting') {
+      this.recorder.noteChange(this.getRecordingSnapshot());
+      this.toastMessage.show('Reconnected.');
+    } else if (state === 'disconnected' && previous === 'reconnecting') {
+      this.toastMessage.show('Connection error, please restart audio.');
+    }
+  }
+
+  /** Replaces the prompts and sends them to the session. */
+  private setPrompts(prompts: Map<string, Prompt>) {
+    this.engine.setPrompts(prompts);
+    this.recorder.noteChange(this.getRecordingSnapshot());
+  }
+
+  /** Sends the prompts again, e.g. as a glide moves them. */
+  private setSessionPrompts() {
+    this.recorder.noteChange(this.getRecordingSnapshot());
+    this.engine.syncPrompts();
+  }
+
+  /** The prompts as the session should hear them mid-glide. */
+  private getGlidingPrompts(prompts: Prompt[]) {
+    return prompts.map((p) => {
+      const weight = this.glide.getValue(weightLane(p.promptId));
+      return weight === undefined ? p : {...p, weight};
+    });
+  }
+
+  /**
+   * Retries a filtered prompt, renamed to `newText` if it was rephrased.
+   * The weight and automation stay with the prompt.
+   */
+  private handlePromptRephrased(e: CustomEvent<PromptRephraseDetail>) {
+    const {promptId, newText} = e.detail;
+    const prompt = this.prompts.get(promptId);
+    if (!prompt) return;
+    const {text} = prompt;
+    if (
+      newText !== text &&
+      [...this.prompts.values()].some((p) => p.text === newText)
+    ) {
+      this.toastMessage.show(`"${newText}" is already in the mix.`);
+      return;
+    }
+    if (newText !== text) {
+      this.filterLog.noteRephrase(text, newText);
+      this.filterEvents = this.filterLog.events;
+    }
+    this.engine.retryFiltered(text, newText);
+    this.recorder.noteChange(this.getRecordingSnapshot());
+    this.requestUpdate();
+    this.dispatchPromptsChange();
+  }
+
+  private handleFilterLogExport() {
+    const json = JSON.stringify(this.filterLog.events, null, 2);
+    const url = URL.createObjectURL(
+      new Blob([json], {type: 'application/json'}),
+    );
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'promptdj-filter-log.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  private handleFilterLogClear() {
+    this.filterLog.clear();
+    this.filterEvents = this.filterLog.events;
+  }
+
+  private sampleDiagnostics() {
+    const snapshot = this.diagnostics.sample(
+      this.chunkPlayer.getStats().depth,
+      this.engine.filteredPrompts.size,
+    );
+    if (this.diagnosticsOpen) this.diagnosticsSnapshot = snapshot;
+  }
+
+  private handleDiagnosticsToggle() {
+    this.diagnosticsOpen = !this.diagnosticsOpen;
+    this.diagnosticsSnapshot = this.diagnostics.snapshot;
+  }
+
+  private handleDiagnosticsExport() {
+    const report = {
+      ...this.diagnostics.export(),
+      backend: this.replay ? this.replay.name : this.sessionProvider.name,
+      userAgent: navigator.userAgent,
+      playbackState: this.playbackState,
+      buffer: this.chunkPlayer.getStats(),
+      filteredPrompts: Object.fromEntries(this.engine.filteredPrompts),
+    };
+    const json = JSON.stringify(report, null, 2);
+    const url = URL.createObjectURL(
+      new Blob([json], {type: 'application/json'}),
+    );
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'promptdj-diagnostics.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  private handleCaptureStart() {
+    this.capture.start();
+    this.capturing = true;
+    this.captureEvents = 0;
+  }
+
+  private async handleCaptureStop() {
+    const capture = this.capture.stop();
+    this.capturing = false;
+    const bytes = await encodeCapture(capture);
+    const url = URL.createObjectURL(
+      new Blob([bytes], {type: 'application/gzip'}),
+    );
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'promptdj-capture.json.gz';
+    link.click();
+    URL.revokeObjectURL(url);
+    this.toastMessage.show(`Saved ${capture.events.length} events.`);
+  }
+
+  /** Plays a capture file in place of the session, without the network. */
+  private async handleReplayLoad(e: CustomEvent<Uint8Array>) {
+    let capture;
+    try {
+      capture = await decodeCapture(e.detail);
+    } catch (error) {
+      if (!(error instanceof CaptureError)) throw error;
+      this.toastMessage.show(error.message);
+      return;
+    }
+    this.replay = new ReplaySessionProvider(capture, this.replaySpeed);
+    this.engine.setProvider(this.replay);
+    await this.engine.play();
+  }
+
+  private handleReplaySpeed(e: CustomEvent<number>) {
+    this.replaySpeed = e.detail;
+  }
+
+  private handleReplayStop() {
+    this.engine.setProvider(this.capture);
+    this.replay = null;
+  }
+
+  private getRecordingSnapshot(): RecordingSnapshot {
+    return {prompts: this.engine.getPromptsToSend(), config: this.config};
+  }
+
+  private dispatchPromptsChange() {
+    this.dispatchEvent(
+      new CustomEvent('prompts-changed', {detail: this.prompts}),
+    );
+    this.persistState();
+  }
+
+  private handlePromptChanged(e: CustomEvent<Prompt>) {
+    const {promptId, text, weight} = e.detail;
+    const prompt = this.prompts.get(promptId);
+
+    if (!prompt) {
+      console.error('prompt not found', promptId);
+      return;
+    }
 
     prompt.text = text;
     prompt.weight = weight;
@@ -1801,11 +2775,8 @@ class PromptDj extends LitElement {
     const newPrompts = new Map(this.prompts);
     newPrompts.set(promptId, prompt);
 
-    this.prompts = newPrompts;
+    this.setPrompts(newPrompts);
 
-    this.setSessionPrompts();
-
-    this.requestUpdate();
     this.dispatchPromptsChange();
   }
 
@@ -1836,40 +2807,27 @@ class PromptDj extends LitElement {
   }
 
   private async handlePlayPause() {
-    if (this.playbackState === 'playing') {
-      this.pauseAudio();
-    } else if (
-      this.playbackState === 'paused' ||
-      this.playbackState === 'stopped'
-    ) {
-      if (this.connectionError) {
-        await this.connectToSession();
-        this.setSessionPrompts();
-      }
-      this.loadAudio();
-    } else if (this.playbackState === 'loading') {
-      this.stopAudio();
-    }
+    await this.engine.togglePlay();
     console.debug('handlePlayPause');
   }
 
-  private pauseAudio() {
-    this.session.pause();
-    this.playbackState = 'paused';
+  /** Fades out the main deck and drops what is scheduled, for the engine. */
+  private pauseOutput() {
+    this.recorder.markDiscontinuity();
     this.outputNode.gain.setValueAtTime(1, this.audioContext.currentTime);
     this.outputNode.gain.linearRampToValueAtTime(
       0,
       this.audioContext.currentTime + 0.1,
     );
-    this.nextStartTime = 0;
+    this.chunkPlayer.reset();
+    this.stopClock();
+    this.bufferStats = this.chunkPlayer.getStats();
     this.outputNode = this.audioContext.createGain();
-    this.outputNode.connect(this.audioContext.destination);
+    this.outputNode.connect(this.crossfader.a);
   }
 
-  private loadAudio() {
+  private startOutput() {
     this.audioContext.resume();
-    this.session.play();
-    this.playbackState = 'loading';
     this.outputNode.gain.setValueAtTime(0, this.audioContext.currentTime);
     this.outputNode.gain.linearRampToValueAtTime(
       1,
@@ -1877,15 +2835,131 @@ class PromptDj extends LitElement {
     );
   }
 
-  private stopAudio() {
-    this.session.stop();
-    this.playbackState = 'stopped';
+  private stopOutput() {
+    this.recorder.markDiscontinuity();
     this.outputNode.gain.setValueAtTime(0, this.audioContext.currentTime);
     this.outputNode.gain.linearRampToValueAtTime(
       1,
       this.audioContext.currentTime + 0.1,
     );
-    this.nextStartTime = 0;
+    this.chunkPlayer.reset();
+    this.stopClock();
+    this.bufferStats = this.chunkPlayer.getStats();
+  }
+
+  /** Stops counting beats; queued changes have no boundary left to wait for. */
+  private stopClock() {
+    this.clock.stop();
+    this.changes.flush();
+  }
+
+  /**
+   * Runs a change from the cards or settings now, or on the next boundary
+   * when quantizing. The instant-cut modifier skips the wait.
+   */
+  private queueChange(key: string, label: string, run: () => void) {
+    this.changes.queue(key, label, this.instantCut ? 'off' : this.quantize, run);
+  }
+
+  /** Follows the set BPM, else the detected tempo, else the default. */
+  private updateTempo() {
+    const detected = this.tempoEstimator.bpm;
+    this.tempoSource =
+      this.config.bpm !== undefined
+        ? 'config'
+        : detected !== undefined
+          ? 'detected'
+          : 'assumed';
+    this.clock.setTempo(
+      this.config.bpm ?? detected ?? DEFAULT_BPM,
+      this.audioContext.currentTime,
+    );
+  }
+
+  /**
+   * Applies weights by prompt text from the set script, the way the cards
+   * do, adding prompts the mix doesn't have yet.
+   */
+  private setScriptWeights(weights: Map<string, number>) {
+    const prompts = new Map(this.prompts);
+    const usedColors = [...prompts.values()].map((p) => p.color);
+    const byId = new Map<string, number>();
+    for (const [text, weight] of weights) {
+      let prompt = [...prompts.values()].find(
+        (p) => p.text.toLowerCase() === text.toLowerCase(),
+      );
+      if (!prompt) {
+        if (weight === 0) continue;
+        const color = getUnusedRandomColor(usedColors);
+        usedColors.push(color);
+        const promptId = `prompt-${this.nextPromptId++}`;
+        prompt = {promptId, text, weight: 0, color};
+        prompts.set(prompt.promptId, prompt);
+        this.markPromptUsed(text);
+      }
+      byId.set(prompt.promptId, weight);
+    }
+    this.setPromptWeights(byId, {prompts});
+  }
+
+  private handleScriptProgress() {
+    this.scriptState = this.scriptRunner.state;
+    this.scriptPosition = this.scriptRunner.position;
+    this.scriptStep = this.scriptRunner.currentStep;
+  }
+
+  private handleScriptChanged(e: CustomEvent<string>) {
+    this.setScript = e.detail;
+    setStoredSetScript(this.setScript);
+  }
+
+  private handleScriptRun() {
+    try {
+      this.scriptSteps = parseSetScript(this.setScript);
+    } catch (error) {
+      if (!(error instanceof SetScriptError)) throw error;
+      this.toastMessage.show(error.message);
+      return;
+    }
+    this.sceneMorph.cancel();
+    this.morphProgress = null;
+    this.scriptRunner.start(this.scriptSteps);
+  }
+
+  private handleScriptPause() {
+    this.scriptRunner.pause();
+  }
+
+  private handleScriptResume() {
+    this.scriptRunner.resume();
+  }
+
+  private handleScriptSkip() {
+    this.scriptRunner.skip();
+  }
+
+  private handleScriptTakeOver() {
+    this.scriptRunner.takeOver();
+    this.toastMessage.show('Script paused; the mix is yours.');
+  }
+
+  private handleScriptStop() {
+    this.scriptRunner.stop();
+  }
+
+  private handleBeat(e: CustomEvent<number>) {
+    this.tempoEstimator.addBeat(e.detail);
+    if (this.config.bpm === undefined) this.updateTempo();
+  }
+
+  private handleQuantizeChanged(e: CustomEvent<Quantize>) {
+    this.quantize = e.detail;
+    if (this.quantize === 'off') this.changes.flush();
+    this.persistState();
+  }
+
+  private handleQuantizeFlush() {
+    this.changes.flush();
   }
 
   private async handleAddPrompt() {
@@ -1899,49 +2973,48 @@ class PromptDj extends LitElement {
     };
     const newPrompts = new Map(this.prompts);
     newPrompts.set(newPromptId, newPrompt);
-    this.prompts = newPrompts;
-
-    await this.setSessionPrompts();
+    this.setPrompts(newPrompts);
 
     // Wait for the component to update and render the new prompt.
     // Do not dispatch the prompt change event until the user has edited the prompt text.
     await this.updateComplete;
 
-    // Find the newly added prompt controller element
-    const newPromptElement = this.renderRoot.querySelector<PromptController>(
-      `prompt-controller[promptId="${newPromptId}"]`,
-    );
+    // Find the newly added prompt card
+    const newPromptElement =
+      this.renderRoot.querySelector<HorizontalPromptCard>(
+        `horizontal-prompt-card[promptId="${newPromptId}"]`,
+      );
     if (newPromptElement) {
       // Scroll the prompts container to the new prompt element
       newPromptElement.scrollIntoView({
         behavior: 'smooth',
         block: 'nearest',
-        inline: 'end',
       });
-
-      // Select the new prompt text
-      const textSpan =
-        newPromptElement.shadowRoot?.querySelector<HTMLSpanElement>('#text');
-      if (textSpan) {
-        textSpan.focus();
-        const selection = window.getSelection();
-        const range = document.createRange();
-        range.selectNodeContents(textSpan);
-        selection?.removeAllRanges();
-        selection?.addRange(range);
-      }
+      await newPromptElement.updateComplete;
+      // Select the new prompt text, to be typed over
+      newPromptElement.editText();
     }
   }
 
   private handlePromptRemoved(e: CustomEvent<string>) {
     e.stopPropagation();
     const promptIdToRemove = e.detail;
-    if (this.prompts.has(promptIdToRemove)) {
-      this.prompts.delete(promptIdToRemove);
+    const removed = this.prompts.get(promptIdToRemove);
+    if (removed) {
+      const index = [...this.prompts.keys()].indexOf(promptIdToRemove);
+      this.glide.cancel(weightLane(promptIdToRemove));
+      this.mutedWeights.delete(promptIdToRemove);
+      if (this.selectedPromptId === promptIdToRemove) {
+        this.selectedPromptId = null;
+      }
       const newPrompts = new Map(this.prompts);
-      this.prompts = newPrompts;
-      this.setSessionPrompts();
+      newPrompts.delete(promptIdToRemove);
+      this.setPrompts(newPrompts);
       this.dispatchPromptsChange();
+      this.toastMessage.show(`Removed "${removed.text}".`, {
+        label: 'Undo',
+        run: () => this.restorePrompt(removed, index),
+      });
     } else {
       console.warn(
         `Attempted to remove non-existent prompt ID: ${promptIdToRemove}`,
@@ -1949,6 +3022,15 @@ class PromptDj extends LitElement {
     }
   }
 
+  /** Puts a removed prompt back where it was. */
+  private restorePrompt(prompt: Prompt, index: number) {
+    if (this.prompts.has(prompt.promptId)) return;
+    const prompts = [...this.prompts.values()];
+    prompts.splice(index, 0, prompt);
+    this.setPrompts(new Map(prompts.map((p) => [p.promptId, p])));
+    this.dispatchPromptsChange();
+  }
+
   // Handle scrolling X-axis the prompts container.
   private handlePromptsContainerWheel(e: WheelEvent) {
     const container = e.currentTarget as HTMLElement;
@@ -1959,27 +3041,602 @@ class PromptDj extends LitElement {
     }
   }
 
-  private updateSettings = throttle(
-    async (e: CustomEvent<LiveMusicGenerationConfig>) => {
-      await this.session?.setMusicGenerationConfig({
-        musicGenerationConfig: e.detail,
+  private handleSettingsChanged(e: CustomEvent<LiveMusicGenerationConfig>) {
+    const config = e.detail;
+    if (this.configIsProgrammatic) {
+      this.applySettings(config);
+    } else {
+      this.queueChange('config', 'Settings', () => this.applySettings(config));
+    }
+  }
+
+  private applySettings(config: LiveMusicGenerationConfig) {
+    const previous = this.config;
+    for (const key of GLIDE_CONFIG_KEYS) {
+      this.glideValue(configLane(key), previous[key], config[key], {
+        instant: this.configIsProgrammatic,
       });
-    },
-    200,
-  );
+    }
+    this.engine.setConfig(config);
+    this.effects.setBpm(config.bpm);
+    this.updateTempo();
+    this.persistState();
+    this.recorder.noteChange(this.getRecordingSnapshot());
+    if (this.automationRecorder.isRecording) {
+      const keys = new Set([
+        ...Object.keys(previous),
+        ...Object.keys(config),
+      ]) as Set<keyof LiveMusicGenerationConfig>;
+      for (const key of keys) {
+        if (previous[key] !== config[key]) {
+          this.automationRecorder.record(configLane(key), config[key]);
+        }
+      }
+      this.automationRevision++;
+    }
+  }
 
-  private async handleReset() {
-    if (this.connectionError) {
-      await this.connectToSession();
+  /** The config as the session should hear it mid-glide. */
+  private getGlidingConfig(config: LiveMusicGenerationConfig) {
+    for (const key of GLIDE_CONFIG_KEYS) {
+      const value = this.glide.getValue(configLane(key));
+      if (value !== undefined) config[key] = value;
+    }
+    return config;
+  }
+
+  /**
+   * Starts a glide from `from` to `to`, unless gliding is off, the instant
+   * cut modifier is held or either end is unset; then the key jumps.
+   */
+  private glideValue(
+    key: string,
+    from: number | undefined,
+    to: number | undefined,
+    {instant = false} = {},
+  ) {
+    if (
+      instant ||
+      this.instantCut ||
+      this.glideMs === 0 ||
+      from === undefined ||
+      to === undefined
+    ) {
+      this.glide.cancel(key);
+    } else {
+      this.glide.glide(key, from, to, this.glideMs, this.glideCurve);
+    }
+  }
+
+  private applyGlideValues(values: Map<string, number>) {
+    const keys = [...values.keys()];
+    if (keys.some((key) => parseLaneKey(key)?.kind === 'weight')) {
+      this.setSessionPrompts();
+    }
+    if (keys.some((key) => parseLaneKey(key)?.kind === 'config')) {
+      this.engine.syncConfig();
+    }
+  }
+
+  /** Applies a config change from automation, MIDI or a morph, unglided. */
+  private setConfigInstantly(config: LiveMusicGenerationConfig) {
+    this.configIsProgrammatic = true;
+    try {
+      this.settingsController.setConfig(config);
+    } finally {
+      this.configIsProgrammatic = false;
+    }
+  }
+
+  private handleGlideTimeChange(e: Event) {
+    this.glideMs = Number((e.target as HTMLInputElement).value) * 1000;
+    if (this.glideMs === 0) {
+      this.glide.cancelAll();
       this.setSessionPrompts();
+      this.engine.syncConfig();
+    }
+    this.persistState();
+  }
+
+  private handleGlideCurveChange(e: Event) {
+    this.glideCurve = (e.target as HTMLSelectElement).value as GlideCurve;
+    this.persistState();
+  }
+
+  private async handleReset() {
+    // A reset drops whatever was waiting for the next boundary, and cuts
+    // straight to the defaults.
+    this.changes.clear();
+    this.configIsProgrammatic = true;
+    try {
+      this.settingsController.resetToDefaults();
+    } finally {
+      this.configIsProgrammatic = false;
     }
-    this.pauseAudio();
-    this.session.resetContext();
-    this.settingsController.resetToDefaults();
-    this.session?.setMusicGenerationConfig({
-      musicGenerationConfig: {},
+    await this.engine.reset();
+  }
+
+  private handleRecord() {
+    if (this.recorder.isRecording) {
+      this.take = this.recorder.stop();
+      this.recording = false;
+    } else {
+      this.recorder.start(this.getRecordingSnapshot());
+      this.recordedSeconds = 0;
+      this.recording = true;
+    }
+  }
+
+  private handleTakeDiscarded() {
+    this.take = null;
+  }
+
+  /** The current weights and config, as the starting point of a take. */
+  private getAutomationState(): Array<[string, AutomationValue]> {
+    return [
+      ...[...this.prompts.values()].map(
+        (p): [string, AutomationValue] => [weightLane(p.promptId), p.weight],
+      ),
+      ...Object.entries(this.config).map(
+        ([key, value]): [string, AutomationValue] => [
+          configLane(key as keyof LiveMusicGenerationConfig),
+          value,
+        ],
+      ),
+      ...Object.entries(this.effectsState).map(
+        ([param, value]): [string, AutomationValue] => [
+          effectLane(param as EffectParam),
+          value,
+        ],
+      ),
+    ];
+  }
+
+  private applyAutomation(changes: AutomationChanges) {
+    if (changes.weights.size > 0) {
+      const newPrompts = new Map(this.prompts);
+      for (const [promptId, weight] of changes.weights) {
+        const prompt = newPrompts.get(promptId);
+        if (prompt) newPrompts.set(promptId, {...prompt, weight});
+      }
+      this.setPrompts(newPrompts);
+      this.dispatchPromptsChange();
+    }
+    if (Object.keys(changes.config).length > 0) {
+      this.setConfigInstantly({...this.config, ...changes.config});
+    }
+    if (Object.keys(changes.effects).length > 0) {
+      this.setEffects(changes.effects);
+    }
+  }
+
+  private setEffects(changes: Partial<EffectsState>) {
+    const previous = this.effectsState;
+    this.effects.set(changes);
+    this.effectsState = this.effects.getState();
+    if (this.automationRecorder.isRecording) {
+      for (const [param, value] of Object.entries(changes)) {
+        if (previous[param as EffectParam] !== value) {
+          this.automationRecorder.record(effectLane(param as EffectParam), value);
+        }
+      }
+      this.automationRevision++;
+    }
+    this.persistState();
+  }
+
+  private handleEffectsChanged(e: CustomEvent<Partial<EffectsState>>) {
+    this.setEffects(e.detail);
+  }
+
+  private handleAutomationRecord() {
+    if (this.automationRecorder.isRecording) {
+      this.automationRecorder.stop();
+      this.automationRecording = false;
+    } else {
+      this.automationPlayer.stop();
+      this.automationRecorder.start(this.getAutomationState());
+      this.automationRecording = true;
+    }
+    this.automationRevision++;
+  }
+
+  private handleAutomationPlay() {
+    if (this.automationPlayer.isPlaying) {
+      this.automationPlayer.stop();
+    } else {
+      this.automationPlayer.play(this.automationClip, {
+        loop: this.automationLoop,
+      });
+    }
+  }
+
+  private handleAutomationLoopChanged(e: CustomEvent<boolean>) {
+    this.automationLoop = e.detail;
+    this.persistState();
+  }
+
+  private handleAutomationClear() {
+    this.automationPlayer.stop();
+    this.automationClip.clear();
+    this.automationRevision++;
+  }
+
+  private handleSceneSave(e: CustomEvent<string>) {
+    const scene = createScene(e.detail, {
+      prompts: new Map(this.prompts),
+      config: this.config,
     });
-    setTimeout(this.loadAudio.bind(this), 100);
+    this.scenes = [...this.scenes, scene];
+    setStoredScenes(this.scenes);
+  }
+
+  private handleSceneRecall(e: CustomEvent<SceneRecallDetail>) {
+    const scene = this.scenes.find((s) => s.id === e.detail.sceneId);
+    if (!scene) return;
+    const {length, unit} = e.detail;
+    const bpm = this.config.bpm ?? scene.config.bpm ?? 120;
+    const seconds = unit === 'bars' ? barsToSeconds(length, bpm) : length;
+    this.lastMorphConfig = JSON.stringify(this.config);
+    this.sceneMorph.start(
+      {prompts: new Map(this.prompts), config: this.config},
+      scene,
+      seconds,
+      () => `prompt-${this.nextPromptId++}`,
+    );
+  }
+
+  private handleSceneDelete(e: CustomEvent<string>) {
+    this.scenes = this.scenes.filter((s) => s.id !== e.detail);
+    setStoredScenes(this.scenes);
+  }
+
+  private handleSceneMorphCancel() {
+    this.sceneMorph.cancel();
+    this.morphProgress = null;
+  }
+
+  private applyMorphFrame(state: MixState, progress: number) {
+    this.setPrompts(state.prompts);
+    this.dispatchPromptsChange();
+    const config = JSON.stringify(state.config);
+    if (config !== this.lastMorphConfig) {
+      this.lastMorphConfig = config;
+      this.setConfigInstantly(state.config);
+    }
+    this.morphProgress = progress >= 1 ? null : progress;
+  }
+
+  private getSessionDocument() {
+    return createSessionDocument(
+      this.prompts.values(),
+      this.settingsController.getConfig(),
+      this.effectsState,
+    );
+  }
+
+  private handleSessionExport() {
+    const json = JSON.stringify(this.getSessionDocument(), null, 2);
+    const url = URL.createObjectURL(
+      new Blob([json], {type: 'application/json'}),
+    );
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'promptdj-session.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  private handleSessionImport(e: CustomEvent<string>) {
+    let doc;
+    try {
+      doc = parseSessionJson(e.detail);
+    } catch (error) {
+      if (!(error instanceof SessionDocumentError)) throw error;
+      this.toastMessage.show(error.message);
+      return;
+    }
+    this.sceneMorph.cancel();
+    this.morphProgress = null;
+    this.setPrompts(new Map(doc.prompts.map((p) => [p.promptId, p])));
+    this.nextPromptId = Math.max(
+      this.nextPromptId,
+      getNextPromptId(doc.prompts),
+    );
+    this.settingsController.setConfig(doc.config);
+    if (doc.effects) this.setEffects(doc.effects);
+    this.dispatchPromptsChange();
+    this.toastMessage.show(`Imported ${doc.prompts.length} prompts.`);
+  }
+
+  private markPromptUsed(text: string) {
+    this.library.markUsed(text);
+    this.libraryRevision++;
+  }
+
+  /**
+   * Adds `text` to the mix, fading it in over the glide time. A prompt
+   * already in the mix is selected instead.
+   */
+  private async addPromptToMix(text: string) {
+    this.markPromptUsed(text);
+    const existing = [...this.prompts.values()].find(
+      (p) => p.text.toLowerCase() === text.toLowerCase(),
+    );
+    if (existing) {
+      this.selectedPromptId = existing.promptId;
+      this.toastMessage.show(`"${existing.text}" is already in the mix.`);
+      return;
+    }
+    const promptId = `prompt-${this.nextPromptId++}`;
+    const usedColors = [...this.prompts.values()].map((p) => p.color);
+    const newPrompts = new Map(this.prompts);
+    newPrompts.set(promptId, {
+      promptId,
+      text,
+      weight: 0,
+      color: getUnusedRandomColor(usedColors),
+    });
+    this.setPromptWeights(new Map([[promptId, 1]]), {
+      glide: true,
+      prompts: newPrompts,
+    });
+    this.selectedPromptId = promptId;
+    await this.updateComplete;
+    this.renderRoot
+      .querySelector(`horizontal-prompt-card[promptId="${promptId}"]`)
+      ?.scrollIntoView({behavior: 'smooth', block: 'nearest'});
+  }
+
+  private handleLibraryAddToMix(e: CustomEvent<string>) {
+    this.addPromptToMix(e.detail);
+  }
+
+  private handlePromptsDragOver(e: DragEvent) {
+    if (!e.dataTransfer?.types.includes(LIBRARY_DRAG_TYPE)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+  }
+
+  private handlePromptsDrop(e: DragEvent) {
+    const text = e.dataTransfer?.getData(LIBRARY_DRAG_TYPE);
+    if (!text) return;
+    e.preventDefault();
+    this.addPromptToMix(text);
+  }
+
+  private handleLibraryEntryAdded(e: CustomEvent<LibraryEntryDetail>) {
+    if (!this.library.add(e.detail.text, e.detail.category)) {
+      this.toastMessage.show(`"${e.detail.text}" is already in the library.`);
+      return;
+    }
+    this.libraryRevision++;
+  }
+
+  private handleLibraryEntryRemoved(e: CustomEvent<string>) {
+    this.library.remove(e.detail);
+    this.libraryRevision++;
+  }
+
+  private handleLibraryFavoriteToggled(e: CustomEvent<string>) {
+    this.library.toggleFavorite(e.detail);
+    this.libraryRevision++;
+  }
+
+  private handleLibraryExport() {
+    const json = JSON.stringify(this.library.export(), null, 2);
+    const url = URL.createObjectURL(
+      new Blob([json], {type: 'application/json'}),
+    );
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'promptdj-library.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  private handleLibraryImport(e: CustomEvent<string>) {
+    let doc;
+    try {
+      doc = parseLibraryJson(e.detail);
+    } catch (error) {
+      if (!(error instanceof LibraryDocumentError)) throw error;
+      this.toastMessage.show(error.message);
+      return;
+    }
+    const added = this.library.import(doc);
+    this.libraryRevision++;
+    this.toastMessage.show(`Added ${added} prompts to the library.`);
+  }
+
+  private async handleSessionCopyLink() {
+    const {origin, pathname, search} = window.location;
+    const link = `${origin}${pathname}${search}${encodeSessionHash(this.getSessionDocument())}`;
+    try {
+      await navigator.clipboard.writeText(link);
+      this.toastMessage.show('Session link copied.');
+    } catch (e) {
+      console.error('Failed to copy link', e);
+      this.toastMessage.show('Could not copy the link.');
+    }
+  }
+
+  /** With one deck, the crossfader stays on deck A whatever its position. */
+  private applyCrossfader() {
+    this.crossfader.set(
+      this.deckEnabled ? this.crossfaderPosition : 0,
+      this.crossfaderCurve,
+    );
+  }
+
+  private async enableDeck() {
+    this.deck?.close();
+    this.deck = new Deck(
+      this.audioContext,
+      this.sessionProvider,
+      'Deck B',
+      this.deckPrompts,
+      this.deckSettings.config,
+      {
+        onchange: () => this.requestUpdate(),
+        onmessage: (message) => this.toastMessage.show(message),
+      },
+    );
+    this.deck.output.connect(this.crossfader.b);
+    this.deckEnabled = true;
+    this.applyCrossfader();
+    this.persistState();
+    await this.updateComplete;
+    this.deckSettingsController?.restoreState(this.deckSettings);
+  }
+
+  private handleDeckDisable() {
+    this.deck?.close();
+    this.deck = null;
+    this.deckEnabled = false;
+    this.applyCrossfader();
+    this.persistState();
+  }
+
+  private handleDeckPlayPause() {
+    this.deck?.togglePlay();
+  }
+
+  private setDeckPrompts(prompts: Prompt[]) {
+    this.deckPrompts = prompts;
+    this.deck?.setPrompts(prompts);
+    this.persistState();
+  }
+
+  private handleDeckPromptAdded(e: CustomEvent<string>) {
+    const promptId = `prompt-${this.nextPromptId++}`;
+    const color = getUnusedRandomColor(this.deckPrompts.map((p) => p.color));
+    this.setDeckPrompts([
+      ...this.deckPrompts,
+      {promptId, text: e.detail, weight: 1, color},
+    ]);
+    this.markPromptUsed(e.detail);
+  }
+
+  private handleDeckPromptWeight(e: CustomEvent<DeckWeightDetail>) {
+    const {promptId, weight} = e.detail;
+    this.setDeckPrompts(
+      this.deckPrompts.map((p) => (p.promptId === promptId ? {...p, weight} : p)),
+    );
+  }
+
+  private handleDeckPromptRemoved(e: CustomEvent<string>) {
+    this.setDeckPrompts(this.deckPrompts.filter((p) => p.promptId !== e.detail));
+  }
+
+  /** Cues deck A's mix on deck B, to be changed from there. */
+  private handleDeckCopy() {
+    this.setDeckPrompts(
+      [...this.prompts.values()].map((p) => ({
+        ...p,
+        promptId: `prompt-${this.nextPromptId++}`,
+      })),
+    );
+    this.deckSettingsController?.restoreState(this.settingsController.getState());
+  }
+
+  private handleDeckSettingsChanged(e: CustomEvent<LiveMusicGenerationConfig>) {
+    this.deck?.setConfig(e.detail);
+    this.handleDeckSettingsStateChanged();
+  }
+
+  private handleDeckSettingsStateChanged() {
+    if (!this.deckSettingsController) return;
+    this.deckSettings = this.deckSettingsController.getState();
+    this.persistState();
+  }
+
+  private handleCrossfaderChanged(e: CustomEvent<number>) {
+    this.crossfaderPosition = e.detail;
+    this.applyCrossfader();
+    this.persistState();
+  }
+
+  private handleCrossfaderCurveChanged(e: CustomEvent<CrossfaderCurve>) {
+    this.crossfaderCurve = e.detail;
+    this.applyCrossfader();
+    this.persistState();
+  }
+
+  private async handleMidiEnable() {
+    try {
+      await this.midi.enable();
+    } catch (e) {
+      console.error('Failed to enable MIDI', e);
+      this.toastMessage.show(`MIDI unavailable: ${(e as Error).message}`);
+    }
+  }
+
+  private handleMidiLearn(e: CustomEvent<MidiTarget>) {
+    this.midi.learn(e.detail);
+  }
+
+  private handleMidiLearnCancel() {
+    this.midi.cancelLearn();
+  }
+
+  private handleMidiClear(e: CustomEvent<MidiTarget>) {
+    this.midi.clearBindings(e.detail);
+  }
+
+  private getMidiTargets(): MidiTargetRow[] {
+    const targets = [
+      ...[...this.prompts.values()].map((p) => ({
+        target: weightLane(p.promptId),
+        label: p.text,
+      })),
+      ...MIDI_CONTROL_TARGETS,
+      // The delay time snaps to divisions, which a knob can't express.
+      ...(Object.keys(EFFECT_LABELS) as EffectParam[])
+        .filter((param) => param !== 'delayBeats')
+        .map((param) => ({
+          target: effectLane(param),
+          label: `FX ${EFFECT_LABELS[param]}`,
+        })),
+    ];
+    return targets.map(({target, label}) => ({
+      target,
+      label,
+      bindings: this.midi
+        .getBindings(target)
+        .map(({binding}) => describeBinding(binding)),
+    }));
+  }
+
+  private getMidiValue(target: MidiTarget) {
+    const lane = parseLaneKey(target);
+    if (!lane) return undefined;
+    if (lane.kind === 'weight') return this.prompts.get(lane.promptId)?.weight;
+    if (lane.kind === 'effect') return this.effectsState[lane.param];
+    const value = this.settingsController.getConfig()[lane.key];
+    return typeof value === 'number' || typeof value === 'boolean'
+      ? value
+      : undefined;
+  }
+
+  private setMidiValue(target: MidiTarget, value: number | boolean) {
+    const lane = parseLaneKey(target);
+    if (!lane) return;
+    if (lane.kind === 'weight') {
+      this.setPromptWeight(lane.promptId, Number(value));
+    } else if (lane.kind === 'effect') {
+      this.setEffects({[lane.param]: value});
+    } else {
+      this.setConfigInstantly({...this.config, [lane.key]: value});
+    }
+  }
+
+  private triggerMidiAction(action: MidiAction) {
+    if (action === 'playPause') {
+      this.handlePlayPause();
+    } else {
+      this.handleReset();
+    }
   }
 
   private handleNameSubmitted(e: CustomEvent<string>) {
@@ -1997,6 +3654,7 @@ class PromptDj extends LitElement {
   private handleUserPromptInput(e: Event) {
     const input = e.target as HTMLInputElement;
     this.userPrompt = input.value;
+    this.persistState();
   }
 
   private handleUserPromptKeyPress(e: KeyboardEvent) {
@@ -2011,33 +3669,12 @@ class PromptDj extends LitElement {
     this.isGenerating = true;
 
     try {
-      // For now, simulate AI term generation with a simple keyword extraction
-      // This is a placeholder - in the future this would call Gemini API
-      const generatedTerms = this.extractMusicTerms(this.userPrompt);
-
-      // Clear existing prompts first
-      this.prompts.clear();
-
-      // Add generated terms as new prompts
-      const usedColors: string[] = [];
-      generatedTerms.forEach((term, index) => {
-        const promptId = `prompt-${this.nextPromptId++}`;
-        const color = getUnusedRandomColor(usedColors);
-        usedColors.push(color);
-
-        this.prompts.set(promptId, {
-          promptId,
-          text: term,
-          weight: Math.random() * 1.5, // Random initial weight
-          color,
-        });
-      });
-
-      // Update the session and UI
-      await this.setSessionPrompts();
-      this.dispatchPromptsChange();
-      this.toastMessage.show(`Generated ${generatedTerms.length} music terms from your prompt!`);
-
+      const suggestion = await this.termGenerator.generate(this.userPrompt);
+      if (suggestion.terms.length === 0) {
+        this.toastMessage.show('No music terms found in your prompt.');
+        return;
+      }
+      this.termSuggestion = suggestion;
     } catch (error) {
       console.error('Error generating terms:', error);
       this.toastMessage.show('Failed to generate terms. Please try again.');
@@ -2046,46 +3683,63 @@ class PromptDj extends LitElement {
     }
   }
 
-  private extractMusicTerms(prompt: string): string[] {
-    // Simple term extraction - in a real implementation this would use Gemini API
-    const musicKeywords = [
-      'jazz', 'rock', 'pop', 'classical', 'electronic', 'funk', 'blues', 'country',
-      'upbeat', 'mellow', 'energetic', 'calm', 'intense', 'smooth', 'driving',
-      'piano', 'guitar', 'drums', 'bass', 'saxophone', 'violin', 'trumpet',
-      'ambient', 'rhythmic', 'melodic', 'harmonic', 'percussive', 'vocal',
-      'fast', 'slow', 'medium', 'tempo', 'beat', 'groove'
-    ];
-
-    const words = prompt.toLowerCase().split(/\s+/);
-    const extractedTerms: string[] = [];
-
-    // Find matching keywords
-    words.forEach(word => {
-      const cleanWord = word.replace(/[^a-z]/g, '');
-      if (musicKeywords.includes(cleanWord)) {
-        extractedTerms.push(cleanWord.charAt(0).toUpperCase() + cleanWord.slice(1));
-      }
-    });
-
-    // If no keywords found, generate some based on common patterns
-    if (extractedTerms.length === 0) {
-      if (prompt.includes('upbeat') || prompt.includes('energetic') || prompt.includes('fast')) {
-        extractedTerms.push('Energetic', 'Fast Tempo', 'Driving Beat');
-      } else if (prompt.includes('calm') || prompt.includes('mellow') || prompt.includes('slow')) {
-        extractedTerms.push('Mellow', 'Ambient', 'Smooth');
-      } else {
-        // Default terms
-        extractedTerms.push('Melodic', 'Rhythmic', 'Harmonic');
+  private handleTermsApplied(e: CustomEvent<TermApplyDetail>) {
+    const {mode, terms, config} = e.detail;
+    const newPrompts =
+      mode === 'replace' ? new Map<string, Prompt>() : new Map(this.prompts);
+    const usedColors = [...newPrompts.values()].map((p) => p.color);
+    for (const term of terms) {
+      const existing = [...newPrompts.values()].find(
+        (p) => p.text.toLowerCase() === term.text.toLowerCase(),
+      );
+      if (existing) {
+        newPrompts.set(existing.promptId, {...existing, weight: term.weight});
+        continue;
       }
+      const promptId = `prompt-${this.nextPromptId++}`;
+      const color = getUnusedRandomColor(usedColors);
+      usedColors.push(color);
+      newPrompts.set(promptId, {
+        promptId,
+        text: term.text,
+        weight: term.weight,
+        color,
+      });
+    }
+    for (const term of terms) this.markPromptUsed(term.text);
+    this.setPrompts(newPrompts);
+    this.dispatchPromptsChange();
+    if (Object.keys(config).length > 0) {
+      this.settingsController.setConfig({...this.config, ...config});
     }
+    this.termSuggestion = null;
+    this.toastMessage.show(
+      mode === 'replace'
+        ? `Replaced your prompts with ${terms.length} music terms.`
+        : `Merged ${terms.length} music terms into your prompts.`,
+    );
+  }
+
+  private handleTermsDismissed() {
+    this.termSuggestion = null;
+  }
 
-    // Add some variation based on prompt content
-    if (prompt.includes('jazz')) extractedTerms.push('Swing', 'Improvisation');
-    if (prompt.includes('rock')) extractedTerms.push('Power Chords', 'Driving');
-    if (prompt.includes('electronic')) extractedTerms.push('Synthesized', 'Digital');
+  private handleVisualizerModeChange(e: Event) {
+    this.visualizerMode = (e.target as HTMLSelectElement).value as VisualizerMode;
+    this.persistState();
+  }
+
+  private handleLowCpuVisualizerChange(e: Event) {
+    this.lowCpuVisualizer = (e.target as HTMLInputElement).checked;
+    this.persistState();
+  }
 
-    // Limit to 6 terms max and remove duplicates
-    return [...new Set(extractedTerms)].slice(0, 6);
+  /** The colors of the audible prompts, loudest first. */
+  private getVisualizerColors() {
+    return [...this.prompts.values()]
+      .filter((p) => p.weight > 0)
+      .sort((a, b) => b.weight - a.weight)
+      .map((p) => p.color);
   }
 
   override render() {
@@ -2096,6 +3750,12 @@ class PromptDj extends LitElement {
       ${this.showNamePopup ? html`<name-popup @name-submitted=${this.handleNameSubmitted}></name-popup>` : ''}
       ${this.showLoveMessage ? html`<love-message></love-message>` : ''}
       <div id="background" style=${bg}></div>
+      <audio-visualizer
+        .analyser=${this.analyser}
+        .colors=${this.getVisualizerColors()}
+        .mode=${this.visualizerMode}
+        .lowCpu=${this.lowCpuVisualizer}
+        @beat=${this.handleBeat}></audio-visualizer>
 
       <div class="user-prompt-input-container">
         <div class="prompt-input-wrapper">
@@ -2115,15 +3775,177 @@ class PromptDj extends LitElement {
             ${this.isGenerating ? 'Generating...' : 'Generate Terms'}
           </button>
         </div>
+        ${this.termSuggestion
+          ? html`<term-preview
+              .suggestion=${this.termSuggestion}
+              @terms-applied=${this.handleTermsApplied}
+              @terms-dismissed=${this.handleTermsDismissed}></term-preview>`
+          : ''}
       </div>
 
-      <div class="prompts-area">
+      <div
+        class="prompts-area"
+        @dragover=${this.handlePromptsDragOver}
+        @drop=${this.handlePromptsDrop}>
         ${this.renderHorizontalPrompts()}
+        <add-prompt-button
+          title="Add a prompt"
+          @click=${this.handleAddPrompt}></add-prompt-button>
+      </div>
+      ${this.renderGlideControls()}
+
+      <div id="clock-container">
+        <clock-panel
+          .clock=${this.clock}
+          .context=${this.audioContext}
+          .quantize=${this.quantize}
+          .queued=${this.queuedChanges}
+          .tempoSource=${this.tempoSource}
+          @quantize-changed=${this.handleQuantizeChanged}
+          @quantize-flush=${this.handleQuantizeFlush}></clock-panel>
+      </div>
+
+      <div id="library-container">
+        <prompt-library
+          .library=${this.library}
+          .revision=${this.libraryRevision}
+          @library-add-to-mix=${this.handleLibraryAddToMix}
+          @library-entry-added=${this.handleLibraryEntryAdded}
+          @library-entry-removed=${this.handleLibraryEntryRemoved}
+          @library-favorite-toggled=${this.handleLibraryFavoriteToggled}
+          @library-export=${this.handleLibraryExport}
+          @library-import=${this.handleLibraryImport}></prompt-library>
       </div>
 
       <div id="settings-container">
         <settings-controller
-          @settings-changed=${this.updateSettings}></settings-controller>
+          @settings-changed=${this.handleSettingsChanged}
+          @settings-state-changed=${this.persistState}></settings-controller>
+      </div>
+
+      <div id="deck-container">
+        <deck-panel
+          .enabled=${this.deckEnabled}
+          .prompts=${this.deckPrompts}
+          .playbackState=${this.deck?.playbackState ?? 'stopped'}
+          .connectionState=${this.deck?.connectionState ?? 'disconnected'}
+          .crossfader=${this.crossfaderPosition}
+          .curve=${this.crossfaderCurve}
+          @deck-enable=${this.enableDeck}
+          @deck-disable=${this.handleDeckDisable}
+          @deck-play-pause=${this.handleDeckPlayPause}
+          @deck-copy=${this.handleDeckCopy}
+          @deck-prompt-added=${this.handleDeckPromptAdded}
+          @deck-prompt-weight=${this.handleDeckPromptWeight}
+          @deck-prompt-removed=${this.handleDeckPromptRemoved}
+          @crossfader-changed=${this.handleCrossfaderChanged}
+          @crossfader-curve-changed=${this.handleCrossfaderCurveChanged}>
+          ${this.deckEnabled
+            ? html`<settings-controller
+                id="deck-b-settings"
+                slot="settings"
+                @settings-changed=${this.handleDeckSettingsChanged}
+                @settings-state-changed=${this.handleDeckSettingsStateChanged}></settings-controller>`
+            : ''}
+        </deck-panel>
+      </div>
+
+      <div id="effects-container">
+        <effects-panel
+          .state=${this.effectsState}
+          @effects-changed=${this.handleEffectsChanged}></effects-panel>
+      </div>
+
+      <div id="script-container">
+        <set-script-panel
+          .script=${this.setScript}
+          .state=${this.scriptState}
+          .position=${this.scriptPosition}
+          .steps=${this.scriptSteps}
+          .currentStep=${this.scriptStep}
+          @script-changed=${this.handleScriptChanged}
+          @script-run=${this.handleScriptRun}
+          @script-pause=${this.handleScriptPause}
+          @script-resume=${this.handleScriptResume}
+          @script-skip=${this.handleScriptSkip}
+          @script-take-over=${this.handleScriptTakeOver}
+          @script-stop=${this.handleScriptStop}></set-script-panel>
+      </div>
+
+      <div id="scenes-container">
+        <scene-panel
+          .scenes=${this.scenes}
+          .morphProgress=${this.morphProgress}
+          @scene-save=${this.handleSceneSave}
+          @scene-recall=${this.handleSceneRecall}
+          @scene-delete=${this.handleSceneDelete}
+          @scene-morph-cancel=${this.handleSceneMorphCancel}></scene-panel>
+      </div>
+
+      <div id="share-container">
+        <share-panel
+          @session-export=${this.handleSessionExport}
+          @session-import=${this.handleSessionImport}
+          @session-copy-link=${this.handleSessionCopyLink}></share-panel>
+      </div>
+
+      <div id="diagnostics-container">
+        <diagnostics-panel
+          .open=${this.diagnosticsOpen}
+          .snapshot=${this.diagnosticsSnapshot}
+          .history=${this.diagnostics.history}
+          @diagnostics-toggle=${this.handleDiagnosticsToggle}
+          @diagnostics-export=${this.handleDiagnosticsExport}></diagnostics-panel>
+      </div>
+
+      <div id="capture-container">
+        <capture-panel
+          .capturing=${this.capturing}
+          .eventCount=${this.captureEvents}
+          .replaying=${this.replay !== null}
+          .replaySpeed=${this.replaySpeed}
+          @capture-start=${this.handleCaptureStart}
+          @capture-stop=${this.handleCaptureStop}
+          @replay-load=${this.handleReplayLoad}
+          @replay-speed=${this.handleReplaySpeed}
+          @replay-stop=${this.handleReplayStop}></capture-panel>
+      </div>
+
+      <div id="filter-log-container">
+        <filter-log-panel
+          .events=${this.filterEvents}
+          @filter-log-export=${this.handleFilterLogExport}
+          @filter-log-clear=${this.handleFilterLogClear}></filter-log-panel>
+      </div>
+
+      <div id="midi-container">
+        <midi-panel
+          .supported=${MidiController.isSupported}
+          .enabled=${this.midi.enabled}
+          .devices=${this.midi.devices}
+          .learning=${this.midi.learning}
+          .targets=${this.getMidiTargets()}
+          @midi-enable=${this.handleMidiEnable}
+          @midi-learn=${this.handleMidiLearn}
+          @midi-learn-cancel=${this.handleMidiLearnCancel}
+          @midi-clear=${this.handleMidiClear}></midi-panel>
+      </div>
+
+      <div id="automation-container">
+        <automation-panel
+          .clip=${this.automationClip}
+          .revision=${this.automationRevision}
+          .labels=${new Map(
+            [...this.prompts.values()].map((p) => [p.promptId, p.text]),
+          )}
+          .recording=${this.automationRecording}
+          .playing=${this.automationPlaying}
+          .loop=${this.automationLoop}
+          .position=${this.automationPosition}
+          @automation-record=${this.handleAutomationRecord}
+          @automation-play=${this.handleAutomationPlay}
+          @automation-loop-changed=${this.handleAutomationLoopChanged}
+          @automation-clear=${this.handleAutomationClear}></automation-panel>
       </div>
 
       <div class="playback-container">
@@ -2131,61 +3953,346 @@ class PromptDj extends LitElement {
           @click=${this.handlePlayPause}
           .playbackState=${this.playbackState}></play-pause-button>
         <reset-button @click=${this.handleReset}></reset-button>
+        <record-button
+          @click=${this.handleRecord}
+          .recording=${this.recording}></record-button>
+        ${this.renderConnectionIndicator()} ${this.renderBufferStats()}
+        ${this.renderVisualizerControls()}
       </div>
+      <recording-panel
+        .recording=${this.recording}
+        .duration=${this.recordedSeconds}
+        .take=${this.take}
+        @take-discarded=${this.handleTakeDiscarded}></recording-panel>
+      <keymap-overlay
+        .open=${this.showKeymap}
+        .keymap=${this.keymap.bindings}
+        .capturing=${this.keymap.capturing}
+        @keymap-capture=${this.handleKeymapCapture}
+        @keymap-capture-cancel=${this.handleKeymapCaptureCancel}
+        @keymap-reset=${this.handleKeymapReset}
+        @keymap-close=${this.handleKeymapClose}></keymap-overlay>
       <toast-message></toast-message>`;
   }
 
+  private renderConnectionIndicator() {
+    const labels: Record<ConnectionState, string> = {
+      connecting: 'Connecting…',
+      connected: 'Connected',
+      reconnecting: 'Reconnecting…',
+      disconnected: 'Disconnected',
+    };
+    return html`<div
+      class=${classMap({
+        'connection-indicator': true,
+        [this.connectionState]: true,
+      })}>
+      <span class="dot"></span>${labels[this.connectionState]}
+    </div>`;
+  }
+
+  private renderGlideControls() {
+    const labels: Record<GlideCurve, string> = {
+      linear: 'Linear',
+      exponential: 'Exponential',
+      sCurve: 'S-curve',
+    };
+    return html`<div class="glide-controls">
+      <label title="Hold Alt while changing a weight to cut instantly">
+        Glide
+        <input
+          type="range"
+          min="0"
+          max=${MAX_GLIDE_MS / 1000}
+          step="0.1"
+          .value=${String(this.glideMs / 1000)}
+          @input=${this.handleGlideTimeChange} />
+        ${this.glideMs === 0 ? 'Off' : `${(this.glideMs / 1000).toFixed(1)}s`}
+      </label>
+      <select
+        title="Glide curve"
+        ?disabled=${this.glideMs === 0}
+        @change=${this.handleGlideCurveChange}>
+        ${GLIDE_CURVES.map(
+          (curve) =>
+            html`<option value=${curve} ?selected=${curve === this.glideCurve}>
+              ${labels[curve]}
+            </option>`,
+        )}
+      </select>
+    </div>`;
+  }
+
+  private renderVisualizerControls() {
+    const labels: Record<VisualizerMode, string> = {
+      off: 'Off',
+      spectrum: 'Spectrum',
+      waveform: 'Waveform',
+      beat: 'Beat',
+    };
+    return html`<div class="visualizer-controls">
+      <select
+        title="Visualizer"
+        .value=${this.visualizerMode}
+        @change=${this.handleVisualizerModeChange}>
+        ${VISUALIZER_MODES.map(
+          (mode) =>
+            html`<option value=${mode} ?selected=${mode === this.visualizerMode}>
+              ${labels[mode]}
+            </option>`,
+        )}
+      </select>
+      <label>
+        <input
+          type="checkbox"
+          .checked=${this.lowCpuVisualizer}
+          @change=${this.handleLowCpuVisualizerChange} />
+        Low CPU
+      </label>
+    </div>`;
+  }
+
+  private renderBufferStats() {
+    const {depth, targetDepth, jitter, underruns} = this.bufferStats;
+    return html`<div
+      class="buffer-stats"
+      title=${`Target ${targetDepth.toFixed(2)}s, jitter ${jitter.toFixed(2)}s`}>
+      Buffer ${depth.toFixed(1)}s · ${underruns}
+      ${underruns === 1 ? 'underrun' : 'underruns'}
+    </div>`;
+  }
+
   private renderHorizontalPrompts() {
-    return [...this.prompts.values()].map((prompt) => {
+    // Keyed, so a reordered card keeps its element and any edit in progress.
+    return repeat(this.prompts.values(), (prompt) => prompt.promptId, (prompt) => {
       return html`<horizontal-prompt-card
+        .promptId=${prompt.promptId}
         .text=${prompt.text}
         .weight=${prompt.weight}
         .color=${prompt.color}
+        .selected=${prompt.promptId === this.selectedPromptId}
+        .unsynced=${!this.engine.isPromptSynced(prompt)}
+        .filtered=${this.engine.filteredPrompts.has(prompt.text)}
+        .filteredReason=${this.engine.filteredPrompts.get(prompt.text) ?? ''}
+        @prompt-rephrased=${this.handlePromptRephrased}
+        @prompt-changed=${this.handlePromptChanged}
+        @prompt-removed=${this.handlePromptRemoved}
+        @prompt-reordered=${this.handlePromptReordered}
         @weight-changed=${this.handleHorizontalWeightChanged}>
       </horizontal-prompt-card>`;
     });
   }
 
-  private handleHorizontalWeightChanged(e: CustomEvent) {
-    const { text, weight } = e.detail;
-    // Find the prompt by text and update its weight
-    for (const [promptId, prompt] of this.prompts.entries()) {
-      if (prompt.text === text) {
-        prompt.weight = weight;
-        const newPrompts = new Map(this.prompts);
-        newPrompts.set(promptId, prompt);
-        this.prompts = newPrompts;
-        this.setSessionPrompts();
-        this.requestUpdate();
-        this.dispatchPromptsChange();
-        break;
+  /** Moves a prompt to where `targetId` is, which also moves its glow. */
+  private handlePromptReordered(e: CustomEvent<PromptReorderDetail>) {
+    const {promptId, targetId} = e.detail;
+    const prompts = [...this.prompts.values()];
+    const from = prompts.findIndex((p) => p.promptId === promptId);
+    const to = prompts.findIndex((p) => p.promptId === targetId);
+    if (from === -1 || to === -1) return;
+    const [moved] = prompts.splice(from, 1);
+    prompts.splice(to, 0, moved);
+    this.setPrompts(new Map(prompts.map((p) => [p.promptId, p])));
+    this.dispatchPromptsChange();
+  }
+
+  private handleHorizontalWeightChanged(
+    e: CustomEvent<{promptId: string; weight: number}>,
+  ) {
+    const {promptId, weight} = e.detail;
+    const prompt = this.prompts.get(promptId);
+    if (!prompt) return;
+    this.queueChange(weightLane(promptId), prompt.text, () =>
+      this.setPromptWeight(promptId, weight, {glide: true}),
+    );
+  }
+
+  /** Sets a prompt's weight from the card slider or a MIDI control. */
+  private setPromptWeight(
+    promptId: string,
+    weight: number,
+    options?: {glide?: boolean},
+  ) {
+    this.setPromptWeights(new Map([[promptId, weight]]), options);
+  }
+
+  /**
+   * Sets several weights at once, so that they reach the session together.
+   * With `glide`, the session hears them ramp over the glide time; the cards
+   * show the targets straight away. `prompts` are the ones to change, if not
+   * the mix as it is, e.g. with prompts just added.
+   */
+  private setPromptWeights(
+    weights: Map<string, number>,
+    {
+      glide = false,
+      prompts = this.prompts,
+    }: {glide?: boolean; prompts?: ReadonlyMap<string, Prompt>} = {},
+  ) {
+    const newPrompts = new Map(prompts);
+    for (const [promptId, weight] of weights) {
+      const prompt = newPrompts.get(promptId);
+      if (!prompt) continue;
+      this.glideValue(weightLane(promptId), prompt.weight, weight, {
+        instant: !glide,
+      });
+      // A new object, as the old one may still be in flight to the session.
+      newPrompts.set(promptId, {...prompt, weight});
+      if (this.automationRecorder.isRecording) {
+        this.automationRecorder.record(weightLane(promptId), weight);
+        this.automationRevision++;
       }
     }
+    this.setPrompts(newPrompts);
+    this.dispatchPromptsChange();
   }
-}
 
-function gen(parent: HTMLElement) {
-  const initialPrompts = getStoredPrompts();
+  private handleKeyAction(action: KeyAction) {
+    if (action.startsWith('selectPrompt')) {
+      const index = Number(action.slice('selectPrompt'.length)) - 1;
+      const prompt = [...this.prompts.values()][index];
+      if (prompt) this.selectedPromptId = prompt.promptId;
+      return;
+    }
+    switch (action) {
+      case 'playPause':
+        this.handlePlayPause();
+        break;
+      case 'reset':
+        this.handleReset();
+        break;
+      case 'weightUp':
+        this.nudgeSelectedWeight(WEIGHT_STEP);
+        break;
+      case 'weightDown':
+        this.nudgeSelectedWeight(-WEIGHT_STEP);
+        break;
+      case 'solo':
+        this.toggleSolo();
+        break;
+      case 'mute':
+        this.toggleMute();
+        break;
+      case 'resetWeight':
+        if (this.selectedPrompt) {
+          this.setPromptWeight(this.selectedPrompt.promptId, 1);
+        }
+        break;
+      case 'showHelp':
+        this.showKeymap = !this.showKeymap;
+        break;
+    }
+  }
 
-  const pdj = new PromptDj(initialPrompts);
-  parent.appendChild(pdj);
+  private get selectedPrompt() {
+    return this.selectedPromptId
+      ? this.prompts.get(this.selectedPromptId)
+      : undefined;
+  }
+
+  private nudgeSelectedWeight(delta: number) {
+    const prompt = this.selectedPrompt;
+    if (!prompt) return;
+    const weight = Math.min(2, Math.max(0, prompt.weight + delta));
+    this.setPromptWeight(prompt.promptId, Math.round(weight * 100) / 100);
+  }
+
+  /**
+   * Silences every prompt but the selected one, or restores the mix from
+   * before if the selected prompt is already soloed.
+   */
+  private toggleSolo() {
+    const prompt = this.selectedPrompt;
+    if (!prompt) return;
+    const previous = this.soloWeights;
+    this.soloWeights = null;
+    if (previous) {
+      this.setPromptWeights(previous.weights, {glide: true});
+      if (previous.promptId === prompt.promptId) return;
+    }
+    const weights = new Map(
+      [...this.prompts.values()].map((p) => [p.promptId, p.weight]),
+    );
+    this.soloWeights = {promptId: prompt.promptId, weights};
+    this.setPromptWeights(
+      new Map(
+        [...weights].map(([promptId, weight]) => [
+          promptId,
+          promptId === prompt.promptId ? weight || 1 : 0,
+        ]),
+      ),
+      {glide: true},
+    );
+  }
+
+  private toggleMute() {
+    const prompt = this.selectedPrompt;
+    if (!prompt) return;
+    const muted = this.mutedWeights.get(prompt.promptId);
+    if (muted !== undefined) {
+      this.mutedWeights.delete(prompt.promptId);
+      this.setPromptWeight(prompt.promptId, muted, {glide: true});
+    } else {
+      this.mutedWeights.set(prompt.promptId, prompt.weight);
+      this.setPromptWeight(prompt.promptId, 0, {glide: true});
+    }
+  }
+
+  private handleKeymapCapture(e: CustomEvent<KeyAction>) {
+    this.keymap.capture(e.detail);
+  }
+
+  private handleKeymapCaptureCancel() {
+    this.keymap.cancelCapture();
+  }
+
+  private handleKeymapReset() {
+    this.keymap.resetToDefaults();
+  }
+
+  private handleKeymapClose() {
+    this.keymap.cancelCapture();
+    this.showKeymap = false;
+  }
 }
 
-function getStoredPrompts(): Map<string, Prompt> {
-  const {localStorage} = window;
-  const storedPrompts = localStorage.getItem('prompts');
+function gen(parent: HTMLElement) {
+  const store = new PersistedStateStore();
+  const loaded = store.load(createPresetState);
+  window.addEventListener('pagehide', () => store.flush());
+  if (loaded.error) {
+    loaded.error = `Couldn't restore your last session: ${loaded.error} Loaded presets instead.`;
+  }
 
-  if (storedPrompts) {
-    try {
-      const prompts = JSON.parse(storedPrompts) as Prompt[];
-      console.log('Loading stored prompts', prompts);
-      return new Map(prompts.map((prompt) => [prompt.promptId, prompt]));
-    } catch (e) {
-      console.error('Failed to parse stored prompts', e);
+  // A shared link takes precedence over the saved session.
+  try {
+    const shared = decodeSessionHash(window.location.hash);
+    if (shared) {
+      loaded.state = applySessionDocument(loaded.state, shared);
+      loaded.restored = true;
     }
+  } catch (e) {
+    if (!(e instanceof SessionDocumentError)) throw e;
+    loaded.error = `Couldn't open the shared link. ${e.message}`;
+  }
+  if (/[#&]session=/.test(window.location.hash)) {
+    // Drop the hash, so reloading keeps later edits instead of the link.
+    const {pathname, search} = window.location;
+    window.history.replaceState(null, '', `${pathname}${search}`);
   }
 
-  console.log('No stored prompts, creating prompt presets');
+  const pdj = new PromptDj(
+    loaded,
+    createMusicSessionProvider(),
+    createTermGenerator(),
+    store,
+  );
+  parent.appendChild(pdj);
+}
+
+/** A fresh session: a few random presets, two of them active. */
+function createPresetState(): PersistedState {
+  console.log('No stored state, creating prompt presets');
 
   const numDefaultPrompts = Math.min(4, PROMPT_TEXT_PRESETS.length);
   const shuffledPresetTexts = [...PROMPT_TEXT_PRESETS].sort(
@@ -2212,13 +4319,28 @@ function getStoredPrompts(): Map<string, Prompt> {
       promptsToActivate[i].weight = 1;
     }
   }
-  return new Map(defaultPrompts.map((p) => [p.promptId, p]));
-}
-
-function setStoredPrompts(prompts: Map<string, Prompt>) {
-  const storedPrompts = JSON.stringify([...prompts.values()]);
-  const {localStorage} = window;
-  localStorage.setItem('prompts', storedPrompts);
+  return {
+    version: STATE_VERSION,
+    prompts: defaultPrompts,
+    nextPromptId: defaultPrompts.length,
+    settings: {
+      config: {},
+      showAdvanced: false,
+      autoDensity: true,
+      autoBrightness: true,
+    },
+    effects: {...DEFAULT_EFFECTS},
+    deck: createDefaultDeckState(),
+    ui: {
+      userPrompt: '',
+      automationLoop: false,
+      visualizerMode: 'spectrum',
+      lowCpuVisualizer: false,
+      glideMs: 0,
+      glideCurve: 'sCurve',
+      quantize: 'off',
+    },
+  };
 }
 
 function main(container: HTMLElement) {
@@ -2235,6 +4357,7 @@ declare global {
     'add-prompt-button': AddPromptButton;
     'play-pause-button': PlayPauseButton;
     'reset-button': ResetButton;
+    'record-button': RecordButton;
     'weight-slider': WeightSlider;
     'toast-message': ToastMessage;
     'name-popup': NamePopup;
@@ -0,0 +1,322 @@
+/**
+ * @fileoverview Tests for the adaptive jitter buffer and the chunk player's
+ * underrun concealment, fed with synthetic chunk arrival times.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {describe, expect, it} from 'vitest';
+
+import {ChunkPlayer, JitterBuffer, type ScheduledChunk} from './jitter_buffer';
+
+/** Seconds of audio in each chunk. */
+const CHUNK = 0.5;
+
+/**
+ * Schedules a chunk arriving at each of `arrivals`, reading the audio clock
+ * as the arrival time.
+ */
+function feed(buffer: JitterBuffer, arrivals: number[]): ScheduledChunk[] {
+  return arrivals.map((time) => buffer.schedule(CHUNK, time, time));
+}
+
+/** Arrivals of `count` chunks in real time, each late by `lateness(i)`. */
+function arrivals(
+  count: number,
+  lateness: (i: number) => number = () => 0,
+) {
+  return Array.from({length: count}, (_, i) => i * CHUNK + lateness(i));
+}
+
+describe('JitterBuffer', () => {
+  it('starts the first chunk after the initial depth, fading in', () => {
+    const buffer = new JitterBuffer({initialDepth: 1});
+    expect(buffer.isStarted).toBe(false);
+    const [chunk] = feed(buffer, [10]);
+    expect(chunk).toEqual({
+      startTime: 11,
+      underrun: false,
+      fadeIn: true,
+      overlap: 0,
+    });
+    expect(buffer.endTime).toBe(11.5);
+  });
+
+  it('plays chunks that arrive in time back to back', () => {
+    const buffer = new JitterBuffer({initialDepth: 1, margin: 2});
+    const chunks = feed(buffer, arrivals(3));
+    expect(chunks.map((c) => c.startTime)).toEqual([1, 1.5, 2]);
+    expect(chunks.slice(1).every((c) => !c.fadeIn && !c.underrun)).toBe(true);
+  });
+
+  it('keeps the initial depth until it has measured enough chunks', () => {
+    const buffer = new JitterBuffer({initialDepth: 1});
+    feed(buffer, arrivals(3));
+    expect(buffer.getStats(1).targetDepth).toBe(1);
+    feed(buffer, [1.5]);
+    expect(buffer.getStats(1.5).targetDepth).toBeCloseTo(0.2);
+  });
+
+  it('sets the target to the measured jitter plus the margin', () => {
+    const buffer = new JitterBuffer({margin: 0.15});
+    // Every other chunk is 0.4 s late.
+    feed(buffer, arrivals(8, (i) => (i % 2) * 0.4));
+    const {jitter, targetDepth} = buffer.getStats(4);
+    expect(jitter).toBeCloseTo(0.4);
+    expect(targetDepth).toBeCloseTo(0.55);
+  });
+
+  it('keeps the target within the minimum and maximum depth', () => {
+    const steady = new JitterBuffer({minDepth: 0.3, margin: 0.1});
+    feed(steady, arrivals(8));
+    expect(steady.getStats(4).targetDepth).toBe(0.3);
+
+    const erratic = new JitterBuffer({maxDepth: 2});
+    feed(erratic, arrivals(8, (i) => (i === 4 ? 5 : 0)));
+    expect(erratic.getStats(8).targetDepth).toBe(2);
+  });
+
+  it('forgets lateness older than the window', () => {
+    const buffer = new JitterBuffer({window: 5, margin: 0.1});
+    feed(buffer, arrivals(10, (i) => (i === 2 ? 1 : 0)));
+    expect(buffer.jitter).toBe(0);
+    expect(buffer.getStats(5).targetDepth).toBeCloseTo(0.2);
+  });
+
+  it('sheds excess latency a little per chunk', () => {
+    const buffer = new JitterBuffer({
+      initialDepth: 2,
+      margin: 0.15,
+      maxTrimPerChunk: 0.05,
+    });
+    const times = arrivals(60);
+    const chunks = feed(buffer, times);
+    const overlaps = chunks.map((c) => c.overlap);
+    expect(Math.max(...overlaps)).toBeCloseTo(0.05);
+    expect(chunks.every((c) => !c.underrun)).toBe(true);
+    // Trimmed down to within the margin of the 0.2 s target, then left alone.
+    const depth = buffer.getStats(times[times.length - 1]).depth - CHUNK;
+    expect(depth).toBeGreaterThan(0.2);
+    expect(depth).toBeLessThanOrEqual(0.2 + 0.15 + 1e-9);
+    expect(overlaps.slice(-5)).toEqual([0, 0, 0, 0, 0]);
+  });
+
+  it('does not trim a buffer within the margin of its target', () => {
+    const buffer = new JitterBuffer({initialDepth: 0.3, margin: 0.15});
+    const chunks = feed(buffer, arrivals(20));
+    expect(chunks.every((c) => c.overlap === 0)).toBe(true);
+  });
+
+  it('restarts after an underrun, fading in at the target depth', () => {
+    const buffer = new JitterBuffer({initialDepth: 0.5});
+    // The fourth chunk is two seconds late, so the buffer runs dry.
+    const chunks = feed(buffer, arrivals(4, (i) => (i === 3 ? 2 : 0)));
+    const late = chunks[3];
+    expect(late.underrun).toBe(true);
+    expect(late.fadeIn).toBe(true);
+    expect(late.startTime).toBeCloseTo(3.5 + buffer.getStats(0).targetDepth);
+    expect(buffer.getStats(3.5).underruns).toBe(1);
+    expect(buffer.getStats(3.5).chunks).toBe(4);
+  });
+
+  it('deepens after an underrun so the same lateness is absorbed', () => {
+    const buffer = new JitterBuffer({initialDepth: 0.2, margin: 0.1});
+    const lateness = (i: number) => (i % 10 === 9 ? 0.6 : 0);
+    const chunks = feed(buffer, arrivals(40, lateness));
+    const underruns = chunks.flatMap((c, i) => (c.underrun ? [i] : []));
+    expect(underruns).toEqual([9]);
+  });
+
+  it('reports the depth scheduled ahead of the audio clock', () => {
+    const buffer = new JitterBuffer({initialDepth: 1});
+    expect(buffer.getStats(0).depth).toBe(0);
+    feed(buffer, [0]);
+    expect(buffer.getStats(0.25).depth).toBeCloseTo(1.25);
+    expect(buffer.getStats(5).depth).toBe(0);
+  });
+
+  it('starts afresh after a reset', () => {
+    const buffer = new JitterBuffer({initialDepth: 1});
+    feed(buffer, arrivals(6, (i) => (i % 2) * 0.5));
+    buffer.reset();
+    expect(buffer.isStarted).toBe(false);
+    expect(buffer.jitter).toBe(0);
+    const [chunk] = feed(buffer, [100]);
+    expect(chunk.fadeIn).toBe(true);
+    expect(chunk.underrun).toBe(false);
+    // The target measured before the pause still applies.
+    expect(chunk.startTime).toBeCloseTo(100.65);
+  });
+});
+
+/** What a fake source or gain was asked to do. */
+interface FakeNode {
+  kind: 'source' | 'gain';
+  buffer?: FakeAudioBuffer;
+  startedAt?: number;
+  stopped: boolean;
+  ramps: Array<[string, number, number]>;
+}
+
+class FakeAudioBuffer {
+  readonly channels: Float32Array[];
+
+  constructor(
+    readonly numberOfChannels: number,
+    readonly length: number,
+    readonly sampleRate: number,
+  ) {
+    this.channels = Array.from(
+      {length: numberOfChannels},
+      () => new Float32Array(length),
+    );
+  }
+
+  get duration() {
+    return this.length / this.sampleRate;
+  }
+
+  getChannelData(channel: number) {
+    return this.channels[channel];
+  }
+
+  copyToChannel(source: Float32Array, channel: number) {
+    this.channels[channel].set(source);
+  }
+}
+
+/** Just enough of a `BaseAudioContext` for the chunk player. */
+class FakeContext {
+  currentTime = 0;
+  readonly nodes: FakeNode[] = [];
+
+  createGain() {
+    const node: FakeNode = {kind: 'gain', stopped: false, ramps: []};
+    this.nodes.push(node);
+    return {
+      connect() {},
+      gain: {
+        setValueAtTime: (value: number, time: number) =>
+          node.ramps.push(['set', value, time]),
+        linearRampToValueAtTime: (value: number, time: number) =>
+          node.ramps.push(['ramp', value, time]),
+      },
+    };
+  }
+
+  createBufferSource() {
+    const node: FakeNode = {kind: 'source', stopped: false, ramps: []};
+    this.nodes.push(node);
+    return {
+      set buffer(buffer: FakeAudioBuffer) {
+        node.buffer = buffer;
+      },
+      connect() {},
+      start(when: number) {
+        node.startedAt = when;
+      },
+      stop() {
+        node.stopped = true;
+      },
+    };
+  }
+
+  createBuffer(channels: number, length: number, sampleRate: number) {
+    return new FakeAudioBuffer(channels, length, sampleRate);
+  }
+
+  get sources() {
+    return this.nodes.filter((n) => n.kind === 'source');
+  }
+}
+
+function createPlayer(options = {}) {
+  const context = new FakeContext();
+  const player = new ChunkPlayer(
+    context as unknown as BaseAudioContext,
+    new JitterBuffer({initialDepth: 1, margin: 0.15, ...options}),
+    0.25,
+  );
+  const destination = {} as AudioNode;
+  /** Plays a chunk of `CHUNK` seconds whose samples count up from 0. */
+  const play = (arrivalTime: number) => {
+    context.currentTime = arrivalTime;
+    const buffer = new FakeAudioBuffer(2, CHUNK * 1000, 1000);
+    buffer.channels[0].forEach((_, i, data) => (data[i] = i));
+    return player.play(
+      buffer as unknown as AudioBuffer,
+      destination,
+      arrivalTime,
+    );
+  };
+  return {context, player, play};
+}
+
+describe('ChunkPlayer', () => {
+  it('follows each chunk with a fading copy of its tail', () => {
+    const {context, play} = createPlayer();
+    play(0);
+    const [chunk, tail] = context.sources;
+    expect(chunk.startedAt).toBe(1);
+    expect(tail.startedAt).toBe(1.5);
+    expect(tail.buffer!.length).toBe(250);
+    // The last quarter second of the chunk.
+    expect(tail.buffer!.channels[0][0]).toBe(250);
+    const tailGain = context.nodes[context.nodes.indexOf(tail) - 1];
+    expect(tailGain.ramps).toEqual([
+      ['set', 1, 1.5],
+      ['ramp', 0, 1.75],
+    ]);
+  });
+
+  it('cancels the concealment when the next chunk arrives in time', () => {
+    const {context, play} = createPlayer();
+    play(0);
+    play(0.5);
+    const [, firstTail, second, secondTail] = context.sources;
+    expect(firstTail.stopped).toBe(true);
+    expect(second.startedAt).toBe(1.5);
+    expect(secondTail.stopped).toBe(false);
+  });
+
+  it('lets the concealment cover an underrun', () => {
+    const {context, play} = createPlayer();
+    play(0);
+    const chunk = play(3);
+    expect(chunk.underrun).toBe(true);
+    const [, firstTail, late] = context.sources;
+    expect(firstTail.stopped).toBe(false);
+    expect(late.startedAt).toBe(4);
+    const lateGain = context.nodes[context.nodes.indexOf(late) - 1];
+    expect(lateGain.ramps).toEqual([
+      ['set', 0, 4],
+      ['ramp', 1, 4.03],
+    ]);
+  });
+
+  it('crossfades chunks that overlap to shed latency', () => {
+    const {context, play} = createPlayer({initialDepth: 2});
+    for (let i = 0; i < 5; i++) play(i * CHUNK);
+    // Each chunk's gain is followed by its tail's.
+    const gains = context.nodes.filter((n) => n.kind === 'gain');
+    const [previous, , last] = gains.slice(-4);
+    const {startedAt} = context.sources[context.sources.length - 2];
+    expect(last.ramps).toEqual([
+      ['set', 0, startedAt],
+      ['ramp', 1, startedAt! + 0.05],
+    ]);
+    expect(previous.ramps.slice(-2)).toEqual([
+      ['set', 1, startedAt],
+      ['ramp', 0, startedAt! + 0.05],
+    ]);
+  });
+
+  it('cancels the concealment and the schedule on reset', () => {
+    const {context, player, play} = createPlayer();
+    play(0);
+    player.reset();
+    expect(context.sources[1].stopped).toBe(true);
+    expect(player.buffer.isStarted).toBe(false);
+    expect(player.getStats().chunks).toBe(1);
+  });
+});
@@ -0,0 +1,263 @@
+/**
+ * @fileoverview Schedules incoming audio chunks against an adaptive jitter
+ * buffer, and conceals underruns with a short fade.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export interface JitterBufferOptions {
+  /** Depth in seconds used until enough chunks have arrived to measure jitter. */
+  initialDepth?: number;
+  minDepth?: number;
+  maxDepth?: number;
+  /** Headroom in seconds added to the measured jitter. */
+  margin?: number;
+  /** How many recent chunks the jitter is measured over. */
+  window?: number;
+  /** The most latency, in seconds, shed per chunk when the buffer is too deep. */
+  maxTrimPerChunk?: number;
+}
+
+export interface JitterBufferStats {
+  /** Seconds of audio scheduled ahead of the audio clock. */
+  depth: number;
+  targetDepth: number;
+  /** Spread of chunk arrival times, relative to their audio, in seconds. */
+  jitter: number;
+  underruns: number;
+  chunks: number;
+}
+
+/** Where and how to play one chunk. */
+export interface ScheduledChunk {
+  startTime: number;
+  /** Whether the buffer had run dry before this chunk arrived. */
+  underrun: boolean;
+  /** Whether the chunk starts a new run of audio and should fade in. */
+  fadeIn: boolean;
+  /** Seconds the chunk overlaps the previous one, to shed latency. */
+  overlap: number;
+}
+
+const DEFAULT_OPTIONS: Required<JitterBufferOptions> = {
+  initialDepth: 1,
+  minDepth: 0.2,
+  maxDepth: 4,
+  margin: 0.15,
+  window: 20,
+  maxTrimPerChunk: 0.05,
+};
+
+/** Chunks needed before the measured jitter replaces the initial depth. */
+const MIN_SAMPLES = 4;
+
+/**
+ * Decides when each chunk plays. It tracks how late every chunk arrives
+ * relative to the audio already received, and keeps the buffer just deep
+ * enough to absorb the worst recent lateness.
+ */
+export class JitterBuffer {
+  private readonly options: Required<JitterBufferOptions>;
+  /** End of the scheduled audio on the audio clock, or 0 when idle. */
+  private nextStartTime = 0;
+  /** Seconds of audio received since the last reset. */
+  private mediaTime = 0;
+  /** Arrival time minus media time for the recent chunks. */
+  private offsets: number[] = [];
+  private target: number;
+  private underrunCount = 0;
+  private chunkCount = 0;
+
+  constructor(options: JitterBufferOptions = {}) {
+    this.options = {...DEFAULT_OPTIONS, ...options};
+    this.target = this.options.initialDepth;
+  }
+
+  get isStarted() {
+    return this.nextStartTime !== 0;
+  }
+
+  /** End of the scheduled audio on the audio clock, or 0 when idle. */
+  get endTime() {
+    return this.nextStartTime;
+  }
+
+  get jitter() {
+    if (this.offsets.length < 2) return 0;
+    return Math.max(...this.offsets) - Math.min(...this.offsets);
+  }
+
+  /**
+   * Schedules a chunk of `duration` seconds that arrived at `arrivalTime`
+   * (seconds, any monotonic clock) when the audio clock read `audioTime`.
+   */
+  schedule(
+    duration: number,
+    audioTime: number,
+    arrivalTime: number,
+  ): ScheduledChunk {
+    const {minDepth, maxDepth, margin, window, maxTrimPerChunk} = this.options;
+    this.chunkCount++;
+    this.offsets.push(arrivalTime - this.mediaTime);
+    if (this.offsets.length > window) this.offsets.shift();
+    this.mediaTime += duration;
+    if (this.offsets.length >= MIN_SAMPLES) {
+      this.target = Math.min(maxDepth, Math.max(minDepth, this.jitter + margin));
+    }
+
+    let chunk: ScheduledChunk;
+    if (this.nextStartTime === 0) {
+      chunk = {
+        startTime: audioTime + this.target,
+        underrun: false,
+        fadeIn: true,
+        overlap: 0,
+      };
+    } else if (this.nextStartTime < audioTime) {
+      this.underrunCount++;
+      chunk = {
+        startTime: audioTime + this.target,
+        underrun: true,
+        fadeIn: true,
+        overlap: 0,
+      };
+    } else {
+      const depth = this.nextStartTime - audioTime;
+      const excess = depth - this.target;
+      // Only trim when clearly too deep, so the schedule doesn't wobble.
+      const overlap = excess > margin ? Math.min(maxTrimPerChunk, excess) : 0;
+      chunk = {
+        startTime: this.nextStartTime - overlap,
+        underrun: false,
+        fadeIn: false,
+        overlap,
+      };
+    }
+    this.nextStartTime = chunk.startTime + duration;
+    return chunk;
+  }
+
+  /** Forgets the schedule and arrival history, e.g. after a pause. */
+  reset() {
+    this.nextStartTime = 0;
+    this.mediaTime = 0;
+    this.offsets = [];
+  }
+
+  getStats(audioTime: number): JitterBufferStats {
+    return {
+      depth: this.nextStartTime === 0 ? 0 : Math.max(0, this.nextStartTime - audioTime),
+      targetDepth: this.target,
+      jitter: this.jitter,
+      underruns: this.underrunCount,
+      chunks: this.chunkCount,
+    };
+  }
+}
+
+/** Length of the fade at the start of a new run of audio. */
+const FADE_IN_SECONDS = 0.03;
+
+/**
+ * Plays decoded chunks through Web Audio on a `JitterBuffer` schedule. Each
+ * chunk is followed by a fading copy of its tail, which is cancelled when the
+ * next chunk arrives in time and otherwise covers the gap of an underrun.
+ */
+export class ChunkPlayer {
+  private concealment: AudioBufferSourceNode | null = null;
+  private lastGain: GainNode | null = null;
+
+  constructor(
+    private readonly context: BaseAudioContext,
+    readonly buffer = new JitterBuffer(),
+    private readonly concealSeconds = 0.25,
+  ) {}
+
+  play(
+    audioBuffer: AudioBuffer,
+    destination: AudioNode,
+    arrivalTime = performance.now() / 1000,
+  ): ScheduledChunk {
+    const chunk = this.buffer.schedule(
+      audioBuffer.duration,
+      this.context.currentTime,
+      arrivalTime,
+    );
+    if (!chunk.underrun) this.cancelConcealment();
+    this.concealment = null;
+
+    const gain = this.context.createGain();
+    gain.connect(destination);
+    if (chunk.fadeIn) {
+      gain.gain.setValueAtTime(0, chunk.startTime);
+      gain.gain.linearRampToValueAtTime(1, chunk.startTime + FADE_IN_SECONDS);
+    } else if (chunk.overlap > 0 && this.lastGain) {
+      // Crossfade over the overlap.
+      const end = chunk.startTime + chunk.overlap;
+      gain.gain.setValueAtTime(0, chunk.startTime);
+      gain.gain.linearRampToValueAtTime(1, end);
+      this.lastGain.gain.setValueAtTime(1, chunk.startTime);
+      this.lastGain.gain.linearRampToValueAtTime(0, end);
+    }
+    const source = this.context.createBufferSource();
+    source.buffer = audioBuffer;
+    source.connect(gain);
+    source.start(chunk.startTime);
+    this.lastGain = gain;
+
+    this.scheduleConcealment(
+      audioBuffer,
+      destination,
+      chunk.startTime + audioBuffer.duration,
+    );
+    return chunk;
+  }
+
+  reset() {
+    this.cancelConcealment();
+    this.lastGain = null;
+    this.buffer.reset();
+  }
+
+  getStats(): JitterBufferStats {
+    return this.buffer.getStats(this.context.currentTime);
+  }
+
+  private scheduleConcealment(
+    audioBuffer: AudioBuffer,
+    destination: AudioNode,
+    when: number,
+  ) {
+    const frames = Math.min(
+      audioBuffer.length,
+      Math.round(this.concealSeconds * audioBuffer.sampleRate),
+    );
+    if (frames === 0) return;
+    const tail = this.context.createBuffer(
+      audioBuffer.numberOfChannels,
+      frames,
+      audioBuffer.sampleRate,
+    );
+    for (let c = 0; c < audioBuffer.numberOfChannels; c++) {
+      tail.copyToChannel(
+        audioBuffer.getChannelData(c).subarray(audioBuffer.length - frames),
+        c,
+      );
+    }
+    const gain = this.context.createGain();
+    gain.connect(destination);
+    gain.gain.setValueAtTime(1, when);
+    gain.gain.linearRampToValueAtTime(0, when + tail.duration);
+    const source = this.context.createBufferSource();
+    source.buffer = tail;
+    source.connect(gain);
+    source.start(when);
+    this.concealment = source;
+  }
+
+  private cancelConcealment() {
+    // Stopping a source before its start time means it never plays.
+    this.concealment?.stop();
+    this.concealment = null;
+  }
+}
@@ -0,0 +1,247 @@
+/**
+ * @fileoverview Rebindable keyboard shortcuts.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export type KeyAction =
+  | 'playPause'
+  | 'reset'
+  | 'selectPrompt1'
+  | 'selectPrompt2'
+  | 'selectPrompt3'
+  | 'selectPrompt4'
+  | 'selectPrompt5'
+  | 'selectPrompt6'
+  | 'selectPrompt7'
+  | 'selectPrompt8'
+  | 'selectPrompt9'
+  | 'weightUp'
+  | 'weightDown'
+  | 'solo'
+  | 'mute'
+  | 'resetWeight'
+  | 'showHelp';
+
+/**
+ * A key with its modifiers, e.g. `Shift+S` or `Space`. Letters and digits
+ * are named by their physical key, so `Shift+1` stays `Shift+1` rather than
+ * becoming `!`.
+ */
+export type KeyCombo = string;
+
+/** One combo per action; an empty combo leaves the action unbound. */
+export type Keymap = Record<KeyAction, KeyCombo>;
+
+export const DEFAULT_KEYMAP: Keymap = {
+  playPause: 'Space',
+  reset: 'Shift+R',
+  selectPrompt1: '1',
+  selectPrompt2: '2',
+  selectPrompt3: '3',
+  selectPrompt4: '4',
+  selectPrompt5: '5',
+  selectPrompt6: '6',
+  selectPrompt7: '7',
+  selectPrompt8: '8',
+  selectPrompt9: '9',
+  weightUp: 'ArrowUp',
+  weightDown: 'ArrowDown',
+  solo: 'Shift+S',
+  mute: 'Shift+M',
+  resetWeight: 'Shift+0',
+  showHelp: '?',
+};
+
+export const KEY_ACTION_LABELS: Record<KeyAction, string> = {
+  playPause: 'Play / Pause',
+  reset: 'Reset',
+  selectPrompt1: 'Select prompt 1',
+  selectPrompt2: 'Select prompt 2',
+  selectPrompt3: 'Select prompt 3',
+  selectPrompt4: 'Select prompt 4',
+  selectPrompt5: 'Select prompt 5',
+  selectPrompt6: 'Select prompt 6',
+  selectPrompt7: 'Select prompt 7',
+  selectPrompt8: 'Select prompt 8',
+  selectPrompt9: 'Select prompt 9',
+  weightUp: 'Raise selected weight',
+  weightDown: 'Lower selected weight',
+  solo: 'Solo selected prompt',
+  mute: 'Mute selected prompt',
+  resetWeight: 'Reset selected weight',
+  showHelp: 'Show shortcuts',
+};
+
+const KEYMAP_STORAGE_KEY = 'keymap';
+
+/** Saved bindings over the defaults, so new actions get their default keys. */
+export function getStoredKeymap(): Keymap {
+  const stored = window.localStorage.getItem(KEYMAP_STORAGE_KEY);
+  if (stored) {
+    try {
+      return {...DEFAULT_KEYMAP, ...(JSON.parse(stored) as Partial<Keymap>)};
+    } catch (e) {
+      console.error('Failed to parse stored keymap', e);
+    }
+  }
+  return {...DEFAULT_KEYMAP};
+}
+
+export function setStoredKeymap(keymap: Keymap) {
+  window.localStorage.setItem(KEYMAP_STORAGE_KEY, JSON.stringify(keymap));
+}
+
+const MODIFIER_KEYS = new Set(['Shift', 'Control', 'Alt', 'Meta']);
+
+/** Describes a key event as a combo, or returns null for a bare modifier. */
+export function getKeyCombo(e: KeyboardEvent): KeyCombo | null {
+  if (MODIFIER_KEYS.has(e.key)) return null;
+  // '?' sits on different keys on different layouts, and always needs Shift.
+  if (e.key === '?') return '?';
+  let key = e.key;
+  if (e.code.startsWith('Key')) key = e.code.slice(3);
+  else if (e.code.startsWith('Digit')) key = e.code.slice(5);
+  else if (e.code === 'Space') key = 'Space';
+  const modifiers = [
+    e.ctrlKey && 'Ctrl',
+    e.altKey && 'Alt',
+    e.metaKey && 'Meta',
+    e.shiftKey && 'Shift',
+  ].filter(Boolean);
+  return [...modifiers, key].join('+');
+}
+
+/** Whether keys typed into `target` are text rather than shortcuts. */
+function isEditable(target: EventTarget | null) {
+  if (!(target instanceof HTMLElement)) return false;
+  return (
+    target.isContentEditable ||
+    target instanceof HTMLTextAreaElement ||
+    target instanceof HTMLSelectElement ||
+    (target instanceof HTMLInputElement &&
+      !['checkbox', 'radio', 'range', 'button'].includes(target.type))
+  );
+}
+
+/** Keys a focused slider moves its value with. */
+const SLIDER_KEYS = new Set([
+  'ArrowUp',
+  'ArrowDown',
+  'ArrowLeft',
+  'ArrowRight',
+  'Home',
+  'End',
+  'PageUp',
+  'PageDown',
+]);
+
+/** Keys that press a focused button or toggle a focused checkbox. */
+const PRESS_KEYS = new Set([' ', 'Enter']);
+
+/**
+ * Whether focused `target` acts on `key` itself, e.g. arrows on a slider or
+ * Space on a button, so a shortcut on the same key would fight it.
+ */
+function handlesKey(target: EventTarget | null, key: string) {
+  if (target instanceof HTMLInputElement) {
+    if (target.type === 'range') return SLIDER_KEYS.has(key);
+    // Arrows move the selection between radios in a group.
+    if (target.type === 'radio') {
+      return SLIDER_KEYS.has(key) || PRESS_KEYS.has(key);
+    }
+    return PRESS_KEYS.has(key);
+  }
+  return (
+    (target instanceof HTMLButtonElement ||
+      target instanceof HTMLAnchorElement) &&
+    PRESS_KEYS.has(key)
+  );
+}
+
+/** The app as seen by the keymap. */
+export interface KeymapHost {
+  trigger(action: KeyAction): void;
+  /** Called when the bindings or the capture state change. */
+  onChange(): void;
+}
+
+/**
+ * Routes key presses to actions. While capturing, the next combo pressed is
+ * bound to the action being captured instead.
+ */
+export class KeymapController {
+  private keymap = getStoredKeymap();
+  private capturingAction: KeyAction | null = null;
+
+  constructor(private readonly host: KeymapHost) {}
+
+  get capturing() {
+    return this.capturingAction;
+  }
+
+  get bindings(): Readonly<Keymap> {
+    return this.keymap;
+  }
+
+  /** Starts listening on `target`; returns a function that stops. */
+  attach(target: Window | Document = window) {
+    const listener = (e: Event) => this.handleKeyDown(e as KeyboardEvent);
+    target.addEventListener('keydown', listener);
+    return () => target.removeEventListener('keydown', listener);
+  }
+
+  capture(action: KeyAction) {
+    this.capturingAction = action;
+    this.host.onChange();
+  }
+
+  cancelCapture() {
+    this.capturingAction = null;
+    this.host.onChange();
+  }
+
+  resetToDefaults() {
+    this.keymap = {...DEFAULT_KEYMAP};
+    setStoredKeymap(this.keymap);
+    this.host.onChange();
+  }
+
+  /** Binds `combo` to `action`, unbinding any action that used it. */
+  bind(action: KeyAction, combo: KeyCombo) {
+    for (const other of Object.keys(this.keymap) as KeyAction[]) {
+      if (this.keymap[other] === combo) this.keymap[other] = '';
+    }
+    this.keymap[action] = combo;
+    setStoredKeymap(this.keymap);
+    this.host.onChange();
+  }
+
+  private handleKeyDown(e: KeyboardEvent) {
+    // Events from inside shadow roots are retargeted; the path has the input.
+    const target = e.composedPath()[0] ?? e.target;
+    if (isEditable(target)) return;
+    const combo = getKeyCombo(e);
+    if (!combo) return;
+    if (this.capturingAction) {
+      e.preventDefault();
+      if (combo === 'Escape') {
+        this.cancelCapture();
+      } else {
+        const action = this.capturingAction;
+        this.capturingAction = null;
+        this.bind(action, combo);
+      }
+      return;
+    }
+    if (handlesKey(target, e.key)) return;
+    if (e.repeat && combo === this.keymap.playPause) return;
+    const action = (Object.keys(this.keymap) as KeyAction[]).find(
+      (a) => this.keymap[a] === combo,
+    );
+    if (!action) return;
+    // Keep Space and the arrows from scrolling the page.
+    e.preventDefault();
+    this.host.trigger(action);
+  }
+}
@@ -0,0 +1,175 @@
+/**
+ * @fileoverview The keyboard shortcut cheat sheet, where shortcuts are also
+ * rebound.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {css, html, LitElement} from 'lit';
+import {customElement, property} from 'lit/decorators.js';
+import {classMap} from 'lit/directives/class-map.js';
+
+import {
+  DEFAULT_KEYMAP,
+  KEY_ACTION_LABELS,
+  type KeyAction,
+  type Keymap,
+} from './keymap';
+
+/** Lists every action with its shortcut, and captures new ones. */
+@customElement('keymap-overlay')
+export class KeymapOverlay extends LitElement {
+  static override styles = css`
+    :host {
+      position: fixed;
+      inset: 0;
+      z-index: 1000;
+      display: none;
+      align-items: center;
+      justify-content: center;
+      background: rgba(0, 0, 0, 0.6);
+      color: #eee;
+      font-family: 'Google Sans', sans-serif;
+      font-size: 13px;
+    }
+    :host([open]) {
+      display: flex;
+    }
+    .sheet {
+      background: #222;
+      border: 1px solid #444;
+      border-radius: 8px;
+      padding: 16px 20px;
+      max-height: 80vh;
+      overflow-y: auto;
+      min-width: 360px;
+    }
+    .toolbar {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      margin-bottom: 8px;
+    }
+    .title {
+      font-weight: bold;
+      margin-right: auto;
+    }
+    table {
+      border-collapse: collapse;
+      width: 100%;
+    }
+    td {
+      padding: 3px 6px;
+    }
+    td.label {
+      color: #ccc;
+    }
+    kbd {
+      background: #333;
+      border: 1px solid #555;
+      border-radius: 4px;
+      padding: 1px 6px;
+      font-family: inherit;
+    }
+    .unbound {
+      color: #777;
+    }
+    button {
+      background: #333;
+      color: #eee;
+      border: 1px solid #666;
+      border-radius: 6px;
+      padding: 4px 10px;
+      font-family: inherit;
+      cursor: pointer;
+    }
+    button.active {
+      border-color: #ff25f6;
+      color: #ff25f6;
+    }
+  `;
+
+  @property({type: Boolean, reflect: true}) open = false;
+  @property({attribute: false}) keymap: Readonly<Keymap> = DEFAULT_KEYMAP;
+  @property({attribute: false}) capturing: KeyAction | null = null;
+
+  override connectedCallback() {
+    super.connectedCallback();
+    window.addEventListener('keydown', this.handleWindowKeyDown);
+  }
+
+  override disconnectedCallback() {
+    super.disconnectedCallback();
+    window.removeEventListener('keydown', this.handleWindowKeyDown);
+  }
+
+  private handleWindowKeyDown = (e: KeyboardEvent) => {
+    // While capturing, Escape cancels the capture instead.
+    if (this.open && !this.capturing && e.key === 'Escape') {
+      this.dispatch('keymap-close');
+    }
+  };
+
+  private dispatch(name: string, detail?: unknown) {
+    this.dispatchEvent(
+      new CustomEvent(name, {detail, bubbles: true, composed: true}),
+    );
+  }
+
+  private handleBackdropClick(e: MouseEvent) {
+    if (e.target === this) this.dispatch('keymap-close');
+  }
+
+  private renderRow(action: KeyAction) {
+    const capturing = this.capturing === action;
+    const combo = this.keymap[action];
+    return html`<tr>
+      <td class="label">${KEY_ACTION_LABELS[action]}</td>
+      <td>
+        ${capturing
+          ? 'Press a key…'
+          : combo
+            ? html`<kbd>${combo}</kbd>`
+            : html`<span class="unbound">Unbound</span>`}
+      </td>
+      <td>
+        <button
+          class=${classMap({active: capturing})}
+          @click=${() =>
+            this.dispatch(
+              capturing ? 'keymap-capture-cancel' : 'keymap-capture',
+              action,
+            )}>
+          ${capturing ? 'Cancel' : 'Rebind'}
+        </button>
+      </td>
+    </tr>`;
+  }
+
+  override render() {
+    return html`<div class="sheet" @click=${(e: Event) => e.stopPropagation()}>
+        <div class="toolbar">
+          <span class="title">Keyboard shortcuts</span>
+          <button @click=${() => this.dispatch('keymap-reset')}>
+            Reset to defaults
+          </button>
+          <button @click=${() => this.dispatch('keymap-close')}>Close</button>
+        </div>
+        <table>
+          ${(Object.keys(KEY_ACTION_LABELS) as KeyAction[]).map((action) =>
+            this.renderRow(action),
+          )}
+        </table>
+      </div>`;
+  }
+
+  override firstUpdated() {
+    this.addEventListener('click', this.handleBackdropClick);
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'keymap-overlay': KeymapOverlay;
+  }
+}
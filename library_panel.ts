@@ -0,0 +1,303 @@
+/**
+ * @fileoverview A searchable prompt library, whose entries are clicked or
+ * dragged into the mix.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {css, html, LitElement} from 'lit';
+import {customElement, property, query, state} from 'lit/decorators.js';
+import {classMap} from 'lit/directives/class-map.js';
+
+import {
+  LIBRARY_CATEGORIES,
+  type LibraryCategory,
+  type LibraryEntry,
+  type PromptLibrary,
+} from './prompt_library';
+
+/** The drag data type carrying a library entry's text. */
+export const LIBRARY_DRAG_TYPE = 'application/x-promptdj-prompt';
+
+export interface LibraryEntryDetail {
+  text: string;
+  category: LibraryCategory;
+}
+
+type LibraryView = 'all' | LibraryCategory | 'favorites' | 'recent';
+
+const VIEWS: readonly LibraryView[] = [
+  'all',
+  ...LIBRARY_CATEGORIES,
+  'favorites',
+  'recent',
+];
+
+/** Browses the library; the host owns it and bumps `revision` on changes. */
+@customElement('prompt-library')
+export class PromptLibraryPanel extends LitElement {
+  static override styles = css`
+    :host {
+      display: flex;
+      flex-direction: column;
+      gap: 8px;
+      color: #eee;
+      font-family: 'Google Sans', sans-serif;
+      font-size: 13px;
+    }
+    .toolbar {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+    }
+    .title {
+      font-weight: bold;
+      margin-right: auto;
+    }
+    .views {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 4px;
+    }
+    .entries {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 6px;
+      max-height: 120px;
+      overflow-y: auto;
+    }
+    .entry {
+      display: flex;
+      align-items: center;
+      gap: 4px;
+      background: #2a2a2a;
+      border: 1px solid #555;
+      border-radius: 12px;
+      padding: 2px 4px 2px 10px;
+      cursor: grab;
+    }
+    .entry:hover {
+      border-color: #999;
+    }
+    .entry .category {
+      color: #888;
+      font-size: 11px;
+    }
+    .icon {
+      background: none;
+      border: none;
+      padding: 0 4px;
+      color: #888;
+      cursor: pointer;
+    }
+    .icon.favorite {
+      color: #ff25f6;
+    }
+    .empty {
+      color: #777;
+    }
+    input[type='search'],
+    input[type='text'],
+    select {
+      background: #111;
+      color: #eee;
+      border: 1px solid #666;
+      border-radius: 6px;
+      padding: 4px 8px;
+      font-family: inherit;
+    }
+    input[type='search'],
+    input[type='text'] {
+      flex: 1;
+    }
+    button {
+      background: #333;
+      color: #eee;
+      border: 1px solid #666;
+      border-radius: 6px;
+      padding: 4px 10px;
+      font-family: inherit;
+      cursor: pointer;
+    }
+    button.active {
+      border-color: #ff25f6;
+      color: #ff25f6;
+    }
+    input[type='file'] {
+      display: none;
+    }
+  `;
+
+  @property({attribute: false}) library!: PromptLibrary;
+  /** Bumped by the host whenever the library changes. */
+  @property({type: Number}) revision = 0;
+
+  @state() private query = '';
+  @state() private view: LibraryView = 'all';
+  @state() private newText = '';
+  @state() private newCategory: LibraryCategory = 'genre';
+
+  @query('input[type="file"]') private fileInput!: HTMLInputElement;
+
+  private dispatch(name: string, detail?: unknown) {
+    this.dispatchEvent(
+      new CustomEvent(name, {detail, bubbles: true, composed: true}),
+    );
+  }
+
+  private getEntries(): LibraryEntry[] {
+    const query = this.query.trim().toLowerCase();
+    switch (this.view) {
+      case 'all':
+        return this.library.search(query);
+      case 'favorites':
+        return this.library
+          .search(query)
+          .filter((entry) => this.library.isFavorite(entry.text));
+      case 'recent':
+        // Recent prompts need not be in the library, e.g. generated terms.
+        return this.library.recentTexts
+          .filter((text) => text.toLowerCase().includes(query))
+          .map(
+            (text) =>
+              this.library.find(text) ?? {text, category: 'genre', builtIn: true},
+          );
+      default:
+        return this.library.search(query, this.view);
+    }
+  }
+
+  private handleAdd() {
+    if (!this.newText.trim()) return;
+    const detail: LibraryEntryDetail = {
+      text: this.newText,
+      category: this.newCategory,
+    };
+    this.dispatch('library-entry-added', detail);
+    this.newText = '';
+  }
+
+  private async handleFileChange() {
+    const file = this.fileInput.files?.[0];
+    if (!file) return;
+    this.dispatch('library-import', await file.text());
+    // Let the same file be picked again.
+    this.fileInput.value = '';
+  }
+
+  private handleDragStart(e: DragEvent, text: string) {
+    e.dataTransfer?.setData(LIBRARY_DRAG_TYPE, text);
+    e.dataTransfer?.setData('text/plain', text);
+    if (e.dataTransfer) e.dataTransfer.effectAllowed = 'copy';
+  }
+
+  private renderEntry(entry: LibraryEntry) {
+    const favorite = this.library.isFavorite(entry.text);
+    const inLibrary = this.view !== 'recent' || this.library.find(entry.text);
+    return html`<div
+      class="entry"
+      title="Click or drag to add to the mix"
+      draggable="true"
+      @dragstart=${(e: DragEvent) => this.handleDragStart(e, entry.text)}
+      @click=${() => this.dispatch('library-add-to-mix', entry.text)}>
+      <span>${entry.text}</span>
+      ${this.view === 'all' || this.view === 'favorites'
+        ? html`<span class="category">${entry.category}</span>`
+        : ''}
+      ${inLibrary
+        ? html`<button
+            class=${classMap({icon: true, favorite})}
+            title=${favorite ? 'Unfavorite' : 'Favorite'}
+            @click=${(e: Event) => {
+              e.stopPropagation();
+              this.dispatch('library-favorite-toggled', entry.text);
+            }}>
+            ${favorite ? '★' : '☆'}
+          </button>`
+        : ''}
+      ${entry.builtIn
+        ? ''
+        : html`<button
+            class="icon"
+            title="Remove from library"
+            @click=${(e: Event) => {
+              e.stopPropagation();
+              this.dispatch('library-entry-removed', entry.text);
+            }}>
+            ✕
+          </button>`}
+    </div>`;
+  }
+
+  override render() {
+    const entries = this.getEntries();
+    return html`
+      <div class="toolbar">
+        <span class="title">Library</span>
+        <button @click=${() => this.dispatch('library-export')}>
+          Export JSON
+        </button>
+        <button @click=${() => this.fileInput.click()}>Import JSON</button>
+        <input
+          type="file"
+          accept="application/json,.json"
+          @change=${this.handleFileChange} />
+      </div>
+      <input
+        type="search"
+        placeholder="Search prompts"
+        .value=${this.query}
+        @input=${(e: Event) =>
+          (this.query = (e.target as HTMLInputElement).value)} />
+      <div class="views">
+        ${VIEWS.map(
+          (view) =>
+            html`<button
+              class=${classMap({active: this.view === view})}
+              @click=${() => (this.view = view)}>
+              ${view}
+            </button>`,
+        )}
+      </div>
+      <div class="entries">
+        ${entries.length > 0
+          ? entries.map((entry) => this.renderEntry(entry))
+          : html`<span class="empty">No prompts found.</span>`}
+      </div>
+      <div class="toolbar">
+        <input
+          type="text"
+          placeholder="Add a prompt to the library"
+          .value=${this.newText}
+          @input=${(e: Event) =>
+            (this.newText = (e.target as HTMLInputElement).value)}
+          @keydown=${(e: KeyboardEvent) => {
+            if (e.key === 'Enter') this.handleAdd();
+          }} />
+        <select
+          .value=${this.newCategory}
+          @change=${(e: Event) =>
+            (this.newCategory = (e.target as HTMLSelectElement)
+              .value as LibraryCategory)}>
+          ${LIBRARY_CATEGORIES.map(
+            (category) =>
+              html`<option
+                value=${category}
+                ?selected=${category === this.newCategory}>
+                ${category}
+              </option>`,
+          )}
+        </select>
+        <button ?disabled=${!this.newText.trim()} @click=${this.handleAdd}>
+          Add
+        </button>
+      </div>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'prompt-library': PromptLibraryPanel;
+  }
+}
@@ -0,0 +1,506 @@
+/**
+ * @fileoverview An offline music session backend that synthesizes PCM locally.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type {
+  LiveMusicGenerationConfig,
+  LiveMusicSetConfigParameters,
+  LiveMusicSetWeightedPromptsParameters,
+  WeightedPrompt,
+} from '@google/genai';
+import type {
+  MusicSession,
+  MusicSessionCallbacks,
+  MusicSessionProvider,
+} from './music_session';
+import {encode} from './utils';
+
+const SAMPLE_RATE = 48000;
+const NUM_CHANNELS = 2;
+
+type Layer = 'drums' | 'bass' | 'pad' | 'lead';
+type LayerMix = Record<Layer, number>;
+
+const LAYERS: Layer[] = ['drums', 'bass', 'pad', 'lead'];
+
+/** Keywords that steer a prompt towards one or more layers of the synth. */
+const LAYER_HINTS: Array<[RegExp, Partial<LayerMix>]> = [
+  [
+    /drum|kick|beat|techno|house|break|punk|thrash|hop|staccato|rhythm|percuss|dubstep/i,
+    {drums: 1},
+  ],
+  [/bass|dub|funk|groove|disco/i, {bass: 1}],
+  [
+    /string|pad|ambient|shoegaze|lush|chord|soul|jazz|bossa|calm|mellow|orchestra/i,
+    {pad: 1},
+  ],
+  [
+    /arp|chiptune|sparkl|synth|lead|melod|pop|guitar|piano|bell|pluck/i,
+    {lead: 1},
+  ],
+];
+
+/** Typical tempos for styles, used when the config does not set a bpm. */
+const TEMPO_HINTS: Array<[RegExp, number]> = [
+  [/drum and bass|dnb|jungle/i, 172],
+  [/thrash|punk/i, 160],
+  [/dubstep/i, 140],
+  [/techno|house|k pop/i, 124],
+  [/funk|disco/i, 112],
+  [/bossa|soul|trip hop|hip hop|ambient/i, 90],
+];
+
+/** Semitone offset from C of the major key named by each `Scale` value. */
+const SCALE_ROOTS: Record<string, number> = {
+  'C_MAJOR_A_MINOR': 0,
+  'D_FLAT_MAJOR_B_FLAT_MINOR': 1,
+  'D_MAJOR_B_MINOR': 2,
+  'E_FLAT_MAJOR_C_MINOR': 3,
+  'E_MAJOR_D_FLAT_MINOR': 4,
+  'F_MAJOR_D_MINOR': 5,
+  'G_FLAT_MAJOR_E_FLAT_MINOR': 6,
+  'G_MAJOR_E_MINOR': 7,
+  'A_FLAT_MAJOR_F_MINOR': 8,
+  'A_MAJOR_G_FLAT_MINOR': 9,
+  'B_FLAT_MAJOR_G_MINOR': 10,
+  'B_MAJOR_A_FLAT_MINOR': 11,
+};
+
+const MAJOR_SCALE = [0, 2, 4, 5, 7, 9, 11];
+const MINOR_SCALE = [0, 2, 3, 5, 7, 8, 10];
+// Scale degrees of the chord roots, one chord per bar: I-V-vi-IV / i-VI-III-VII.
+const MAJOR_PROGRESSION = [0, 4, 5, 3];
+const MINOR_PROGRESSION = [0, 5, 2, 6];
+
+/** The prompts whose text matches this pattern are reported as filtered. */
+const DEFAULT_FILTER_PATTERN = /\bin the style of\b/i;
+
+/** 32-bit FNV-1a hash of a string. */
+function hashString(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/** Returns a deterministic pseudo random number in [0, 1) for `n`. */
+function random01(seed: number, n: number): number {
+  let x = (seed ^ Math.imul(n, 0x9e3779b1)) >>> 0;
+  x ^= x >>> 16;
+  x = Math.imul(x, 0x85ebca6b);
+  x ^= x >>> 13;
+  x = Math.imul(x, 0xc2b2ae35);
+  x ^= x >>> 16;
+  return (x >>> 0) / 4294967296;
+}
+
+function midiToFrequency(note: number): number {
+  return 440 * Math.pow(2, (note - 69) / 12);
+}
+
+/**
+ * A band limited sawtooth made of the first `harmonics` partials, using the
+ * Chebyshev recurrence so that only two trig calls are needed per sample.
+ */
+function saw(phase: number, harmonics: number): number {
+  const sin1 = Math.sin(phase);
+  const twoCos = 2 * Math.cos(phase);
+  let prev = 0;
+  let current = sin1;
+  let sum = sin1;
+  for (let k = 2; k <= harmonics; k++) {
+    const next = twoCos * current - prev;
+    prev = current;
+    current = next;
+    sum += current / k;
+  }
+  return sum * 0.6;
+}
+
+/** How strongly a prompt's text pulls on each layer, summing to 1. */
+function layerProfile(text: string): LayerMix {
+  const mix: LayerMix = {drums: 0, bass: 0, pad: 0, lead: 0};
+  for (const [pattern, hint] of LAYER_HINTS) {
+    if (!pattern.test(text)) continue;
+    for (const layer of LAYERS) mix[layer] += hint[layer] ?? 0;
+  }
+  let total = LAYERS.reduce((sum, layer) => sum + mix[layer], 0);
+  if (total === 0) {
+    // Unknown styles still get a stable character of their own.
+    const h = hashString(text.toLowerCase());
+    mix[LAYERS[h % 4]] += 1;
+    mix[LAYERS[(h >>> 2) % 4]] += 0.5;
+    total = 1.5;
+  }
+  for (const layer of LAYERS) mix[layer] /= total;
+  return mix;
+}
+
+/** Everything the renderer needs, resolved from prompts and config. */
+interface SynthParams {
+  bpm: number;
+  density: number;
+  brightness: number;
+  temperature: number;
+  seed: number;
+  root: number;
+  minor: boolean;
+  gains: LayerMix;
+}
+
+function resolveParams(
+  prompts: WeightedPrompt[],
+  config: LiveMusicGenerationConfig,
+  fallbackSeed: number,
+): SynthParams {
+  // Higher guidance follows the dominant prompts more closely.
+  const exponent = 0.25 + (config.guidance ?? 4) / 4;
+  const mix: LayerMix = {drums: 0, bass: 0, pad: 0, lead: 0};
+  let total = 0;
+  let dominant: WeightedPrompt | undefined;
+  for (const prompt of prompts) {
+    const weight = Math.pow(prompt.weight ?? 0, exponent);
+    const profile = layerProfile(prompt.text ?? '');
+    for (const layer of LAYERS) mix[layer] += profile[layer] * weight;
+    total += weight;
+    if (!dominant || (prompt.weight ?? 0) > (dominant.weight ?? 0)) {
+      dominant = prompt;
+    }
+  }
+
+  const dominantText = dominant?.text ?? '';
+  const dominantHash = hashString(dominantText.toLowerCase());
+  const tempoHint = TEMPO_HINTS.find(([pattern]) =>
+    pattern.test(dominantText),
+  )?.[1];
+
+  const gains: LayerMix = {drums: 0, bass: 0, pad: 0, lead: 0};
+  for (const layer of LAYERS) {
+    // Keep a quiet bed under every mix so thin prompts still sound musical.
+    gains[layer] = 0.1 + 0.9 * (total > 0 ? mix[layer] / total : 0);
+  }
+  if (config.muteDrums) gains.drums = 0;
+  if (config.muteBass) gains.bass = 0;
+  if (config.onlyBassAndDrums) {
+    gains.pad = 0;
+    gains.lead = 0;
+  }
+
+  const scaleRoot =
+    config.scale !== undefined ? SCALE_ROOTS[config.scale] : undefined;
+
+  return {
+    bpm: Math.min(200, Math.max(60, config.bpm ?? tempoHint ?? 100)),
+    density: config.density ?? 0.3 + 0.5 * mix.drums / Math.max(total, 1e-6),
+    brightness: config.brightness ?? 0.5,
+    temperature: config.temperature ?? 1.1,
+    seed: config.seed ?? fallbackSeed,
+    root: scaleRoot ?? dominantHash % 12,
+    minor: ((dominantHash >>> 4) & 1) === 1,
+    gains,
+  };
+}
+
+/** Options for the local synth backend. */
+export interface LocalSynthOptions {
+  /** Length of each audio chunk, in seconds. Lyria sends about 2 seconds. */
+  chunkSeconds?: number;
+  /** Prompts matching this pattern are reported back as filtered. */
+  filterPattern?: RegExp;
+}
+
+/**
+ * A music session that renders 48 kHz stereo PCM from the weighted prompts
+ * and generation config, paced in real time like the Lyria stream.
+ */
+class LocalSynthSession implements MusicSession {
+  private prompts: WeightedPrompt[] = [];
+  private config: LiveMusicGenerationConfig = {};
+  private readonly fallbackSeed = Math.floor(Math.random() * 0x7fffffff);
+  private playing = false;
+  private closed = false;
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  private nextChunkAt = 0;
+
+  // Renderer state, carried across chunks so that the audio is continuous.
+  private beat = 0;
+  private noise = 0x2545f491;
+  private lastNoise = 0;
+  private readonly smoothedGains: LayerMix = {
+    drums: 0,
+    bass: 0,
+    pad: 0,
+    lead: 0,
+  };
+  private readonly lowpass = [0, 0];
+
+  constructor(
+    private readonly callbacks: MusicSessionCallbacks,
+    private readonly chunkSeconds: number,
+    private readonly filterPattern: RegExp,
+  ) {}
+
+  async setWeightedPrompts(params: LiveMusicSetWeightedPromptsParameters) {
+    if (!params.weightedPrompts || params.weightedPrompts.length === 0) {
+      throw new Error(
+        'Weighted prompts must be set and contain at least one entry.',
+      );
+    }
+    this.prompts = params.weightedPrompts.filter((prompt) => {
+      if (!this.filterPattern.test(prompt.text ?? '')) return true;
+      this.emit({
+        filteredPrompt: {
+          text: prompt.text,
+          filteredReason: `"${prompt.text}" was filtered by the local synth.`,
+        },
+      });
+      return false;
+    });
+  }
+
+  async setMusicGenerationConfig(params: LiveMusicSetConfigParameters) {
+    this.config = {...(params.musicGenerationConfig ?? {})};
+  }
+
+  play() {
+    if (this.playing || this.closed) return;
+    this.playing = true;
+    this.nextChunkAt = Date.now();
+    this.pump();
+  }
+
+  pause() {
+    this.playing = false;
+    clearTimeout(this.timer);
+  }
+
+  stop() {
+    this.pause();
+    this.resetContext();
+  }
+
+  resetContext() {
+    this.beat = 0;
+  }
+
+  close() {
+    if (this.closed) return;
+    this.pause();
+    this.closed = true;
+    setTimeout(() => this.callbacks.onclose?.({code: 1000, reason: ''}), 0);
+  }
+
+  private emit(message: Parameters<MusicSessionCallbacks['onmessage']>[0]) {
+    // Deliver asynchronously, as a socket would.
+    setTimeout(() => {
+      if (!this.closed) this.callbacks.onmessage(message);
+    }, 0);
+  }
+
+  private pump() {
+    if (!this.playing) return;
+    if (this.prompts.length === 0) {
+      // Like the real model, wait for prompts before generating.
+      this.nextChunkAt = Date.now() + 100;
+    } else {
+      this.emitChunk();
+      this.nextChunkAt += this.chunkSeconds * 1000;
+    }
+    this.timer = setTimeout(
+      () => this.pump(),
+      Math.max(0, this.nextChunkAt - Date.now()),
+    );
+  }
+
+  private emitChunk() {
+    const pcm = this.render(Math.round(this.chunkSeconds * SAMPLE_RATE));
+    this.emit({
+      serverContent: {
+        audioChunks: [
+          {
+            data: encode(new Uint8Array(pcm.buffer)),
+            mimeType: `audio/l16;rate=${SAMPLE_RATE};channels=${NUM_CHANNELS}`,
+            sourceMetadata: {
+              clientContent: {weightedPrompts: [...this.prompts]},
+              musicGenerationConfig: {...this.config},
+            },
+          },
+        ],
+      },
+    });
+  }
+
+  private nextNoise(): number {
+    // xorshift32
+    let x = this.noise;
+    x ^= x << 13;
+    x ^= x >>> 17;
+    x ^= x << 5;
+    this.noise = x >>> 0;
+    return this.noise / 2147483648 - 1;
+  }
+
+  /** Renders `frames` frames of interleaved 16-bit stereo PCM. */
+  private render(frames: number): Int16Array {
+    const p = resolveParams(this.prompts, this.config, this.fallbackSeed);
+    const out = new Int16Array(frames * NUM_CHANNELS);
+
+    const beatsPerSample = p.bpm / 60 / SAMPLE_RATE;
+    const secondsPerBeat = 60 / p.bpm;
+    const scale = p.minor ? MINOR_SCALE : MAJOR_SCALE;
+    const progression = p.minor ? MINOR_PROGRESSION : MAJOR_PROGRESSION;
+    const root = p.root + (p.minor ? 9 : 0);
+    const harmonics = 1 + Math.round(p.brightness * 7);
+    const cutoff = 300 + p.brightness * p.brightness * 8000;
+    const lowpassCoefficient = 1 - Math.exp((-2 * Math.PI * cutoff) / SAMPLE_RATE);
+    const bassSteps = p.density > 0.5 ? 2 : 1;
+    const leadSteps = 2 + Math.floor(p.density * 2.99);
+    const hatSteps = p.density > 0.6 ? 4 : p.density > 0.15 ? 2 : 0;
+    const kickEvery = p.density < 0.3 ? 2 : 1;
+    const noteFromDegree = (degree: number) =>
+      scale[((degree % 7) + 7) % 7] + 12 * Math.floor(degree / 7);
+
+    // Pitches only change per bar or per step, so cache them between samples.
+    let cachedBar = -1;
+    let bassFrequency = 0;
+    const padFrequencies = [0, 0, 0];
+    let cachedLeadStep = -1;
+    let leadFrequency = 0;
+    let leadGate = false;
+
+    for (let i = 0; i < frames; i++) {
+      for (const layer of LAYERS) {
+        this.smoothedGains[layer] +=
+          (p.gains[layer] - this.smoothedGains[layer]) * 0.0005;
+      }
+      const g = this.smoothedGains;
+      const beat = this.beat;
+      const beatInBar = beat % 4;
+      const bar = Math.floor(beat / 4);
+      const chordDegree = progression[bar % progression.length];
+      if (bar !== cachedBar) {
+        cachedBar = bar;
+        bassFrequency = midiToFrequency(36 + root + noteFromDegree(chordDegree));
+        for (let tone = 0; tone < 3; tone++) {
+          padFrequencies[tone] = midiToFrequency(
+            60 + root + noteFromDegree(chordDegree + tone * 2),
+          );
+        }
+      }
+
+      // Drums.
+      const noise = this.nextNoise();
+      const kickT = (beat % kickEvery) * secondsPerBeat;
+      const kick =
+        Math.sin(2 * Math.PI * (45 * kickT + 2.5 * (1 - Math.exp(-30 * kickT)))) *
+        Math.exp(-kickT * 12);
+      const snareBeat = Math.floor(beatInBar);
+      const snareT = (beatInBar % 1) * secondsPerBeat;
+      const snare =
+        snareBeat === 1 || snareBeat === 3
+          ? (noise * 0.6 + Math.sin(2 * Math.PI * 190 * snareT) * 0.4) *
+            Math.exp(-snareT * 22)
+          : 0;
+      let hat = 0;
+      if (hatSteps > 0) {
+        const hatPosition = beat * hatSteps;
+        const hatT = ((hatPosition % 1) * secondsPerBeat) / hatSteps;
+        const accent = Math.floor(hatPosition) % 2 === 0 ? 1 : 0.6;
+        hat = (noise - this.lastNoise) * 0.5 * accent * Math.exp(-hatT * 70);
+      }
+      this.lastNoise = noise;
+      const drums = 0.9 * kick + 0.5 * snare + 0.25 * hat;
+
+      // Bass: the chord root, re-struck on every step.
+      const bassPosition = beat * bassSteps;
+      const bassStepSeconds = secondsPerBeat / bassSteps;
+      const bassT = (bassPosition % 1) * bassStepSeconds;
+      const bass =
+        saw(2 * Math.PI * bassFrequency * bassT, Math.max(2, harmonics - 2)) *
+        Math.min(1, bassT / 0.005) *
+        Math.min(1, (bassStepSeconds - bassT) / 0.01) *
+        (0.6 + 0.4 * Math.exp(-bassT * 3));
+
+      // Pad: a sustained triad per bar, slightly detuned between channels.
+      const barSeconds = 4 * secondsPerBeat;
+      const padT = beatInBar * secondsPerBeat;
+      const padEnvelope =
+        Math.max(0, Math.min(1, padT / 0.25)) *
+        Math.max(0, Math.min(1, (barSeconds - padT) / 0.15));
+      let padLeft = 0;
+      let padRight = 0;
+      if (padEnvelope > 0) {
+        const padHarmonics = Math.max(1, harmonics - 3);
+        for (const f of padFrequencies) {
+          padLeft += saw(2 * Math.PI * f * 0.998 * padT, padHarmonics);
+          padRight += saw(2 * Math.PI * f * 1.002 * padT, padHarmonics);
+        }
+        padLeft *= padEnvelope / 3;
+        padRight *= padEnvelope / 3;
+      }
+
+      // Lead: an arpeggio over the chord, with temperature adding wrong turns.
+      const leadPosition = beat * leadSteps;
+      const leadStep = Math.floor(leadPosition);
+      const patternStep = leadStep % (leadSteps * 16);
+      const leadStepSeconds = secondsPerBeat / leadSteps;
+      const leadT = (leadPosition % 1) * leadStepSeconds;
+      if (leadStep !== cachedLeadStep) {
+        cachedLeadStep = leadStep;
+        leadGate = random01(p.seed, patternStep) < 0.35 + 0.65 * p.density;
+        const wander = random01(p.seed + 1, patternStep) < p.temperature / 4;
+        const degree = wander
+          ? Math.floor(random01(p.seed + 2, patternStep) * 7)
+          : chordDegree + (patternStep % 3) * 2;
+        leadFrequency = midiToFrequency(72 + root + noteFromDegree(degree));
+      }
+      let lead = 0;
+      let leadPan = 0;
+      if (leadGate) {
+        lead =
+          saw(2 * Math.PI * leadFrequency * leadT, harmonics) *
+          Math.min(1, leadT / 0.004) *
+          Math.min(1, (leadStepSeconds - leadT) / 0.005) *
+          Math.exp(-leadT * 9);
+        leadPan = leadStep % 2 === 0 ? -0.3 : 0.3;
+      }
+
+      const tonalLeft =
+        bass * g.bass * 0.7 + padLeft * g.pad * 0.35 + lead * g.lead * 0.35 * (1 - leadPan);
+      const tonalRight =
+        bass * g.bass * 0.7 + padRight * g.pad * 0.35 + lead * g.lead * 0.35 * (1 + leadPan);
+      this.lowpass[0] += (tonalLeft - this.lowpass[0]) * lowpassCoefficient;
+      this.lowpass[1] += (tonalRight - this.lowpass[1]) * lowpassCoefficient;
+
+      const left = Math.tanh(this.lowpass[0] + drums * g.drums * 0.8);
+      const right = Math.tanh(this.lowpass[1] + drums * g.drums * 0.8);
+      out[i * 2] = Math.round(left * 32767);
+      out[i * 2 + 1] = Math.round(right * 32767);
+
+      this.beat += beatsPerSample;
+    }
+    return out;
+  }
+}
+
+/** Opens sessions on the local synth; no network or API key is needed. */
+export class LocalSynthSessionProvider implements MusicSessionProvider {
+  readonly name = 'local';
+
+  constructor(private readonly options: LocalSynthOptions = {}) {}
+
+  async connect(callbacks: MusicSessionCallbacks): Promise<MusicSession> {
+    const session = new LocalSynthSession(
+      callbacks,
+      this.options.chunkSeconds ?? 2,
+      this.options.filterPattern ?? DEFAULT_FILTER_PATTERN,
+    );
+    // The real service acknowledges setup once the socket is open.
+    setTimeout(() => callbacks.onmessage({setupComplete: {}}), 0);
+    return session;
+  }
+}
@@ -0,0 +1,282 @@
+/**
+ * @fileoverview Web MIDI input with MIDI-learn and soft takeover.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {getLaneRange} from './automation';
+
+/**
+ * What a control drives. Continuous and toggle targets use the automation
+ * lane keys (`weight:<promptId>`, `config:<key>`, `fx:<param>`); actions are
+ * `action:<name>`.
+ */
+export type MidiTarget = string;
+
+export type MidiAction = 'playPause' | 'reset';
+
+export function actionTarget(action: MidiAction): MidiTarget {
+  return `action:${action}`;
+}
+
+/** The bindable targets besides the prompt weights. */
+export const MIDI_CONTROL_TARGETS: ReadonlyArray<{target: MidiTarget; label: string}> = [
+  {target: 'config:temperature', label: 'Temperature'},
+  {target: 'config:guidance', label: 'Guidance'},
+  {target: 'config:topK', label: 'Top K'},
+  {target: 'config:density', label: 'Density'},
+  {target: 'config:brightness', label: 'Brightness'},
+  {target: 'config:muteBass', label: 'Mute Bass'},
+  {target: 'config:muteDrums', label: 'Mute Drums'},
+  {target: 'config:onlyBassAndDrums', label: 'Only Bass & Drums'},
+  {target: actionTarget('playPause'), label: 'Play / Pause'},
+  {target: actionTarget('reset'), label: 'Reset'},
+];
+
+export function describeBinding(binding: MidiBinding) {
+  const kind = binding.type === 'cc' ? 'CC' : 'Note';
+  return `${kind} ${binding.number} ch${binding.channel + 1}`;
+}
+
+export interface MidiBinding {
+  type: 'cc' | 'note';
+  channel: number;
+  number: number;
+  target: MidiTarget;
+}
+
+/** Bindings per device name. */
+export type MidiMappings = Record<string, MidiBinding[]>;
+
+/** The app as seen by the MIDI controller. */
+export interface MidiHost {
+  getValue(target: MidiTarget): number | boolean | undefined;
+  setValue(target: MidiTarget, value: number | boolean): void;
+  trigger(action: MidiAction): void;
+  /** Called when devices, bindings or the learn state change. */
+  onChange(): void;
+}
+
+const MIDI_STORAGE_KEY = 'midiMappings';
+
+/** How close, as a fraction of the range, a control must come to pick up. */
+const TAKEOVER_TOLERANCE = 0.04;
+
+export function getStoredMidiMappings(): MidiMappings {
+  const stored = window.localStorage.getItem(MIDI_STORAGE_KEY);
+  if (stored) {
+    try {
+      return JSON.parse(stored) as MidiMappings;
+    } catch (e) {
+      console.error('Failed to parse stored MIDI mappings', e);
+    }
+  }
+  return {};
+}
+
+export function setStoredMidiMappings(mappings: MidiMappings) {
+  window.localStorage.setItem(MIDI_STORAGE_KEY, JSON.stringify(mappings));
+}
+
+function deviceName(input: MIDIInput) {
+  return [input.manufacturer, input.name].filter(Boolean).join(' ') || input.id;
+}
+
+function bindingKey(device: string, type: string, channel: number, number: number) {
+  return `${device}|${type}|${channel}|${number}`;
+}
+
+/** Soft takeover state for a continuous binding. */
+interface TakeoverState {
+  pickedUp: boolean;
+  /** The last value this binding sent, to notice changes made elsewhere. */
+  lastSent?: number;
+  /** The previous value of the physical control. */
+  lastControl?: number;
+}
+
+/**
+ * Listens to every MIDI input, routes bound controls to the host and, in learn
+ * mode, binds the next control that moves.
+ */
+export class MidiController {
+  private access: MIDIAccess | null = null;
+  private mappings: MidiMappings = getStoredMidiMappings();
+  private learnTarget: MidiTarget | null = null;
+  private readonly takeover = new Map<string, TakeoverState>();
+
+  constructor(private readonly host: MidiHost) {}
+
+  static get isSupported() {
+    return typeof navigator !== 'undefined' && 'requestMIDIAccess' in navigator;
+  }
+
+  get enabled() {
+    return this.access !== null;
+  }
+
+  get devices(): string[] {
+    if (!this.access) return [];
+    return [...this.access.inputs.values()].map(deviceName);
+  }
+
+  get learning(): MidiTarget | null {
+    return this.learnTarget;
+  }
+
+  async enable() {
+    if (this.access) return;
+    if (!MidiController.isSupported) {
+      throw new Error('Web MIDI is not supported in this browser.');
+    }
+    this.access = await navigator.requestMIDIAccess();
+    this.access.addEventListener('statechange', () => {
+      this.attachInputs();
+      this.host.onChange();
+    });
+    this.attachInputs();
+    this.host.onChange();
+  }
+
+  learn(target: MidiTarget) {
+    this.learnTarget = target;
+    this.host.onChange();
+  }
+
+  cancelLearn() {
+    this.learnTarget = null;
+    this.host.onChange();
+  }
+
+  /** The bindings for a target on the connected devices. */
+  getBindings(target: MidiTarget): Array<{device: string; binding: MidiBinding}> {
+    const connected = new Set(this.devices);
+    return Object.entries(this.mappings).flatMap(([device, bindings]) =>
+      connected.has(device)
+        ? bindings
+            .filter((binding) => binding.target === target)
+            .map((binding) => ({device, binding}))
+        : [],
+    );
+  }
+
+  /** Removes the target's bindings on the connected devices. */
+  clearBindings(target: MidiTarget) {
+    for (const device of this.devices) {
+      const bindings = this.mappings[device];
+      if (!bindings) continue;
+      this.mappings[device] = bindings.filter((b) => b.target !== target);
+    }
+    setStoredMidiMappings(this.mappings);
+    this.host.onChange();
+  }
+
+  private attachInputs() {
+    for (const input of this.access?.inputs.values() ?? []) {
+      input.onmidimessage = (e) => {
+        if (e.data) this.handleMessage(deviceName(input), e.data);
+      };
+    }
+  }
+
+  private handleMessage(device: string, data: Uint8Array) {
+    const status = data[0] & 0xf0;
+    const channel = data[0] & 0x0f;
+    let type: MidiBinding['type'];
+    let value: number;
+    if (status === 0xb0) {
+      type = 'cc';
+      value = data[2];
+    } else if (status === 0x90 && data[2] > 0) {
+      type = 'note';
+      value = data[2];
+    } else {
+      // Note offs and everything else are ignored.
+      return;
+    }
+    const number = data[1];
+
+    if (this.learnTarget) {
+      this.bind(device, {type, channel, number, target: this.learnTarget});
+      return;
+    }
+
+    const binding = this.mappings[device]?.find(
+      (b) => b.type === type && b.channel === channel && b.number === number,
+    );
+    if (binding) {
+      this.apply(bindingKey(device, type, channel, number), binding, value);
+    }
+  }
+
+  private bind(device: string, binding: MidiBinding) {
+    const isAction = binding.target.startsWith('action:');
+    const isContinuous = getLaneRange(binding.target) !== undefined;
+    // Notes only make sense as buttons.
+    if (binding.type === 'note' && !isAction) return;
+    if (binding.type === 'cc' && isContinuous) {
+      // A rebound knob has to catch its new target's value first.
+      this.takeover.delete(
+        bindingKey(device, binding.type, binding.channel, binding.number),
+      );
+    }
+    const bindings = (this.mappings[device] ?? []).filter(
+      (b) =>
+        b.target !== binding.target &&
+        !(b.type === binding.type && b.channel === binding.channel && b.number === binding.number),
+    );
+    this.mappings[device] = [...bindings, binding];
+    setStoredMidiMappings(this.mappings);
+    this.learnTarget = null;
+    this.host.onChange();
+  }
+
+  private apply(key: string, binding: MidiBinding, raw: number) {
+    const {target} = binding;
+    if (target.startsWith('action:')) {
+      // Buttons fire on press; CC buttons send 127 then 0.
+      if (binding.type === 'note' || raw >= 64) {
+        this.host.trigger(target.slice('action:'.length) as MidiAction);
+      }
+      return;
+    }
+
+    const range = getLaneRange(target);
+    if (!range) {
+      this.host.setValue(target, raw >= 64);
+      return;
+    }
+
+    let value = range[0] + (raw / 127) * (range[1] - range[0]);
+    if (target === 'config:topK') value = Math.round(value);
+    const state = this.takeover.get(key) ?? {pickedUp: false};
+    this.takeover.set(key, state);
+    const current = this.host.getValue(target);
+
+    if (
+      state.pickedUp &&
+      typeof current === 'number' &&
+      state.lastSent !== undefined &&
+      Math.abs(current - state.lastSent) > 1e-6
+    ) {
+      // Something else moved the value, so the control must catch it again.
+      state.pickedUp = false;
+    }
+    if (!state.pickedUp) {
+      const tolerance = TAKEOVER_TOLERANCE * (range[1] - range[0]);
+      const crossed =
+        typeof current === 'number' &&
+        state.lastControl !== undefined &&
+        (state.lastControl - current) * (value - current) <= 0;
+      state.pickedUp =
+        typeof current !== 'number' ||
+        Math.abs(value - current) <= tolerance ||
+        crossed;
+      state.lastControl = value;
+      if (!state.pickedUp) return;
+    }
+    state.lastControl = value;
+    state.lastSent = value;
+    this.host.setValue(target, value);
+  }
+}
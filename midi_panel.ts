@@ -0,0 +1,156 @@
+/**
+ * @fileoverview Lists MIDI targets and their bindings, with MIDI-learn.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {css, html, LitElement} from 'lit';
+import {customElement, property} from 'lit/decorators.js';
+import {classMap} from 'lit/directives/class-map.js';
+
+import type {MidiTarget} from './midi';
+
+/** A bindable target as shown in the panel. */
+export interface MidiTargetRow {
+  target: MidiTarget;
+  label: string;
+  /** The target's bindings, already described, e.g. "CC 21 ch1". */
+  bindings: string[];
+}
+
+/** Enables Web MIDI and binds controls to targets by learning them. */
+@customElement('midi-panel')
+export class MidiPanel extends LitElement {
+  static override styles = css`
+    :host {
+      display: block;
+      color: #eee;
+      font-family: 'Google Sans', sans-serif;
+      font-size: 13px;
+    }
+    .toolbar {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+    }
+    .title {
+      font-weight: bold;
+      margin-right: auto;
+    }
+    .devices {
+      color: #aaa;
+    }
+    button {
+      background: #333;
+      color: #eee;
+      border: 1px solid #666;
+      border-radius: 6px;
+      padding: 4px 10px;
+      font-family: inherit;
+      cursor: pointer;
+    }
+    button.active {
+      border-color: #ff25f6;
+      color: #ff25f6;
+    }
+    button:disabled {
+      opacity: 0.4;
+      cursor: not-allowed;
+    }
+    .targets {
+      display: grid;
+      grid-template-columns: repeat(auto-fill, minmax(240px, 1fr));
+      gap: 4px 12px;
+      margin-top: 8px;
+      max-height: 24vmin;
+      overflow-y: auto;
+    }
+    .target {
+      display: flex;
+      align-items: center;
+      gap: 6px;
+    }
+    .label {
+      flex: 1;
+      white-space: nowrap;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      color: #ccc;
+    }
+    .binding {
+      color: #aaa;
+      font-size: 11px;
+    }
+    .target button {
+      padding: 2px 8px;
+    }
+  `;
+
+  @property({type: Boolean}) supported = false;
+  @property({type: Boolean}) enabled = false;
+  @property({attribute: false}) devices: string[] = [];
+  @property({attribute: false}) targets: MidiTargetRow[] = [];
+  /** The target waiting for a control to move, if any. */
+  @property({type: String}) learning: MidiTarget | null = null;
+
+  private dispatch(name: string, detail?: unknown) {
+    this.dispatchEvent(
+      new CustomEvent(name, {detail, bubbles: true, composed: true}),
+    );
+  }
+
+  private renderTarget(row: MidiTargetRow) {
+    const learning = this.learning === row.target;
+    return html`<div class="target">
+      <span class="label" title=${row.label}>${row.label}</span>
+      <span class="binding">
+        ${learning ? 'Move a control…' : row.bindings.join(', ')}
+      </span>
+      <button
+        class=${classMap({active: learning})}
+        @click=${() =>
+          learning
+            ? this.dispatch('midi-learn-cancel')
+            : this.dispatch('midi-learn', row.target)}>
+        ${learning ? 'Cancel' : 'Learn'}
+      </button>
+      <button
+        title="Clear binding"
+        ?disabled=${row.bindings.length === 0}
+        @click=${() => this.dispatch('midi-clear', row.target)}>
+        ×
+      </button>
+    </div>`;
+  }
+
+  override render() {
+    return html`
+      <div class="toolbar">
+        <span class="title">MIDI</span>
+        ${this.enabled
+          ? html`<span class="devices">
+              ${this.devices.length > 0
+                ? this.devices.join(', ')
+                : 'No devices connected'}
+            </span>`
+          : html`<button
+              ?disabled=${!this.supported}
+              title=${this.supported ? '' : 'Web MIDI is not available'}
+              @click=${() => this.dispatch('midi-enable')}>
+              Enable MIDI
+            </button>`}
+      </div>
+      ${this.enabled
+        ? html`<div class="targets">
+            ${this.targets.map((row) => this.renderTarget(row))}
+          </div>`
+        : ''}
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'midi-panel': MidiPanel;
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * @fileoverview Pluggable backends for the real time music session.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  GoogleGenAI,
+  type LiveMusicServerMessage,
+  type LiveMusicSetConfigParameters,
+  type LiveMusicSetWeightedPromptsParameters,
+} from '@google/genai';
+
+/** The parts of a `LiveMusicServerMessage` that every backend delivers. */
+export type MusicServerMessage = Pick<
+  LiveMusicServerMessage,
+  'setupComplete' | 'serverContent' | 'filteredPrompt'
+>;
+
+/** Callbacks invoked by a music session, mirroring `LiveMusicCallbacks`. */
+export interface MusicSessionCallbacks {
+  onmessage: (e: MusicServerMessage) => void;
+  onerror?: (e: {message?: string}) => void;
+  onclose?: (e: {code?: number; reason?: string}) => void;
+}
+
+/**
+ * A connected music session. `LiveMusicSession` satisfies this interface, so
+ * the app can talk to Lyria and to local stand-ins through the same calls.
+ */
+export interface MusicSession {
+  setWeightedPrompts(
+    params: LiveMusicSetWeightedPromptsParameters,
+  ): Promise<void>;
+  setMusicGenerationConfig(params: LiveMusicSetConfigParameters): Promise<void>;
+  play(): void;
+  pause(): void;
+  stop(): void;
+  resetContext(): void;
+  close(): void;
+}
+
+/** Opens music sessions against a particular backend. */
+export interface MusicSessionProvider {
+  /** A short, human readable name for the backend. */
+  readonly name: string;
+  connect(callbacks: MusicSessionCallbacks): Promise<MusicSession>;
+}
+
+/** Connects to the Lyria real time music model through the Gemini API. */
+export class GeminiMusicSessionProvider implements MusicSessionProvider {
+  readonly name = 'lyria';
+  private readonly ai: GoogleGenAI;
+
+  constructor(
+    apiKey: string,
+    private readonly model = 'lyria-realtime-exp',
+  ) {
+    this.ai = new GoogleGenAI({apiKey, apiVersion: 'v1alpha'});
+  }
+
+  connect(callbacks: MusicSessionCallbacks): Promise<MusicSession> {
+    return this.ai.live.music.connect({model: this.model, callbacks});
+  }
+}
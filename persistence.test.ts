@@ -0,0 +1,268 @@
+/**
+ * @fileoverview Tests for state migrations and the persisted state store.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {afterEach, beforeEach, describe, expect, it, vi} from 'vitest';
+
+import {DEFAULT_EFFECTS} from './effects';
+import {
+  createDefaultDeckState,
+  createDefaultSettings,
+  getNextPromptId,
+  migrateState,
+  type PersistedState,
+  PersistedStateError,
+  PersistedStateStore,
+  STATE_VERSION,
+  validateState,
+} from './persistence';
+import type {Prompt} from './types';
+
+const PROMPTS: Prompt[] = [
+  {promptId: 'prompt-0', text: 'Funk', weight: 1, color: '#9900ff'},
+  {promptId: 'prompt-4', text: 'Dub', weight: 0.5, color: '#5200ff'},
+];
+
+function createState(): PersistedState {
+  return {
+    version: STATE_VERSION,
+    prompts: PROMPTS,
+    nextPromptId: 5,
+    settings: createDefaultSettings(),
+    effects: {...DEFAULT_EFFECTS},
+    deck: createDefaultDeckState(),
+    ui: {
+      userPrompt: '',
+      automationLoop: false,
+      visualizerMode: 'spectrum',
+      lowCpuVisualizer: false,
+      glideMs: 0,
+      glideCurve: 'sCurve',
+      quantize: 'off',
+    },
+  };
+}
+
+/** An in-memory stand-in for localStorage. */
+class FakeStorage {
+  readonly items = new Map<string, string>();
+
+  getItem(key: string) {
+    return this.items.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string) {
+    this.items.set(key, value);
+  }
+}
+
+describe('getNextPromptId', () => {
+  it('follows the highest numbered id and the prompt count', () => {
+    expect(getNextPromptId([])).toBe(0);
+    expect(getNextPromptId(PROMPTS)).toBe(5);
+    expect(
+      getNextPromptId([
+        {...PROMPTS[0], promptId: 'custom'},
+        {...PROMPTS[1], promptId: 'prompt-x'},
+      ]),
+    ).toBe(2);
+  });
+});
+
+describe('migrateState', () => {
+  it('upgrades the legacy prompt list to a valid current state', () => {
+    const state = validateState(migrateState({prompts: PROMPTS}));
+    expect(state).toEqual(createState());
+  });
+
+  it('keeps what an older version stored', () => {
+    const state = migrateState({
+      version: 3,
+      prompts: PROMPTS,
+      nextPromptId: 7,
+      settings: {...createDefaultSettings(), config: {bpm: 100}},
+      effects: {...DEFAULT_EFFECTS, delayMix: 0.5},
+      ui: {
+        userPrompt: 'funky',
+        automationLoop: true,
+        visualizerMode: 'bars',
+        lowCpuVisualizer: true,
+      },
+    }) as PersistedState;
+    expect(state.version).toBe(STATE_VERSION);
+    expect(state.nextPromptId).toBe(7);
+    expect(state.settings.config).toEqual({bpm: 100});
+    expect(state.effects.delayMix).toBe(0.5);
+    expect(state.deck).toEqual(createDefaultDeckState());
+    expect(state.ui).toEqual({
+      userPrompt: 'funky',
+      automationLoop: true,
+      visualizerMode: 'bars',
+      lowCpuVisualizer: true,
+      glideMs: 0,
+      glideCurve: 'sCurve',
+      quantize: 'off',
+    });
+  });
+
+  it('leaves a current state alone', () => {
+    const state = createState();
+    expect(migrateState(state)).toBe(state);
+  });
+
+  it('rejects states from a newer version', () => {
+    expect(() => migrateState({version: STATE_VERSION + 1})).toThrow(
+      new PersistedStateError(
+        `Saved state is from a newer version (${STATE_VERSION + 1}).`,
+      ),
+    );
+  });
+
+  it('rejects anything but an object', () => {
+    for (const data of [null, undefined, 'state', 5]) {
+      expect(() => migrateState(data)).toThrow(
+        new PersistedStateError('Saved state is not an object.'),
+      );
+    }
+  });
+
+  it('rejects malformed legacy prompts', () => {
+    for (const prompts of [undefined, null, {}, 5, [1], [{promptId: 'a'}]]) {
+      expect(() => migrateState({prompts})).toThrow(
+        new PersistedStateError('Saved prompts are malformed.'),
+      );
+    }
+  });
+});
+
+describe('validateState', () => {
+  it('accepts a valid state', () => {
+    const state = createState();
+    expect(validateState(state)).toBe(state);
+  });
+
+  it('names the part of the state that is malformed', () => {
+    const ui = createState().ui;
+    const deck = createDefaultDeckState();
+    type Change = Partial<Record<keyof PersistedState, unknown>>;
+    const cases: Array<[Change, string]> = [
+      [{prompts: [{...PROMPTS[0], weight: NaN}]}, 'Saved prompts are'],
+      [{nextPromptId: 1.5}, 'Saved prompt counter is'],
+      [{nextPromptId: '5'}, 'Saved prompt counter is'],
+      [{settings: {config: {}}}, 'Saved settings are'],
+      [{effects: {...DEFAULT_EFFECTS, delayMix: 5}}, 'Saved effects are'],
+      [{effects: {delayMix: 0.5}}, 'Saved effects are'],
+      [{effects: null}, 'Saved effects are'],
+      [{deck: {...deck, crossfader: 2}}, 'Saved deck is'],
+      [{deck: {...deck, curve: 'steep'}}, 'Saved deck is'],
+      [{deck: undefined}, 'Saved deck is'],
+      [{ui: {...ui, glideMs: -1}}, 'Saved UI state is'],
+      [{ui: {...ui, quantize: 'phrase'}}, 'Saved UI state is'],
+    ];
+    for (const [change, problem] of cases) {
+      expect(() => validateState({...createState(), ...change})).toThrow(
+        new PersistedStateError(`${problem} malformed.`),
+      );
+    }
+  });
+});
+
+describe('PersistedStateStore', () => {
+  let storage: FakeStorage;
+  let store: PersistedStateStore;
+  const fallback = () => ({...createState(), prompts: []});
+
+  beforeEach(() => {
+    storage = new FakeStorage();
+    store = new PersistedStateStore(storage as unknown as Storage, 500);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('falls back when nothing is stored', () => {
+    expect(store.load(fallback)).toEqual({state: fallback(), restored: false});
+  });
+
+  it('restores a saved state', () => {
+    storage.setItem('promptDjState', JSON.stringify(createState()));
+    expect(store.load(fallback)).toEqual({
+      state: createState(),
+      restored: true,
+    });
+  });
+
+  it('restores the legacy prompt list', () => {
+    storage.setItem('prompts', JSON.stringify(PROMPTS));
+    expect(store.load(fallback)).toEqual({
+      state: createState(),
+      restored: true,
+    });
+  });
+
+  it('sets unreadable state aside and falls back', () => {
+    for (const [key, raw, error] of [
+      ['promptDjState', '{"version"', 'Saved state is not valid JSON.'],
+      ['promptDjState', 'null', 'Saved state is not an object.'],
+      [
+        'promptDjState',
+        '{"version":99}',
+        'Saved state is from a newer version (99).',
+      ],
+      ['promptDjState', '{"version":6}', 'Saved prompts are malformed.'],
+      ['prompts', 'null', 'Saved prompts are malformed.'],
+      ['prompts', '{}', 'Saved prompts are malformed.'],
+      ['prompts', '[1]', 'Saved prompts are malformed.'],
+    ]) {
+      storage = new FakeStorage();
+      store = new PersistedStateStore(storage as unknown as Storage);
+      storage.setItem(key, raw);
+      expect(store.load(fallback)).toEqual({
+        state: fallback(),
+        restored: false,
+        error,
+      });
+      expect(storage.getItem('promptDjState.corrupt')).toBe(
+        key === 'prompts' ? `{"prompts":${raw}}` : raw,
+      );
+      // Left in place, so a fix can still recover it.
+      expect(storage.getItem(key)).toBe(raw);
+    }
+  });
+
+  it('writes once the saves settle', async () => {
+    vi.useFakeTimers();
+    const state = createState();
+    store.save({...state, nextPromptId: 6});
+    await vi.advanceTimersByTimeAsync(400);
+    store.save(state);
+    await vi.advanceTimersByTimeAsync(400);
+    expect(storage.getItem('promptDjState')).toBeNull();
+    await vi.advanceTimersByTimeAsync(100);
+    expect(storage.getItem('promptDjState')).toBe(JSON.stringify(state));
+  });
+
+  it('writes a pending save when flushed', () => {
+    vi.useFakeTimers();
+    store.flush();
+    expect(storage.items.size).toBe(0);
+    store.save(createState());
+    store.flush();
+    expect(store.load(fallback).restored).toBe(true);
+  });
+
+  it('survives a failed write', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    storage.setItem = () => {
+      throw new Error('QuotaExceededError');
+    };
+    store.save(createState());
+    expect(() => store.flush()).not.toThrow();
+    expect(console.error).toHaveBeenCalledOnce();
+  });
+});
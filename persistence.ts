@@ -0,0 +1,307 @@
+/**
+ * @fileoverview Versioned persistence of the session state in localStorage,
+ * with schema migrations and debounced writes.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type {LiveMusicGenerationConfig} from '@google/genai';
+import {QUANTIZE_OPTIONS, type Quantize} from './clock';
+import {CROSSFADER_CURVES, type CrossfaderCurve} from './deck';
+import {DEFAULT_EFFECTS, type EffectsState, validateEffects} from './effects';
+import {GLIDE_CURVES, type GlideCurve, MAX_GLIDE_MS} from './glide';
+import {type Prompt, VISUALIZER_MODES, type VisualizerMode} from './types';
+
+/** The `SettingsController` state, beyond the config it sends. */
+export interface SettingsState {
+  config: LiveMusicGenerationConfig;
+  showAdvanced: boolean;
+  autoDensity: boolean;
+  lastDefinedDensity?: number;
+  autoBrightness: boolean;
+  lastDefinedBrightness?: number;
+}
+
+/** The second deck and the crossfader that blends it with the first. */
+export interface DeckState {
+  enabled: boolean;
+  prompts: Prompt[];
+  settings: SettingsState;
+  /** From 0 (all deck A) to 1 (all deck B). */
+  crossfader: number;
+  curve: CrossfaderCurve;
+}
+
+export interface UiState {
+  userPrompt: string;
+  automationLoop: boolean;
+  visualizerMode: VisualizerMode;
+  lowCpuVisualizer: boolean;
+  /** How long weight and config changes take to settle, 0 for instant. */
+  glideMs: number;
+  glideCurve: GlideCurve;
+  /** Which boundary changes from the cards and settings wait for. */
+  quantize: Quantize;
+}
+
+export interface PersistedState {
+  version: number;
+  prompts: Prompt[];
+  nextPromptId: number;
+  settings: SettingsState;
+  effects: EffectsState;
+  deck: DeckState;
+  ui: UiState;
+}
+
+export interface LoadResult {
+  state: PersistedState;
+  /** Whether the state came from storage rather than the fallback. */
+  restored: boolean;
+  /** Why the stored state could not be used, if it could not. */
+  error?: string;
+}
+
+export const STATE_VERSION = 6;
+
+const STATE_STORAGE_KEY = 'promptDjState';
+/** Where unreadable state is kept, so a bad write never loses a session. */
+const CORRUPT_STORAGE_KEY = 'promptDjState.corrupt';
+/** Written by versions that only stored the prompts. */
+const LEGACY_PROMPTS_KEY = 'prompts';
+
+export class PersistedStateError extends Error {}
+
+/** The first free `prompt-<n>` id number after `prompts`. */
+export function getNextPromptId(prompts: Prompt[]) {
+  const ids = prompts.map((p) =>
+    Number(/^prompt-(\d+)$/.exec(p.promptId)?.[1] ?? -1),
+  );
+  return Math.max(prompts.length, ...ids.map((id) => id + 1));
+}
+
+export function createDefaultSettings(): SettingsState {
+  return {
+    config: {},
+    showAdvanced: false,
+    autoDensity: true,
+    autoBrightness: true,
+  };
+}
+
+export function createDefaultDeckState(): DeckState {
+  return {
+    enabled: false,
+    prompts: [],
+    settings: createDefaultSettings(),
+    crossfader: 0,
+    curve: 'power',
+  };
+}
+
+/** State partway through migration; only what migrations read is typed. */
+interface MigratingState {
+  [key: string]: unknown;
+  version?: unknown;
+  prompts?: unknown;
+  ui?: object;
+}
+
+/**
+ * Upgrades state from version `n` to `n + 1`, keyed by `n`. Version 0 is the
+ * legacy bare prompt list.
+ */
+const MIGRATIONS: Record<number, (state: MigratingState) => MigratingState> = {
+  0: (state) => {
+    // Checked here, as the id counter reads them.
+    if (!Array.isArray(state.prompts) || !state.prompts.every(isPrompt)) {
+      throw new PersistedStateError('Saved prompts are malformed.');
+    }
+    return {
+      version: 1,
+      prompts: state.prompts,
+      nextPromptId: getNextPromptId(state.prompts),
+      settings: createDefaultSettings(),
+      ui: {userPrompt: '', automationLoop: false},
+    };
+  },
+  1: (state) => ({
+    ...state,
+    version: 2,
+    ui: {...state.ui, visualizerMode: 'spectrum', lowCpuVisualizer: false},
+  }),
+  2: (state) => ({...state, version: 3, effects: {...DEFAULT_EFFECTS}}),
+  3: (state) => ({...state, version: 4, deck: createDefaultDeckState()}),
+  4: (state) => ({
+    ...state,
+    version: 5,
+    ui: {...state.ui, glideMs: 0, glideCurve: 'sCurve'},
+  }),
+  5: (state) => ({...state, version: 6, ui: {...state.ui, quantize: 'off'}}),
+};
+
+/** Brings stored state up to `STATE_VERSION`. */
+export function migrateState(data: unknown): unknown {
+  if (typeof data !== 'object' || data === null) {
+    throw new PersistedStateError('Saved state is not an object.');
+  }
+  let state = data as MigratingState;
+  let version = typeof state.version === 'number' ? state.version : 0;
+  if (version > STATE_VERSION) {
+    throw new PersistedStateError(
+      `Saved state is from a newer version (${version}).`,
+    );
+  }
+  while (version < STATE_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new PersistedStateError(`No migration from version ${version}.`);
+    }
+    state = migrate(state);
+    version++;
+  }
+  return state;
+}
+
+function isPrompt(value: unknown): value is Prompt {
+  const prompt = value as Partial<Prompt> | null;
+  return (
+    typeof prompt?.promptId === 'string' &&
+    typeof prompt.text === 'string' &&
+    typeof prompt.color === 'string' &&
+    typeof prompt.weight === 'number' &&
+    Number.isFinite(prompt.weight)
+  );
+}
+
+function isSettingsState(value: unknown): value is SettingsState {
+  const settings = value as Partial<SettingsState> | null;
+  return (
+    typeof settings?.config === 'object' &&
+    settings.config !== null &&
+    typeof settings.showAdvanced === 'boolean' &&
+    typeof settings.autoDensity === 'boolean' &&
+    typeof settings.autoBrightness === 'boolean'
+  );
+}
+
+/** Throws a `PersistedStateError` unless `state` is a valid current state. */
+export function validateState(data: unknown): PersistedState {
+  const state = data as Partial<PersistedState> | null;
+  if (typeof state !== 'object' || state === null) {
+    throw new PersistedStateError('Saved state is not an object.');
+  }
+  if (!Array.isArray(state.prompts) || !state.prompts.every(isPrompt)) {
+    throw new PersistedStateError('Saved prompts are malformed.');
+  }
+  if (
+    typeof state.nextPromptId !== 'number' ||
+    !Number.isInteger(state.nextPromptId) ||
+    state.nextPromptId < 0
+  ) {
+    throw new PersistedStateError('Saved prompt counter is malformed.');
+  }
+  if (!isSettingsState(state.settings)) {
+    throw new PersistedStateError('Saved settings are malformed.');
+  }
+  const problems: string[] = [];
+  const effects = state.effects;
+  validateEffects(effects, problems);
+  if (
+    problems.length > 0 ||
+    // Only reached for an object, which validateEffects checked.
+    Object.keys(DEFAULT_EFFECTS).some((key) => !(key in (effects as object)))
+  ) {
+    throw new PersistedStateError('Saved effects are malformed.');
+  }
+  const deck = state.deck as Partial<DeckState> | undefined;
+  if (
+    typeof deck?.enabled !== 'boolean' ||
+    !Array.isArray(deck.prompts) ||
+    !deck.prompts.every(isPrompt) ||
+    !isSettingsState(deck.settings) ||
+    typeof deck.crossfader !== 'number' ||
+    !(deck.crossfader >= 0 && deck.crossfader <= 1) ||
+    !CROSSFADER_CURVES.includes(deck.curve as CrossfaderCurve)
+  ) {
+    throw new PersistedStateError('Saved deck is malformed.');
+  }
+  if (
+    typeof state.ui?.userPrompt !== 'string' ||
+    typeof state.ui.automationLoop !== 'boolean' ||
+    !VISUALIZER_MODES.includes(state.ui.visualizerMode) ||
+    typeof state.ui.lowCpuVisualizer !== 'boolean' ||
+    typeof state.ui.glideMs !== 'number' ||
+    !(state.ui.glideMs >= 0 && state.ui.glideMs <= MAX_GLIDE_MS) ||
+    !GLIDE_CURVES.includes(state.ui.glideCurve) ||
+    !QUANTIZE_OPTIONS.includes(state.ui.quantize)
+  ) {
+    throw new PersistedStateError('Saved UI state is malformed.');
+  }
+  return state as PersistedState;
+}
+
+/**
+ * Loads and saves the session state. Saves are debounced, so that dragging a
+ * slider writes once when it settles rather than on every frame.
+ */
+export class PersistedStateStore {
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  private pending: PersistedState | null = null;
+
+  constructor(
+    private readonly storage: Storage = window.localStorage,
+    private readonly delayMs = 500,
+  ) {}
+
+  /**
+   * Returns the stored state, migrated to the current version. If there is
+   * none, or it can't be read, returns `createFallback()` instead; unreadable
+   * state is set aside rather than overwritten.
+   */
+  load(createFallback: () => PersistedState): LoadResult {
+    let raw = this.storage.getItem(STATE_STORAGE_KEY);
+    let key = STATE_STORAGE_KEY;
+    if (raw === null) {
+      const legacy = this.storage.getItem(LEGACY_PROMPTS_KEY);
+      if (legacy === null) return {state: createFallback(), restored: false};
+      raw = `{"prompts":${legacy}}`;
+      key = LEGACY_PROMPTS_KEY;
+    }
+    try {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(raw);
+      } catch (e) {
+        throw new PersistedStateError('Saved state is not valid JSON.');
+      }
+      return {state: validateState(migrateState(parsed)), restored: true};
+    } catch (e) {
+      if (!(e instanceof PersistedStateError)) throw e;
+      console.warn(`Discarding saved state from "${key}":`, e.message);
+      this.storage.setItem(CORRUPT_STORAGE_KEY, raw);
+      return {state: createFallback(), restored: false, error: e.message};
+    }
+  }
+
+  save(state: PersistedState) {
+    this.pending = state;
+    clearTimeout(this.timer);
+    this.timer = setTimeout(() => this.flush(), this.delayMs);
+  }
+
+  /** Writes any pending state now, e.g. before the page unloads. */
+  flush() {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    if (!this.pending) return;
+    const state = this.pending;
+    this.pending = null;
+    try {
+      this.storage.setItem(STATE_STORAGE_KEY, JSON.stringify(state));
+    } catch (e) {
+      // Quota errors shouldn't take the session down with them.
+      console.error('Failed to save state', e);
+    }
+  }
+}
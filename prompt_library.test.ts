@@ -0,0 +1,197 @@
+/**
+ * @fileoverview Tests for library files and the stored prompt library.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {afterEach, describe, expect, it, vi} from 'vitest';
+
+import {
+  LIBRARY_FORMAT,
+  LIBRARY_VERSION,
+  LibraryDocumentError,
+  parseLibraryJson,
+  PromptLibrary,
+} from './prompt_library';
+
+/** An in-memory stand-in for localStorage. */
+class FakeStorage {
+  readonly items = new Map<string, string>();
+
+  getItem(key: string) {
+    return this.items.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string) {
+    this.items.set(key, value);
+  }
+}
+
+function createLibrary(stored?: unknown) {
+  const storage = new FakeStorage();
+  if (stored !== undefined) {
+    storage.setItem(
+      'promptLibrary',
+      typeof stored === 'string' ? stored : JSON.stringify(stored),
+    );
+  }
+  return {storage, library: new PromptLibrary(storage as unknown as Storage)};
+}
+
+/** The problems `json` is rejected with. */
+function problemsOf(json: string): string[] {
+  try {
+    parseLibraryJson(json);
+  } catch (e) {
+    if (e instanceof LibraryDocumentError) return e.problems;
+    throw e;
+  }
+  throw new Error('The library parsed.');
+}
+
+function json(doc: object) {
+  return JSON.stringify({
+    format: LIBRARY_FORMAT,
+    version: LIBRARY_VERSION,
+    entries: [],
+    favorites: [],
+    ...doc,
+  });
+}
+
+describe('parseLibraryJson', () => {
+  it('reads a library a PromptLibrary exported', () => {
+    const {library} = createLibrary();
+    library.add('Glitch Hop', 'genre');
+    library.toggleFavorite('Funk');
+    const doc = library.export();
+    expect(parseLibraryJson(JSON.stringify(doc))).toEqual({
+      format: LIBRARY_FORMAT,
+      version: LIBRARY_VERSION,
+      entries: [{text: 'Glitch Hop', category: 'genre'}],
+      favorites: ['funk'],
+    });
+  });
+
+  it('rejects text that is not JSON', () => {
+    expect(problemsOf('{entries')).toEqual(['the file is not valid JSON']);
+  });
+
+  it('rejects other documents', () => {
+    for (const text of ['null', '[]', '42', '{"format":"promptdj-session"}']) {
+      expect(problemsOf(text)).toEqual(['not a library file']);
+    }
+  });
+
+  it('rejects missing and newer versions', () => {
+    expect(problemsOf(json({version: LIBRARY_VERSION + 1}))).toEqual([
+      `unsupported version ${LIBRARY_VERSION + 1}`,
+    ]);
+    expect(problemsOf(json({version: undefined}))).toEqual([
+      'unsupported version undefined',
+    ]);
+  });
+
+  it('lists every problem with the entries and favorites', () => {
+    expect(
+      problemsOf(
+        json({
+          entries: [
+            {text: 'Funk', category: 'genre'},
+            {text: ' ', category: 'mood'},
+            {text: 'Kazoo', category: 'toy'},
+            null,
+          ],
+          favorites: ['Funk', 3],
+        }),
+      ),
+    ).toEqual([
+      'entry 2 has no text',
+      'entry 3 has unknown category "toy"',
+      'entry 4 has no text',
+      'entry 4 has unknown category "undefined"',
+      'favorites must be a list of texts',
+    ]);
+    expect(problemsOf(json({entries: {}, favorites: null}))).toEqual([
+      'entries must be a list',
+      'favorites must be a list of texts',
+    ]);
+  });
+});
+
+describe('PromptLibrary', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('restores what it saved', () => {
+    const {storage, library} = createLibrary();
+    library.add('Glitch Hop', 'genre');
+    library.toggleFavorite('Glitch Hop');
+    library.markUsed('Funk');
+    const restored = new PromptLibrary(storage as unknown as Storage);
+    expect(restored.find('glitch hop ')).toEqual({
+      text: 'Glitch Hop',
+      category: 'genre',
+      builtIn: false,
+    });
+    expect(restored.isFavorite('GLITCH HOP')).toBe(true);
+    expect(restored.recentTexts).toEqual(['Funk']);
+  });
+
+  it('starts empty when the stored library is malformed', () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const builtIn = createLibrary().library.entries;
+    for (const stored of [
+      '{custom',
+      {},
+      {custom: null, favorites: [], recent: []},
+      {custom: [{text: 'Kazoo', category: 'toy'}], favorites: [], recent: []},
+      {custom: [], favorites: [1], recent: []},
+      {custom: [], favorites: [], recent: 'Funk'},
+    ]) {
+      const {library} = createLibrary(stored);
+      expect(library.entries).toEqual(builtIn);
+      expect(library.recentTexts).toEqual([]);
+    }
+    expect(error).toHaveBeenCalledTimes(6);
+  });
+
+  it('keeps recently used texts unique, most recent first', () => {
+    const {library} = createLibrary();
+    library.markUsed('Funk');
+    library.markUsed('Dub');
+    library.markUsed(' funk ');
+    expect(library.recentTexts).toEqual(['funk', 'Dub']);
+    for (let i = 0; i < 30; i++) library.markUsed(`Prompt ${i}`);
+    expect(library.recentTexts).toHaveLength(20);
+    expect(library.recentTexts[0]).toBe('Prompt 29');
+  });
+
+  it('adds only new, non-blank texts', () => {
+    const {library} = createLibrary();
+    expect(library.add('  ', 'mood')).toBe(false);
+    expect(library.add('glitch hop', 'genre')).toBe(true);
+    expect(library.add('Glitch Hop', 'genre')).toBe(false);
+    library.remove('GLITCH HOP');
+    expect(library.find('glitch hop')).toBeUndefined();
+  });
+
+  it('imports only the entries it does not have', () => {
+    const {library} = createLibrary();
+    const added = library.import(
+      parseLibraryJson(
+        json({
+          entries: [
+            {text: 'Funk', category: 'genre'},
+            {text: 'Glitch Hop', category: 'genre'},
+          ],
+          favorites: ['Glitch Hop'],
+        }),
+      ),
+    );
+    expect(added).toBe(1);
+    expect(library.search('glitch', 'genre')).toHaveLength(1);
+    expect(library.isFavorite('glitch hop')).toBe(true);
+  });
+});
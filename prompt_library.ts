@@ -0,0 +1,311 @@
+/**
+ * @fileoverview A categorized library of prompt texts, with user entries,
+ * favorites and recently used prompts, shareable as a JSON file.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export type LibraryCategory =
+  | 'genre'
+  | 'instrument'
+  | 'mood'
+  | 'texture'
+  | 'rhythm';
+
+export const LIBRARY_CATEGORIES: readonly LibraryCategory[] = [
+  'genre',
+  'instrument',
+  'mood',
+  'texture',
+  'rhythm',
+];
+
+export interface LibraryEntry {
+  text: string;
+  category: LibraryCategory;
+  /** Built-in entries can't be removed. */
+  builtIn: boolean;
+}
+
+/** The prompts a fresh session picks its first mix from. */
+export const PROMPT_TEXT_PRESETS = [
+  'Bossa Nova',
+  'Minimal Techno',
+  'Drum and Bass',
+  'Post Punk',
+  'Shoegaze',
+  'Funk',
+  'Chiptune',
+  'Lush Strings',
+  'Sparkling Arpeggios',
+  'Staccato Rhythms',
+  'Punchy Kick',
+  'Dubstep',
+  'K Pop',
+  'Neo Soul',
+  'Trip Hop',
+  'Thrash',
+];
+
+const BUILT_IN_TEXTS: Record<LibraryCategory, string[]> = {
+  genre: [
+    'Bossa Nova',
+    'Minimal Techno',
+    'Drum and Bass',
+    'Post Punk',
+    'Shoegaze',
+    'Funk',
+    'Chiptune',
+    'Dubstep',
+    'K Pop',
+    'Neo Soul',
+    'Trip Hop',
+    'Thrash',
+    'Deep House',
+    'Lo-Fi Hip Hop',
+    'Afrobeat',
+    'Ambient',
+  ],
+  instrument: [
+    'Lush Strings',
+    'Rhodes Piano',
+    'TB-303 Acid Bass',
+    'Tabla',
+    'Slide Guitar',
+    'Warm Synth Pads',
+    'Muted Trumpet',
+    'Kalimba',
+  ],
+  mood: [
+    'Dreamy',
+    'Euphoric',
+    'Melancholic',
+    'Ominous',
+    'Playful',
+    'Chill',
+  ],
+  texture: [
+    'Sparkling Arpeggios',
+    'Tape Saturation',
+    'Vinyl Crackle',
+    'Shimmering Reverb',
+    'Glitchy Effects',
+    'Distorted',
+  ],
+  rhythm: [
+    'Staccato Rhythms',
+    'Punchy Kick',
+    'Four on the Floor',
+    'Syncopated Hi-Hats',
+    'Breakbeat',
+    'Polyrhythmic Percussion',
+  ],
+};
+
+const BUILT_IN_ENTRIES: LibraryEntry[] = LIBRARY_CATEGORIES.flatMap((category) =>
+  BUILT_IN_TEXTS[category].map((text) => ({text, category, builtIn: true})),
+);
+
+/** How many recently used prompts are remembered. */
+const MAX_RECENT = 20;
+
+export const LIBRARY_FORMAT = 'promptdj-library';
+export const LIBRARY_VERSION = 1;
+
+/** The shareable part of a library: user entries and favorites. */
+export interface LibraryDocument {
+  format: typeof LIBRARY_FORMAT;
+  version: number;
+  entries: Array<{text: string; category: LibraryCategory}>;
+  favorites: string[];
+}
+
+/** Lists everything wrong with a library file, not just the first problem. */
+export class LibraryDocumentError extends Error {
+  constructor(readonly problems: string[]) {
+    super(`Invalid library: ${problems.join('; ')}`);
+  }
+}
+
+interface StoredLibrary {
+  custom: LibraryEntry[];
+  favorites: string[];
+  recent: string[];
+}
+
+const LIBRARY_STORAGE_KEY = 'promptLibrary';
+
+function isTextList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((text) => typeof text === 'string');
+}
+
+function isStoredLibrary(value: unknown): value is StoredLibrary {
+  const library = value as Partial<StoredLibrary> | null;
+  return (
+    Array.isArray(library?.custom) &&
+    library.custom.every(
+      (entry) =>
+        typeof entry?.text === 'string' &&
+        LIBRARY_CATEGORIES.includes(entry.category),
+    ) &&
+    isTextList(library.favorites) &&
+    isTextList(library.recent)
+  );
+}
+
+/** Texts are matched without regard to case or surrounding space. */
+function normalize(text: string) {
+  return text.trim().toLowerCase();
+}
+
+/** Parses and validates the text of a library file. */
+export function parseLibraryJson(json: string): LibraryDocument {
+  let doc: Partial<LibraryDocument> | null;
+  try {
+    doc = JSON.parse(json);
+  } catch (e) {
+    throw new LibraryDocumentError(['the file is not valid JSON']);
+  }
+  if (typeof doc !== 'object' || doc === null || doc.format !== LIBRARY_FORMAT) {
+    throw new LibraryDocumentError(['not a library file']);
+  }
+  if (typeof doc.version !== 'number' || doc.version > LIBRARY_VERSION) {
+    throw new LibraryDocumentError([`unsupported version ${String(doc.version)}`]);
+  }
+  const problems: string[] = [];
+  if (!Array.isArray(doc.entries)) {
+    problems.push('entries must be a list');
+  } else {
+    doc.entries.forEach((entry, i) => {
+      if (typeof entry?.text !== 'string' || !entry.text.trim()) {
+        problems.push(`entry ${i + 1} has no text`);
+      }
+      if (!LIBRARY_CATEGORIES.includes(entry?.category)) {
+        problems.push(`entry ${i + 1} has unknown category "${String(entry?.category)}"`);
+      }
+    });
+  }
+  if (
+    !Array.isArray(doc.favorites) ||
+    !doc.favorites.every((text) => typeof text === 'string')
+  ) {
+    problems.push('favorites must be a list of texts');
+  }
+  if (problems.length > 0) throw new LibraryDocumentError(problems);
+  return doc as LibraryDocument;
+}
+
+/** The built-in entries plus the user's own, saved in localStorage. */
+export class PromptLibrary {
+  private custom: LibraryEntry[] = [];
+  private favorites = new Set<string>();
+  private recent: string[] = [];
+
+  constructor(private readonly storage: Storage = window.localStorage) {
+    const stored = storage.getItem(LIBRARY_STORAGE_KEY);
+    if (!stored) return;
+    let library: unknown;
+    try {
+      library = JSON.parse(stored);
+    } catch (e) {
+      console.error('Failed to parse stored prompt library', e);
+      return;
+    }
+    // A malformed library starts empty rather than breaking every render.
+    if (!isStoredLibrary(library)) {
+      console.error('Ignoring malformed stored prompt library');
+      return;
+    }
+    this.custom = library.custom;
+    this.favorites = new Set(library.favorites);
+    this.recent = library.recent;
+  }
+
+  get entries(): LibraryEntry[] {
+    return [...BUILT_IN_ENTRIES, ...this.custom];
+  }
+
+  /** Recently used texts, most recent first. */
+  get recentTexts(): readonly string[] {
+    return this.recent;
+  }
+
+  find(text: string): LibraryEntry | undefined {
+    const key = normalize(text);
+    return this.entries.find((entry) => normalize(entry.text) === key);
+  }
+
+  /** Entries whose text contains `query`, optionally in one category. */
+  search(query: string, category?: LibraryCategory): LibraryEntry[] {
+    const key = normalize(query);
+    return this.entries.filter(
+      (entry) =>
+        (!category || entry.category === category) &&
+        normalize(entry.text).includes(key),
+    );
+  }
+
+  isFavorite(text: string) {
+    return this.favorites.has(normalize(text));
+  }
+
+  toggleFavorite(text: string) {
+    const key = normalize(text);
+    if (!this.favorites.delete(key)) this.favorites.add(key);
+    this.save();
+  }
+
+  /** Adds a user entry; returns false if the text is already in the library. */
+  add(text: string, category: LibraryCategory) {
+    if (!text.trim() || this.find(text)) return false;
+    this.custom.push({text: text.trim(), category, builtIn: false});
+    this.save();
+    return true;
+  }
+
+  remove(text: string) {
+    const key = normalize(text);
+    this.custom = this.custom.filter((entry) => normalize(entry.text) !== key);
+    this.favorites.delete(key);
+    this.save();
+  }
+
+  /** Moves `text` to the front of the recently used list. */
+  markUsed(text: string) {
+    const key = normalize(text);
+    this.recent = [
+      text.trim(),
+      ...this.recent.filter((recent) => normalize(recent) !== key),
+    ].slice(0, MAX_RECENT);
+    this.save();
+  }
+
+  export(): LibraryDocument {
+    return {
+      format: LIBRARY_FORMAT,
+      version: LIBRARY_VERSION,
+      entries: this.custom.map(({text, category}) => ({text, category})),
+      favorites: [...this.favorites],
+    };
+  }
+
+  /** Merges a shared library into this one; returns the entries added. */
+  import(doc: LibraryDocument) {
+    let added = 0;
+    for (const {text, category} of doc.entries) {
+      if (this.add(text, category)) added++;
+    }
+    for (const text of doc.favorites) this.favorites.add(normalize(text));
+    this.save();
+    return added;
+  }
+
+  private save() {
+    const library: StoredLibrary = {
+      custom: this.custom,
+      favorites: [...this.favorites],
+      recent: this.recent,
+    };
+    this.storage.setItem(LIBRARY_STORAGE_KEY, JSON.stringify(library));
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * @fileoverview Captures the PCM stream sent by the music session.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type {LiveMusicGenerationConfig, WeightedPrompt} from '@google/genai';
+
+/** The prompt mix and generation config in effect at some point in time. */
+export interface RecordingSnapshot {
+  prompts: WeightedPrompt[];
+  config: LiveMusicGenerationConfig;
+}
+
+/** A snapshot taken `time` seconds into the recording. */
+export interface RecordingEvent extends RecordingSnapshot {
+  time: number;
+}
+
+/** A finished take: interleaved 16-bit PCM plus what was playing when. */
+export interface Recording {
+  pcm: Int16Array;
+  sampleRate: number;
+  numChannels: number;
+  startedAt: Date;
+  endedAt: Date;
+  /** The first event is the mix at the start of the take. */
+  events: RecordingEvent[];
+}
+
+/** Length of the fades applied across a discontinuity in the stream. */
+const SPLICE_FADE_SECONDS = 0.005;
+
+/**
+ * Records the exact chunks the session delivers, independently of playback.
+ * Underruns therefore never reach the file, and pauses are spliced together
+ * with short fades instead of leaving a gap or a click.
+ */
+export class StreamRecorder {
+  private chunks: Int16Array[] = [];
+  private frames = 0;
+  private events: RecordingEvent[] = [];
+  private startedAt: Date | null = null;
+  private discontinuity = false;
+
+  constructor(
+    readonly sampleRate: number,
+    readonly numChannels: number,
+  ) {}
+
+  get isRecording() {
+    return this.startedAt !== null;
+  }
+
+  /** Length of the audio captured so far, in seconds. */
+  get duration() {
+    return this.frames / this.sampleRate;
+  }
+
+  start(snapshot: RecordingSnapshot) {
+    this.chunks = [];
+    this.frames = 0;
+    this.events = [];
+    this.discontinuity = false;
+    this.startedAt = new Date();
+    this.noteChange(snapshot);
+  }
+
+  /** Records a change to the prompts or config at the current position. */
+  noteChange(snapshot: RecordingSnapshot) {
+    if (!this.isRecording) return;
+    this.events.push({
+      time: this.duration,
+      prompts: snapshot.prompts.map(({text, weight}) => ({text, weight})),
+      config: {...snapshot.config},
+    });
+  }
+
+  /**
+   * Marks a break in the stream, such as a pause or a context reset, so the
+   * next chunk is spliced on with a short crossfade.
+   */
+  markDiscontinuity() {
+    if (this.chunks.length > 0) this.discontinuity = true;
+  }
+
+  /** Appends a chunk of interleaved PCM exactly as the session sent it. */
+  append(pcm: Int16Array) {
+    if (!this.isRecording) return;
+    const chunk = pcm.slice();
+    if (this.discontinuity) {
+      this.fade(this.chunks[this.chunks.length - 1], 'out');
+      this.fade(chunk, 'in');
+      this.discontinuity = false;
+    }
+    this.chunks.push(chunk);
+    this.frames += chunk.length / this.numChannels;
+  }
+
+  stop(): Recording {
+    if (!this.startedAt) {
+      throw new Error('The recorder is not recording.');
+    }
+    const pcm = new Int16Array(this.frames * this.numChannels);
+    let offset = 0;
+    for (const chunk of this.chunks) {
+      pcm.set(chunk, offset);
+      offset += chunk.length;
+    }
+    const recording: Recording = {
+      pcm,
+      sampleRate: this.sampleRate,
+      numChannels: this.numChannels,
+      startedAt: this.startedAt,
+      endedAt: new Date(),
+      events: this.events,
+    };
+    this.chunks = [];
+    this.frames = 0;
+    this.events = [];
+    this.startedAt = null;
+    return recording;
+  }
+
+  private fade(chunk: Int16Array, direction: 'in' | 'out') {
+    const channels = this.numChannels;
+    const chunkFrames = chunk.length / channels;
+    const fadeFrames = Math.min(
+      chunkFrames,
+      Math.round(SPLICE_FADE_SECONDS * this.sampleRate),
+    );
+    for (let i = 0; i < fadeFrames; i++) {
+      const frame = direction === 'in' ? i : chunkFrames - 1 - i;
+      const gain = i / fadeFrames;
+      for (let c = 0; c < channels; c++) {
+        chunk[frame * channels + c] = Math.round(
+          chunk[frame * channels + c] * gain,
+        );
+      }
+    }
+  }
+}
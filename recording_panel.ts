@@ -0,0 +1,103 @@
+/**
+ * @fileoverview Shows the recording status and exports finished takes.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {css, html, LitElement} from 'lit';
+import {customElement, property} from 'lit/decorators.js';
+
+import {encodeFlac, encodeWav, getExportFileName} from './audio_export';
+import type {Recording} from './recorder';
+
+function formatDuration(seconds: number) {
+  const minutes = Math.floor(seconds / 60);
+  const rest = Math.floor(seconds % 60);
+  return `${minutes}:${String(rest).padStart(2, '0')}`;
+}
+
+/** Recording status, plus download buttons for the last take. */
+@customElement('recording-panel')
+export class RecordingPanel extends LitElement {
+  static override styles = css`
+    :host {
+      display: flex;
+      align-items: center;
+      gap: 12px;
+      color: #ccc;
+      font-family: 'Google Sans', sans-serif;
+      font-size: 14px;
+      min-height: 32px;
+    }
+    .rec {
+      color: #ff3b30;
+      font-weight: 500;
+    }
+    .rec::before {
+      content: '●';
+      margin-right: 6px;
+      animation: blink 1s steps(2, start) infinite;
+    }
+    @keyframes blink {
+      to {
+        visibility: hidden;
+      }
+    }
+    button {
+      background: #333;
+      color: #eee;
+      border: 1px solid #666;
+      border-radius: 6px;
+      padding: 6px 12px;
+      font-family: inherit;
+      cursor: pointer;
+    }
+    button:hover {
+      border-color: #5200ff;
+    }
+  `;
+
+  @property({type: Boolean}) recording = false;
+  @property({type: Number}) duration = 0;
+  @property({attribute: false}) take: Recording | null = null;
+
+  private download(format: 'wav' | 'flac') {
+    if (!this.take) return;
+    const bytes = format === 'wav' ? encodeWav(this.take) : encodeFlac(this.take);
+    const blob = new Blob([bytes], {
+      type: format === 'wav' ? 'audio/wav' : 'audio/flac',
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = getExportFileName(this.take, format);
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  private discard() {
+    this.dispatchEvent(
+      new CustomEvent('take-discarded', {bubbles: true, composed: true}),
+    );
+  }
+
+  override render() {
+    if (this.recording) {
+      return html`<span class="rec">REC ${formatDuration(this.duration)}</span>`;
+    }
+    if (!this.take) return html``;
+    const seconds = this.take.pcm.length / this.take.numChannels / this.take.sampleRate;
+    return html`
+      <span>Take ${formatDuration(seconds)}</span>
+      <button @click=${() => this.download('wav')}>WAV</button>
+      <button @click=${() => this.download('flac')}>FLAC</button>
+      <button @click=${this.discard}>Discard</button>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'recording-panel': RecordingPanel;
+  }
+}
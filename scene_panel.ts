@@ -0,0 +1,187 @@
+/**
+ * @fileoverview Lists saved scenes and recalls them with a morph.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {css, html, LitElement} from 'lit';
+import {customElement, property, state} from 'lit/decorators.js';
+
+import type {Scene} from './scenes';
+
+export type MorphUnit = 'seconds' | 'bars';
+
+/** Detail of the `scene-recall` event. */
+export interface SceneRecallDetail {
+  sceneId: string;
+  length: number;
+  unit: MorphUnit;
+}
+
+/** Saves the current mix as a scene and morphs to saved scenes. */
+@customElement('scene-panel')
+export class ScenePanel extends LitElement {
+  static override styles = css`
+    :host {
+      display: block;
+      color: #eee;
+      font-family: 'Google Sans', sans-serif;
+      font-size: 13px;
+    }
+    .row {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      flex-wrap: wrap;
+    }
+    .title {
+      font-weight: bold;
+      margin-right: auto;
+    }
+    input,
+    select {
+      background-color: #333;
+      color: #eee;
+      border: 1px solid #666;
+      border-radius: 4px;
+      padding: 4px;
+      font-family: inherit;
+    }
+    input[type='number'] {
+      width: 4em;
+    }
+    button {
+      background: #333;
+      color: #eee;
+      border: 1px solid #666;
+      border-radius: 6px;
+      padding: 4px 10px;
+      font-family: inherit;
+      cursor: pointer;
+    }
+    button:disabled {
+      opacity: 0.4;
+      cursor: not-allowed;
+    }
+    .scenes {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 6px;
+      margin-top: 8px;
+    }
+    .scene {
+      display: flex;
+      align-items: center;
+      background: #2a2a2a;
+      border: 1px solid #444;
+      border-radius: 6px;
+      overflow: hidden;
+    }
+    .scene button {
+      border: none;
+      border-radius: 0;
+    }
+    .scene .remove {
+      color: #888;
+    }
+    progress {
+      width: 80px;
+      accent-color: #5200ff;
+    }
+  `;
+
+  @property({attribute: false}) scenes: Scene[] = [];
+  /** Progress of a running morph from 0 to 1, or null when idle. */
+  @property({type: Number}) morphProgress: number | null = null;
+
+  @state() private sceneName = '';
+  @state() private morphLength = 4;
+  @state() private morphUnit: MorphUnit = 'bars';
+
+  private dispatch(name: string, detail?: unknown) {
+    this.dispatchEvent(
+      new CustomEvent(name, {detail, bubbles: true, composed: true}),
+    );
+  }
+
+  private save() {
+    const name = this.sceneName.trim() || `Scene ${this.scenes.length + 1}`;
+    this.dispatch('scene-save', name);
+    this.sceneName = '';
+  }
+
+  private recall(scene: Scene) {
+    this.dispatch('scene-recall', {
+      sceneId: scene.id,
+      length: this.morphLength,
+      unit: this.morphUnit,
+    } satisfies SceneRecallDetail);
+  }
+
+  override render() {
+    return html`
+      <div class="row">
+        <span class="title">Scenes</span>
+        <input
+          type="text"
+          placeholder="Scene name"
+          .value=${this.sceneName}
+          @input=${(e: Event) => {
+            this.sceneName = (e.target as HTMLInputElement).value;
+          }}
+          @keydown=${(e: KeyboardEvent) => e.key === 'Enter' && this.save()} />
+        <button @click=${this.save}>Save scene</button>
+        <span>Morph</span>
+        <input
+          type="number"
+          min="0"
+          step="1"
+          .value=${String(this.morphLength)}
+          @input=${(e: Event) => {
+            this.morphLength = Math.max(0, Number((e.target as HTMLInputElement).value));
+          }} />
+        <select
+          .value=${this.morphUnit}
+          @change=${(e: Event) => {
+            this.morphUnit = (e.target as HTMLSelectElement).value as MorphUnit;
+          }}>
+          <option value="bars">bars</option>
+          <option value="seconds">seconds</option>
+        </select>
+        ${this.morphProgress !== null
+          ? html`<progress .value=${this.morphProgress} max="1"></progress>
+              <button @click=${() => this.dispatch('scene-morph-cancel')}>
+                Stop
+              </button>`
+          : ''}
+      </div>
+      ${this.scenes.length > 0
+        ? html`<div class="scenes">
+            ${this.scenes.map(
+              (scene) => html`<div class="scene">
+                <button
+                  title=${scene.prompts
+                    .map((p) => `${p.text} ${p.weight.toFixed(1)}`)
+                    .join(', ')}
+                  @click=${() => this.recall(scene)}>
+                  ${scene.name}
+                </button>
+                <button
+                  class="remove"
+                  title="Delete scene"
+                  @click=${() => this.dispatch('scene-delete', scene.id)}>
+                  ×
+                </button>
+              </div>`,
+            )}
+          </div>`
+        : ''}
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'scene-panel': ScenePanel;
+  }
+}
@@ -0,0 +1,192 @@
+/**
+ * @fileoverview Named snapshots of the prompt mix and config, and morphing
+ * between them.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type {LiveMusicGenerationConfig} from '@google/genai';
+import type {Prompt} from './types';
+
+export interface Scene {
+  readonly id: string;
+  name: string;
+  prompts: Prompt[];
+  config: LiveMusicGenerationConfig;
+  readonly createdAt: string;
+}
+
+/** The prompts and config the session is playing, or will play. */
+export interface MixState {
+  prompts: Map<string, Prompt>;
+  config: LiveMusicGenerationConfig;
+}
+
+type ConfigKey = keyof LiveMusicGenerationConfig;
+
+/** Parameters that glide during a morph; the rest switch when it ends. */
+const CONTINUOUS_KEYS = new Set<ConfigKey>([
+  'temperature',
+  'guidance',
+  'topK',
+  'density',
+  'brightness',
+]);
+
+const SCENES_STORAGE_KEY = 'scenes';
+
+export function getStoredScenes(): Scene[] {
+  const storedScenes = window.localStorage.getItem(SCENES_STORAGE_KEY);
+  if (storedScenes) {
+    try {
+      return JSON.parse(storedScenes) as Scene[];
+    } catch (e) {
+      console.error('Failed to parse stored scenes', e);
+    }
+  }
+  return [];
+}
+
+export function setStoredScenes(scenes: Scene[]) {
+  window.localStorage.setItem(SCENES_STORAGE_KEY, JSON.stringify(scenes));
+}
+
+export function createScene(name: string, state: MixState): Scene {
+  return {
+    id: `scene-${Date.now().toString(36)}`,
+    name,
+    prompts: [...state.prompts.values()].map((p) => ({...p})),
+    config: {...state.config},
+    createdAt: new Date().toISOString(),
+  };
+}
+
+/** Converts a morph length in bars to seconds, assuming 4/4. */
+export function barsToSeconds(bars: number, bpm: number) {
+  return (bars * 4 * 60) / bpm;
+}
+
+interface MorphEntry {
+  prompt: Prompt;
+  from: number;
+  to: number;
+  /** Prompts missing from the scene fade out and are removed at the end. */
+  remove: boolean;
+}
+
+function interpolateConfig(
+  from: LiveMusicGenerationConfig,
+  to: LiveMusicGenerationConfig,
+  t: number,
+): LiveMusicGenerationConfig {
+  if (t >= 1) return {...to};
+  const config: LiveMusicGenerationConfig = {};
+  const keys = new Set([...Object.keys(from), ...Object.keys(to)]) as Set<ConfigKey>;
+  for (const key of keys) {
+    const a = from[key];
+    const b = to[key];
+    let value: unknown = a;
+    if (CONTINUOUS_KEYS.has(key) && typeof b === 'number') {
+      // A parameter leaving "auto" starts from its target value.
+      const start = typeof a === 'number' ? a : b;
+      value = start + (b - start) * t;
+      if (key === 'topK') value = Math.round(value as number);
+    }
+    Object.assign(config, {[key]: value});
+  }
+  return config;
+}
+
+/**
+ * Drives a morph from the current mix to a scene: prompt weights and the
+ * continuous config parameters interpolate, prompts that are not in the scene
+ * fade out, and the remaining parameters switch at the end.
+ */
+export class SceneMorph {
+  private timer: ReturnType<typeof setInterval> | undefined;
+  private entries: MorphEntry[] = [];
+  private fromConfig: LiveMusicGenerationConfig = {};
+  private toConfig: LiveMusicGenerationConfig = {};
+  private startedAt = 0;
+  private durationMs = 0;
+
+  constructor(
+    private readonly onFrame: (state: MixState, progress: number) => void,
+    private readonly tickMs = 100,
+  ) {}
+
+  get isRunning() {
+    return this.timer !== undefined;
+  }
+
+  /**
+   * Starts morphing from `from` to `scene`. Scene prompts are matched to
+   * current prompts by id and text; unmatched ones are added with ids from
+   * `createPromptId`.
+   */
+  start(
+    from: MixState,
+    scene: Scene,
+    seconds: number,
+    createPromptId: () => string,
+  ) {
+    this.cancel();
+    const remaining = new Map(from.prompts);
+    const entries: MorphEntry[] = [...from.prompts.values()].map((prompt) => ({
+      prompt: {...prompt},
+      from: prompt.weight,
+      to: 0,
+      remove: true,
+    }));
+    for (const scenePrompt of scene.prompts) {
+      const match =
+        [...remaining.values()].find(
+          (p) => p.promptId === scenePrompt.promptId && p.text === scenePrompt.text,
+        ) ?? [...remaining.values()].find((p) => p.text === scenePrompt.text);
+      if (match) {
+        remaining.delete(match.promptId);
+        const entry = entries.find((e) => e.prompt.promptId === match.promptId)!;
+        entry.to = scenePrompt.weight;
+        entry.remove = false;
+      } else {
+        entries.push({
+          prompt: {...scenePrompt, promptId: createPromptId(), weight: 0},
+          from: 0,
+          to: scenePrompt.weight,
+          remove: false,
+        });
+      }
+    }
+
+    this.entries = entries;
+    this.fromConfig = {...from.config};
+    this.toConfig = {...scene.config};
+    this.startedAt = performance.now();
+    this.durationMs = Math.max(0, seconds * 1000);
+    this.timer = setInterval(() => this.tick(), this.tickMs);
+    this.tick();
+  }
+
+  cancel() {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  private tick() {
+    const elapsed = performance.now() - this.startedAt;
+    const t = this.durationMs === 0 ? 1 : Math.min(1, elapsed / this.durationMs);
+    const prompts = new Map<string, Prompt>();
+    for (const entry of this.entries) {
+      if (t >= 1 && entry.remove) continue;
+      prompts.set(entry.prompt.promptId, {
+        ...entry.prompt,
+        weight: entry.from + (entry.to - entry.from) * t,
+      });
+    }
+    if (t >= 1) this.cancel();
+    this.onFrame(
+      {prompts, config: interpolateConfig(this.fromConfig, this.toConfig, t)},
+      t,
+    );
+  }
+}
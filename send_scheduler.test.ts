@@ -0,0 +1,255 @@
+/**
+ * @fileoverview Tests for paced, coalesced and retried sends.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type {
+  LiveMusicSetConfigParameters,
+  LiveMusicSetWeightedPromptsParameters,
+  WeightedPrompt,
+} from '@google/genai';
+import {afterEach, beforeEach, describe, expect, it, vi} from 'vitest';
+
+import type {MusicSession} from './music_session';
+import {SendScheduler, type SendSchedulerCallbacks} from './send_scheduler';
+
+/** Records each send and when it was made, failing the first `failures`. */
+class FakeSession implements MusicSession {
+  readonly sends: Array<{at: number; kind: string; payload: unknown}> = [];
+  failures = 0;
+
+  async setWeightedPrompts({
+    weightedPrompts,
+  }: LiveMusicSetWeightedPromptsParameters) {
+    this.record('prompts', weightedPrompts.map((p) => ({...p})));
+  }
+
+  async setMusicGenerationConfig({
+    musicGenerationConfig,
+  }: LiveMusicSetConfigParameters) {
+    this.record('config', musicGenerationConfig);
+  }
+
+  play() {}
+  pause() {}
+  stop() {}
+  resetContext() {}
+  close() {}
+
+  private record(kind: string, payload: unknown) {
+    this.sends.push({at: Date.now(), kind, payload});
+    if (this.failures > 0) {
+      this.failures--;
+      throw new Error('Socket busy');
+    }
+  }
+}
+
+function weights(...values: number[]): WeightedPrompt[] {
+  return values.map((weight, i) => ({text: `Prompt ${i}`, weight}));
+}
+
+function createScheduler() {
+  let session: FakeSession | null = new FakeSession();
+  const callbacks = {
+    onerror: vi.fn<SendSchedulerCallbacks['onerror']>(),
+    onchange: vi.fn(),
+    onsent: vi.fn<NonNullable<SendSchedulerCallbacks['onsent']>>(),
+  };
+  const scheduler = new SendScheduler(() => session, callbacks);
+  return {
+    scheduler,
+    callbacks,
+    get session() {
+      return session!;
+    },
+    disconnect() {
+      session = null;
+    },
+    connect() {
+      session = new FakeSession();
+    },
+  };
+}
+
+describe('SendScheduler', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({now: 0});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('sends the first update straight away', async () => {
+    const {scheduler, session, callbacks} = createScheduler();
+    scheduler.schedule('prompts', weights(1));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(session.sends).toEqual([
+      {at: 0, kind: 'prompts', payload: weights(1)},
+    ]);
+    expect(callbacks.onsent).toHaveBeenCalledWith('prompts', 0);
+  });
+
+  it('collapses updates within the interval into the last one', async () => {
+    const {scheduler, session, callbacks} = createScheduler();
+    scheduler.schedule('prompts', weights(1));
+    await vi.advanceTimersByTimeAsync(50);
+    scheduler.schedule('prompts', weights(0.5));
+    await vi.advanceTimersByTimeAsync(50);
+    scheduler.schedule('prompts', weights(0.25));
+    expect(scheduler.pendingKinds).toEqual(['prompts']);
+    await vi.advanceTimersByTimeAsync(500);
+    expect(session.sends.map(({at, payload}) => [at, payload])).toEqual([
+      [0, weights(1)],
+      [200, weights(0.25)],
+    ]);
+    // Timed from the first of the collapsed updates.
+    expect(callbacks.onsent).toHaveBeenLastCalledWith('prompts', 150);
+  });
+
+  it('sends kinds in the order they were last updated', async () => {
+    const {scheduler, session} = createScheduler();
+    scheduler.schedule('prompts', weights(1));
+    scheduler.schedule('config', {bpm: 100});
+    scheduler.schedule('prompts', weights(2));
+    scheduler.schedule('config', {bpm: 110});
+    expect(scheduler.pendingKinds).toEqual(['prompts', 'config']);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(session.sends).toEqual([
+      {at: 0, kind: 'prompts', payload: weights(1)},
+      {at: 200, kind: 'prompts', payload: weights(2)},
+      {at: 400, kind: 'config', payload: {bpm: 110}},
+    ]);
+  });
+
+  it('always delivers the last state of a burst', async () => {
+    const {scheduler, session} = createScheduler();
+    for (let i = 0; i <= 100; i++) {
+      scheduler.schedule('prompts', weights(i / 50));
+      scheduler.schedule('config', {density: i / 100});
+      await vi.advanceTimersByTimeAsync(16);
+    }
+    await vi.advanceTimersByTimeAsync(1000);
+    const last = (kind: string) =>
+      session.sends.filter((s) => s.kind === kind).pop()?.payload;
+    expect(last('prompts')).toEqual(weights(2));
+    expect(last('config')).toEqual({density: 1});
+    // Paced, so a 1.6 s burst takes about eight sends rather than 202.
+    expect(session.sends.length).toBeLessThan(12);
+    const times = session.sends.map((s) => s.at);
+    const gaps = times.slice(1).map((at, i) => at - times[i]);
+    expect(gaps.every((gap) => gap >= 200)).toBe(true);
+  });
+
+  it('retries a failed send with a doubling delay', async () => {
+    const {scheduler, session, callbacks} = createScheduler();
+    session.failures = 2;
+    scheduler.schedule('prompts', weights(1));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(scheduler.retries).toBe(1);
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(session.sends.map((s) => s.at)).toEqual([0, 500, 1500]);
+    expect(scheduler.retries).toBe(0);
+    expect(callbacks.onerror).not.toHaveBeenCalled();
+    expect(callbacks.onsent).toHaveBeenCalledWith('prompts', 1500);
+    expect(scheduler.isPromptSynced('Prompt 0', 1)).toBe(true);
+  });
+
+  it('gives up after three failed retries', async () => {
+    const {scheduler, session, callbacks} = createScheduler();
+    session.failures = Infinity;
+    scheduler.schedule('config', {bpm: 90});
+    await vi.advanceTimersByTimeAsync(10000);
+    expect(session.sends.map((s) => s.at)).toEqual([0, 500, 1500, 3500]);
+    expect(callbacks.onerror).toHaveBeenCalledOnce();
+    expect(callbacks.onerror).toHaveBeenCalledWith(
+      'config',
+      new Error('Socket busy'),
+    );
+    expect(scheduler.pendingKinds).toEqual([]);
+    expect(scheduler.retries).toBe(0);
+  });
+
+  it('retries with a newer update rather than the failed one', async () => {
+    const {scheduler, session} = createScheduler();
+    session.failures = 1;
+    scheduler.schedule('prompts', weights(1));
+    await vi.advanceTimersByTimeAsync(100);
+    scheduler.schedule('prompts', weights(0.5));
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(session.sends.map(({at, payload}) => [at, payload])).toEqual([
+      [0, weights(1)],
+      [500, weights(0.5)],
+    ]);
+  });
+
+  it('keeps updates until there is a session to send them to', async () => {
+    const harness = createScheduler();
+    const {scheduler} = harness;
+    harness.disconnect();
+    scheduler.schedule('prompts', weights(1));
+    scheduler.schedule('config', {bpm: 120});
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(scheduler.pendingKinds).toEqual(['prompts', 'config']);
+    harness.connect();
+    scheduler.flush();
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(harness.session.sends.map((s) => s.kind)).toEqual([
+      'prompts',
+      'config',
+    ]);
+  });
+
+  describe('isPromptSynced', () => {
+    it('counts a prompt as synced once it is delivered', async () => {
+      const {scheduler} = createScheduler();
+      expect(scheduler.isPromptSynced('Prompt 0', 0)).toBe(true);
+      scheduler.schedule('prompts', weights(1));
+      expect(scheduler.isPromptSynced('Prompt 0', 1)).toBe(false);
+      await vi.advanceTimersByTimeAsync(0);
+      expect(scheduler.isPromptSynced('Prompt 0', 1)).toBe(true);
+      expect(scheduler.isPromptSynced('Prompt 0', 1.0001)).toBe(true);
+      expect(scheduler.isPromptSynced('Prompt 0', 0.5)).toBe(false);
+      // A prompt left out of the send is playing at weight 0.
+      expect(scheduler.isPromptSynced('Other', 0)).toBe(true);
+    });
+
+    it('is not fooled by a weight changed after the send', async () => {
+      const {scheduler} = createScheduler();
+      const prompts = weights(1);
+      scheduler.schedule('prompts', prompts);
+      await vi.advanceTimersByTimeAsync(0);
+      prompts[0].weight = 0.5;
+      expect(scheduler.isPromptSynced('Prompt 0', 0.5)).toBe(false);
+      expect(scheduler.isPromptSynced('Prompt 0', 1)).toBe(true);
+    });
+
+    it('goes by what the server reports once it reports anything', async () => {
+      const {scheduler, callbacks} = createScheduler();
+      scheduler.schedule('prompts', weights(1));
+      await vi.advanceTimersByTimeAsync(0);
+      callbacks.onchange.mockClear();
+      const reported = weights(0.5);
+      scheduler.acknowledge({clientContent: {weightedPrompts: reported}});
+      expect(callbacks.onchange).toHaveBeenCalledOnce();
+      expect(scheduler.isPromptSynced('Prompt 0', 1)).toBe(false);
+      expect(scheduler.isPromptSynced('Prompt 0', 0.5)).toBe(true);
+      reported[0].weight = 2;
+      expect(scheduler.isPromptSynced('Prompt 0', 0.5)).toBe(true);
+      // The same report again changes nothing.
+      scheduler.acknowledge({clientContent: {weightedPrompts: weights(0.5)}});
+      expect(callbacks.onchange).toHaveBeenCalledOnce();
+    });
+
+    it('forgets what was sent on reset', async () => {
+      const {scheduler} = createScheduler();
+      scheduler.schedule('prompts', weights(1));
+      await vi.advanceTimersByTimeAsync(0);
+      scheduler.reset();
+      expect(scheduler.isPromptSynced('Prompt 0', 1)).toBe(false);
+      expect(scheduler.isPromptSynced('Prompt 0', 0)).toBe(true);
+    });
+  });
+});
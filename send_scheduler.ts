@@ -0,0 +1,222 @@
+/**
+ * @fileoverview Coalesces prompt and config updates into paced, ordered
+ * sends that always deliver the latest state, and tracks what the server has
+ * acknowledged.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type {
+  LiveMusicGenerationConfig,
+  LiveMusicSourceMetadata,
+  WeightedPrompt,
+} from '@google/genai';
+import type {MusicSession} from './music_session';
+
+interface Payloads {
+  prompts: WeightedPrompt[];
+  config: LiveMusicGenerationConfig;
+}
+
+export type SendKind = keyof Payloads;
+
+export interface SendSchedulerOptions {
+  /** The least time between two sends. */
+  intervalMs?: number;
+  /** Retries of a failed send before it is given up on. */
+  maxRetries?: number;
+  /** The delay before the first retry, doubling with each one after. */
+  retryDelayMs?: number;
+}
+
+export interface SendSchedulerCallbacks {
+  /** Called when a send has failed every retry. */
+  onerror(kind: SendKind, error: Error): void;
+  /** Called when what has been delivered or acknowledged changes. */
+  onchange?(): void;
+  /**
+   * Called when an update is delivered, with the milliseconds since it was
+   * first made, including any wait for the interval, a session or retries.
+   */
+  onsent?(kind: SendKind, latencyMs: number): void;
+}
+
+const DEFAULT_OPTIONS: Required<SendSchedulerOptions> = {
+  intervalMs: 200,
+  maxRetries: 3,
+  retryDelayMs: 500,
+};
+
+/** Weights closer than this count as the same. */
+const WEIGHT_TOLERANCE = 1e-3;
+
+/**
+ * A copy of a payload, so that later changes to the objects it was built
+ * from can't alter what was recorded as sent.
+ */
+function copyPayload<T extends Payloads[SendKind]>(payload: T): T {
+  return (
+    Array.isArray(payload) ? payload.map((p) => ({...p})) : {...payload}
+  ) as T;
+}
+
+/**
+ * Sends updates one at a time, at most one per interval. An update made
+ * while another of the same kind waits replaces it, so bursts collapse into
+ * their final state, and updates go out in the order they were last made.
+ *
+ * The server reports the prompts and config behind each audio chunk; those
+ * are the acknowledged values. Backends that don't report them are taken at
+ * their word once a send succeeds.
+ */
+export class SendScheduler {
+  private readonly options: Required<SendSchedulerOptions>;
+  private pending = new Map<SendKind, Payloads[SendKind]>();
+  /** When each pending kind was first scheduled, in ms since the epoch. */
+  private scheduledAt = new Map<SendKind, number>();
+  private delivered: Partial<Payloads> = {};
+  private acknowledged: Partial<Payloads> = {};
+  private reportsAcks = false;
+  private sending = false;
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  private nextSendAt = 0;
+  private attempts = 0;
+
+  constructor(
+    private readonly getSession: () => MusicSession | null,
+    private readonly callbacks: SendSchedulerCallbacks,
+    options: SendSchedulerOptions = {},
+  ) {
+    this.options = {...DEFAULT_OPTIONS, ...options};
+  }
+
+  /** The kinds waiting to be sent, in the order they will go. */
+  get pendingKinds(): SendKind[] {
+    return [...this.pending.keys()];
+  }
+
+  /** How many times the send in progress has been retried. */
+  get retries() {
+    return this.attempts;
+  }
+
+  schedule<K extends SendKind>(kind: K, payload: Payloads[K]) {
+    this.pending.delete(kind);
+    this.pending.set(kind, payload);
+    if (!this.scheduledAt.has(kind)) this.scheduledAt.set(kind, Date.now());
+    this.pump();
+  }
+
+  /** Sends anything pending, e.g. once a session becomes available. */
+  flush() {
+    this.pump();
+  }
+
+  /**
+   * Forgets what was delivered and acknowledged, for a new session that has
+   * seen nothing yet. Pending updates are kept.
+   */
+  reset() {
+    this.delivered = {};
+    this.acknowledged = {};
+    this.callbacks.onchange?.();
+  }
+
+  /** Records the prompts and config that produced a chunk of audio. */
+  acknowledge(metadata: LiveMusicSourceMetadata | undefined) {
+    const prompts = metadata?.clientContent?.weightedPrompts;
+    const config = metadata?.musicGenerationConfig;
+    if (!prompts && !config) return;
+    this.reportsAcks = true;
+    const before = JSON.stringify(this.acknowledged);
+    if (prompts) this.acknowledged.prompts = copyPayload(prompts);
+    if (config) this.acknowledged.config = copyPayload(config);
+    if (JSON.stringify(this.acknowledged) !== before) {
+      this.callbacks.onchange?.();
+    }
+  }
+
+  /** Whether the server is known to be playing `text` at `weight`. */
+  isPromptSynced(text: string, weight: number) {
+    if (this.pending.has('prompts')) return false;
+    const prompts = this.reportsAcks
+      ? this.acknowledged.prompts
+      : this.delivered.prompts;
+    if (!prompts) return weight === 0;
+    const synced = prompts.find((p) => p.text === text)?.weight ?? 0;
+    return Math.abs(synced - weight) < WEIGHT_TOLERANCE;
+  }
+
+  private pump() {
+    if (this.sending || this.timer !== undefined) return;
+    const [next] = this.pending;
+    if (!next) return;
+    const wait = this.nextSendAt - Date.now();
+    if (wait > 0) {
+      this.timer = setTimeout(() => {
+        this.timer = undefined;
+        this.pump();
+      }, wait);
+      return;
+    }
+    const session = this.getSession();
+    // Without a session the update waits for `flush()`.
+    if (!session) return;
+    const [kind, payload] = next;
+    const scheduledAt = this.scheduledAt.get(kind) ?? Date.now();
+    this.pending.delete(kind);
+    this.scheduledAt.delete(kind);
+    this.send(session, kind, payload, scheduledAt);
+  }
+
+  private async send(
+    session: MusicSession,
+    kind: SendKind,
+    payload: Payloads[SendKind],
+    scheduledAt: number,
+  ) {
+    this.sending = true;
+    this.nextSendAt = Date.now() + this.options.intervalMs;
+    try {
+      if (kind === 'prompts') {
+        await session.setWeightedPrompts({
+          weightedPrompts: payload as WeightedPrompt[],
+        });
+      } else {
+        await session.setMusicGenerationConfig({
+          musicGenerationConfig: payload as LiveMusicGenerationConfig,
+        });
+      }
+      this.attempts = 0;
+      Object.assign(this.delivered, {[kind]: copyPayload(payload)});
+      this.callbacks.onchange?.();
+      this.callbacks.onsent?.(kind, Date.now() - scheduledAt);
+    } catch (e) {
+      this.retry(kind, payload, scheduledAt, e as Error);
+    } finally {
+      this.sending = false;
+      this.pump();
+    }
+  }
+
+  private retry(
+    kind: SendKind,
+    payload: Payloads[SendKind],
+    scheduledAt: number,
+    error: Error,
+  ) {
+    if (this.attempts >= this.options.maxRetries) {
+      this.attempts = 0;
+      this.callbacks.onerror(kind, error);
+      return;
+    }
+    this.attempts++;
+    this.nextSendAt =
+      Date.now() + this.options.retryDelayMs * 2 ** (this.attempts - 1);
+    // A newer update of the same kind supersedes the failed one.
+    if (!this.pending.has(kind)) {
+      this.pending = new Map([[kind, payload], ...this.pending]);
+      this.scheduledAt.set(kind, scheduledAt);
+    }
+  }
+}
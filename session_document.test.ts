@@ -0,0 +1,215 @@
+/**
+ * @fileoverview Tests for reading session files and links.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {Scale} from '@google/genai';
+import {describe, expect, it} from 'vitest';
+
+import {DEFAULT_EFFECTS} from './effects';
+import {
+  createSessionDocument,
+  decodeSessionHash,
+  encodeSessionHash,
+  parseSessionJson,
+  SESSION_FORMAT,
+  SESSION_VERSION,
+  SessionDocumentError,
+} from './session_document';
+import type {Prompt} from './types';
+
+const PROMPTS: Prompt[] = [
+  {promptId: 'prompt-0', text: 'Funk', weight: 1, color: '#9900ff'},
+  {promptId: 'prompt-1', text: 'Dub', weight: 0.5, color: '#5200ff'},
+];
+
+/** The problems `parse` is rejected with. */
+function problemsOf(parse: () => unknown): string[] {
+  try {
+    parse();
+  } catch (e) {
+    if (e instanceof SessionDocumentError) return e.problems;
+    throw e;
+  }
+  throw new Error('The session parsed.');
+}
+
+function json(doc: object) {
+  return JSON.stringify({
+    format: SESSION_FORMAT,
+    version: SESSION_VERSION,
+    ...doc,
+  });
+}
+
+describe('parseSessionJson', () => {
+  it('reads a document it wrote', () => {
+    const doc = createSessionDocument(
+      PROMPTS,
+      {bpm: 120, scale: Scale.C_MAJOR_A_MINOR, muteBass: true},
+      {delayMix: 0.3},
+    );
+    const parsed = parseSessionJson(JSON.stringify(doc));
+    expect(parsed).toEqual(doc);
+    expect(parsed.effects).toEqual({...DEFAULT_EFFECTS, delayMix: 0.3});
+  });
+
+  it('drops fields a prompt should not carry', () => {
+    const {prompts} = parseSessionJson(
+      json({prompts: [{...PROMPTS[0], isFiltered: true}], config: {}}),
+    );
+    expect(prompts).toEqual([PROMPTS[0]]);
+  });
+
+  it('reads version 1 documents, which have no effects', () => {
+    const doc = parseSessionJson(json({version: 1, prompts: PROMPTS}));
+    expect(doc.version).toBe(SESSION_VERSION);
+    expect(doc.config).toEqual({});
+    expect(doc).not.toHaveProperty('effects');
+  });
+
+  it('rejects text that is not JSON', () => {
+    expect(problemsOf(() => parseSessionJson('{prompts'))).toEqual([
+      'the file is not valid JSON',
+    ]);
+  });
+
+  it('rejects other documents', () => {
+    for (const text of ['null', '[]', '"session"', '{"format":"other"}']) {
+      expect(problemsOf(() => parseSessionJson(text))).toEqual([
+        'not a session document',
+      ]);
+    }
+  });
+
+  it('rejects missing and newer versions', () => {
+    expect(
+      problemsOf(() => parseSessionJson(json({version: SESSION_VERSION + 1}))),
+    ).toEqual([`unsupported version ${SESSION_VERSION + 1}`]);
+    expect(
+      problemsOf(() => parseSessionJson(json({version: 'latest'}))),
+    ).toEqual(['unsupported version latest']);
+  });
+
+  it('lists every problem with the prompts', () => {
+    expect(
+      problemsOf(() =>
+        parseSessionJson(
+          json({
+            prompts: [
+              PROMPTS[0],
+              {...PROMPTS[1], promptId: 'prompt-0'},
+              {promptId: '', text: '  ', weight: 3},
+              null,
+            ],
+          }),
+        ),
+      ),
+    ).toEqual([
+      'duplicate prompt id "prompt-0"',
+      'prompt 3 has no id',
+      'prompt 3 has no text',
+      'prompt 3 has no color',
+      'prompt 3 weight 3 is outside 0–2',
+      'prompt 4 has no id',
+      'prompt 4 has no text',
+      'prompt 4 has no color',
+      'prompt 4 weight must be a number',
+    ]);
+    expect(problemsOf(() => parseSessionJson(json({prompts: {}})))).toEqual([
+      'prompts must be a list',
+    ]);
+  });
+
+  it('rejects config the API would not accept', () => {
+    expect(
+      problemsOf(() =>
+        parseSessionJson(
+          json({
+            prompts: [],
+            config: {
+              bpm: 120.5,
+              density: 2,
+              topK: 'many',
+              muteDrums: 'yes',
+              scale: 'H_MAJOR',
+              tempo: 120,
+            },
+          }),
+        ),
+      ),
+    ).toEqual([
+      'bpm must be a whole number',
+      'density 2 is outside 0–1',
+      'topK must be a number',
+      'muteDrums must be true or false',
+      'unknown scale "H_MAJOR"',
+      'unknown config parameter "tempo"',
+    ]);
+    expect(
+      problemsOf(() => parseSessionJson(json({prompts: [], config: []}))),
+    ).toEqual(['config must be an object']);
+  });
+
+  it('rejects invalid effects', () => {
+    expect(
+      problemsOf(() =>
+        parseSessionJson(json({prompts: [], effects: {delayMix: 5, wah: 1}})),
+      ),
+    ).toEqual([
+      'delayMix 5 is outside 0–1',
+      'unknown effect parameter "wah"',
+    ]);
+  });
+});
+
+describe('decodeSessionHash', () => {
+  it('reads a document from the link it was encoded to', () => {
+    const doc = createSessionDocument(
+      [
+        ...PROMPTS,
+        {promptId: 'prompt-2', text: 'Ünïcode ♫', weight: 2, color: '#fff'},
+      ],
+      {bpm: 90},
+      DEFAULT_EFFECTS,
+    );
+    const hash = encodeSessionHash(doc);
+    expect(hash).toMatch(/^#session=[\w-]+$/);
+    expect(decodeSessionHash(hash)).toEqual(doc);
+  });
+
+  it('finds the session among other parameters', () => {
+    const doc = createSessionDocument(PROMPTS, {});
+    const value = encodeSessionHash(doc).slice('#session='.length);
+    expect(decodeSessionHash(`#a=1&session=${value}&b=2`)).toEqual(doc);
+    expect(decodeSessionHash(`session=${value}`)).toEqual(doc);
+  });
+
+  it('returns null when there is no session', () => {
+    expect(decodeSessionHash('')).toBeNull();
+    expect(decodeSessionHash('#')).toBeNull();
+    expect(decodeSessionHash('#other=1')).toBeNull();
+    expect(decodeSessionHash('#session=')).toBeNull();
+  });
+
+  it('rejects a damaged link', () => {
+    expect(problemsOf(() => decodeSessionHash('#session=!!!'))).toEqual([
+      'the link is damaged',
+    ]);
+    const truncated = encodeSessionHash(createSessionDocument(PROMPTS, {}));
+    expect(
+      problemsOf(() => decodeSessionHash(truncated.slice(0, -8))),
+    ).toEqual(['the link is damaged']);
+  });
+
+  it('validates the session it carries', () => {
+    const doc = createSessionDocument(
+      [{...PROMPTS[0], weight: -1}],
+      {bpm: 10},
+    );
+    expect(problemsOf(() => decodeSessionHash(encodeSessionHash(doc)))).toEqual(
+      ['prompt 1 weight -1 is outside 0–2', 'bpm 10 is outside 60–200'],
+    );
+  });
+});
@@ -0,0 +1,244 @@
+/**
+ * @fileoverview A portable description of a mix, shared as a JSON file or a
+ * URL hash.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {type LiveMusicGenerationConfig, Scale} from '@google/genai';
+import {DEFAULT_EFFECTS, type EffectsState, validateEffects} from './effects';
+import {getNextPromptId, type PersistedState} from './persistence';
+import type {Prompt} from './types';
+import {decode, encode} from './utils';
+
+export const SESSION_FORMAT = 'promptdj-session';
+export const SESSION_VERSION = 2;
+
+/** The URL hash parameter that carries a session. */
+const HASH_PARAM = 'session';
+
+export interface SessionDocument {
+  format: typeof SESSION_FORMAT;
+  version: number;
+  prompts: Prompt[];
+  config: LiveMusicGenerationConfig;
+  /** Absent from version 1 documents, which leave the effects alone. */
+  effects?: EffectsState;
+}
+
+/** Lists everything wrong with a document, not just the first problem. */
+export class SessionDocumentError extends Error {
+  constructor(readonly problems: string[]) {
+    super(`Invalid session: ${problems.join('; ')}`);
+  }
+}
+
+type ConfigKey = keyof LiveMusicGenerationConfig;
+
+/** Numeric parameters and their valid ranges, as the API accepts them. */
+const NUMERIC_RANGES: Partial<Record<ConfigKey, [number, number]>> = {
+  temperature: [0, 3],
+  topK: [1, 1000],
+  guidance: [0, 6],
+  bpm: [60, 200],
+  density: [0, 1],
+  brightness: [0, 1],
+  seed: [0, 2 ** 31 - 1],
+};
+
+const INTEGER_KEYS = new Set<ConfigKey>(['topK', 'bpm', 'seed']);
+
+const BOOLEAN_KEYS = new Set<ConfigKey>([
+  'muteBass',
+  'muteDrums',
+  'onlyBassAndDrums',
+]);
+
+export function createSessionDocument(
+  prompts: Iterable<Prompt>,
+  config: LiveMusicGenerationConfig,
+  effects?: Partial<EffectsState>,
+): SessionDocument {
+  return {
+    format: SESSION_FORMAT,
+    version: SESSION_VERSION,
+    prompts: [...prompts].map(({promptId, text, weight, color}) => ({
+      promptId,
+      text,
+      weight,
+      color,
+    })),
+    config: {...config},
+    ...(effects && {effects: {...DEFAULT_EFFECTS, ...effects}}),
+  };
+}
+
+/** Adds a problem for each config parameter the API would reject. */
+export function validateConfig(config: unknown, problems: string[]) {
+  if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+    problems.push('config must be an object');
+    return;
+  }
+  for (const [key, value] of Object.entries(config) as Array<[ConfigKey, unknown]>) {
+    if (value === undefined || value === null) continue;
+    const range = NUMERIC_RANGES[key];
+    if (range) {
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        problems.push(`${key} must be a number`);
+      } else if (value < range[0] || value > range[1]) {
+        problems.push(`${key} ${value} is outside ${range[0]}–${range[1]}`);
+      } else if (INTEGER_KEYS.has(key) && !Number.isInteger(value)) {
+        problems.push(`${key} must be a whole number`);
+      }
+    } else if (BOOLEAN_KEYS.has(key)) {
+      if (typeof value !== 'boolean') problems.push(`${key} must be true or false`);
+    } else if (key === 'scale') {
+      if (!(Object.values(Scale) as unknown[]).includes(value)) {
+        problems.push(`unknown scale "${String(value)}"`);
+      }
+    } else {
+      problems.push(`unknown config parameter "${key}"`);
+    }
+  }
+}
+
+/**
+ * Validates an untrusted document, throwing a `SessionDocumentError` that
+ * lists every problem found.
+ */
+export function parseSessionDocument(data: unknown): SessionDocument {
+  const doc = data as Partial<SessionDocument> | null;
+  if (typeof doc !== 'object' || doc === null) {
+    throw new SessionDocumentError(['not a session document']);
+  }
+  if (doc.format !== SESSION_FORMAT) {
+    throw new SessionDocumentError(['not a session document']);
+  }
+  if (typeof doc.version !== 'number' || doc.version > SESSION_VERSION) {
+    throw new SessionDocumentError([`unsupported version ${String(doc.version)}`]);
+  }
+
+  const problems: string[] = [];
+  const ids = new Set<string>();
+  if (!Array.isArray(doc.prompts)) {
+    problems.push('prompts must be a list');
+  } else {
+    doc.prompts.forEach((prompt, i) => {
+      const label = `prompt ${i + 1}`;
+      if (typeof prompt?.promptId !== 'string' || !prompt.promptId) {
+        problems.push(`${label} has no id`);
+      } else if (ids.has(prompt.promptId)) {
+        problems.push(`duplicate prompt id "${prompt.promptId}"`);
+      } else {
+        ids.add(prompt.promptId);
+      }
+      if (typeof prompt?.text !== 'string' || !prompt.text.trim()) {
+        problems.push(`${label} has no text`);
+      }
+      if (typeof prompt?.color !== 'string') {
+        problems.push(`${label} has no color`);
+      }
+      if (typeof prompt?.weight !== 'number' || !Number.isFinite(prompt.weight)) {
+        problems.push(`${label} weight must be a number`);
+      } else if (prompt.weight < 0 || prompt.weight > 2) {
+        problems.push(`${label} weight ${prompt.weight} is outside 0–2`);
+      }
+    });
+  }
+  validateConfig(doc.config ?? {}, problems);
+  if (doc.effects !== undefined) validateEffects(doc.effects, problems);
+  if (problems.length > 0) throw new SessionDocumentError(problems);
+
+  return createSessionDocument(doc.prompts!, doc.config ?? {}, doc.effects);
+}
+
+/** Parses the text of a session file. */
+export function parseSessionJson(json: string): SessionDocument {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (e) {
+    throw new SessionDocumentError(['the file is not valid JSON']);
+  }
+  return parseSessionDocument(data);
+}
+
+function toBase64Url(text: string) {
+  return encode(new TextEncoder().encode(text))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string) {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  return new TextDecoder().decode(decode(base64));
+}
+
+/**
+ * Encodes a document as a URL hash. Prompts become `[id, text, weight,
+ * color]` tuples to keep links short.
+ */
+export function encodeSessionHash(doc: SessionDocument): string {
+  const compact = {
+    v: doc.version,
+    p: doc.prompts.map((p) => [p.promptId, p.text, p.weight, p.color]),
+    c: doc.config,
+    e: doc.effects,
+  };
+  return `#${HASH_PARAM}=${toBase64Url(JSON.stringify(compact))}`;
+}
+
+/**
+ * Reads a document from a URL hash. Returns null if the hash carries no
+ * session, and throws a `SessionDocumentError` if it carries a bad one.
+ */
+export function decodeSessionHash(hash: string): SessionDocument | null {
+  const value = new URLSearchParams(hash.replace(/^#/, '')).get(HASH_PARAM);
+  if (!value) return null;
+  let compact: {v?: number; p?: unknown; c?: unknown; e?: unknown};
+  try {
+    compact = JSON.parse(fromBase64Url(value));
+  } catch (e) {
+    throw new SessionDocumentError(['the link is damaged']);
+  }
+  return parseSessionDocument({
+    format: SESSION_FORMAT,
+    version: compact.v,
+    prompts: Array.isArray(compact.p)
+      ? compact.p.map((p) =>
+          Array.isArray(p)
+            ? {promptId: p[0], text: p[1], weight: p[2], color: p[3]}
+            : p,
+        )
+      : compact.p,
+    config: compact.c,
+    effects: compact.e,
+  });
+}
+
+/**
+ * Replaces the mix in a saved state with a document's prompts, config and
+ * effects.
+ */
+export function applySessionDocument(
+  state: PersistedState,
+  doc: SessionDocument,
+): PersistedState {
+  const {config} = doc;
+  return {
+    ...state,
+    prompts: doc.prompts,
+    nextPromptId: getNextPromptId(doc.prompts),
+    effects: doc.effects ?? state.effects,
+    settings: {
+      ...state.settings,
+      config,
+      autoDensity: config.density == null,
+      lastDefinedDensity: config.density ?? state.settings.lastDefinedDensity,
+      autoBrightness: config.brightness == null,
+      lastDefinedBrightness:
+        config.brightness ?? state.settings.lastDefinedBrightness,
+    },
+  };
+}
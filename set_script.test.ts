@@ -0,0 +1,188 @@
+/**
+ * @fileoverview Tests for the set script parser.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {describe, expect, it} from 'vitest';
+
+import {
+  formatScriptTime,
+  parseConfigValue,
+  parseSetScript,
+  type ScriptProblem,
+  SetScriptError,
+} from './set_script';
+
+/** The problems a script is rejected with. */
+function problemsOf(script: string): ScriptProblem[] {
+  try {
+    parseSetScript(script);
+  } catch (e) {
+    if (e instanceof SetScriptError) return e.problems;
+    throw e;
+  }
+  throw new Error('The script parsed.');
+}
+
+describe('parseSetScript', () => {
+  it('parses weights, fades and config changes', () => {
+    const steps = parseSetScript(`0:00 Funk=1.0 Bossa Nova=0.3
+1:30 fade Funk->Minimal Techno over 8 bars
+3:00 set bpm=124 scale=D_MAJOR_B_MINOR`);
+    expect(steps.map(({line, time, action}) => ({line, time, action}))).toEqual(
+      [
+        {
+          line: 1,
+          time: 0,
+          action: {
+            kind: 'weights',
+            weights: [
+              {text: 'Funk', weight: 1},
+              {text: 'Bossa Nova', weight: 0.3},
+            ],
+          },
+        },
+        {
+          line: 2,
+          time: 90,
+          action: {
+            kind: 'fade',
+            from: 'Funk',
+            to: 'Minimal Techno',
+            length: 8,
+            unit: 'bars',
+          },
+        },
+        {
+          line: 3,
+          time: 180,
+          action: {kind: 'set', config: {bpm: 124, scale: 'D_MAJOR_B_MINOR'}},
+        },
+      ],
+    );
+    expect(steps[1].source).toBe('1:30 fade Funk->Minimal Techno over 8 bars');
+  });
+
+  it('skips blank lines and comments, counting them as lines', () => {
+    const steps = parseSetScript('# Warm up\n\n   \n0:10 Funk=1');
+    expect(steps).toHaveLength(1);
+    expect(steps[0].line).toBe(4);
+  });
+
+  it('reads hours and fractional seconds', () => {
+    const [first, second] = parseSetScript(
+      '0:05.5 Funk=1\n1:02:03 Funk=0.5',
+    );
+    expect(first.time).toBe(5.5);
+    expect(second.time).toBe(3723);
+  });
+
+  it('fades over seconds, in any case', () => {
+    const [step] = parseSetScript('0:00 FADE Funk -> Dub over 4.5 s');
+    expect(step.action).toEqual({
+      kind: 'fade',
+      from: 'Funk',
+      to: 'Dub',
+      length: 4.5,
+      unit: 'seconds',
+    });
+  });
+
+  it('allows steps at the same time', () => {
+    expect(parseSetScript('0:30 Funk=1\n0:30 set bpm=100')).toHaveLength(2);
+  });
+
+  it('rejects times that are not m:ss', () => {
+    expect(problemsOf('90 Funk=1')).toEqual([
+      {line: 1, message: '"90" is not a time like 1:30'},
+    ]);
+    expect(problemsOf('1:75 Funk=1')[0].message).toContain('not a time');
+    expect(problemsOf('1:60:00 Funk=1')[0].message).toContain('not a time');
+  });
+
+  it('rejects steps out of order', () => {
+    expect(problemsOf('1:00 Funk=1\n0:30 Funk=0')).toEqual([
+      {line: 2, message: '0:30 comes before the previous step at 1:00'},
+    ]);
+  });
+
+  it('rejects a time with nothing to do', () => {
+    expect(problemsOf('0:30')).toEqual([
+      {line: 1, message: 'nothing to do at this time'},
+    ]);
+  });
+
+  it('rejects weights outside 0–2', () => {
+    expect(problemsOf('0:00 Funk=3 Dub=-1 Jazz=lots')).toEqual([
+      {line: 1, message: 'weight of "Funk" must be 0–2'},
+      {line: 1, message: 'weight of "Dub" must be 0–2'},
+      {line: 1, message: 'weight of "Jazz" must be 0–2'},
+    ]);
+  });
+
+  it('rejects text that is not weights, a fade or a set', () => {
+    expect(problemsOf('0:00 play something')[0].message).toBe(
+      'expected prompt weights like "Funk=1.0", fade or set',
+    );
+    expect(problemsOf('0:00 Funk=1 and more')[0].message).toContain(
+      'expected prompt weights',
+    );
+  });
+
+  it('rejects malformed fades', () => {
+    expect(problemsOf('0:00 fade Funk over 8 bars')[0].message).toBe(
+      'expected "fade <prompt>-><prompt> over <n> bars"',
+    );
+    expect(problemsOf('0:00 fade Funk->funk over 8 bars')[0].message).toBe(
+      'a fade needs two different prompts',
+    );
+    expect(problemsOf('0:00 fade Funk->Dub over 0 bars')[0].message).toBe(
+      'a fade needs a length',
+    );
+  });
+
+  it('rejects malformed and invalid config', () => {
+    expect(
+      problemsOf('0:00 set bpm 120\n0:10 set bpm=500 foo=1'),
+    ).toEqual([
+      {line: 1, message: 'expected key=value, got "bpm"'},
+      {line: 1, message: 'expected key=value, got "120"'},
+      {line: 2, message: 'bpm 500 is outside 60–200'},
+      {line: 2, message: 'unknown config parameter "foo"'},
+    ]);
+  });
+
+  it('lists the problems of every line', () => {
+    const error = (() => {
+      try {
+        parseSetScript('x Funk=1\n0:10 Funk=1\n0:05 Funk=9');
+      } catch (e) {
+        return e as SetScriptError;
+      }
+    })();
+    expect(error).toBeInstanceOf(SetScriptError);
+    expect(error!.problems.map((p) => p.line)).toEqual([1, 3, 3]);
+    expect(error!.message).toMatch(/^Invalid script: line 1: /);
+  });
+});
+
+describe('parseConfigValue', () => {
+  it('reads booleans and numbers, leaving anything else a string', () => {
+    expect(parseConfigValue('true')).toBe(true);
+    expect(parseConfigValue('false')).toBe(false);
+    expect(parseConfigValue('0.5')).toBe(0.5);
+    expect(parseConfigValue('D_MAJOR_B_MINOR')).toBe('D_MAJOR_B_MINOR');
+    expect(parseConfigValue('')).toBe('');
+    expect(parseConfigValue('Infinity')).toBe('Infinity');
+  });
+});
+
+describe('formatScriptTime', () => {
+  it('formats whole seconds as m:ss', () => {
+    expect(formatScriptTime(0)).toBe('0:00');
+    expect(formatScriptTime(90.9)).toBe('1:30');
+    expect(formatScriptTime(3723)).toBe('62:03');
+    expect(formatScriptTime(-5)).toBe('0:00');
+  });
+});
@@ -0,0 +1,376 @@
+/**
+ * @fileoverview A text format for sets written ahead of time: a timeline of
+ * prompt weights, crossfades and config changes, with its parser and runner.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * One step per line, at a time from the start of the set:
+ *
+ *     0:00 Funk=1.0 Bossa Nova=0.3
+ *     1:30 fade Funk->Minimal Techno over 8 bars
+ *     3:00 set bpm=124 scale=D_MAJOR_B_MINOR
+ *
+ * Blank lines and lines starting with `#` are ignored.
+ */
+
+import type {LiveMusicGenerationConfig} from '@google/genai';
+import {barsToSeconds} from './scenes';
+import {validateConfig} from './session_document';
+
+export type ScriptAction =
+  | {kind: 'weights'; weights: Array<{text: string; weight: number}>}
+  /** Fades `from` out and `to` in, to the weight `from` had (or 1). */
+  | {
+      kind: 'fade';
+      from: string;
+      to: string;
+      length: number;
+      unit: 'bars' | 'seconds';
+    }
+  | {kind: 'set'; config: LiveMusicGenerationConfig};
+
+export interface ScriptStep {
+  /** The line of the script, counted from 1. */
+  line: number;
+  /** Seconds from the start of the set. */
+  time: number;
+  action: ScriptAction;
+  /** The line as written, for display. */
+  source: string;
+}
+
+export interface ScriptProblem {
+  line: number;
+  message: string;
+}
+
+/** Lists every problem in a script, each with its line. */
+export class SetScriptError extends Error {
+  constructor(readonly problems: ScriptProblem[]) {
+    super(
+      `Invalid script: ${problems
+        .map((p) => `line ${p.line}: ${p.message}`)
+        .join('; ')}`,
+    );
+  }
+}
+
+/** The highest weight a card can be set to. */
+const MAX_WEIGHT = 2;
+
+const SCRIPT_STORAGE_KEY = 'setScript';
+
+export function getStoredSetScript() {
+  return window.localStorage.getItem(SCRIPT_STORAGE_KEY) ?? '';
+}
+
+export function setStoredSetScript(script: string) {
+  window.localStorage.setItem(SCRIPT_STORAGE_KEY, script);
+}
+
+/** Formats seconds as `m:ss`, the way scripts write times. */
+export function formatScriptTime(seconds: number) {
+  const whole = Math.max(0, Math.floor(seconds));
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+}
+
+/** Parses `m:ss` or `h:mm:ss`, with optional fractional seconds. */
+function parseTime(text: string): number | null {
+  const match = /^(?:(\d+):)?(\d+):(\d{2}(?:\.\d+)?)$/.exec(text);
+  if (!match) return null;
+  const [, hours = '0', minutes, seconds] = match;
+  if (Number(seconds) >= 60 || (match[1] && Number(minutes) >= 60)) {
+    return null;
+  }
+  return Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds);
+}
+
+/** Reads `true`, `false` and numbers, leaving anything else a string. */
+export function parseConfigValue(value: string): unknown {
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  const number = Number(value);
+  return value !== '' && Number.isFinite(number) ? number : value;
+}
+
+function parseAction(text: string, problems: string[]): ScriptAction | null {
+  const fade =
+    /^fade\s+(.+?)\s*->\s*(.+?)\s+over\s+(\d+(?:\.\d+)?)\s*(bars?|s|seconds?)$/i.exec(
+      text,
+    );
+  if (fade) {
+    const [, from, to, length, unit] = fade;
+    if (from.toLowerCase() === to.toLowerCase()) {
+      problems.push('a fade needs two different prompts');
+    }
+    if (Number(length) <= 0) problems.push('a fade needs a length');
+    return {
+      kind: 'fade',
+      from,
+      to,
+      length: Number(length),
+      unit: unit.toLowerCase().startsWith('bar') ? 'bars' : 'seconds',
+    };
+  }
+  if (/^fade\b/i.test(text)) {
+    problems.push('expected "fade <prompt>-><prompt> over <n> bars"');
+    return null;
+  }
+
+  const set = /^set\s+(.*)$/i.exec(text);
+  if (set) {
+    const config: Record<string, unknown> = {};
+    for (const pair of set[1].trim().split(/\s+/)) {
+      const [key, value, ...rest] = pair.split('=');
+      if (!key || value === undefined || rest.length > 0) {
+        problems.push(`expected key=value, got "${pair}"`);
+        continue;
+      }
+      config[key] = parseConfigValue(value);
+    }
+    validateConfig(config, problems);
+    return {kind: 'set', config: config as LiveMusicGenerationConfig};
+  }
+
+  // Prompt texts may contain spaces, so each weight ends at the next space.
+  const pairs = [...text.matchAll(/\s*([^=]+?)\s*=\s*(\S+)/g)];
+  if (pairs.length === 0 || pairs.map((m) => m[0]).join('') !== text) {
+    problems.push('expected prompt weights like "Funk=1.0", fade or set');
+    return null;
+  }
+  const weights = pairs.map(([, promptText, value]) => {
+    const weight = Number(value);
+    if (!Number.isFinite(weight) || weight < 0 || weight > MAX_WEIGHT) {
+      problems.push(`weight of "${promptText}" must be 0–${MAX_WEIGHT}`);
+    }
+    return {text: promptText, weight};
+  });
+  return {kind: 'weights', weights};
+}
+
+/**
+ * Parses a script, throwing a `SetScriptError` that lists every problem
+ * found with its line.
+ */
+export function parseSetScript(script: string): ScriptStep[] {
+  const steps: ScriptStep[] = [];
+  const problems: ScriptProblem[] = [];
+  script.split('\n').forEach((raw, i) => {
+    const line = i + 1;
+    const source = raw.trim();
+    if (!source || source.startsWith('#')) return;
+    const [timeText] = source.split(/\s/, 1);
+    const time = parseTime(timeText);
+    const actionText = source.slice(timeText.length).trim();
+    const lineProblems: string[] = [];
+    if (time === null) {
+      lineProblems.push(`"${timeText}" is not a time like 1:30`);
+    } else if (steps.length > 0 && time < steps[steps.length - 1].time) {
+      lineProblems.push(
+        `${timeText} comes before the previous step at ${formatScriptTime(
+          steps[steps.length - 1].time,
+        )}`,
+      );
+    }
+    const action = actionText
+      ? parseAction(actionText, lineProblems)
+      : (lineProblems.push('nothing to do at this time'), null);
+    for (const message of lineProblems) problems.push({line, message});
+    if (lineProblems.length === 0 && time !== null && action) {
+      steps.push({line, time, action, source});
+    }
+  });
+  if (problems.length > 0) throw new SetScriptError(problems);
+  return steps;
+}
+
+/** What the runner drives; the app applies changes the way the UI does. */
+export interface SetScriptHost {
+  /** The current weight of the prompt with `text`, 0 if it isn't in the mix. */
+  getWeight(text: string): number;
+  /** Sets weights by prompt text, adding prompts that aren't in the mix. */
+  setWeights(weights: Map<string, number>): void;
+  /** Merges `config` into the current config. */
+  setConfig(config: LiveMusicGenerationConfig): void;
+  /** The tempo bars are counted in. */
+  getBpm(): number;
+  /** Called when the position or the run state changes. */
+  onChange(): void;
+}
+
+interface ActiveFade {
+  from: string;
+  to: string;
+  /** The weight `from` had, which `to` fades up to. */
+  weight: number;
+  toStart: number;
+  startTime: number;
+  duration: number;
+}
+
+export type ScriptRunState = 'stopped' | 'running' | 'paused';
+
+/**
+ * Plays a parsed script on the wall clock. It can be paused, skipped to its
+ * next step, or taken over by hand, which pauses it and lets go of any fade
+ * in progress.
+ */
+export class SetScriptRunner {
+  private steps: ScriptStep[] = [];
+  private nextIndex = 0;
+  private fades: ActiveFade[] = [];
+  /** Seconds into the set at `resumedAt`. */
+  private offset = 0;
+  private resumedAt = 0;
+  private timer: ReturnType<typeof setInterval> | undefined;
+  private runState: ScriptRunState = 'stopped';
+
+  constructor(
+    private readonly host: SetScriptHost,
+    // Frames are spaced wider than the 200ms send interval, so each is sent.
+    private readonly tickMs = 250,
+  ) {}
+
+  get state() {
+    return this.runState;
+  }
+
+  /** Seconds into the set. */
+  get position() {
+    return this.runState === 'running'
+      ? this.offset + (performance.now() - this.resumedAt) / 1000
+      : this.offset;
+  }
+
+  /** The last step that has run, if any. */
+  get currentStep(): ScriptStep | undefined {
+    return this.steps[this.nextIndex - 1];
+  }
+
+  get nextStep(): ScriptStep | undefined {
+    return this.steps[this.nextIndex];
+  }
+
+  start(steps: ScriptStep[]) {
+    this.stop();
+    this.steps = steps;
+    this.resume();
+  }
+
+  pause() {
+    if (this.runState !== 'running') return;
+    this.offset = this.position;
+    this.runState = 'paused';
+    this.stopTimer();
+    this.host.onChange();
+  }
+
+  resume() {
+    if (this.runState === 'running' || this.steps.length === 0) return;
+    this.resumedAt = performance.now();
+    this.runState = 'running';
+    this.timer = setInterval(() => this.tick(), this.tickMs);
+    this.tick();
+  }
+
+  /** Jumps to the next step and runs it, finishing any fade at once. */
+  skip() {
+    const next = this.nextStep;
+    if (!next) return;
+    this.finishFades();
+    this.offset = next.time;
+    this.resumedAt = performance.now();
+    this.tick();
+  }
+
+  /** Pauses, leaving the mix to the performer as it is. */
+  takeOver() {
+    this.fades = [];
+    this.pause();
+  }
+
+  stop() {
+    this.stopTimer();
+    this.steps = [];
+    this.fades = [];
+    this.nextIndex = 0;
+    this.offset = 0;
+    this.runState = 'stopped';
+    this.host.onChange();
+  }
+
+  private stopTimer() {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  private tick() {
+    const position = this.position;
+    while (this.nextStep && this.nextStep.time <= position) {
+      this.run(this.nextStep, position);
+      this.nextIndex++;
+    }
+    this.advanceFades(position);
+    if (!this.nextStep && this.fades.length === 0) {
+      this.offset = position;
+      this.stopTimer();
+      this.runState = 'stopped';
+    }
+    this.host.onChange();
+  }
+
+  private run(step: ScriptStep, position: number) {
+    const {action} = step;
+    switch (action.kind) {
+      case 'weights':
+        this.host.setWeights(
+          new Map(action.weights.map(({text, weight}) => [text, weight])),
+        );
+        break;
+      case 'set':
+        this.host.setConfig(action.config);
+        break;
+      case 'fade': {
+        const weight = this.host.getWeight(action.from) || 1;
+        this.fades.push({
+          from: action.from,
+          to: action.to,
+          weight,
+          toStart: this.host.getWeight(action.to),
+          // A late step still fades over its full length.
+          startTime: Math.max(step.time, position),
+          duration:
+            action.unit === 'bars'
+              ? barsToSeconds(action.length, this.host.getBpm())
+              : action.length,
+        });
+        break;
+      }
+    }
+  }
+
+  private advanceFades(position: number) {
+    if (this.fades.length === 0) return;
+    const weights = new Map<string, number>();
+    for (const fade of this.fades) {
+      const t = Math.min(1, (position - fade.startTime) / fade.duration);
+      weights.set(fade.from, fade.weight * (1 - t));
+      weights.set(fade.to, fade.toStart + (fade.weight - fade.toStart) * t);
+    }
+    this.fades = this.fades.filter(
+      (fade) => position < fade.startTime + fade.duration,
+    );
+    this.host.setWeights(weights);
+  }
+
+  private finishFades() {
+    if (this.fades.length === 0) return;
+    const weights = new Map<string, number>();
+    for (const fade of this.fades) {
+      weights.set(fade.from, 0);
+      weights.set(fade.to, fade.weight);
+    }
+    this.fades = [];
+    this.host.setWeights(weights);
+  }
+}
@@ -0,0 +1,202 @@
+/**
+ * @fileoverview An editor for set scripts, with their errors and the
+ * controls and timeline of the script being run.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {css, html, LitElement} from 'lit';
+import {customElement, property} from 'lit/decorators.js';
+import {classMap} from 'lit/directives/class-map.js';
+
+import {
+  formatScriptTime,
+  parseSetScript,
+  type ScriptProblem,
+  type ScriptRunState,
+  type ScriptStep,
+  SetScriptError,
+} from './set_script';
+
+const PLACEHOLDER = `0:00 Funk=1.0 Bossa Nova=0.3
+1:30 fade Funk->Minimal Techno over 8 bars
+3:00 set bpm=124 scale=D_MAJOR_B_MINOR`;
+
+/** Edits the script; the host owns the runner and passes its state down. */
+@customElement('set-script-panel')
+export class SetScriptPanel extends LitElement {
+  static override styles = css`
+    :host {
+      display: flex;
+      flex-direction: column;
+      gap: 8px;
+      color: #eee;
+      font-family: 'Google Sans', sans-serif;
+      font-size: 13px;
+    }
+    .toolbar {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+    }
+    .title {
+      font-weight: bold;
+      margin-right: auto;
+    }
+    textarea {
+      background: #111;
+      color: #eee;
+      border: 1px solid #666;
+      border-radius: 6px;
+      padding: 6px 8px;
+      font-family: monospace;
+      font-size: 12px;
+      min-height: 80px;
+      resize: vertical;
+    }
+    .problems {
+      color: #ff8a75;
+      margin: 0;
+      padding-left: 18px;
+    }
+    .position {
+      font-variant-numeric: tabular-nums;
+    }
+    .timeline {
+      max-height: 120px;
+      overflow-y: auto;
+      font-family: monospace;
+      font-size: 12px;
+    }
+    .step {
+      padding: 1px 4px;
+      color: #999;
+    }
+    .step.done {
+      color: #666;
+    }
+    .step.current {
+      color: #fff;
+      background: #333;
+      border-left: 2px solid #ff25f6;
+    }
+    .line {
+      display: inline-block;
+      min-width: 3em;
+      color: #777;
+    }
+    button {
+      background: #333;
+      color: #eee;
+      border: 1px solid #666;
+      border-radius: 6px;
+      padding: 4px 10px;
+      font-family: inherit;
+      cursor: pointer;
+    }
+    button:disabled {
+      opacity: 0.5;
+      cursor: default;
+    }
+  `;
+
+  @property({type: String}) script = '';
+  @property({type: String}) state: ScriptRunState = 'stopped';
+  /** Seconds into the running set. */
+  @property({type: Number}) position = 0;
+  @property({attribute: false}) steps: ScriptStep[] = [];
+  @property({attribute: false}) currentStep: ScriptStep | undefined;
+
+  private dispatch(name: string, detail?: unknown) {
+    this.dispatchEvent(
+      new CustomEvent(name, {detail, bubbles: true, composed: true}),
+    );
+  }
+
+  private getProblems(): ScriptProblem[] {
+    try {
+      parseSetScript(this.script);
+      return [];
+    } catch (e) {
+      if (!(e instanceof SetScriptError)) throw e;
+      return e.problems;
+    }
+  }
+
+  private renderControls(valid: boolean) {
+    const running = this.state === 'running';
+    return html`<div class="toolbar">
+      <span class="title">Set script</span>
+      ${this.state === 'stopped'
+        ? html`<button
+            ?disabled=${!valid || !this.script.trim()}
+            @click=${() => this.dispatch('script-run')}>
+            Run
+          </button>`
+        : html`
+            <span class="position">${formatScriptTime(this.position)}</span>
+            <button
+              @click=${() =>
+                this.dispatch(running ? 'script-pause' : 'script-resume')}>
+              ${running ? 'Pause' : 'Resume'}
+            </button>
+            <button @click=${() => this.dispatch('script-skip')}>Skip</button>
+            <button
+              ?disabled=${!running}
+              title="Pause the script and play the mix by hand"
+              @click=${() => this.dispatch('script-take-over')}>
+              Take over
+            </button>
+            <button @click=${() => this.dispatch('script-stop')}>Stop</button>
+          `}
+    </div>`;
+  }
+
+  private renderTimeline() {
+    const current = this.currentStep;
+    return html`<div class="timeline">
+      ${this.steps.map(
+        (step) =>
+          html`<div
+            class=${classMap({
+              step: true,
+              done: !!current && step.line < current.line,
+              current: step === current,
+            })}>
+            <span class="line">${step.line}</span>${step.source}
+          </div>`,
+      )}
+    </div>`;
+  }
+
+  override render() {
+    const problems = this.getProblems();
+    return html`
+      ${this.renderControls(problems.length === 0)}
+      ${this.state === 'stopped'
+        ? html`<textarea
+            spellcheck="false"
+            placeholder=${PLACEHOLDER}
+            .value=${this.script}
+            @input=${(e: Event) =>
+              this.dispatch(
+                'script-changed',
+                (e.target as HTMLTextAreaElement).value,
+              )}></textarea>`
+        : this.renderTimeline()}
+      ${problems.length > 0
+        ? html`<ul class="problems">
+            ${problems.map(
+              (p) => html`<li>Line ${p.line}: ${p.message}</li>`,
+            )}
+          </ul>`
+        : ''}
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'set-script-panel': SetScriptPanel;
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * @fileoverview Buttons to export, import and link to the current mix.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {css, html, LitElement} from 'lit';
+import {customElement, query} from 'lit/decorators.js';
+
+/** Exports the session as a file or link, and imports session files. */
+@customElement('share-panel')
+export class SharePanel extends LitElement {
+  static override styles = css`
+    :host {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      color: #eee;
+      font-family: 'Google Sans', sans-serif;
+      font-size: 13px;
+    }
+    .title {
+      font-weight: bold;
+      margin-right: auto;
+    }
+    button {
+      background: #333;
+      color: #eee;
+      border: 1px solid #666;
+      border-radius: 6px;
+      padding: 4px 10px;
+      font-family: inherit;
+      cursor: pointer;
+    }
+    input[type='file'] {
+      display: none;
+    }
+  `;
+
+  @query('input[type="file"]') private fileInput!: HTMLInputElement;
+
+  private dispatch(name: string, detail?: unknown) {
+    this.dispatchEvent(
+      new CustomEvent(name, {detail, bubbles: true, composed: true}),
+    );
+  }
+
+  private async handleFileChange() {
+    const file = this.fileInput.files?.[0];
+    if (!file) return;
+    this.dispatch('session-import', await file.text());
+    // Let the same file be picked again.
+    this.fileInput.value = '';
+  }
+
+  override render() {
+    return html`
+      <span class="title">Session</span>
+      <button @click=${() => this.dispatch('session-copy-link')}>
+        Copy link
+      </button>
+      <button @click=${() => this.dispatch('session-export')}>
+        Export JSON
+      </button>
+      <button @click=${() => this.fileInput.click()}>Import JSON</button>
+      <input
+        type="file"
+        accept="application/json,.json"
+        @change=${this.handleFileChange} />
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'share-panel': SharePanel;
+  }
+}
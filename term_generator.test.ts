@@ -0,0 +1,213 @@
+/**
+ * @fileoverview Tests for suggestion sanitizing and the offline, fallback
+ * and fake term generators.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {Scale} from '@google/genai';
+import {afterEach, describe, expect, it, vi} from 'vitest';
+
+import {
+  FakeTermGenerator,
+  FallbackTermGenerator,
+  KeywordTermGenerator,
+  sanitizeSuggestion,
+  type TermGenerator,
+} from './term_generator';
+
+const failing: TermGenerator = {
+  name: 'failing',
+  generate: () => Promise.reject(new Error('Quota exceeded')),
+};
+
+describe('sanitizeSuggestion', () => {
+  it('keeps valid terms and config', () => {
+    expect(
+      sanitizeSuggestion(
+        {
+          terms: [{text: 'Funk', weight: 1.5}],
+          bpm: 120,
+          scale: Scale.D_MAJOR_B_MINOR,
+          density: 0.4,
+          brightness: 0.6,
+        },
+        'test',
+      ),
+    ).toEqual({
+      terms: [{text: 'Funk', weight: 1.5}],
+      config: {
+        bpm: 120,
+        scale: Scale.D_MAJOR_B_MINOR,
+        density: 0.4,
+        brightness: 0.6,
+      },
+      source: 'test',
+    });
+  });
+
+  it('clamps weights and config into range', () => {
+    const {terms, config} = sanitizeSuggestion(
+      {
+        terms: [
+          {text: 'Loud', weight: 5},
+          {text: 'Quiet', weight: -1},
+        ],
+        bpm: 400.4,
+        density: 2,
+        brightness: -3,
+      },
+      'test',
+    );
+    expect(terms.map((t) => t.weight)).toEqual([2, 0]);
+    expect(config).toEqual({bpm: 200, density: 1, brightness: 0});
+  });
+
+  it('rounds the bpm', () => {
+    expect(sanitizeSuggestion({bpm: 99.6}, 'test').config.bpm).toBe(100);
+  });
+
+  it('drops blank and duplicate terms and trims the rest', () => {
+    const {terms} = sanitizeSuggestion(
+      {
+        terms: [
+          {text: '  Funk ', weight: 1},
+          {text: 'funk', weight: 2},
+          {text: '   ', weight: 1},
+          {weight: 1},
+          null,
+        ],
+      },
+      'test',
+    );
+    expect(terms).toEqual([{text: 'Funk', weight: 1}]);
+  });
+
+  it('weights a term 1 when its weight is not a number', () => {
+    const {terms} = sanitizeSuggestion(
+      {terms: [{text: 'Funk', weight: 'lots'}]},
+      'test',
+    );
+    expect(terms).toEqual([{text: 'Funk', weight: 1}]);
+  });
+
+  it('keeps at most six terms', () => {
+    const terms = Array.from({length: 10}, (_, i) => ({text: `T${i}`, weight: 1}));
+    expect(sanitizeSuggestion({terms}, 'test').terms).toHaveLength(6);
+  });
+
+  it('drops unknown and unspecified scales', () => {
+    expect(sanitizeSuggestion({scale: 'H_MAJOR'}, 'test').config).toEqual({});
+    expect(
+      sanitizeSuggestion({scale: Scale.SCALE_UNSPECIFIED}, 'test').config,
+    ).toEqual({});
+  });
+
+  it('ignores missing and non-numeric config', () => {
+    expect(
+      sanitizeSuggestion({bpm: null, density: 'dense'}, 'test').config,
+    ).toEqual({});
+  });
+
+  it('treats anything but an object as an empty suggestion', () => {
+    for (const raw of [null, undefined, 'Funk', 42, []]) {
+      expect(sanitizeSuggestion(raw, 'test')).toEqual({
+        terms: [],
+        config: {},
+        source: 'test',
+      });
+    }
+  });
+});
+
+describe('KeywordTermGenerator', () => {
+  const generator = new KeywordTermGenerator();
+
+  it('picks known keywords, weighting earlier ones higher', async () => {
+    const {terms, config, source} = await generator.generate(
+      'Mellow jazz piano, slow',
+    );
+    expect(terms.map((t) => t.text)).toEqual([
+      'Mellow',
+      'Jazz',
+      'Piano',
+      'Slow',
+      'Swing',
+      'Improvisation',
+    ]);
+    expect(terms[0].weight).toBeGreaterThan(terms[3].weight);
+    expect(terms.every((t) => t.weight >= 0.5)).toBe(true);
+    expect(config).toEqual({});
+    expect(source).toBe('keywords');
+  });
+
+  it('falls back to default terms when nothing matches', async () => {
+    const {terms} = await generator.generate('something nice');
+    expect(terms.map((t) => t.text)).toEqual([
+      'Melodic',
+      'Rhythmic',
+      'Harmonic',
+    ]);
+  });
+});
+
+describe('FakeTermGenerator', () => {
+  it('returns its canned suggestion and records the descriptions', async () => {
+    const fake = new FakeTermGenerator({
+      terms: [{text: 'Funk', weight: 1}],
+      config: {bpm: 100},
+    });
+    expect(await fake.generate('funky')).toEqual({
+      terms: [{text: 'Funk', weight: 1}],
+      config: {bpm: 100},
+      source: 'fake',
+    });
+    await fake.generate('funkier');
+    expect(fake.descriptions).toEqual(['funky', 'funkier']);
+  });
+
+  it('can answer from the description', async () => {
+    const fake = new FakeTermGenerator((description) => ({
+      terms: [{text: description.toUpperCase(), weight: 2}],
+      config: {},
+    }));
+    const {terms} = await fake.generate('dub');
+    expect(terms).toEqual([{text: 'DUB', weight: 2}]);
+  });
+});
+
+describe('FallbackTermGenerator', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('uses the primary when it succeeds', async () => {
+    const fallback = new FakeTermGenerator({terms: [], config: {}});
+    const generator = new FallbackTermGenerator(
+      new FakeTermGenerator({terms: [{text: 'Funk', weight: 1}], config: {}}),
+      fallback,
+    );
+    const {terms} = await generator.generate('funk');
+    expect(terms).toEqual([{text: 'Funk', weight: 1}]);
+    expect(fallback.descriptions).toEqual([]);
+  });
+
+  it('asks the fallback when the primary fails', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const fallback = new FakeTermGenerator({
+      terms: [{text: 'Ambient', weight: 1}],
+      config: {},
+    });
+    const generator = new FallbackTermGenerator(failing, fallback);
+    const suggestion = await generator.generate('calm');
+    expect(generator.name).toBe('failing');
+    expect(suggestion.source).toBe('fake');
+    expect(fallback.descriptions).toEqual(['calm']);
+  });
+
+  it('fails when the fallback fails too', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const generator = new FallbackTermGenerator(failing, failing);
+    await expect(generator.generate('calm')).rejects.toThrow('Quota exceeded');
+  });
+});
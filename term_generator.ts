@@ -0,0 +1,248 @@
+/**
+ * @fileoverview Turns a free text description into weighted prompt terms and
+ * suggested settings.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  GoogleGenAI,
+  type LiveMusicGenerationConfig,
+  Scale,
+  Type,
+} from '@google/genai';
+
+export interface GeneratedTerm {
+  text: string;
+  /** Suggested weight, from 0 to 2 like the prompt sliders. */
+  weight: number;
+}
+
+export type SuggestedConfig = Pick<
+  LiveMusicGenerationConfig,
+  'bpm' | 'scale' | 'density' | 'brightness'
+>;
+
+export interface TermSuggestion {
+  terms: GeneratedTerm[];
+  config: SuggestedConfig;
+  /** The name of the generator that produced the suggestion. */
+  source: string;
+}
+
+export interface TermGenerator {
+  /** A short, human readable name for the generator. */
+  readonly name: string;
+  generate(description: string): Promise<TermSuggestion>;
+}
+
+const MAX_TERMS = 6;
+
+function clamp(value: number, min: number, max: number) {
+  return Math.min(max, Math.max(min, value));
+}
+
+/**
+ * Validates a suggestion from an untrusted source, dropping anything that
+ * the session would reject.
+ */
+export function sanitizeSuggestion(
+  raw: unknown,
+  source: string,
+): TermSuggestion {
+  const data = (raw ?? {}) as Record<string, unknown>;
+  const seen = new Set<string>();
+  const terms: GeneratedTerm[] = [];
+  for (const term of Array.isArray(data.terms) ? data.terms : []) {
+    const text = typeof term?.text === 'string' ? term.text.trim() : '';
+    if (!text || seen.has(text.toLowerCase())) continue;
+    seen.add(text.toLowerCase());
+    const weight = Number(term.weight);
+    terms.push({text, weight: Number.isFinite(weight) ? clamp(weight, 0, 2) : 1});
+  }
+
+  const config: SuggestedConfig = {};
+  const bpm = Number(data.bpm);
+  if (data.bpm != null && Number.isFinite(bpm)) {
+    config.bpm = Math.round(clamp(bpm, 60, 200));
+  }
+  if (
+    typeof data.scale === 'string' &&
+    data.scale !== Scale.SCALE_UNSPECIFIED &&
+    (Object.values(Scale) as string[]).includes(data.scale)
+  ) {
+    config.scale = data.scale as Scale;
+  }
+  for (const key of ['density', 'brightness'] as const) {
+    const value = Number(data[key]);
+    if (data[key] != null && Number.isFinite(value)) {
+      config[key] = clamp(value, 0, 1);
+    }
+  }
+  return {terms: terms.slice(0, MAX_TERMS), config, source};
+}
+
+const RESPONSE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    terms: {
+      type: Type.ARRAY,
+      description: 'Short music prompts, such as genres, instruments or moods.',
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          text: {type: Type.STRING},
+          weight: {
+            type: Type.NUMBER,
+            description: 'How prominent the term should be, from 0.2 to 2.',
+          },
+        },
+        required: ['text', 'weight'],
+      },
+    },
+    bpm: {type: Type.INTEGER, description: 'Tempo from 60 to 200.'},
+    scale: {
+      type: Type.STRING,
+      enum: Object.values(Scale).filter((s) => s !== Scale.SCALE_UNSPECIFIED),
+    },
+    density: {type: Type.NUMBER, description: 'Note density from 0 to 1.'},
+    brightness: {type: Type.NUMBER, description: 'Tonal brightness from 0 to 1.'},
+  },
+  required: ['terms'],
+};
+
+/** Asks a Gemini text model for terms, using structured output. */
+export class GeminiTermGenerator implements TermGenerator {
+  readonly name = 'gemini';
+  private readonly ai: GoogleGenAI;
+
+  constructor(
+    apiKey: string,
+    private readonly model = 'gemini-2.5-flash',
+  ) {
+    this.ai = new GoogleGenAI({apiKey});
+  }
+
+  async generate(description: string): Promise<TermSuggestion> {
+    const response = await this.ai.models.generateContent({
+      model: this.model,
+      contents:
+        `Suggest up to ${MAX_TERMS} short prompts for a real time music ` +
+        `generator that together produce this music: ${description}\n` +
+        'Give each a weight. Only suggest bpm, scale, density or brightness ' +
+        'when the description implies them.',
+      config: {
+        responseMimeType: 'application/json',
+        responseSchema: RESPONSE_SCHEMA,
+      },
+    });
+    const text = response.text;
+    if (!text) throw new Error('The model returned no suggestion.');
+    const suggestion = sanitizeSuggestion(JSON.parse(text), this.name);
+    if (suggestion.terms.length === 0) {
+      throw new Error('The model returned no usable terms.');
+    }
+    return suggestion;
+  }
+}
+
+/** Offline generator that picks known keywords out of the description. */
+export class KeywordTermGenerator implements TermGenerator {
+  readonly name = 'keywords';
+
+  async generate(description: string): Promise<TermSuggestion> {
+    const terms = this.extractMusicTerms(description);
+    // Earlier terms matched the description more directly.
+    return {
+      terms: terms.map((text, i) => ({
+        text,
+        weight: Math.max(0.5, Math.round((1.2 - i * 0.15) * 100) / 100),
+      })),
+      config: {},
+      source: this.name,
+    };
+  }
+
+  private extractMusicTerms(prompt: string): string[] {
+    const musicKeywords = [
+      'jazz', 'rock', 'pop', 'classical', 'electronic', 'funk', 'blues', 'country',
+      'upbeat', 'mellow', 'energetic', 'calm', 'intense', 'smooth', 'driving',
+      'piano', 'guitar', 'drums', 'bass', 'saxophone', 'violin', 'trumpet',
+      'ambient', 'rhythmic', 'melodic', 'harmonic', 'percussive', 'vocal',
+      'fast', 'slow', 'medium', 'tempo', 'beat', 'groove'
+    ];
+
+    const words = prompt.toLowerCase().split(/\s+/);
+    const extractedTerms: string[] = [];
+
+    // Find matching keywords
+    words.forEach(word => {
+      const cleanWord = word.replace(/[^a-z]/g, '');
+      if (musicKeywords.includes(cleanWord)) {
+        extractedTerms.push(cleanWord.charAt(0).toUpperCase() + cleanWord.slice(1));
+      }
+    });
+
+    // If no keywords found, generate some based on common patterns
+    if (extractedTerms.length === 0) {
+      if (prompt.includes('upbeat') || prompt.includes('energetic') || prompt.includes('fast')) {
+        extractedTerms.push('Energetic', 'Fast Tempo', 'Driving Beat');
+      } else if (prompt.includes('calm') || prompt.includes('mellow') || prompt.includes('slow')) {
+        extractedTerms.push('Mellow', 'Ambient', 'Smooth');
+      } else {
+        // Default terms
+        extractedTerms.push('Melodic', 'Rhythmic', 'Harmonic');
+      }
+    }
+
+    // Add some variation based on prompt content
+    if (prompt.includes('jazz')) extractedTerms.push('Swing', 'Improvisation');
+    if (prompt.includes('rock')) extractedTerms.push('Power Chords', 'Driving');
+    if (prompt.includes('electronic')) extractedTerms.push('Synthesized', 'Digital');
+
+    // Limit to 6 terms max and remove duplicates
+    return [...new Set(extractedTerms)].slice(0, MAX_TERMS);
+  }
+}
+
+/** Uses `primary`, and `fallback` whenever the primary fails. */
+export class FallbackTermGenerator implements TermGenerator {
+  constructor(
+    private readonly primary: TermGenerator,
+    private readonly fallback: TermGenerator,
+  ) {}
+
+  get name() {
+    return this.primary.name;
+  }
+
+  async generate(description: string): Promise<TermSuggestion> {
+    try {
+      return await this.primary.generate(description);
+    } catch (e) {
+      console.warn(`${this.primary.name} term generation failed, using ${this.fallback.name}`, e);
+      return this.fallback.generate(description);
+    }
+  }
+}
+
+/** Returns canned suggestions and remembers what it was asked, for tests. */
+export class FakeTermGenerator implements TermGenerator {
+  readonly name = 'fake';
+  readonly descriptions: string[] = [];
+
+  constructor(
+    private readonly respond:
+      | Omit<TermSuggestion, 'source'>
+      | ((description: string) => Omit<TermSuggestion, 'source'>),
+  ) {}
+
+  async generate(description: string): Promise<TermSuggestion> {
+    this.descriptions.push(description);
+    const suggestion =
+      typeof this.respond === 'function'
+        ? this.respond(description)
+        : this.respond;
+    return {...suggestion, source: this.name};
+  }
+}
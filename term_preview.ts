@@ -0,0 +1,209 @@
+/**
+ * @fileoverview Previews generated terms before they touch the prompts.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {css, html, LitElement, type PropertyValues} from 'lit';
+import {customElement, property, state} from 'lit/decorators.js';
+
+import type {
+  GeneratedTerm,
+  SuggestedConfig,
+  TermSuggestion,
+} from './term_generator';
+
+export type TermApplyMode = 'replace' | 'merge';
+
+/** Detail of the `terms-applied` event. */
+export interface TermApplyDetail {
+  mode: TermApplyMode;
+  terms: GeneratedTerm[];
+  config: SuggestedConfig;
+}
+
+const CONFIG_LABELS: Record<keyof SuggestedConfig, string> = {
+  bpm: 'BPM',
+  scale: 'Scale',
+  density: 'Density',
+  brightness: 'Brightness',
+};
+
+/** Shows a suggestion and lets the user replace or merge with their prompts. */
+@customElement('term-preview')
+export class TermPreview extends LitElement {
+  static override styles = css`
+    :host {
+      display: block;
+      color: #eee;
+      font-family: 'Google Sans', sans-serif;
+      font-size: 13px;
+    }
+    .panel {
+      background: #222c;
+      border: 1px solid #555;
+      border-radius: 8px;
+      padding: 8px 12px;
+    }
+    .header {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      margin-bottom: 6px;
+    }
+    .title {
+      font-weight: bold;
+      margin-right: auto;
+    }
+    .source {
+      color: #888;
+      font-size: 11px;
+    }
+    .terms,
+    .config {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 6px;
+      margin-bottom: 6px;
+    }
+    label {
+      display: flex;
+      align-items: center;
+      gap: 4px;
+      background: #333;
+      border-radius: 12px;
+      padding: 2px 8px;
+      cursor: pointer;
+    }
+    .weight {
+      color: #aaa;
+      font-size: 11px;
+    }
+    .actions {
+      display: flex;
+      justify-content: flex-end;
+      gap: 8px;
+    }
+    button {
+      background: #333;
+      color: #eee;
+      border: 1px solid #666;
+      border-radius: 6px;
+      padding: 4px 10px;
+      font-family: inherit;
+      cursor: pointer;
+    }
+    button.primary {
+      border-color: #5200ff;
+      background: #5200ff;
+    }
+    button:disabled {
+      opacity: 0.4;
+      cursor: not-allowed;
+    }
+  `;
+
+  @property({attribute: false}) suggestion: TermSuggestion | null = null;
+
+  @state() private excluded = new Set<number>();
+  @state() private applyConfig = true;
+
+  override willUpdate(changed: PropertyValues<this>) {
+    if (changed.has('suggestion')) {
+      this.excluded = new Set();
+      this.applyConfig = true;
+    }
+  }
+
+  private dispatch(name: string, detail?: unknown) {
+    this.dispatchEvent(
+      new CustomEvent(name, {detail, bubbles: true, composed: true}),
+    );
+  }
+
+  private apply(mode: TermApplyMode) {
+    if (!this.suggestion) return;
+    this.dispatch('terms-applied', {
+      mode,
+      terms: this.suggestion.terms.filter((_, i) => !this.excluded.has(i)),
+      config: this.applyConfig ? this.suggestion.config : {},
+    } satisfies TermApplyDetail);
+  }
+
+  private toggleTerm(index: number) {
+    const excluded = new Set(this.excluded);
+    if (!excluded.delete(index)) excluded.add(index);
+    this.excluded = excluded;
+  }
+
+  override render() {
+    const suggestion = this.suggestion;
+    if (!suggestion) return html``;
+    const configEntries = Object.entries(suggestion.config) as Array<
+      [keyof SuggestedConfig, unknown]
+    >;
+    const selected = suggestion.terms.length - this.excluded.size;
+    return html`<div class="panel">
+      <div class="header">
+        <span class="title">Suggested prompts</span>
+        <span class="source">via ${suggestion.source}</span>
+      </div>
+      <div class="terms">
+        ${suggestion.terms.map(
+          (term, i) => html`<label>
+            <input
+              type="checkbox"
+              .checked=${!this.excluded.has(i)}
+              @change=${() => this.toggleTerm(i)} />
+            ${term.text}
+            <span class="weight">${term.weight.toFixed(1)}</span>
+          </label>`,
+        )}
+      </div>
+      ${configEntries.length > 0
+        ? html`<div class="config">
+            <label>
+              <input
+                type="checkbox"
+                .checked=${this.applyConfig}
+                @change=${(e: Event) => {
+                  this.applyConfig = (e.target as HTMLInputElement).checked;
+                }} />
+              Apply
+              ${configEntries
+                .map(([key, value]) =>
+                  typeof value === 'number' && !Number.isInteger(value)
+                    ? `${CONFIG_LABELS[key]} ${value.toFixed(2)}`
+                    : `${CONFIG_LABELS[key]} ${String(value)}`,
+                )
+                .join(', ')}
+            </label>
+          </div>`
+        : ''}
+      <div class="actions">
+        <button @click=${() => this.dispatch('terms-dismissed')}>
+          Dismiss
+        </button>
+        <button
+          title="Add these terms and keep your current prompts"
+          ?disabled=${selected === 0}
+          @click=${() => this.apply('merge')}>
+          Merge
+        </button>
+        <button
+          class="primary"
+          title="Replace your current prompts with these terms"
+          ?disabled=${selected === 0}
+          @click=${() => this.apply('replace')}>
+          Replace
+        </button>
+      </div>
+    </div>`;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'term-preview': TermPreview;
+  }
+}
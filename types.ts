@@ -0,0 +1,23 @@
+/**
+ * @fileoverview Types shared between the PromptDJ modules.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export interface Prompt {
+  readonly promptId: string;
+  readonly color: string;
+  text: string;
+  weight: number;
+}
+
+export type PlaybackState = 'stopped' | 'playing' | 'loading' | 'paused';
+
+export type VisualizerMode = 'off' | 'spectrum' | 'waveform' | 'beat';
+
+export const VISUALIZER_MODES: readonly VisualizerMode[] = [
+  'off',
+  'spectrum',
+  'waveform',
+  'beat',
+];
@@ -1,6 +1,6 @@
 import {Blob} from '@google/genai';
 
-function encode(bytes) {
+function encode(bytes: Uint8Array) {
   let binary = '';
   const len = bytes.byteLength;
   for (let i = 0; i < len; i++) {
@@ -9,7 +9,7 @@ function encode(bytes) {
   return btoa(binary);
 }
 
-function decode(base64) {
+function decode(base64: string) {
   const binaryString = atob(base64);
   const len = binaryString.length;
   const bytes = new Uint8Array(len);
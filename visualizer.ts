@@ -0,0 +1,223 @@
+/**
+ * @fileoverview Draws the output signal as a spectrum, a waveform or
+ * beat-reactive shapes, in the colors of the active prompts.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {css, html, LitElement, type PropertyValues} from 'lit';
+import {customElement, property, query} from 'lit/decorators.js';
+
+import type {VisualizerMode} from './types';
+
+const FALLBACK_COLOR = '#5200ff';
+
+/** Frame rate cap in low CPU mode. */
+const LOW_CPU_FPS = 15;
+
+/**
+ * Flags a beat when the bass energy jumps well above its recent average.
+ */
+export class BeatDetector {
+  private average = 0;
+  private lastBeat = -Infinity;
+
+  constructor(
+    private readonly threshold = 1.35,
+    private readonly cooldownMs = 250,
+  ) {}
+
+  /** `energy` is the bass level from 0 to 1, `now` in milliseconds. */
+  update(energy: number, now: number): boolean {
+    const isBeat =
+      energy > 0.05 &&
+      energy > this.average * this.threshold &&
+      now - this.lastBeat > this.cooldownMs;
+    this.average = this.average * 0.95 + energy * 0.05;
+    if (isBeat) this.lastBeat = now;
+    return isBeat;
+  }
+}
+
+/** Renders an `AnalyserNode` onto a canvas that fills the element. */
+@customElement('audio-visualizer')
+export class AudioVisualizer extends LitElement {
+  static override styles = css`
+    :host {
+      display: block;
+      pointer-events: none;
+    }
+    canvas {
+      display: block;
+      width: 100%;
+      height: 100%;
+    }
+  `;
+
+  @property({attribute: false}) analyser: AnalyserNode | null = null;
+  /** The palette, most prominent first. */
+  @property({attribute: false}) colors: string[] = [];
+  @property({type: String}) mode: VisualizerMode = 'spectrum';
+  /** Fewer bars, a smaller FFT, a lower resolution and a capped frame rate. */
+  @property({type: Boolean}) lowCpu = false;
+
+  @query('canvas') private canvas!: HTMLCanvasElement;
+
+  private frame: number | undefined;
+  private lastDraw = 0;
+  private pulse = 0;
+  private cleared = false;
+  private readonly beatDetector = new BeatDetector();
+  private frequencyData = new Uint8Array(0);
+  private timeData = new Uint8Array(0);
+
+  override connectedCallback() {
+    super.connectedCallback();
+    this.frame = requestAnimationFrame(this.loop);
+  }
+
+  override disconnectedCallback() {
+    super.disconnectedCallback();
+    if (this.frame !== undefined) cancelAnimationFrame(this.frame);
+    this.frame = undefined;
+  }
+
+  override updated(changed: PropertyValues<this>) {
+    if ((changed.has('analyser') || changed.has('lowCpu')) && this.analyser) {
+      this.analyser.fftSize = this.lowCpu ? 512 : 2048;
+      this.analyser.smoothingTimeConstant = 0.8;
+      this.frequencyData = new Uint8Array(this.analyser.frequencyBinCount);
+      this.timeData = new Uint8Array(this.analyser.fftSize);
+    }
+  }
+
+  private loop = (now: number) => {
+    this.frame = requestAnimationFrame(this.loop);
+    const context = this.canvas?.getContext('2d');
+    if (!context) return;
+    if (this.mode === 'off' || !this.analyser) {
+      if (!this.cleared) {
+        context.clearRect(0, 0, this.canvas.width, this.canvas.height);
+        this.cleared = true;
+      }
+      return;
+    }
+    if (this.lowCpu && now - this.lastDraw < 1000 / LOW_CPU_FPS) return;
+    const elapsed = Math.min(now - this.lastDraw, 100);
+    this.lastDraw = now;
+    this.cleared = false;
+
+    this.resizeCanvas();
+    const {width, height} = this.canvas;
+    context.clearRect(0, 0, width, height);
+    const colors = this.colors.length > 0 ? this.colors : [FALLBACK_COLOR];
+    // Beats are detected in every mode, for the tempo as well as the shapes.
+    this.analyser.getByteFrequencyData(this.frequencyData);
+    const bass = this.getBassLevel();
+    if (this.beatDetector.update(bass, now)) {
+      this.pulse = 1;
+      this.dispatchEvent(new CustomEvent<number>('beat', {detail: now}));
+    }
+    this.pulse = Math.max(0, this.pulse - elapsed / 300);
+    if (this.mode === 'spectrum') {
+      this.drawSpectrum(context, colors);
+    } else if (this.mode === 'waveform') {
+      this.analyser.getByteTimeDomainData(this.timeData);
+      this.drawWaveform(context, colors);
+    } else {
+      this.drawBeat(context, colors, now, bass);
+    }
+  };
+
+  /** The level of the bass, from 0 to 1. */
+  private getBassLevel() {
+    const data = this.frequencyData;
+    // Roughly the bottom 150 Hz at 48 kHz.
+    const bassBins = Math.max(1, Math.round((150 / 24000) * data.length));
+    let bass = 0;
+    for (let i = 0; i < bassBins; i++) bass += data[i];
+    return bass / (bassBins * 255);
+  }
+
+  private resizeCanvas() {
+    const scale = this.lowCpu ? 0.5 : window.devicePixelRatio || 1;
+    const width = Math.round(this.clientWidth * scale);
+    const height = Math.round(this.clientHeight * scale);
+    if (this.canvas.width !== width || this.canvas.height !== height) {
+      this.canvas.width = width;
+      this.canvas.height = height;
+    }
+  }
+
+  private drawSpectrum(context: CanvasRenderingContext2D, colors: string[]) {
+    const {width, height} = this.canvas;
+    const data = this.frequencyData;
+    const bars = this.lowCpu ? 32 : 96;
+    const barWidth = width / bars;
+    for (let i = 0; i < bars; i++) {
+      // Spread the bins logarithmically, as we hear them.
+      const from = Math.floor(data.length ** (i / bars)) - 1;
+      const to = Math.max(from + 1, Math.floor(data.length ** ((i + 1) / bars)) - 1);
+      let sum = 0;
+      for (let j = from; j < to; j++) sum += data[j];
+      const level = sum / (to - from) / 255;
+      const barHeight = level * height * 0.6;
+      context.fillStyle = `${colors[i % colors.length]}b0`;
+      context.fillRect(i * barWidth + 1, height - barHeight, barWidth - 2, barHeight);
+    }
+  }
+
+  private drawWaveform(context: CanvasRenderingContext2D, colors: string[]) {
+    const {width, height} = this.canvas;
+    const data = this.timeData;
+    const gradient = context.createLinearGradient(0, 0, width, 0);
+    colors.forEach((color, i) => {
+      gradient.addColorStop(colors.length === 1 ? 0 : i / (colors.length - 1), color);
+    });
+    context.strokeStyle = gradient;
+    context.lineWidth = Math.max(2, height / 200);
+    context.beginPath();
+    const step = this.lowCpu ? 4 : 1;
+    for (let i = 0; i < data.length; i += step) {
+      const x = (i / (data.length - 1)) * width;
+      const y = height / 2 + ((data[i] - 128) / 128) * height * 0.35;
+      if (i === 0) context.moveTo(x, y);
+      else context.lineTo(x, y);
+    }
+    context.stroke();
+  }
+
+  private drawBeat(
+    context: CanvasRenderingContext2D,
+    colors: string[],
+    now: number,
+    bass: number,
+  ) {
+    const {width, height} = this.canvas;
+    const base = Math.min(width, height) * 0.15;
+    colors.forEach((color, i) => {
+      const angle = (i / colors.length) * Math.PI * 2 + now / 4000;
+      const spread = colors.length === 1 ? 0 : base * (1 + this.pulse * 0.5);
+      const x = width / 2 + Math.cos(angle) * spread;
+      const y = height / 2 + Math.sin(angle) * spread;
+      const radius = base * (0.6 + bass * 0.8 + this.pulse * 0.6);
+      const gradient = context.createRadialGradient(x, y, 0, x, y, radius);
+      gradient.addColorStop(0, `${color}c0`);
+      gradient.addColorStop(1, `${color}00`);
+      context.fillStyle = gradient;
+      context.beginPath();
+      context.arc(x, y, radius, 0, Math.PI * 2);
+      context.fill();
+    });
+  }
+
+  override render() {
+    return html`<canvas></canvas>`;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'audio-visualizer': AudioVisualizer;
+  }
+}